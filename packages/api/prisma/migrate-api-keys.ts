@@ -0,0 +1,25 @@
+import { migrateLegacyApiKeys } from '../src/services/api-keys.js'
+import { prisma } from '../src/utils/prisma.js'
+
+/**
+ * One-off backfill: move plaintext Merchant.apiKey values into api_keys as
+ * salted hashes. Safe to run more than once.
+ */
+async function main() {
+  console.log('🔑 Hashing legacy API keys...')
+
+  const { merchantKeys, rehashedKeys } = await migrateLegacyApiKeys()
+
+  console.log(`✅ Migrated ${merchantKeys} merchant key(s), re-hashed ${rehashedKeys} publishable key(s)`)
+  console.log('   Unsalted secret keys are re-hashed on their next use.')
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ API key migration failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
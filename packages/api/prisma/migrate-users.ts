@@ -0,0 +1,28 @@
+import { migrateMerchantOwners } from '../src/services/users.js'
+import { prisma } from '../src/utils/prisma.js'
+
+/**
+ * One-off backfill: give every merchant created before team accounts an
+ * owner user with the merchant's email and password. Safe to run more than
+ * once.
+ */
+async function main() {
+  console.log('👥 Creating owner users for existing merchants...')
+
+  const { created, skipped } = await migrateMerchantOwners()
+
+  console.log(`✅ Created ${created} owner user(s)`)
+  for (const email of skipped) {
+    console.log(`   Skipped ${email}: the email already belongs to another user; invite them as owner instead.`)
+  }
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ User migration failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
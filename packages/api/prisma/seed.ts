@@ -1,6 +1,7 @@
 import { PrismaClient, SubscriptionPlan, SubscriptionStatus, ProductCategory } from '@prisma/client'
 import bcrypt from 'bcryptjs'
 import crypto from 'crypto'
+import { DEFAULT_API_KEY_NAME, createApiKey } from '../src/services/api-keys.js'
 
 const prisma = new PrismaClient()
 
@@ -17,6 +18,7 @@ async function main() {
   await prisma.customer.deleteMany()
   await prisma.product.deleteMany()
   await prisma.merchant.deleteMany()
+  await prisma.user.deleteMany()
 
   // ============================================================================
   // MERCHANTS
@@ -31,7 +33,6 @@ async function main() {
       email: 'john@luxefashion.com',
       password: hashedPassword,
       businessName: 'Luxe Fashion Boutique',
-      apiKey: `rfts_${crypto.randomBytes(32).toString('hex')}`,
       plan: SubscriptionPlan.MAISON,
       subscriptionStatus: SubscriptionStatus.ACTIVE,
       website: 'https://luxefashion.com',
@@ -41,7 +42,13 @@ async function main() {
       trialEndsAt: new Date('2024-02-01'),
       subscriptionEndsAt: new Date('2025-01-01'),
       allowedDomains: ['https://luxefashion.com', 'https://www.luxefashion.com'],
-      lastLoginAt: new Date()
+      lastLoginAt: new Date(),
+      memberships: {
+        create: {
+          role: 'OWNER',
+          user: { create: { email: 'john@luxefashion.com', password: hashedPassword, name: 'John Smith' } }
+        }
+      }
     }
   })
 
@@ -50,7 +57,6 @@ async function main() {
       email: 'sarah@urbanstyle.io',
       password: hashedPassword,
       businessName: 'Urban Style Co.',
-      apiKey: `rfts_${crypto.randomBytes(32).toString('hex')}`,
       plan: SubscriptionPlan.ATELIER,
       subscriptionStatus: SubscriptionStatus.TRIAL,
       website: 'https://urbanstyle.io',
@@ -59,15 +65,25 @@ async function main() {
       billingEmail: 'sarah@urbanstyle.io',
       trialEndsAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days from now
       allowedDomains: ['https://urbanstyle.io'],
-      lastLoginAt: new Date()
+      lastLoginAt: new Date(),
+      memberships: {
+        create: {
+          role: 'OWNER',
+          user: { create: { email: 'sarah@urbanstyle.io', password: hashedPassword, name: 'Sarah Johnson' } }
+        }
+      }
     }
   })
 
+  // Keys are stored hashed, so these logs are the only copy
+  const apiKey1 = await createApiKey(merchant1.id, { name: DEFAULT_API_KEY_NAME })
+  const apiKey2 = await createApiKey(merchant2.id, { name: DEFAULT_API_KEY_NAME })
+
   console.log(`✅ Created merchants:`)
   console.log(`   - ${merchant1.businessName} (${merchant1.email})`)
-  console.log(`   - API Key: ${merchant1.apiKey}`)
+  console.log(`   - API Key: ${apiKey1.key}`)
   console.log(`   - ${merchant2.businessName} (${merchant2.email})`)
-  console.log(`   - API Key: ${merchant2.apiKey}`)
+  console.log(`   - API Key: ${apiKey2.key}`)
 
   // ============================================================================
   // PRODUCTS - Merchant 1 (Luxe Fashion)
@@ -425,11 +441,11 @@ async function main() {
   console.log('\n🔑 Login Credentials:')
   console.log(`   Email: john@luxefashion.com`)
   console.log(`   Password: password123`)
-  console.log(`   API Key: ${merchant1.apiKey}`)
+  console.log(`   API Key: ${apiKey1.key}`)
   console.log('')
   console.log(`   Email: sarah@urbanstyle.io`)
   console.log(`   Password: password123`)
-  console.log(`   API Key: ${merchant2.apiKey}`)
+  console.log(`   API Key: ${apiKey2.key}`)
   console.log('\n' + '='.repeat(60))
 }
 
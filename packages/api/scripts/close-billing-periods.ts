@@ -0,0 +1,24 @@
+import { closeDuePeriods } from '../src/services/invoices.js'
+import { prisma } from '../src/utils/prisma.js'
+
+/**
+ * Close finished billing months now instead of waiting for the hourly job.
+ * Safe to run more than once; closed months are skipped.
+ */
+async function main() {
+  console.log('🧾 Closing finished billing periods...')
+
+  const closed = await closeDuePeriods()
+
+  console.log(`✅ Issued ${closed} invoice(s)`)
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Billing period close failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
@@ -0,0 +1,61 @@
+import { getMarginReport } from '../src/services/cost-ledger.js'
+import { billingMonth } from '../src/services/invoices.js'
+import { prisma } from '../src/utils/prisma.js'
+
+/**
+ * Print revenue vs AI cost vs storage cost per merchant and plan for a
+ * billing month, least profitable merchants first.
+ *
+ *   npm run report:margins
+ *   npm run report:margins -- 2024-01
+ *   npm run report:margins -- 2024-01 --json
+ */
+async function main() {
+  const args = process.argv.slice(2)
+  const month = args.find(arg => !arg.startsWith('--')) || billingMonth()
+
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    throw new Error('Usage: report:margins [YYYY-MM] [--json]')
+  }
+
+  const report = await getMarginReport(month)
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2))
+    return
+  }
+
+  console.log(`📊 Gross margin for ${report.month} (${report.currency})\n`)
+
+  console.table(report.merchants.map(row => ({
+    merchant: row.businessName,
+    plan: row.plan,
+    revenue: row.revenue,
+    invoiced: row.invoiced,
+    aiCost: row.aiCost,
+    storageCost: row.storageCost,
+    grossMargin: row.grossMargin,
+    'margin %': row.marginPercent,
+    calls: row.providerCalls,
+    cached: row.cachedCalls,
+    failed: row.failedCalls
+  })))
+
+  console.table(report.plans)
+  console.table([report.totals])
+
+  const unprofitable = report.merchants.filter(row => row.grossMargin < 0)
+  if (unprofitable.length > 0) {
+    console.log(`⚠ ${unprofitable.length} merchant(s) cost more than they paid this month`)
+  }
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Margin report failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
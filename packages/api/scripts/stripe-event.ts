@@ -0,0 +1,85 @@
+import fetch from 'node-fetch'
+import { signStripePayload } from '../src/services/stripe.js'
+import { priceIdForPlan } from '../src/services/subscriptions.js'
+import { prisma } from '../src/utils/prisma.js'
+
+/**
+ * Send a signed Stripe webhook event to a local API, for use with the
+ * stripe-mock stand-in (which does not send webhooks itself).
+ *
+ *   npm run stripe:event -- invoice.paid john@luxefashion.com
+ *   npm run stripe:event -- customer.subscription.updated john@luxefashion.com past_due
+ */
+const API_URL = process.env.API_URL || 'http://localhost:3001'
+
+async function main() {
+  const [type, email, subscriptionStatus = 'active'] = process.argv.slice(2)
+  const secret = process.env.STRIPE_WEBHOOK_SECRET
+
+  if (!type || !email || !secret) {
+    throw new Error('Usage: stripe:event <event type> <merchant email> [subscription status]; STRIPE_WEBHOOK_SECRET must be set')
+  }
+
+  const merchant = await prisma.merchant.findUnique({ where: { email } })
+
+  if (!merchant?.stripeCustomerId) {
+    throw new Error(`${email} has no Stripe customer yet - start a checkout from the dashboard first`)
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const periodEnd = now + 30 * 24 * 60 * 60
+  const subscriptionId = merchant.stripeSubscriptionId || `sub_local_${merchant.id}`
+
+  const object = type.startsWith('invoice.')
+    ? {
+        id: `in_local_${now}`,
+        object: 'invoice',
+        customer: merchant.stripeCustomerId,
+        subscription: subscriptionId,
+        amount_paid: type === 'invoice.paid' ? 9900 : 0,
+        amount_due: 9900,
+        currency: 'usd',
+        billing_reason: 'subscription_cycle',
+        hosted_invoice_url: null,
+        lines: { data: [{ period: { start: now, end: periodEnd } }] }
+      }
+    : {
+        id: subscriptionId,
+        object: 'subscription',
+        customer: merchant.stripeCustomerId,
+        status: subscriptionStatus,
+        current_period_end: periodEnd,
+        trial_end: null,
+        cancel_at_period_end: false,
+        items: { data: [{ id: `si_local_${merchant.id}`, price: { id: priceIdForPlan(merchant.plan) } }] },
+        metadata: { merchantId: merchant.id }
+      }
+
+  const payload = JSON.stringify({
+    id: `evt_local_${now}`,
+    type,
+    created: now,
+    data: { object }
+  })
+
+  const response = await fetch(`${API_URL}/api/webhooks/stripe`, {
+    method: 'POST',
+    body: payload,
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': signStripePayload(secret, payload, now)
+    }
+  })
+
+  console.log(`${type} -> ${response.status} ${await response.text()}`)
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌', e.message)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
@@ -1,20 +1,14 @@
 import { Response } from 'express'
+import { ApiKeyScope, ApiKeyType } from '@prisma/client'
 import { AuthRequest } from '../middleware/auth.js'
-import crypto from 'crypto'
+import * as apiKeyService from '../services/api-keys.js'
+import { auditRequest } from '../services/audit.js'
 
 export const listApiKeys = async (req: AuthRequest, res: Response) => {
   try {
-    // TODO: Fetch from database
-    const apiKeys = [
-      {
-        id: '1',
-        name: 'Production Store',
-        key: 'rfts_prod_xxxxxxxxxx',
-        createdAt: new Date().toISOString()
-      }
-    ]
+    const apiKeys = await apiKeyService.listApiKeys(req.merchantId!)
 
-    res.json({ apiKeys })
+    res.json({ apiKeys: apiKeys.map(apiKeyService.serializeApiKey) })
   } catch (error) {
     console.error('List API keys error:', error)
     res.status(500).json({ error: 'Failed to fetch API keys' })
@@ -23,25 +17,52 @@ export const listApiKeys = async (req: AuthRequest, res: Response) => {
 
 export const createApiKey = async (req: AuthRequest, res: Response) => {
   try {
-    const { name } = req.body
+    const { name, type = 'SECRET', scopes, expiresAt } = req.body
 
-    if (!name) {
-      return res.status(400).json({ error: 'Name is required' })
+    if (!name || typeof name !== 'string' || name.trim().length > 100) {
+      return res.status(400).json({ error: 'Name is required (max 100 characters)' })
     }
 
-    // Generate API key
-    const key = `rfts_${crypto.randomBytes(32).toString('hex')}`
+    if (!Object.values(ApiKeyType).includes(type)) {
+      return res.status(400).json({ error: 'Type must be PUBLISHABLE or SECRET' })
+    }
 
-    // TODO: Save to database
-    const apiKey = {
-      id: Date.now().toString(),
-      name,
-      key,
-      userId: req.userId,
-      createdAt: new Date().toISOString()
+    if (scopes !== undefined && (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      scopes.some((scope: ApiKeyScope) => !apiKeyService.API_KEY_SCOPES.includes(scope))
+    )) {
+      return res.status(400).json({
+        error: `Scopes must be a non-empty list of: ${apiKeyService.API_KEY_SCOPES.join(', ')}`
+      })
+    }
+
+    let expiry: Date | null = null
+    if (expiresAt) {
+      expiry = new Date(expiresAt)
+      if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+        return res.status(400).json({ error: 'expiresAt must be a future date' })
+      }
     }
 
-    res.json({ success: true, apiKey })
+    const apiKey = await apiKeyService.createApiKey(req.merchantId!, {
+      name: name.trim(),
+      type,
+      scopes,
+      expiresAt: expiry
+    })
+
+    await auditRequest(req, {
+      action: 'api_key.create',
+      target: { type: 'api_key', id: apiKey.id },
+      metadata: { name: apiKey.name, type: apiKey.type, scopes: apiKey.scopes, lookupPrefix: apiKey.lookupPrefix }
+    })
+
+    // The full key is only returned here
+    res.status(201).json({
+      success: true,
+      apiKey: { ...apiKeyService.serializeApiKey(apiKey), key: apiKey.key }
+    })
   } catch (error) {
     console.error('Create API key error:', error)
     res.status(500).json({ error: 'Failed to create API key' })
@@ -52,11 +73,25 @@ export const deleteApiKey = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params
 
-    // TODO: Delete from database
+    const apiKey = await apiKeyService.revokeApiKey(id, req.merchantId!)
+
+    if (!apiKey) {
+      return res.status(404).json({ error: 'API key not found' })
+    }
+
+    await auditRequest(req, {
+      action: 'api_key.revoke',
+      target: { type: 'api_key', id: apiKey.id },
+      metadata: { name: apiKey.name, type: apiKey.type }
+    })
 
-    res.json({ success: true, message: 'API key deleted' })
+    res.json({
+      success: true,
+      message: 'API key revoked',
+      apiKey: apiKeyService.serializeApiKey(apiKey)
+    })
   } catch (error) {
     console.error('Delete API key error:', error)
-    res.status(500).json({ error: 'Failed to delete API key' })
+    res.status(500).json({ error: 'Failed to revoke API key' })
   }
 }
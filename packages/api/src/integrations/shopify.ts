@@ -2,6 +2,10 @@ import '@shopify/shopify-api/adapters/node'
 import { shopifyApi, ApiVersion, Session } from '@shopify/shopify-api'
 import crypto from 'crypto'
 import { prisma } from '../utils/prisma.js'
+import { emitWebhook } from '../services/webhook-delivery.js'
+import { allowDomains, getOrCreatePublishableKey } from '../services/api-keys.js'
+import { recordAuditEvent } from '../services/audit.js'
+import { normalizeCurrency } from '../services/currency.js'
 
 // Shopify App Configuration
 const SHOPIFY_API_KEY = process.env.SHOPIFY_API_KEY || ''
@@ -137,6 +141,9 @@ export async function installIntegration(
   // Register webhooks
   await registerWebhooks(merchantId, shop, accessToken)
 
+  // The script tag's publishable key only works on allowed domains
+  await allowShopDomains(merchantId, shop, accessToken)
+
   // Inject script tag
   await injectScriptTag(merchantId, shop, accessToken)
 
@@ -198,20 +205,48 @@ async function registerWebhooks(merchantId: string, shop: string, accessToken: s
   })
 }
 
+/**
+ * Add the store's myshopify.com address and primary domain to the
+ * merchant's allowed domains
+ */
+async function allowShopDomains(merchantId: string, shop: string, accessToken: string): Promise<void> {
+  const domains = [shop]
+  const client = new shopify.clients.Rest({ session: createSession(shop, accessToken) })
+
+  try {
+    const response = await client.get({ path: 'shop' })
+    const primaryDomain = (response.body as { shop?: { domain?: string } }).shop?.domain
+
+    if (primaryDomain) {
+      domains.push(primaryDomain)
+    }
+  } catch (error) {
+    console.error('❌ Failed to fetch the shop\'s primary domain:', error)
+  }
+
+  const change = await allowDomains(merchantId, domains)
+
+  if (change) {
+    await recordAuditEvent({
+      action: 'settings.update',
+      merchantId,
+      actor: { actorType: 'system', actorLabel: 'Shopify' },
+      target: { type: 'merchant', id: merchantId },
+      changes: { allowedDomains: change }
+    })
+
+    console.log(`✓ Allowed domains: ${change.to.join(', ')}`)
+  }
+}
+
 /**
  * Inject widget script tag into Shopify theme
  */
 async function injectScriptTag(merchantId: string, shop: string, accessToken: string): Promise<void> {
   console.log('💉 Injecting script tag...')
 
-  const merchant = await prisma.merchant.findUnique({
-    where: { id: merchantId },
-    select: { apiKey: true },
-  })
-
-  if (!merchant) {
-    throw new Error('Merchant not found')
-  }
+  // Script tags are public, so only a publishable key may go in the URL
+  const publishableKey = await getOrCreatePublishableKey(merchantId)
 
   const client = new shopify.clients.Rest({ session: createSession(shop, accessToken) })
 
@@ -221,7 +256,7 @@ async function injectScriptTag(merchantId: string, shop: string, accessToken: st
       data: {
         script_tag: {
           event: 'onload',
-          src: `${WIDGET_CDN_URL}?api_key=${merchant.apiKey}`,
+          src: `${WIDGET_CDN_URL}?api_key=${publishableKey.key}`,
         },
       },
     })
@@ -419,6 +454,9 @@ export async function handleOrderCreate(merchantId: string, orderData: any): Pro
     return
   }
 
+  // Line item prices are in the shop's currency
+  const orderCurrency = normalizeCurrency(orderData.currency)
+
   // Get line items and match to try-ons
   const lineItems = orderData.line_items || []
 
@@ -458,6 +496,7 @@ export async function handleOrderCreate(merchantId: string, orderData: any): Pro
           converted: true,
           convertedAt: new Date(),
           purchaseAmount: parseFloat(item.price),
+          purchaseCurrency: orderCurrency || product.currency,
         },
       })
 
@@ -474,9 +513,19 @@ export async function handleOrderCreate(merchantId: string, orderData: any): Pro
             orderNumber: orderData.order_number,
             productId: product.id,
             amount: parseFloat(item.price),
+            currency: orderCurrency || product.currency,
           },
         },
       })
+
+      emitWebhook(merchantId, 'conversion.recorded', {
+        tryOnId: tryOn.id,
+        productId: product.id,
+        orderId: orderData.id.toString(),
+        amount: parseFloat(item.price),
+        currency: orderCurrency || product.currency,
+        source: 'shopify',
+      })
     }
   }
 }
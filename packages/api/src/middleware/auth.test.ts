@@ -0,0 +1,88 @@
+import { fakePrisma } from '../test/prisma.js'
+import { describe, it, before } from 'node:test'
+import assert from 'node:assert/strict'
+import { Response } from 'express'
+import { SubscriptionStatus } from '@prisma/client'
+import { AuthRequest, verifyToken } from './auth.js'
+import { checkRateLimit } from './rateLimit.js'
+import { ApiError } from './errorHandler.js'
+import { createSession } from '../services/sessions.js'
+
+let subscriptionStatus: SubscriptionStatus = 'ACTIVE'
+
+fakePrisma.session = {
+  create: async () => ({ id: 'session_1', expiresAt: new Date(Date.now() + 60 * 60 * 1000) }),
+  findUnique: async () => ({
+    userId: 'user_1',
+    merchantId: 'merchant_1',
+    lastSeenAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    revokedAt: null
+  })
+}
+fakePrisma.membership = {
+  findUnique: async () => ({
+    role: 'OWNER',
+    user: { id: 'user_1', email: 'owner@example.com', name: null, emailVerifiedAt: new Date(), totpEnabledAt: null },
+    merchant: {
+      id: 'merchant_1',
+      subscriptionStatus,
+      trialEndsAt: null,
+      stripeSubscriptionId: 'sub_1',
+      allowedDomains: [],
+      requireTwoFactor: false
+    }
+  })
+}
+
+/**
+ * Run a middleware and return what it passed to next()
+ */
+async function run(
+  middleware: (req: AuthRequest, res: Response, next: (error?: unknown) => void) => unknown,
+  req: AuthRequest
+): Promise<ApiError | undefined> {
+  return new Promise(resolve => {
+    middleware(req, {} as Response, error => resolve(error as ApiError | undefined))
+  })
+}
+
+describe('dashboard access by subscription status', () => {
+  let token: string
+
+  before(async () => {
+    token = await createSession('user_1', 'merchant_1')
+  })
+
+  function request(): AuthRequest {
+    return { headers: { authorization: `Bearer ${token}` } } as AuthRequest
+  }
+
+  it('lets canceled merchants sign in to choose a plan', async () => {
+    subscriptionStatus = 'CANCELED'
+    const req = request()
+
+    assert.equal(await run(verifyToken, req), undefined)
+    assert.equal(req.merchantId, 'merchant_1')
+  })
+
+  it('does not let canceled merchants generate try-ons', async () => {
+    subscriptionStatus = 'CANCELED'
+    const req = request()
+    await run(verifyToken, req)
+
+    const error = await run(checkRateLimit, req)
+
+    assert.equal(error?.statusCode, 403)
+    assert.match(error!.message, /Subscription canceled/)
+  })
+
+  it('keeps suspended merchants out', async () => {
+    subscriptionStatus = 'SUSPENDED'
+
+    const error = await run(verifyToken, request())
+
+    assert.equal(error?.statusCode, 403)
+    assert.match(error!.message, /suspended/)
+  })
+})
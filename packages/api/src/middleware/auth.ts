@@ -1,18 +1,33 @@
 import { Request, Response, NextFunction } from 'express'
 import jwt from 'jsonwebtoken'
 import { prisma } from '../utils/prisma.js'
+import { ApiKey, ApiKeyScope, ApiKeyType, MemberRole } from '@prisma/client'
 import { unauthorized, forbidden } from './errorHandler.js'
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+import { resolveApiKey, assertApiKeyAccess, hasScope } from '../services/api-keys.js'
+import { checkTrial, trialExpiredError } from '../services/trials.js'
+import { verifySessionToken } from '../services/sessions.js'
+import { hasPermission, Permission } from '../services/team.js'
 
 // Extend Request type to include merchant data
 export interface AuthRequest extends Request {
   merchantId?: string
   merchant?: any
+  apiKey?: ApiKey // Set when authenticated with an API key rather than a JWT
+  user?: { // Set when authenticated with a JWT
+    id: string
+    email: string
+    name: string | null
+    emailVerifiedAt: Date | null
+    totpEnabledAt: Date | null
+  }
+  sessionId?: string // The JWT's server-side session
+  role?: MemberRole // The user's role on the merchant's team
 }
 
 /**
- * Verify JWT token for merchant dashboard authentication
+ * Verify JWT token for merchant dashboard authentication. The token names a
+ * user, the merchant they are acting on and a session; the session must not
+ * be revoked and the user must still be a member.
  */
 export const verifyToken = async (
   req: AuthRequest,
@@ -28,33 +43,59 @@ export const verifyToken = async (
     }
 
     // Verify JWT
-    const decoded = jwt.verify(token, JWT_SECRET) as { merchantId: string }
+    const { userId, merchantId, sessionId } = await verifySessionToken(token)
 
-    // Fetch merchant from database
-    const merchant = await prisma.merchant.findUnique({
-      where: { id: decoded.merchantId },
+    // Fetch the membership, with its user and merchant
+    const membership = await prisma.membership.findUnique({
+      where: { userId_merchantId: { userId, merchantId } },
       select: {
-        id: true,
-        email: true,
-        businessName: true,
-        plan: true,
-        subscriptionStatus: true,
-        apiKey: true
+        role: true,
+        user: { select: { id: true, email: true, name: true, emailVerifiedAt: true, totpEnabledAt: true } },
+        merchant: {
+          select: {
+            id: true,
+            email: true,
+            businessName: true,
+            plan: true,
+            subscriptionStatus: true,
+            trialEndsAt: true,
+            stripeSubscriptionId: true,
+            tryOnProvider: true,
+            reportingCurrency: true,
+            allowedDomains: true,
+            requireTwoFactor: true
+          }
+        }
       }
     })
 
-    if (!merchant) {
-      throw unauthorized('Invalid token - merchant not found')
+    if (!membership) {
+      throw unauthorized('Invalid token - you are no longer a member of this account')
+    }
+
+    const { merchant } = membership
+
+    // The team turned on required two-factor after this session started;
+    // signing in again walks the member through setting it up
+    if (merchant.requireTwoFactor && !membership.user.totpEnabledAt) {
+      throw unauthorized('Your team requires two-factor authentication - sign in again to set it up')
     }
 
+    // An expired trial or canceled subscription keeps dashboard access so
+    // the merchant can choose a plan; generating try-ons is refused instead
+    merchant.subscriptionStatus = await checkTrial(merchant)
+
     // Check subscription status
-    if (merchant.subscriptionStatus === 'SUSPENDED' || merchant.subscriptionStatus === 'CANCELED') {
-      throw forbidden('Account suspended or canceled')
+    if (merchant.subscriptionStatus === 'SUSPENDED') {
+      throw forbidden('Account suspended - please contact support')
     }
 
-    // Attach merchant to request
+    // Attach merchant, user and role to request
     req.merchantId = merchant.id
     req.merchant = merchant
+    req.user = membership.user
+    req.role = membership.role
+    req.sessionId = sessionId
 
     next()
   } catch (error) {
@@ -69,11 +110,11 @@ export const verifyToken = async (
 }
 
 /**
- * Verify API key for widget authentication
+ * Build API key middleware for the key types a route accepts
  */
-export const verifyApiKey = async (
+const apiKeyAuth = (acceptedTypes: ApiKeyType[]) => async (
   req: AuthRequest,
-  res: Response,
+  _res: Response,
   next: NextFunction
 ) => {
   try {
@@ -83,27 +124,14 @@ export const verifyApiKey = async (
       throw unauthorized('API key required')
     }
 
-    // Validate format
-    if (!apiKey.startsWith('rfts_')) {
-      throw unauthorized('Invalid API key format')
-    }
+    // Validates format, revocation and expiry
+    const resolved = await resolveApiKey(apiKey)
 
-    // Fetch merchant by API key
-    const merchant = await prisma.merchant.findUnique({
-      where: { apiKey },
-      select: {
-        id: true,
-        businessName: true,
-        plan: true,
-        subscriptionStatus: true,
-        allowedDomains: true,
-        email: true
-      }
-    })
+    // Key type, and allowed origins for publishable keys
+    assertApiKeyAccess(resolved, acceptedTypes, req.headers.origin)
 
-    if (!merchant) {
-      throw unauthorized('Invalid API key')
-    }
+    const { merchant, ...key } = resolved
+    merchant.subscriptionStatus = await checkTrial(merchant)
 
     // Check subscription status
     if (merchant.subscriptionStatus === 'SUSPENDED') {
@@ -118,21 +146,15 @@ export const verifyApiKey = async (
       throw forbidden('Payment past due - please update your payment method')
     }
 
-    // Verify CORS origin if configured
-    const origin = req.headers.origin
-    if (origin && merchant.allowedDomains.length > 0) {
-      const isAllowed = merchant.allowedDomains.some(domain =>
-        origin.includes(domain.replace(/^https?:\/\//, ''))
-      )
-
-      if (!isAllowed) {
-        throw forbidden(`Origin ${origin} not allowed for this API key`)
-      }
+    // Secret keys still reach billing and the catalog; the storefront widget stops
+    if (merchant.subscriptionStatus === 'TRIAL_EXPIRED' && acceptedTypes.includes('PUBLISHABLE')) {
+      throw trialExpiredError()
     }
 
-    // Attach merchant to request
+    // Attach merchant and key to request
     req.merchantId = merchant.id
     req.merchant = merchant
+    req.apiKey = key
 
     next()
   } catch (error) {
@@ -140,6 +162,84 @@ export const verifyApiKey = async (
   }
 }
 
+/**
+ * Verify a secret API key (server-side integrations and the dashboard)
+ */
+export const verifyApiKey = apiKeyAuth(['SECRET'])
+
+/**
+ * Verify a publishable or secret key for routes the storefront widget calls.
+ * Publishable keys must come from one of the merchant's allowed domains.
+ */
+export const verifyWidgetKey = apiKeyAuth(['PUBLISHABLE', 'SECRET'])
+
+/**
+ * Dashboard routes: accept a JWT (Authorization: Bearer) or an API key
+ */
+export const verifyTokenOrApiKey = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.headers.authorization?.startsWith('Bearer ')) {
+    return verifyToken(req, res, next)
+  }
+
+  return verifyApiKey(req, res, next)
+}
+
+/**
+ * Widget routes the dashboard also reads: accept a JWT or a publishable or
+ * secret key
+ */
+export const verifyTokenOrWidgetKey = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.headers.authorization?.startsWith('Bearer ')) {
+    return verifyToken(req, res, next)
+  }
+
+  return verifyWidgetKey(req, res, next)
+}
+
+/**
+ * Require a scope when the request was authenticated with an API key.
+ * JWT sessions are limited by their role instead (see requirePermission).
+ */
+export const requireScope = (scope: ApiKeyScope) => (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+) => {
+  if (req.apiKey && !hasScope(req.apiKey, scope)) {
+    return next(forbidden(`API key is missing the ${scope} scope`))
+  }
+
+  next()
+}
+
+/**
+ * Require a permission when the request was authenticated as a team member.
+ * API keys are limited by their scopes instead.
+ */
+export const requirePermission = (permission: Permission) => (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+) => {
+  if (req.role && !hasPermission(req.role, permission)) {
+    return next(forbidden(`Your ${req.role.toLowerCase()} role does not allow this - ask an account owner`, {
+      code: 'role_forbidden',
+      role: req.role,
+      permission
+    }))
+  }
+
+  next()
+}
+
 /**
  * Optional auth - doesn't fail if no token/key provided
  */
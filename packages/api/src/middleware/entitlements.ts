@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express'
+import { AuthRequest } from './auth.js'
+import { forbidden, paymentRequired, unauthorized } from './errorHandler.js'
+import {
+  EffectivePlan,
+  FEATURE_LABELS,
+  Feature,
+  getEffectivePlan,
+  minimumPlanFor
+} from '../services/plans.js'
+
+/**
+ * Throw unless the plan includes a feature. Catalog plans get a 402 with
+ * the plan to upgrade to; enterprise contracts get a 403, since only a
+ * contract change can add the feature.
+ */
+export function assertPlanFeature(plan: EffectivePlan, feature: Feature): void {
+  if (plan.features[feature]) {
+    return
+  }
+
+  const label = FEATURE_LABELS[feature]
+
+  if (plan.contract) {
+    throw forbidden(`${label} is not included in your contract`, {
+      code: 'feature_not_in_contract',
+      feature,
+      upgrade: {
+        contactSales: true,
+        message: 'Contact your account manager to add this feature'
+      }
+    })
+  }
+
+  const requiredPlan = minimumPlanFor(feature)
+
+  throw paymentRequired(
+    requiredPlan
+      ? `${label} requires the ${requiredPlan.name} plan`
+      : `${label} is not available on any plan`,
+    {
+      code: 'feature_not_in_plan',
+      feature,
+      currentPlan: plan.id,
+      upgrade: requiredPlan && {
+        plan: requiredPlan.id,
+        name: requiredPlan.name,
+        monthlyPrice: requiredPlan.monthlyPrice,
+        url: '/billing'
+      }
+    }
+  )
+}
+
+/**
+ * Throw unless the merchant's plan (or contract) includes a feature
+ */
+export async function assertFeature(merchantId: string, feature: Feature): Promise<void> {
+  assertPlanFeature(await getEffectivePlan(merchantId), feature)
+}
+
+/**
+ * Require a plan feature on an authenticated route. With `when`, the check
+ * only applies to requests that use the feature (e.g. a settings field).
+ */
+export const requireFeature = (feature: Feature, when?: (req: Request) => boolean) => async (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.merchantId) {
+      throw unauthorized('Authentication required')
+    }
+
+    if (when && !when(req)) {
+      return next()
+    }
+
+    await assertFeature(req.merchantId, feature)
+    next()
+  } catch (error) {
+    next(error)
+  }
+}
@@ -4,11 +4,13 @@ import { Request, Response, NextFunction } from 'express'
 export class ApiError extends Error {
   statusCode: number
   isOperational: boolean
+  details?: Record<string, unknown> // Extra fields for the response body, e.g. { code, upgrade }
 
-  constructor(statusCode: number, message: string, isOperational = true) {
+  constructor(statusCode: number, message: string, isOperational = true, details?: Record<string, unknown>) {
     super(message)
     this.statusCode = statusCode
     this.isOperational = isOperational
+    this.details = details
     Error.captureStackTrace(this, this.constructor)
   }
 }
@@ -29,11 +31,13 @@ export const errorHandler = (
   let statusCode = 500
   let message = 'Internal server error'
   let isOperational = false
+  let errorDetails: Record<string, unknown> | undefined
 
   if (err instanceof ApiError) {
     statusCode = err.statusCode
     message = err.message
     isOperational = err.isOperational
+    errorDetails = err.details
   }
 
   // Log error
@@ -44,12 +48,13 @@ export const errorHandler = (
   console.error('='.repeat(60))
 
   // Store error message for logging
-  (res as any).errorMessage = message
+  Object.assign(res, { errorMessage: message })
 
   // Send error response
   res.status(statusCode).json({
     success: false,
     error: message,
+    ...errorDetails,
     ...(process.env.NODE_ENV === 'development' && {
       stack: err.stack,
       details: err
@@ -58,10 +63,15 @@ export const errorHandler = (
 }
 
 // Error factory functions
-export const badRequest = (message: string) => new ApiError(400, message)
+export const badRequest = (message: string, details?: Record<string, unknown>) =>
+  new ApiError(400, message, true, details)
 export const unauthorized = (message: string) => new ApiError(401, message)
-export const forbidden = (message: string) => new ApiError(403, message)
+export const paymentRequired = (message: string, details?: Record<string, unknown>) =>
+  new ApiError(402, message, true, details)
+export const forbidden = (message: string, details?: Record<string, unknown>) =>
+  new ApiError(403, message, true, details)
 export const notFound = (message: string) => new ApiError(404, message)
 export const conflict = (message: string) => new ApiError(409, message)
-export const tooManyRequests = (message: string) => new ApiError(429, message)
+export const tooManyRequests = (message: string, details?: Record<string, unknown>) =>
+  new ApiError(429, message, true, details)
 export const internalError = (message: string) => new ApiError(500, message)
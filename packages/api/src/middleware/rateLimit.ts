@@ -1,14 +1,57 @@
 import { Response, NextFunction } from 'express'
 import { AuthRequest } from './auth.js'
 import { prisma } from '../utils/prisma.js'
-import { tooManyRequests } from './errorHandler.js'
-import { SubscriptionPlan } from '@prisma/client'
-
-// Plan limits per month
-const PLAN_LIMITS: Record<SubscriptionPlan, number> = {
-  [SubscriptionPlan.ATELIER]: 500,
-  [SubscriptionPlan.MAISON]: 2000,
-  [SubscriptionPlan.COUTURE]: 5000
+import { forbidden, tooManyRequests } from './errorHandler.js'
+import { isUnlimited } from '../services/plans.js'
+import { billingMonth } from '../services/invoices.js'
+import { allowanceExceeded, getUsageAllowance } from '../services/overage.js'
+import { trialExpiredError } from '../services/trials.js'
+
+// X-RateLimit-Policy values
+const POLICY_HEADER_VALUES = {
+  HARD_CAP: 'hard-cap',
+  OVERAGE: 'overage',
+  AUTO_UPGRADE: 'auto-upgrade'
+} as const
+
+/**
+ * Set the X-RateLimit-* headers for a merchant's monthly allowance: the
+ * plan quota plus whatever their overage policy allows on top. Returns the
+ * allowance and the try-ons used or reserved so far.
+ */
+export async function setUsageLimitHeaders(res: Response, merchantId: string) {
+  // Catalog quota or the enterprise contract's, extended by the overage policy
+  const allowance = await getUsageAllowance(merchantId)
+  const monthlyLimit = allowance.limit
+
+  res.setHeader('X-RateLimit-Policy', POLICY_HEADER_VALUES[allowance.effectivePolicy])
+
+  if (isUnlimited(monthlyLimit)) {
+    return { allowance, currentUsage: 0 }
+  }
+
+  // Get current month
+  const now = new Date()
+  const month = billingMonth(now)
+
+  const usage = await prisma.usageTracking.findUnique({
+    where: {
+      merchantId_month: {
+        merchantId,
+        month
+      }
+    }
+  })
+
+  // Units reserved by in-flight generations count as used
+  const currentUsage = (usage?.tryonCount || 0) + (usage?.reservedCount || 0)
+
+  // Add rate limit headers
+  res.setHeader('X-RateLimit-Limit', monthlyLimit.toString())
+  res.setHeader('X-RateLimit-Remaining', Math.max(0, monthlyLimit - currentUsage).toString())
+  res.setHeader('X-RateLimit-Reset', getEndOfMonth(now).toISOString())
+
+  return { allowance, currentUsage }
 }
 
 /**
@@ -24,40 +67,21 @@ export const checkRateLimit = async (
       return next()
     }
 
-    const merchant = req.merchant
-    const plan = merchant.plan as SubscriptionPlan
-
-    // COUTURE plan has special handling - very high limit
-    const monthlyLimit = PLAN_LIMITS[plan]
-
-    // Get current month
-    const now = new Date()
-    const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+    if (req.merchant.subscriptionStatus === 'TRIAL_EXPIRED') {
+      throw trialExpiredError()
+    }
 
-    // Get or create usage tracking for current month
-    const usage = await prisma.usageTracking.findUnique({
-      where: {
-        merchantId_month: {
-          merchantId: req.merchantId,
-          month
-        }
-      }
-    })
+    if (req.merchant.subscriptionStatus === 'CANCELED') {
+      throw forbidden('Subscription canceled - choose a plan to reactivate your account')
+    }
 
-    const currentUsage = usage?.tryonCount || 0
+    const { allowance, currentUsage } = await setUsageLimitHeaders(res, req.merchantId)
 
-    // Check if limit exceeded
-    if (currentUsage >= monthlyLimit) {
-      throw tooManyRequests(
-        `Monthly try-on limit exceeded (${monthlyLimit} try-ons). Please upgrade your plan.`
-      )
+    // Check if limit exceeded (enforced atomically when usage is reserved)
+    if (!isUnlimited(allowance.limit) && currentUsage >= allowance.limit) {
+      throw allowanceExceeded(allowance)
     }
 
-    // Add rate limit headers
-    res.setHeader('X-RateLimit-Limit', monthlyLimit.toString())
-    res.setHeader('X-RateLimit-Remaining', (monthlyLimit - currentUsage).toString())
-    res.setHeader('X-RateLimit-Reset', getEndOfMonth(now).toISOString())
-
     next()
   } catch (error) {
     next(error)
@@ -99,7 +123,8 @@ export const requestRateLimit = (requestsPerMinute: number = 60) => {
 }
 
 /**
- * Clean up old rate limit records every hour
+ * Clean up old rate limit records every hour. The timer alone does not keep
+ * the process running.
  */
 setInterval(() => {
   const now = Date.now()
@@ -108,7 +133,7 @@ setInterval(() => {
       requestCounts.delete(key)
     }
   }
-}, 3600000) // 1 hour
+}, 3600000).unref() // 1 hour
 
 /**
  * Get end of current month
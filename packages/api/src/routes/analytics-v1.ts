@@ -1,7 +1,9 @@
 import express, { Response, NextFunction } from 'express'
 import { prisma } from '../utils/prisma.js'
-import { verifyToken, AuthRequest } from '../middleware/auth.js'
+import { verifyTokenOrApiKey, requireScope, requirePermission, AuthRequest } from '../middleware/auth.js'
 import { getCurrentUsage } from '../services/billing.js'
+import { emitWebhook } from '../services/webhook-delivery.js'
+import { BASE_CURRENCY, createCurrencyConverter, parseCurrency } from '../services/currency.js'
 import { badRequest } from '../middleware/errorHandler.js'
 import { validateRequired } from '../utils/validation.js'
 import { getCache, setCache, getCacheKey, invalidateMerchantCache } from '../utils/cache.js'
@@ -48,11 +50,18 @@ function getTimeRangeDates(range: TimeRange = '30d'): TimeRangeDates {
   return { start, end, label }
 }
 
+/**
+ * Currency the merchant's revenue figures are reported in
+ */
+function reportingCurrency(req: AuthRequest): string {
+  return req.merchant?.reportingCurrency || BASE_CURRENCY
+}
+
 /**
  * GET /api/v1/analytics/overview
  * Merchant's overall analytics overview
  */
-router.get('/overview', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/overview', verifyTokenOrApiKey, requireScope('ANALYTICS_READ'), requirePermission('analytics'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const merchantId = req.merchantId!
     const cacheKey = getCacheKey(merchantId, 'overview')
@@ -69,6 +78,7 @@ router.get('/overview', verifyToken, async (req: AuthRequest, res: Response, nex
 
     const now = new Date()
     const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1)
+    const converter = await createCurrencyConverter(reportingCurrency(req))
 
     // Run all queries in parallel
     const [
@@ -76,7 +86,7 @@ router.get('/overview', verifyToken, async (req: AuthRequest, res: Response, nex
       conversionData,
       topProductsData,
       usageThisMonth,
-      revenueData
+      revenueByCurrency
     ] = await Promise.all([
       // Total try-ons
       prisma.tryOn.count({
@@ -110,7 +120,8 @@ router.get('/overview', verifyToken, async (req: AuthRequest, res: Response, nex
           tryOns: {
             select: {
               converted: true,
-              purchaseAmount: true
+              purchaseAmount: true,
+              purchaseCurrency: true
             }
           }
         },
@@ -123,19 +134,27 @@ router.get('/overview', verifyToken, async (req: AuthRequest, res: Response, nex
       // Usage this month
       getCurrentUsage(merchantId),
 
-      // Revenue stats
-      prisma.tryOn.aggregate({
+      // Revenue stats, per order currency
+      prisma.tryOn.groupBy({
+        by: ['purchaseCurrency'],
         where: {
           merchantId,
           converted: true,
           purchaseAmount: { not: null }
         },
+        _count: { purchaseAmount: true },
         _sum: { purchaseAmount: true },
-        _avg: { purchaseAmount: true },
         _max: { purchaseAmount: true }
       })
     ])
 
+    // Conversions recorded before currencies were captured were all USD
+    const revenueTotal = revenueByCurrency.reduce((sum, row) =>
+      sum + converter.convert(Number(row._sum.purchaseAmount || 0), row.purchaseCurrency), 0)
+    const revenueCount = revenueByCurrency.reduce((sum, row) => sum + row._count.purchaseAmount, 0)
+    const revenueHighest = Math.max(0, ...revenueByCurrency.map(row =>
+      converter.convert(Number(row._max.purchaseAmount || 0), row.purchaseCurrency)))
+
     // Calculate conversion rate
     const conversionRate = conversionData._count.id > 0
       ? ((conversionData._sum.converted || 0) / conversionData._count.id) * 100
@@ -144,7 +163,8 @@ router.get('/overview', verifyToken, async (req: AuthRequest, res: Response, nex
     // Process top products
     const topProducts = topProductsData.map(product => {
       const conversions = product.tryOns.filter(t => t.converted).length
-      const revenue = product.tryOns.reduce((sum, t) => sum + Number(t.purchaseAmount || 0), 0)
+      const revenue = product.tryOns.reduce((sum, t) =>
+        sum + converter.convert(Number(t.purchaseAmount || 0), t.purchaseCurrency), 0)
       const productConversionRate = product._count.tryOns > 0
         ? (conversions / product._count.tryOns) * 100
         : 0
@@ -174,10 +194,11 @@ router.get('/overview', verifyToken, async (req: AuthRequest, res: Response, nex
         overageCharges: usageThisMonth.overageCharges
       },
       revenue: {
-        total: Math.round(Number(revenueData._sum.purchaseAmount || 0) * 100) / 100,
-        average: Math.round(Number(revenueData._avg.purchaseAmount || 0) * 100) / 100,
-        highest: Math.round(Number(revenueData._max.purchaseAmount || 0) * 100) / 100,
-        currency: 'USD'
+        total: Math.round(revenueTotal * 100) / 100,
+        average: revenueCount > 0 ? Math.round((revenueTotal / revenueCount) * 100) / 100 : 0,
+        highest: Math.round(revenueHighest * 100) / 100,
+        currency: converter.currency,
+        missingRates: converter.missingRates()
       },
       timeRange: {
         start: firstDayOfMonth.toISOString(),
@@ -202,7 +223,7 @@ router.get('/overview', verifyToken, async (req: AuthRequest, res: Response, nex
  * GET /api/v1/analytics/products
  * Per-product performance analytics
  */
-router.get('/products', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/products', verifyTokenOrApiKey, requireScope('ANALYTICS_READ'), requirePermission('analytics'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const merchantId = req.merchantId!
     const { limit = '20', sortBy = 'tryonCount' } = req.query
@@ -214,10 +235,13 @@ router.get('/products', verifyToken, async (req: AuthRequest, res: Response, nex
       return res.json({
         success: true,
         data: cached,
+        currency: reportingCurrency(req),
         cached: true
       })
     }
 
+    const converter = await createCurrencyConverter(reportingCurrency(req))
+
     // Fetch products with try-on data
     const products = await prisma.product.findMany({
       where: {
@@ -232,6 +256,7 @@ router.get('/products', verifyToken, async (req: AuthRequest, res: Response, nex
           select: {
             converted: true,
             purchaseAmount: true,
+            purchaseCurrency: true,
             userRating: true,
             generatedAt: true
           },
@@ -246,7 +271,8 @@ router.get('/products', verifyToken, async (req: AuthRequest, res: Response, nex
     const performance: ProductPerformance[] = products.map(product => {
       const tryOns = product.tryOns
       const conversions = tryOns.filter(t => t.converted).length
-      const revenue = tryOns.reduce((sum, t) => sum + Number(t.purchaseAmount || 0), 0)
+      const revenue = tryOns.reduce((sum, t) =>
+        sum + converter.convert(Number(t.purchaseAmount || 0), t.purchaseCurrency), 0)
       const ratings = tryOns.filter(t => t.userRating !== null).map(t => t.userRating!)
       const avgRating = ratings.length > 0
         ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length
@@ -287,6 +313,7 @@ router.get('/products', verifyToken, async (req: AuthRequest, res: Response, nex
     res.json({
       success: true,
       data: sorted,
+      currency: converter.currency,
       cached: false
     })
   } catch (error) {
@@ -298,7 +325,7 @@ router.get('/products', verifyToken, async (req: AuthRequest, res: Response, nex
  * GET /api/v1/analytics/timeline
  * Try-ons over time with daily breakdown
  */
-router.get('/timeline', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/timeline', verifyTokenOrApiKey, requireScope('ANALYTICS_READ'), requirePermission('analytics'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const merchantId = req.merchantId!
     const range = (req.query.range as TimeRange) || '30d'
@@ -311,11 +338,13 @@ router.get('/timeline', verifyToken, async (req: AuthRequest, res: Response, nex
         success: true,
         data: cached,
         range,
+        currency: reportingCurrency(req),
         cached: true
       })
     }
 
     const { start, end } = getTimeRangeDates(range)
+    const converter = await createCurrencyConverter(reportingCurrency(req))
 
     // Fetch try-ons in date range
     const tryOns = await prisma.tryOn.findMany({
@@ -329,7 +358,8 @@ router.get('/timeline', verifyToken, async (req: AuthRequest, res: Response, nex
       select: {
         generatedAt: true,
         converted: true,
-        purchaseAmount: true
+        purchaseAmount: true,
+        purchaseCurrency: true
       },
       orderBy: { generatedAt: 'asc' }
     })
@@ -355,7 +385,7 @@ router.get('/timeline', verifyToken, async (req: AuthRequest, res: Response, nex
 
       if (tryOn.converted) {
         point.conversions++
-        point.revenue += Number(tryOn.purchaseAmount || 0)
+        point.revenue += converter.convert(Number(tryOn.purchaseAmount || 0), tryOn.purchaseCurrency)
       }
     })
 
@@ -393,6 +423,7 @@ router.get('/timeline', verifyToken, async (req: AuthRequest, res: Response, nex
       success: true,
       data: filledTimeline,
       range,
+      currency: converter.currency,
       cached: false
     })
   } catch (error) {
@@ -402,12 +433,13 @@ router.get('/timeline', verifyToken, async (req: AuthRequest, res: Response, nex
 
 /**
  * POST /api/v1/analytics/conversion
- * Record when a try-on leads to a purchase
+ * Record when a try-on leads to a purchase. A write, so keys need the WIDGET
+ * scope that conversions through /api/tryons take, not ANALYTICS_READ.
  */
-router.post('/conversion', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post('/conversion', verifyTokenOrApiKey, requireScope('WIDGET'), requirePermission('analytics'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const merchantId = req.merchantId!
-    const { tryonId, orderId, orderValue } = req.body
+    const { tryonId, orderId, orderValue, currency } = req.body
 
     // Validate required fields
     validateRequired({ tryonId, orderId, orderValue })
@@ -417,6 +449,9 @@ router.post('/conversion', verifyToken, async (req: AuthRequest, res: Response,
       where: {
         id: tryonId,
         merchantId
+      },
+      include: {
+        product: { select: { currency: true } }
       }
     })
 
@@ -424,13 +459,17 @@ router.post('/conversion', verifyToken, async (req: AuthRequest, res: Response,
       throw badRequest('Try-on not found')
     }
 
+    // Orders without a currency are in the product's
+    const purchaseCurrency = parseCurrency(currency, tryOn.product.currency)
+
     // Update try-on record
     const updated = await prisma.tryOn.update({
       where: { id: tryonId },
       data: {
         converted: true,
         convertedAt: new Date(),
-        purchaseAmount: parseFloat(orderValue)
+        purchaseAmount: parseFloat(orderValue),
+        purchaseCurrency
       },
       include: {
         product: {
@@ -457,12 +496,22 @@ router.post('/conversion', verifyToken, async (req: AuthRequest, res: Response,
           tryonId,
           orderId,
           orderValue,
+          currency: purchaseCurrency,
           productId: updated.productId,
           customerId: updated.customerId
         }
       }
     })
 
+    emitWebhook(merchantId, 'conversion.recorded', {
+      tryOnId: tryonId,
+      productId: updated.productId,
+      orderId,
+      amount: updated.purchaseAmount,
+      currency: purchaseCurrency,
+      source: 'api'
+    })
+
     // Invalidate merchant's cache
     invalidateMerchantCache(merchantId)
 
@@ -472,6 +521,7 @@ router.post('/conversion', verifyToken, async (req: AuthRequest, res: Response,
         tryonId: updated.id,
         orderId,
         orderValue: Number(updated.purchaseAmount),
+        currency: purchaseCurrency,
         convertedAt: updated.convertedAt?.toISOString(),
         productId: updated.product?.id,
         customerId: updated.customer?.id
@@ -1,6 +1,6 @@
 import express, { Response, NextFunction } from 'express'
 import { prisma } from '../utils/prisma.js'
-import { verifyToken, AuthRequest } from '../middleware/auth.js'
+import { verifyTokenOrApiKey, requireScope, requirePermission, AuthRequest } from '../middleware/auth.js'
 import { validateDateRange } from '../utils/validation.js'
 import { getCurrentUsage, getBillingHistory, getEstimatedBill } from '../services/billing.js'
 
@@ -10,7 +10,7 @@ const router = express.Router()
  * GET /api/analytics/stats
  * Get dashboard statistics
  */
-router.get('/stats', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/stats', verifyTokenOrApiKey, requireScope('ANALYTICS_READ'), requirePermission('analytics'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const merchantId = req.merchantId!
     const now = new Date()
@@ -109,7 +109,7 @@ router.get('/stats', verifyToken, async (req: AuthRequest, res: Response, next:
  * GET /api/analytics/timeline
  * Get try-on timeline data for charts
  */
-router.get('/timeline', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/timeline', verifyTokenOrApiKey, requireScope('ANALYTICS_READ'), requirePermission('analytics'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { startDate, endDate } = validateDateRange(
       req.query.startDate as string,
@@ -157,7 +157,7 @@ router.get('/timeline', verifyToken, async (req: AuthRequest, res: Response, nex
  * GET /api/analytics/products
  * Get product performance analytics
  */
-router.get('/products', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/products', verifyTokenOrApiKey, requireScope('ANALYTICS_READ'), requirePermission('analytics'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const topProducts = await prisma.product.findMany({
       where: {
@@ -217,7 +217,7 @@ router.get('/products', verifyToken, async (req: AuthRequest, res: Response, nex
  * GET /api/analytics/usage
  * Get usage and billing information
  */
-router.get('/usage', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/usage', verifyTokenOrApiKey, requireScope('ANALYTICS_READ'), requirePermission('analytics'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const [currentUsage, billingHistory, estimatedBill] = await Promise.all([
       getCurrentUsage(req.merchantId!),
@@ -240,7 +240,7 @@ router.get('/usage', verifyToken, async (req: AuthRequest, res: Response, next:
  * GET /api/analytics/events
  * Get recent analytics events
  */
-router.get('/events', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/events', verifyTokenOrApiKey, requireScope('ANALYTICS_READ'), requirePermission('analytics'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { limit = '50', eventType } = req.query
 
@@ -0,0 +1,26 @@
+import { Router } from 'express'
+import { verifyToken, requirePermission } from '../middleware/auth.js'
+import { requireFeature } from '../middleware/entitlements.js'
+import { listApiKeys, createApiKey, deleteApiKey } from '../controllers/api-keys.js'
+
+// Signed-in members only: a key that could list, mint or revoke keys could
+// outlive or lock out every other key of the merchant
+const router = Router()
+
+// GET /api/api-keys - List keys (values masked)
+router.get('/', verifyToken, requirePermission('apiKeys'), listApiKeys)
+
+// POST /api/api-keys - Create a named, scoped key. Extra secret keys
+// (server-to-server API access) are a plan feature; publishable keys are not.
+router.post(
+  '/',
+  verifyToken,
+  requirePermission('apiKeys'),
+  requireFeature('apiAccess', req => (req.body?.type || 'SECRET') === 'SECRET'),
+  createApiKey
+)
+
+// DELETE /api/api-keys/:id - Revoke a key
+router.delete('/:id', verifyToken, requirePermission('apiKeys'), deleteApiKey)
+
+export default router
@@ -0,0 +1,111 @@
+import express, { Response, NextFunction } from 'express'
+import { verifyToken, requirePermission, AuthRequest } from '../middleware/auth.js'
+import { badRequest } from '../middleware/errorHandler.js'
+import { validatePagination } from '../utils/validation.js'
+import {
+  AuditFilters,
+  auditEventsToCsv,
+  auditFilterOptions,
+  exportAuditEvents,
+  listAuditEvents
+} from '../services/audit.js'
+
+// Signed-in members only: the log names members, their IPs and devices,
+// which no API key scope covers
+const router = express.Router()
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') return undefined
+
+  const date = new Date(String(value))
+  if (isNaN(date.getTime())) {
+    throw badRequest(`${name} must be a date`)
+  }
+
+  return date
+}
+
+/**
+ * Filters from the query string: action (or a prefix such as "product."),
+ * actorId, targetType, targetId, from, to
+ */
+function parseFilters(query: AuthRequest['query']): AuditFilters {
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined)
+
+  return {
+    action: text(query.action),
+    actorId: text(query.actorId),
+    targetType: text(query.targetType),
+    targetId: text(query.targetId),
+    from: parseDate(query.from, 'from'),
+    to: parseDate(query.to, 'to')
+  }
+}
+
+/**
+ * GET /api/audit
+ * The audit trail, newest first, filtered and paginated
+ */
+router.get('/', verifyToken, requirePermission('audit'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string)
+    const { events, total } = await listAuditEvents(req.merchantId!, parseFilters(req.query), page, limit)
+
+    res.json({
+      success: true,
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/audit/filters
+ * Actions and actors in the trail, for filter menus
+ */
+router.get('/filters', verifyToken, requirePermission('audit'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      ...await auditFilterOptions(req.merchantId!)
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/audit/export?format=csv|json
+ * Download matching events (same filters as the list), up to 10,000
+ */
+router.get('/export', verifyToken, requirePermission('audit'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const format = req.query.format || 'csv'
+
+    if (format !== 'csv' && format !== 'json') {
+      throw badRequest('format must be csv or json')
+    }
+
+    const events = await exportAuditEvents(req.merchantId!, parseFilters(req.query))
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`
+
+    res.set('Content-Disposition', `attachment; filename="${filename}"`)
+
+    if (format === 'csv') {
+      res.type('text/csv').send(auditEventsToCsv(events))
+    } else {
+      res.json(events)
+    }
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
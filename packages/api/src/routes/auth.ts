@@ -1,18 +1,128 @@
 import express, { Request, Response, NextFunction } from 'express'
-import bcrypt from 'bcryptjs'
-import jwt from 'jsonwebtoken'
-import crypto from 'crypto'
+import { MemberRole } from '@prisma/client'
 import { prisma } from '../utils/prisma.js'
 import { validateEmail, validatePassword, validateRequired } from '../utils/validation.ts'
-import { badRequest, conflict, unauthorized } from '../middleware/errorHandler.js'
-import { verifyToken, AuthRequest } from '../middleware/auth.js'
+import { badRequest, conflict, forbidden, unauthorized } from '../middleware/errorHandler.js'
+import { verifyToken, verifyTokenOrApiKey, requirePermission, AuthRequest } from '../middleware/auth.js'
+import {
+  DEFAULT_API_KEY_NAME,
+  createApiKey,
+  rotateDefaultApiKey
+} from '../services/api-keys.js'
+import { checkTrial, trialEndDate } from '../services/trials.js'
+import {
+  authenticateUser,
+  changePassword,
+  chooseMembership,
+  hashPassword,
+  listMemberships,
+  requestPasswordReset,
+  resetPassword,
+  sendVerificationEmail,
+  userProfileSelect,
+  verifyEmail
+} from '../services/users.js'
+import {
+  createSession,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  sessionClient,
+  switchSessionMerchant
+} from '../services/sessions.js'
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  loginChallenge,
+  readLoginChallenge,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  twoFactorStatus,
+  verifyTwoFactor
+} from '../services/two-factor.js'
+import { recordLoginSuccess, throttleLogin } from '../services/login-throttle.js'
+import {
+  auditRequest,
+  diffChanges,
+  recordAuditEvent,
+  recordUserAuditEvent,
+  requestActor,
+  userActor
+} from '../services/audit.js'
 
 const router = express.Router()
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+
+// Merchant fields returned to the account owner. Never includes credentials.
+const merchantProfileSelect = {
+  id: true,
+  email: true,
+  businessName: true,
+  contactName: true,
+  phone: true,
+  website: true,
+  logoUrl: true,
+  plan: true,
+  subscriptionStatus: true,
+  trialEndsAt: true,
+  subscriptionEndsAt: true,
+  allowedDomains: true,
+  requireTwoFactor: true,
+  createdAt: true,
+  updatedAt: true,
+  lastLoginAt: true
+} as const
+
+// Profile fields whose changes go in the audit log
+const AUDITED_PROFILE_FIELDS = ['businessName', 'contactName', 'phone', 'website', 'logoUrl'] as const
+
+/**
+ * Finish a sign in: clear its failed attempts, record it and start a
+ * session. Returns the login response body.
+ */
+async function completeSignIn(
+  req: Request,
+  userId: string,
+  membership: { merchantId: string; role: MemberRole },
+  memberships: Awaited<ReturnType<typeof listMemberships>>,
+  method: 'password' | 'two_factor' | 'recovery_code' = 'password'
+) {
+  const { email } = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { email: true } })
+  await recordLoginSuccess(email, sessionClient(req), userId)
+
+  await recordAuditEvent({
+    action: 'auth.login',
+    merchantId: membership.merchantId,
+    actor: userActor(req, { id: userId, email }),
+    target: { type: 'user', id: userId },
+    metadata: { method }
+  })
+
+  const [user, merchant] = await Promise.all([
+    prisma.user.update({
+      where: { id: userId },
+      data: { lastLoginAt: new Date() },
+      select: userProfileSelect
+    }),
+    // Update last login, returning merchant data (excluding credentials)
+    prisma.merchant.update({
+      where: { id: membership.merchantId },
+      data: { lastLoginAt: new Date() },
+      select: merchantProfileSelect
+    })
+  ])
+
+  return {
+    token: await createSession(userId, membership.merchantId, sessionClient(req)),
+    merchant,
+    user,
+    role: membership.role,
+    memberships
+  }
+}
 
 /**
  * POST /api/auth/register
- * Register a new merchant account
+ * Register a new merchant account, with the registering user as its owner
  */
 router.post('/register', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -28,17 +138,18 @@ router.post('/register', async (req: Request, res: Response, next: NextFunction)
       where: { email: email.toLowerCase() }
     })
 
-    if (existingMerchant) {
+    const existingUser = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() }
+    })
+
+    if (existingMerchant || existingUser) {
       throw conflict('Email already registered')
     }
 
     // Hash password
-    const hashedPassword = await bcrypt.hash(password, 10)
+    const hashedPassword = await hashPassword(password)
 
-    // Generate unique API key
-    const apiKey = `rfts_${crypto.randomBytes(32).toString('hex')}`
-
-    // Create merchant with trial subscription
+    // Create merchant with trial subscription, owned by a new user
     const merchant = await prisma.merchant.create({
       data: {
         email: email.toLowerCase(),
@@ -46,31 +157,58 @@ router.post('/register', async (req: Request, res: Response, next: NextFunction)
         businessName,
         contactName,
         website,
-        apiKey,
         plan: 'ATELIER',
         subscriptionStatus: 'TRIAL',
-        trialEndsAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days
-        allowedDomains: website ? [website] : []
+        trialEndsAt: trialEndDate(),
+        allowedDomains: website ? [website] : [],
+        memberships: {
+          create: {
+            role: 'OWNER',
+            user: {
+              create: { email: email.toLowerCase(), password: hashedPassword, name: contactName }
+            }
+          }
+        }
       },
       select: {
         id: true,
         email: true,
         businessName: true,
-        apiKey: true,
         plan: true,
         subscriptionStatus: true,
         trialEndsAt: true,
-        createdAt: true
+        createdAt: true,
+        memberships: { select: { user: { select: userProfileSelect } } }
       }
     })
 
-    // Generate JWT token
-    const token = jwt.sign({ merchantId: merchant.id }, JWT_SECRET, { expiresIn: '7d' })
+    const { memberships, ...merchantData } = merchant
+    const user = memberships[0].user
+
+    // Only a hash is stored, so this response is the one chance to copy it
+    const apiKey = await createApiKey(merchant.id, { name: DEFAULT_API_KEY_NAME })
+
+    // The account works right away; the email is confirmed from the link sent here
+    await sendVerificationEmail(user)
+
+    await recordAuditEvent({
+      action: 'merchant.register',
+      merchantId: merchant.id,
+      actor: userActor(req, user),
+      target: { type: 'merchant', id: merchant.id },
+      metadata: { businessName, plan: merchant.plan }
+    })
+
+    // Start a session
+    const token = await createSession(user.id, merchant.id, sessionClient(req))
 
     res.status(201).json({
       success: true,
       token,
-      merchant
+      merchant: merchantData,
+      user,
+      role: 'OWNER',
+      apiKey: apiKey.key
     })
   } catch (error) {
     next(error)
@@ -79,47 +217,431 @@ router.post('/register', async (req: Request, res: Response, next: NextFunction)
 
 /**
  * POST /api/auth/login
- * Login merchant
+ * Sign a user in to one of their merchants: `merchantId` if given,
+ * otherwise the first they joined. With two-factor on, or required by the
+ * merchant, returns a challenge token instead of a session. Repeated
+ * failures delay, then lock out, the account and the IP address.
  */
 router.post('/login', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { email, password } = req.body
+    const { email, password, merchantId } = req.body
 
     validateRequired({ email, password })
     validateEmail(email)
 
-    // Find merchant
+    const user = await throttleLogin(email, sessionClient(req), () => authenticateUser(email, password))
+    const { membership, memberships } = await chooseMembership(user.id, merchantId)
+
     const merchant = await prisma.merchant.findUnique({
-      where: { email: email.toLowerCase() }
+      where: { id: membership.merchantId }
     })
 
     if (!merchant) {
-      throw unauthorized('Invalid email or password')
+      throw unauthorized('Merchant not found')
     }
 
-    // Verify password
-    const isValidPassword = await bcrypt.compare(password, merchant.password)
+    // Expire a trial that ran out, so the dashboard opens on the restricted state
+    await checkTrial(merchant)
 
-    if (!isValidPassword) {
-      throw unauthorized('Invalid email or password')
+    // The session waits on a code
+    const challenge = loginChallenge(user, merchant)
+
+    if (challenge) {
+      res.json({ success: true, ...challenge })
+      return
     }
 
-    // Update last login
-    await prisma.merchant.update({
-      where: { id: merchant.id },
-      data: { lastLoginAt: new Date() }
+    res.json({
+      success: true,
+      ...await completeSignIn(req, user.id, membership, memberships)
     })
+  } catch (error) {
+    next(error)
+  }
+})
 
-    // Generate JWT token
-    const token = jwt.sign({ merchantId: merchant.id }, JWT_SECRET, { expiresIn: '7d' })
+/**
+ * POST /api/auth/login/two-factor
+ * Second sign in step: { challengeToken, code } or { challengeToken,
+ * recoveryCode }. When setup was required, the code confirms the new
+ * authenticator and the response includes recovery codes.
+ */
+router.post('/login/two-factor', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body
+    const { userId, email, merchantId, step } = readLoginChallenge(challengeToken)
 
-    // Return merchant data (excluding password)
-    const { password: _, ...merchantData } = merchant
+    // Wrong codes count toward the same lockout as wrong passwords
+    const recoveryCodes = await throttleLogin(email, sessionClient(req), async () => {
+      if (step === 'setup') {
+        return enableTwoFactor(userId, code)
+      }
+      await verifyTwoFactor(userId, { code, recoveryCode })
+      return undefined
+    })
+
+    if (recoveryCodes) {
+      await recordUserAuditEvent(userId, {
+        action: 'user.two_factor_enable',
+        actor: userActor(req, { id: userId, email }),
+        target: { type: 'user', id: userId }
+      })
+    }
+
+    // Membership may have changed since the password step
+    const { membership, memberships } = await chooseMembership(userId, merchantId)
+    const method = step === 'verify' && recoveryCode ? 'recovery_code' : 'two_factor'
 
     res.json({
       success: true,
-      token,
-      merchant: merchantData
+      ...await completeSignIn(req, userId, membership, memberships, method),
+      recoveryCodes
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/auth/login/two-factor/setup
+ * Set up two-factor during sign in, when the merchant requires it:
+ * { challengeToken }. Returns the secret and an otpauth:// URI.
+ */
+router.post('/login/two-factor/setup', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId, step } = readLoginChallenge(req.body.challengeToken)
+
+    if (step !== 'setup') {
+      throw badRequest('Two-factor authentication is already set up')
+    }
+
+    res.json({
+      success: true,
+      ...await startTwoFactorSetup(userId)
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/auth/switch-merchant
+ * Move the session to another merchant the signed-in user belongs to. The
+ * new token replaces the old one.
+ */
+router.post('/switch-merchant', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { merchantId } = req.body
+
+    validateRequired({ merchantId })
+
+    const { membership, memberships } = await chooseMembership(req.user!.id, merchantId)
+
+    const merchant = await prisma.merchant.findUnique({
+      where: { id: membership.merchantId },
+      select: merchantProfileSelect
+    })
+
+    if (merchant?.requireTwoFactor && !req.user!.totpEnabledAt) {
+      throw forbidden(`${merchant.businessName} requires two-factor authentication - turn it on under Account first`, {
+        code: 'two_factor_required'
+      })
+    }
+
+    // Recorded on the team being entered, where the session now acts
+    await recordAuditEvent({
+      action: 'auth.switch_merchant',
+      merchantId: membership.merchantId,
+      actor: requestActor(req),
+      target: { type: 'user', id: req.user!.id },
+      metadata: { fromMerchantId: req.merchantId! }
+    })
+
+    res.json({
+      success: true,
+      token: await switchSessionMerchant(req.sessionId!, membership.merchantId),
+      merchant,
+      user: req.user,
+      role: membership.role,
+      memberships
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/auth/logout
+ * Sign the current session out
+ */
+router.post('/logout', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await revokeSession(req.user!.id, req.sessionId!)
+
+    await auditRequest(req, {
+      action: 'auth.logout',
+      target: { type: 'session', id: req.sessionId }
+    })
+
+    res.json({ success: true })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a password reset link. Always succeeds, so it cannot be used to
+ * find out who has an account.
+ */
+router.post('/forgot-password', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email } = req.body
+
+    validateRequired({ email })
+    validateEmail(email)
+
+    await requestPasswordReset(email)
+
+    res.json({
+      success: true,
+      message: 'If that email has a login, a reset link is on its way'
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password from an emailed link: { token, password }. Signs out
+ * every session.
+ */
+router.post('/reset-password', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await resetPassword(req.body.token, req.body.password)
+
+    await recordUserAuditEvent(user.id, {
+      action: 'user.password_reset',
+      actor: userActor(req, user),
+      target: { type: 'user', id: user.id }
+    })
+
+    res.json({ success: true })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm an email address from an emailed link: { token }
+ */
+router.post('/verify-email', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await verifyEmail(req.body.token)
+
+    res.json({ success: true })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/auth/resend-verification
+ * Send the signed-in user a new verification link
+ */
+router.post('/resend-verification', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (req.user!.emailVerifiedAt) {
+      throw badRequest('Your email is already verified')
+    }
+
+    await sendVerificationEmail(req.user!)
+
+    res.json({ success: true })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * PUT /api/auth/password
+ * Change the signed-in user's password: { currentPassword, newPassword }.
+ * Every other session is signed out.
+ */
+router.put('/password', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { currentPassword, newPassword } = req.body
+
+    await changePassword(req.user!.id, currentPassword, newPassword, req.sessionId)
+
+    await recordUserAuditEvent(req.user!.id, {
+      action: 'user.password_change',
+      actor: requestActor(req),
+      target: { type: 'user', id: req.user!.id }
+    })
+
+    res.json({ success: true })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/auth/sessions
+ * The signed-in user's active sessions, most recently used first
+ */
+router.get('/sessions', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const sessions = await listSessions(req.user!.id)
+
+    res.json({
+      success: true,
+      sessions: sessions.map(session => ({ ...session, current: session.id === req.sessionId }))
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Sign one session out
+ */
+router.delete('/sessions/:id', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await revokeSession(req.user!.id, req.params.id)
+
+    await recordUserAuditEvent(req.user!.id, {
+      action: 'user.session_revoke',
+      actor: requestActor(req),
+      target: { type: 'session', id: req.params.id }
+    })
+
+    res.json({ success: true })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * DELETE /api/auth/sessions
+ * Sign out every session except the current one
+ */
+router.delete('/sessions', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const revoked = await revokeAllSessions(req.user!.id, req.sessionId)
+
+    await recordUserAuditEvent(req.user!.id, {
+      action: 'user.session_revoke_all',
+      actor: requestActor(req),
+      target: { type: 'user', id: req.user!.id },
+      metadata: { revoked }
+    })
+
+    res.json({
+      success: true,
+      revoked
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/auth/two-factor
+ * Whether the signed-in user has two-factor on, how many recovery codes are
+ * left, and whether a team requires it
+ */
+router.get('/two-factor', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      twoFactor: await twoFactorStatus(req.user!.id)
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/auth/two-factor/setup
+ * Start enrolling an authenticator app. Returns the secret and an
+ * otpauth:// URI for a QR code.
+ */
+router.post('/two-factor/setup', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      ...await startTwoFactorSetup(req.user!.id)
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/auth/two-factor/enable
+ * Confirm enrollment with a code from the app: { code }. Returns recovery
+ * codes, shown once.
+ */
+router.post('/two-factor/enable', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const recoveryCodes = await enableTwoFactor(req.user!.id, req.body.code)
+
+    await recordUserAuditEvent(req.user!.id, {
+      action: 'user.two_factor_enable',
+      actor: requestActor(req),
+      target: { type: 'user', id: req.user!.id }
+    })
+
+    res.json({
+      success: true,
+      recoveryCodes
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/auth/two-factor/disable
+ * Turn two-factor off: { password }
+ */
+router.post('/two-factor/disable', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await disableTwoFactor(req.user!.id, req.body.password)
+
+    await recordUserAuditEvent(req.user!.id, {
+      action: 'user.two_factor_disable',
+      actor: requestActor(req),
+      target: { type: 'user', id: req.user!.id }
+    })
+
+    res.json({ success: true })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/auth/two-factor/recovery-codes
+ * Replace the recovery codes: { password }. The old ones stop working.
+ */
+router.post('/two-factor/recovery-codes', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const recoveryCodes = await regenerateRecoveryCodes(req.user!.id, req.body.password)
+
+    await recordUserAuditEvent(req.user!.id, {
+      action: 'user.recovery_codes_regenerate',
+      actor: requestActor(req),
+      target: { type: 'user', id: req.user!.id }
+    })
+
+    res.json({
+      success: true,
+      recoveryCodes
     })
   } catch (error) {
     next(error)
@@ -128,30 +650,14 @@ router.post('/login', async (req: Request, res: Response, next: NextFunction) =>
 
 /**
  * GET /api/auth/me
- * Get current merchant info
+ * Get current merchant info. With a JWT, also the signed-in user, their
+ * role and the other teams they belong to.
  */
-router.get('/me', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/me', verifyTokenOrApiKey, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const merchant = await prisma.merchant.findUnique({
       where: { id: req.merchantId },
-      select: {
-        id: true,
-        email: true,
-        businessName: true,
-        contactName: true,
-        phone: true,
-        website: true,
-        logoUrl: true,
-        apiKey: true,
-        plan: true,
-        subscriptionStatus: true,
-        trialEndsAt: true,
-        subscriptionEndsAt: true,
-        allowedDomains: true,
-        createdAt: true,
-        updatedAt: true,
-        lastLoginAt: true
-      }
+      select: merchantProfileSelect
     })
 
     if (!merchant) {
@@ -160,7 +666,10 @@ router.get('/me', verifyToken, async (req: AuthRequest, res: Response, next: Nex
 
     res.json({
       success: true,
-      merchant
+      merchant,
+      user: req.user,
+      role: req.role,
+      memberships: req.user ? await listMemberships(req.user.id) : undefined
     })
   } catch (error) {
     next(error)
@@ -171,10 +680,15 @@ router.get('/me', verifyToken, async (req: AuthRequest, res: Response, next: Nex
  * PUT /api/auth/profile
  * Update merchant profile
  */
-router.put('/profile', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.put('/profile', verifyToken, requirePermission('settings'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { businessName, contactName, phone, website, logoUrl } = req.body
 
+    const previous = await prisma.merchant.findUnique({
+      where: { id: req.merchantId },
+      select: { businessName: true, contactName: true, phone: true, website: true, logoUrl: true }
+    })
+
     const merchant = await prisma.merchant.update({
       where: { id: req.merchantId },
       data: {
@@ -196,6 +710,16 @@ router.put('/profile', verifyToken, async (req: AuthRequest, res: Response, next
       }
     })
 
+    const changes = diffChanges(previous, merchant, AUDITED_PROFILE_FIELDS)
+
+    if (changes) {
+      await auditRequest(req, {
+        action: 'merchant.profile_update',
+        target: { type: 'merchant', id: merchant.id },
+        changes
+      })
+    }
+
     res.json({
       success: true,
       merchant
@@ -207,30 +731,22 @@ router.put('/profile', verifyToken, async (req: AuthRequest, res: Response, next
 
 /**
  * POST /api/auth/regenerate-api-key
- * Regenerate API key
+ * Replace the default API key. Other named keys keep working;
+ * manage them under /api/api-keys.
  */
-router.post('/regenerate-api-key', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post('/regenerate-api-key', verifyToken, requirePermission('apiKeys'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const newApiKey = `rfts_${crypto.randomBytes(32).toString('hex')}`
-
-    const merchant = await prisma.merchant.update({
-      where: { id: req.merchantId },
-      data: { apiKey: newApiKey },
-      select: { apiKey: true }
-    })
+    const apiKey = await rotateDefaultApiKey(req.merchantId!)
 
-    // Log analytics event
-    await prisma.analyticsEvent.create({
-      data: {
-        merchantId: req.merchantId!,
-        eventType: 'API_KEY_CREATED',
-        eventData: { reason: 'regenerated' }
-      }
+    await auditRequest(req, {
+      action: 'api_key.regenerate',
+      target: { type: 'api_key', id: apiKey.id },
+      metadata: { lookupPrefix: apiKey.lookupPrefix }
     })
 
     res.json({
       success: true,
-      apiKey: merchant.apiKey
+      apiKey: apiKey.key
     })
   } catch (error) {
     next(error)
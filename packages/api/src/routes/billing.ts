@@ -0,0 +1,223 @@
+import express, { Response, NextFunction } from 'express'
+import { SubscriptionPlan } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { verifyToken, verifyTokenOrApiKey, requirePermission, AuthRequest } from '../middleware/auth.js'
+import { badRequest, notFound } from '../middleware/errorHandler.js'
+import { isStripeConfigured } from '../services/stripe.js'
+import { changePlan } from '../services/subscriptions.js'
+import { getInvoice, listInvoices, renderInvoiceHtml, serializeInvoice } from '../services/invoices.js'
+import { TRIAL_TRYON_QUOTA } from '../services/plans.js'
+import { OVERAGE_POLICY_LABELS, getUsageAllowance, updateOveragePolicy } from '../services/overage.js'
+import { getUsageAlertThresholds, updateUsageAlertThresholds } from '../services/usage-alerts.js'
+import { auditRequest } from '../services/audit.js'
+
+const router = express.Router()
+
+/**
+ * GET /api/billing/subscription
+ * Current plan and subscription status
+ */
+router.get('/subscription', verifyTokenOrApiKey, requirePermission('billing'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const merchant = await prisma.merchant.findUnique({
+      where: { id: req.merchantId },
+      select: {
+        plan: true,
+        subscriptionStatus: true,
+        trialEndsAt: true,
+        subscriptionEndsAt: true,
+        stripeCustomerId: true,
+        stripeSubscriptionId: true
+      }
+    })
+
+    if (!merchant) {
+      throw notFound('Merchant not found')
+    }
+
+    res.json({
+      success: true,
+      subscription: {
+        plan: merchant.plan,
+        status: merchant.subscriptionStatus,
+        trialEndsAt: merchant.trialEndsAt,
+        currentPeriodEndsAt: merchant.subscriptionEndsAt,
+        hasPaymentAccount: Boolean(merchant.stripeCustomerId),
+        hasSubscription: Boolean(merchant.stripeSubscriptionId),
+        billingEnabled: isStripeConfigured(),
+        trialTryonQuota: TRIAL_TRYON_QUOTA
+      }
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/billing/checkout
+ * Switch to a plan. Returns a Stripe Checkout URL when payment details are
+ * needed; otherwise the existing subscription is changed in place. Signed-in
+ * members only; no API key scope covers billing.
+ */
+router.post('/checkout', verifyToken, requirePermission('billing'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { plan } = req.body
+
+    if (!Object.values(SubscriptionPlan).includes(plan)) {
+      throw badRequest(`Plan must be one of: ${Object.values(SubscriptionPlan).join(', ')}`)
+    }
+
+    const result = await changePlan(req.merchantId!, plan)
+
+    // The plan itself changes when Stripe confirms it (billing.plan_change)
+    await auditRequest(req, {
+      action: 'billing.plan_change_request',
+      target: { type: 'merchant', id: req.merchantId },
+      metadata: { plan, status: result.status }
+    })
+
+    res.json({
+      success: true,
+      ...result
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/billing/overage-policy
+ * What happens when the merchant reaches their quota, and the try-ons it allows this month
+ */
+router.get('/overage-policy', verifyTokenOrApiKey, requirePermission('billing'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const allowance = await getUsageAllowance(req.merchantId!)
+
+    res.json({
+      success: true,
+      overagePolicy: allowance,
+      options: Object.entries(OVERAGE_POLICY_LABELS).map(([policy, label]) => ({ policy, label }))
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * PUT /api/billing/overage-policy
+ * Choose HARD_CAP, OVERAGE (with spendCap in USD) or AUTO_UPGRADE. Signed-in
+ * members only, as it commits the merchant to charges.
+ */
+router.put('/overage-policy', verifyToken, requirePermission('billing'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const allowance = await updateOveragePolicy(req.merchantId!, req.body)
+
+    res.json({
+      success: true,
+      overagePolicy: allowance
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/billing/usage-alerts
+ * Percentages of the monthly quota at which the merchant is alerted
+ */
+router.get('/usage-alerts', verifyTokenOrApiKey, requirePermission('billing'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      thresholds: await getUsageAlertThresholds(req.merchantId!)
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * PUT /api/billing/usage-alerts
+ * Replace the alert thresholds ({ thresholds: [50, 80, 100] }); [] turns
+ * alerts off. Signed-in members only.
+ */
+router.put('/usage-alerts', verifyToken, requirePermission('billing'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      thresholds: await updateUsageAlertThresholds(req.merchantId!, req.body.thresholds)
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/billing/invoices
+ * Invoices issued when each billing month closed, newest first
+ */
+router.get('/invoices', verifyTokenOrApiKey, requirePermission('billing'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const invoices = await listInvoices(req.merchantId!)
+
+    res.json({
+      success: true,
+      invoices: invoices.map(invoice => serializeInvoice(invoice))
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/billing/invoices/:id
+ * An invoice with its line items
+ */
+router.get('/invoices/:id', verifyTokenOrApiKey, requirePermission('billing'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const invoice = await getInvoice(req.params.id, req.merchantId!)
+
+    if (!invoice) {
+      throw notFound('Invoice not found')
+    }
+
+    res.json({
+      success: true,
+      invoice: serializeInvoice(invoice)
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/billing/invoices/:id/html
+ * Printable invoice; ?download=1 serves it as an attachment
+ */
+router.get('/invoices/:id/html', verifyTokenOrApiKey, requirePermission('billing'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const [invoice, merchant] = await Promise.all([
+      getInvoice(req.params.id, req.merchantId!),
+      prisma.merchant.findUnique({
+        where: { id: req.merchantId },
+        select: { businessName: true, email: true, billingEmail: true }
+      })
+    ])
+
+    if (!invoice || !merchant) {
+      throw notFound('Invoice not found')
+    }
+
+    if (req.query.download) {
+      res.set('Content-Disposition', `attachment; filename="${invoice.number}.html"`)
+    }
+
+    // The invoice carries its own inline styles and nothing else
+    res.set('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'")
+    res.type('html').send(renderInvoiceHtml(invoice, merchant))
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
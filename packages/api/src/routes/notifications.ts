@@ -0,0 +1,53 @@
+import express, { Response, NextFunction } from 'express'
+import { verifyToken, AuthRequest } from '../middleware/auth.js'
+import { badRequest } from '../middleware/errorHandler.js'
+import { listNotifications, markNotificationsRead } from '../services/notifications.js'
+
+// Signed-in members only: notifications carry billing and security alerts
+const router = express.Router()
+
+/**
+ * GET /api/notifications
+ * Latest dashboard notifications, newest first, with the unread count.
+ * ?unread=1 lists unread ones only.
+ */
+router.get('/', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { notifications, unread } = await listNotifications(req.merchantId!, {
+      unreadOnly: Boolean(req.query.unread)
+    })
+
+    res.json({
+      success: true,
+      notifications,
+      unread
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/notifications/read
+ * Mark notifications read: { ids } or, without ids, all of them
+ */
+router.post('/read', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { ids } = req.body
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+      throw badRequest('ids must be a list of notification IDs')
+    }
+
+    const updated = await markNotificationsRead(req.merchantId!, ids)
+
+    res.json({
+      success: true,
+      updated
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
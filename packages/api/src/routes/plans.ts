@@ -0,0 +1,56 @@
+import express, { Request, Response, NextFunction } from 'express'
+import { verifyTokenOrApiKey, AuthRequest } from '../middleware/auth.js'
+import { getCapabilityMatrix, getEffectivePlan, listPlans } from '../services/plans.js'
+
+const router = express.Router()
+
+/**
+ * GET /api/plans
+ * The public plan catalog: prices, quotas, overage rates and features.
+ * includedTryons is -1 for unlimited.
+ */
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.set('Cache-Control', 'public, max-age=300')
+    res.json({
+      success: true,
+      plans: listPlans()
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/plans/capabilities
+ * Which plans include each gated feature, and the cheapest plan that does.
+ * The dashboard uses this to grey out locked features.
+ */
+router.get('/capabilities', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.set('Cache-Control', 'public, max-age=300')
+    res.json({
+      success: true,
+      capabilities: getCapabilityMatrix()
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/plans/current
+ * The authenticated merchant's plan, with any enterprise contract applied
+ */
+router.get('/current', verifyTokenOrApiKey, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      plan: await getEffectivePlan(req.merchantId!)
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
@@ -1,6 +1,6 @@
 import express, { Response, NextFunction } from 'express'
 import { prisma } from '../utils/prisma.js'
-import { verifyToken, AuthRequest } from '../middleware/auth.js'
+import { verifyTokenOrApiKey, requireScope, requirePermission, AuthRequest } from '../middleware/auth.js'
 import { validateRequired, validatePrice, validatePagination } from '../utils/validation.js'
 import { badRequest, notFound } from '../middleware/errorHandler.js'
 import { ProductCategory } from '@prisma/client'
@@ -8,14 +8,22 @@ import { parse } from 'csv-parse/sync'
 import axios from 'axios'
 import { XMLParser } from 'fast-xml-parser'
 import { optimizeImage, bufferToDataUrl } from '../utils/imageOptimizer.js'
+import { BASE_CURRENCY, currencyFromPrice, normalizeCurrency, parseCurrency } from '../services/currency.js'
+import { auditRequest, diffChanges } from '../services/audit.js'
 
 const router = express.Router()
 
+// Product fields whose edits go in the audit log. Images are left out, as
+// they may be data URLs too large to keep twice.
+const AUDITED_PRODUCT_FIELDS = [
+  'name', 'description', 'price', 'currency', 'category', 'sku', 'metadata', 'isActive'
+] as const
+
 /**
  * GET /api/products
  * List merchant's products
  */
-router.get('/', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/', verifyTokenOrApiKey, requireScope('CATALOG_WRITE'), requirePermission('catalog'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string)
     const { category, isActive, search } = req.query
@@ -65,7 +73,7 @@ router.get('/', verifyToken, async (req: AuthRequest, res: Response, next: NextF
  * POST /api/products
  * Create a new product
  */
-router.post('/', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post('/', verifyTokenOrApiKey, requireScope('CATALOG_WRITE'), requirePermission('catalog'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const {
       externalId,
@@ -73,7 +81,7 @@ router.post('/', verifyToken, async (req: AuthRequest, res: Response, next: Next
       description,
       imageUrl,
       price,
-      currency = 'USD',
+      currency,
       category = 'OTHER',
       sku,
       metadata
@@ -106,7 +114,7 @@ router.post('/', verifyToken, async (req: AuthRequest, res: Response, next: Next
         description,
         imageUrl,
         price,
-        currency,
+        currency: parseCurrency(currency, BASE_CURRENCY),
         category,
         sku,
         metadata
@@ -122,6 +130,13 @@ router.post('/', verifyToken, async (req: AuthRequest, res: Response, next: Next
       }
     })
 
+    await auditRequest(req, {
+      action: 'product.create',
+      target: { type: 'product', id: product.id },
+      changes: diffChanges(null, product, AUDITED_PRODUCT_FIELDS),
+      metadata: { externalId }
+    })
+
     res.status(201).json({
       success: true,
       product
@@ -135,7 +150,7 @@ router.post('/', verifyToken, async (req: AuthRequest, res: Response, next: Next
  * POST /api/products/bulk
  * Bulk import products (e.g., from e-commerce platform)
  */
-router.post('/bulk', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post('/bulk', verifyTokenOrApiKey, requireScope('CATALOG_WRITE'), requirePermission('catalog'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { products } = req.body
 
@@ -155,10 +170,11 @@ router.post('/bulk', verifyToken, async (req: AuthRequest, res: Response, next:
 
     for (const productData of products) {
       try {
-        const { externalId, name, imageUrl, price, ...rest } = productData
+        const { externalId, name, imageUrl, price, currency: rawCurrency, ...rest } = productData
 
         validateRequired({ externalId, name, imageUrl, price })
         validatePrice(price)
+        const currency = parseCurrency(rawCurrency, BASE_CURRENCY)
 
         await prisma.product.upsert({
           where: {
@@ -171,6 +187,7 @@ router.post('/bulk', verifyToken, async (req: AuthRequest, res: Response, next:
             name,
             imageUrl,
             price,
+            ...(rawCurrency && { currency }),
             ...rest
           },
           create: {
@@ -179,7 +196,7 @@ router.post('/bulk', verifyToken, async (req: AuthRequest, res: Response, next:
             name,
             imageUrl,
             price,
-            currency: rest.currency || 'USD',
+            currency,
             category: rest.category || 'OTHER',
             ...rest
           }
@@ -194,6 +211,12 @@ router.post('/bulk', verifyToken, async (req: AuthRequest, res: Response, next:
       }
     }
 
+    await auditRequest(req, {
+      action: 'product.bulk_import',
+      target: { type: 'catalog' },
+      metadata: { upserted: results.created, failed: results.errors.length }
+    })
+
     res.json({
       success: true,
       results
@@ -207,7 +230,7 @@ router.post('/bulk', verifyToken, async (req: AuthRequest, res: Response, next:
  * GET /api/products/:id
  * Get a specific product
  */
-router.get('/:id', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/:id', verifyTokenOrApiKey, requireScope('CATALOG_WRITE'), requirePermission('catalog'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params
 
@@ -240,10 +263,10 @@ router.get('/:id', verifyToken, async (req: AuthRequest, res: Response, next: Ne
  * PUT /api/products/:id
  * Update a product
  */
-router.put('/:id', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.put('/:id', verifyTokenOrApiKey, requireScope('CATALOG_WRITE'), requirePermission('catalog'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params
-    const { name, description, imageUrl, price, category, sku, metadata, isActive } = req.body
+    const { name, description, imageUrl, price, currency, category, sku, metadata, isActive } = req.body
 
     // Check product exists and belongs to merchant
     const existingProduct = await prisma.product.findFirst({
@@ -270,6 +293,7 @@ router.put('/:id', verifyToken, async (req: AuthRequest, res: Response, next: Ne
         ...(description !== undefined && { description }),
         ...(imageUrl && { imageUrl }),
         ...(price !== undefined && { price }),
+        ...(currency && { currency: parseCurrency(currency, existingProduct.currency) }),
         ...(category && { category }),
         ...(sku !== undefined && { sku }),
         ...(metadata !== undefined && { metadata }),
@@ -277,6 +301,17 @@ router.put('/:id', verifyToken, async (req: AuthRequest, res: Response, next: Ne
       }
     })
 
+    const changes = diffChanges(existingProduct, product, AUDITED_PRODUCT_FIELDS)
+
+    if (changes || product.imageUrl !== existingProduct.imageUrl) {
+      await auditRequest(req, {
+        action: 'product.update',
+        target: { type: 'product', id },
+        changes,
+        metadata: { imageChanged: product.imageUrl !== existingProduct.imageUrl }
+      })
+    }
+
     res.json({
       success: true,
       product
@@ -290,7 +325,7 @@ router.put('/:id', verifyToken, async (req: AuthRequest, res: Response, next: Ne
  * DELETE /api/products/:id
  * Delete a product (soft delete)
  */
-router.delete('/:id', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.delete('/:id', verifyTokenOrApiKey, requireScope('CATALOG_WRITE'), requirePermission('catalog'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params
 
@@ -316,6 +351,11 @@ router.delete('/:id', verifyToken, async (req: AuthRequest, res: Response, next:
       }
     })
 
+    await auditRequest(req, {
+      action: 'product.delete',
+      target: { type: 'product', id }
+    })
+
     res.json({
       success: true,
       message: 'Product deactivated'
@@ -333,7 +373,7 @@ router.delete('/:id', verifyToken, async (req: AuthRequest, res: Response, next:
  * POST /api/v1/products/import
  * Bulk import products via CSV or JSON
  */
-router.post('/v1/import', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post('/v1/import', verifyTokenOrApiKey, requireScope('CATALOG_WRITE'), requirePermission('catalog'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { format, data } = req.body
 
@@ -381,6 +421,7 @@ router.post('/v1/import', verifyToken, async (req: AuthRequest, res: Response, n
     for (const productData of products) {
       try {
         const { externalId, name, imageUrl, price, category, description, sku } = productData
+        const currency = normalizeCurrency(productData.currency) || currencyFromPrice(price)
 
         // Validate required fields
         if (!externalId || !name || !imageUrl || !price) {
@@ -427,6 +468,7 @@ router.post('/v1/import', verifyToken, async (req: AuthRequest, res: Response, n
             name,
             imageUrl: optimizedImageUrl,
             price: parseFloat(price),
+            ...(currency && { currency }),
             ...(description && { description }),
             ...(category && { category: category as ProductCategory }),
             ...(sku && { sku }),
@@ -437,7 +479,7 @@ router.post('/v1/import', verifyToken, async (req: AuthRequest, res: Response, n
             name,
             imageUrl: optimizedImageUrl,
             price: parseFloat(price),
-            currency: 'USD',
+            currency: currency || BASE_CURRENCY,
             category: (category as ProductCategory) || 'OTHER',
             description,
             sku,
@@ -460,6 +502,12 @@ router.post('/v1/import', verifyToken, async (req: AuthRequest, res: Response, n
 
     console.log(`✓ Import complete: ${results.created} created, ${results.updated} updated, ${results.skipped} skipped`)
 
+    await auditRequest(req, {
+      action: 'product.import',
+      target: { type: 'catalog' },
+      metadata: { format, created: results.created, updated: results.updated, skipped: results.skipped },
+    })
+
     res.json({
       success: true,
       results,
@@ -473,14 +521,16 @@ router.post('/v1/import', verifyToken, async (req: AuthRequest, res: Response, n
  * POST /api/v1/products/sync-url
  * Sync products from external feed URL (JSON or XML)
  */
-router.post('/v1/sync-url', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post('/v1/sync-url', verifyTokenOrApiKey, requireScope('CATALOG_WRITE'), requirePermission('catalog'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { url, format } = req.body
+    const { url, format, currency } = req.body
 
     if (!url) {
       throw badRequest('url is required')
     }
 
+    const feedCurrency = currency ? parseCurrency(currency, BASE_CURRENCY) : null
+
     console.log(`🔄 Fetching product feed from: ${url}`)
 
     // Fetch feed
@@ -542,6 +592,10 @@ router.post('/v1/sync-url', verifyToken, async (req: AuthRequest, res: Response,
           description: item.description || item.desc,
           category: item.category || item.product_type,
           sku: item.sku,
+          // Per item, else the feed-wide currency from the request
+          currency: normalizeCurrency(item.currency || item.price_currency) ||
+            currencyFromPrice(item.price || item.sale_price) ||
+            feedCurrency,
         }
 
         if (!productData.externalId || !productData.name || !productData.imageUrl || !productData.price) {
@@ -586,6 +640,7 @@ router.post('/v1/sync-url', verifyToken, async (req: AuthRequest, res: Response,
             name: productData.name,
             imageUrl: optimizedImageUrl,
             price: parseFloat(productData.price),
+            ...(productData.currency && { currency: productData.currency }),
             ...(productData.description && { description: productData.description }),
             ...(productData.category && { category: productData.category as ProductCategory }),
             ...(productData.sku && { sku: productData.sku }),
@@ -596,7 +651,7 @@ router.post('/v1/sync-url', verifyToken, async (req: AuthRequest, res: Response,
             name: productData.name,
             imageUrl: optimizedImageUrl,
             price: parseFloat(productData.price),
-            currency: 'USD',
+            currency: productData.currency || BASE_CURRENCY,
             category: (productData.category as ProductCategory) || 'OTHER',
             description: productData.description,
             sku: productData.sku,
@@ -619,6 +674,12 @@ router.post('/v1/sync-url', verifyToken, async (req: AuthRequest, res: Response,
 
     console.log(`✓ Sync complete: ${results.created} created, ${results.updated} updated, ${results.skipped} skipped`)
 
+    await auditRequest(req, {
+      action: 'product.sync_url',
+      target: { type: 'catalog' },
+      metadata: { url, created: results.created, updated: results.updated, skipped: results.skipped },
+    })
+
     res.json({
       success: true,
       results,
@@ -632,7 +693,7 @@ router.post('/v1/sync-url', verifyToken, async (req: AuthRequest, res: Response,
  * POST /api/v1/products/webhook
  * Generic webhook receiver for WooCommerce, Magento, etc.
  */
-router.post('/v1/webhook', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post('/v1/webhook', verifyTokenOrApiKey, requireScope('CATALOG_WRITE'), requirePermission('catalog'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const webhookData = req.body
     const platform = (req.headers['x-platform'] || req.body.platform || 'generic') as string
@@ -691,6 +752,9 @@ router.post('/v1/webhook', verifyToken, async (req: AuthRequest, res: Response,
       throw badRequest('Missing required fields: externalId, name, price')
     }
 
+    const currency = normalizeCurrency(webhookData.currency || webhookData.currency_code) ||
+      currencyFromPrice(productData.price)
+
     validatePrice(parseFloat(productData.price))
 
     // Optimize image if URL provided
@@ -717,6 +781,7 @@ router.post('/v1/webhook', verifyToken, async (req: AuthRequest, res: Response,
         name: productData.name,
         ...(optimizedImageUrl && { imageUrl: optimizedImageUrl }),
         price: parseFloat(productData.price),
+        ...(currency && { currency }),
         ...(productData.description && { description: productData.description }),
         ...(productData.category && { category: productData.category as ProductCategory }),
         ...(productData.sku && { sku: productData.sku }),
@@ -727,7 +792,7 @@ router.post('/v1/webhook', verifyToken, async (req: AuthRequest, res: Response,
         name: productData.name,
         imageUrl: optimizedImageUrl || '',
         price: parseFloat(productData.price),
-        currency: 'USD',
+        currency: currency || BASE_CURRENCY,
         category: (productData.category as ProductCategory) || 'OTHER',
         description: productData.description,
         sku: productData.sku,
@@ -736,6 +801,12 @@ router.post('/v1/webhook', verifyToken, async (req: AuthRequest, res: Response,
 
     console.log(`✓ Product ${product.id} synced via webhook (${platform})`)
 
+    await auditRequest(req, {
+      action: 'product.webhook_sync',
+      target: { type: 'product', id: product.id },
+      metadata: { platform, externalId: product.externalId },
+    })
+
     res.json({
       success: true,
       product: {
@@ -1,12 +1,32 @@
-import { Router } from 'express'
+import { Router, Request } from 'express'
 import { prisma } from '../utils/prisma.js'
-import { verifyApiKey, AuthRequest } from '../middleware/auth.js'
-import crypto from 'crypto'
+import { verifyToken, verifyTokenOrWidgetKey, requireScope, requirePermission, AuthRequest } from '../middleware/auth.js'
+import { getTryOnProvider, listTryOnProviders } from '../services/providers/index.js'
+import { getOrCreatePublishableKey, normalizeAllowedDomains, rotateDefaultApiKey } from '../services/api-keys.js'
+import { requireFeature } from '../middleware/entitlements.js'
+import { getEffectivePlan } from '../services/plans.js'
+import { normalizeCurrency } from '../services/currency.js'
+import { invalidateMerchantCache } from '../utils/cache.js'
+import { auditRequest, diffChanges } from '../services/audit.js'
+
+// Settings whose changes go in the audit log
+const AUDITED_WIDGET_FIELDS = [
+  'buttonText',
+  'buttonColor',
+  'buttonPosition',
+  'customCssSelector',
+  'requireEmail',
+  'showCompleteLook',
+  'enableSizeRecommendations',
+  'hideBranding',
+  'customLogoUrl',
+] as const
+const AUDITED_MERCHANT_FIELDS = ['tryOnProvider', 'reportingCurrency', 'allowedDomains'] as const
 
 const router = Router()
 
 // GET /api/settings - Get widget settings
-router.get('/', verifyApiKey, async (req: AuthRequest, res) => {
+router.get('/', verifyTokenOrWidgetKey, requireScope('WIDGET'), async (req: AuthRequest, res) => {
   try {
     const merchantId = req.merchant!.id
 
@@ -21,15 +41,40 @@ router.get('/', verifyApiKey, async (req: AuthRequest, res) => {
       })
     }
 
-    res.json({ settings })
+    // Publishable key for the widget embed snippet
+    const [publishableKey, plan] = await Promise.all([
+      getOrCreatePublishableKey(merchantId),
+      getEffectivePlan(merchantId),
+    ])
+
+    // What the widget should render; white-label settings lapse with the plan
+    const whiteLabel = plan.features.whiteLabel
+
+    res.json({
+      settings,
+      branding: {
+        showPoweredBy: !(whiteLabel && settings.hideBranding),
+        logoUrl: whiteLabel ? settings.customLogoUrl : null,
+      },
+      publishableKey: publishableKey.key,
+      tryOnProvider: req.merchant!.tryOnProvider,
+      availableProviders: listTryOnProviders(),
+      reportingCurrency: req.merchant!.reportingCurrency,
+      allowedDomains: req.merchant!.allowedDomains,
+    })
   } catch (error) {
     console.error('Error fetching widget settings:', error)
     res.status(500).json({ error: 'Failed to fetch settings' })
   }
 })
 
-// PUT /api/settings - Update widget settings
-router.put('/', verifyApiKey, async (req: AuthRequest, res) => {
+// PUT /api/settings - Update widget settings. Turning on white-label
+// options needs a plan that includes them. Signed-in members only: no key
+// scope covers the allowed domains that lock down publishable keys.
+const usesWhiteLabel = (req: Request) =>
+  req.body?.hideBranding === true || Boolean(req.body?.customLogoUrl)
+
+router.put('/', verifyToken, requirePermission('settings'), requireFeature('whiteLabel', usesWhiteLabel), async (req: AuthRequest, res) => {
   try {
     const merchantId = req.merchant!.id
     const {
@@ -40,8 +85,68 @@ router.put('/', verifyApiKey, async (req: AuthRequest, res) => {
       requireEmail,
       showCompleteLook,
       enableSizeRecommendations,
+      hideBranding,
+      customLogoUrl,
+      tryOnProvider,
+      reportingCurrency,
+      allowedDomains,
     } = req.body
 
+    const [previousSettings, previousMerchant] = await Promise.all([
+      prisma.widgetSettings.findUnique({ where: { merchantId } }),
+      prisma.merchant.findUnique({
+        where: { id: merchantId },
+        select: { tryOnProvider: true, reportingCurrency: true, allowedDomains: true },
+      }),
+    ])
+
+    if (customLogoUrl) {
+      try {
+        if (new URL(customLogoUrl).protocol !== 'https:') throw new Error()
+      } catch {
+        return res.status(400).json({ error: 'customLogoUrl must be an https URL' })
+      }
+    }
+
+    const domains = allowedDomains !== undefined ? normalizeAllowedDomains(allowedDomains) : undefined
+    if (domains === null) {
+      return res.status(400).json({ error: 'allowedDomains must be a list of domains or https origins' })
+    }
+
+    // null clears the override and falls back to the server default
+    if (tryOnProvider !== undefined) {
+      if (tryOnProvider !== null && !getTryOnProvider(tryOnProvider)) {
+        return res.status(400).json({ error: `Unknown try-on provider: ${tryOnProvider}` })
+      }
+
+      await prisma.merchant.update({
+        where: { id: merchantId },
+        data: { tryOnProvider },
+      })
+    }
+
+    // Analytics revenue is converted to this currency
+    if (reportingCurrency !== undefined) {
+      const currency = normalizeCurrency(reportingCurrency)
+      if (!currency) {
+        return res.status(400).json({ error: 'reportingCurrency must be a three-letter ISO 4217 code' })
+      }
+
+      await prisma.merchant.update({
+        where: { id: merchantId },
+        data: { reportingCurrency: currency },
+      })
+      invalidateMerchantCache(merchantId)
+    }
+
+    // Origins publishable keys are accepted from; while empty they are rejected
+    if (domains) {
+      await prisma.merchant.update({
+        where: { id: merchantId },
+        data: { allowedDomains: domains },
+      })
+    }
+
     const settings = await prisma.widgetSettings.upsert({
       where: { merchantId },
       update: {
@@ -52,6 +157,8 @@ router.put('/', verifyApiKey, async (req: AuthRequest, res) => {
         requireEmail,
         showCompleteLook,
         enableSizeRecommendations,
+        hideBranding,
+        customLogoUrl,
       },
       create: {
         merchantId,
@@ -62,31 +169,58 @@ router.put('/', verifyApiKey, async (req: AuthRequest, res) => {
         requireEmail,
         showCompleteLook,
         enableSizeRecommendations,
+        hideBranding,
+        customLogoUrl,
       },
     })
 
-    res.json({ settings })
+    const merchant = {
+      tryOnProvider: tryOnProvider !== undefined ? tryOnProvider : previousMerchant?.tryOnProvider,
+      reportingCurrency: normalizeCurrency(reportingCurrency) || previousMerchant?.reportingCurrency,
+      allowedDomains: domains ?? previousMerchant?.allowedDomains ?? [],
+    }
+
+    const changes = {
+      ...diffChanges(previousSettings, settings, AUDITED_WIDGET_FIELDS),
+      ...diffChanges(previousMerchant, merchant, AUDITED_MERCHANT_FIELDS),
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await auditRequest(req, {
+        action: 'settings.update',
+        target: { type: 'merchant', id: merchantId },
+        changes,
+      })
+    }
+
+    res.json({ settings, ...merchant })
   } catch (error) {
     console.error('Error updating widget settings:', error)
     res.status(500).json({ error: 'Failed to update settings' })
   }
 })
 
-// POST /api/settings/regenerate-api-key - Regenerate API key
-router.post('/regenerate-api-key', verifyApiKey, async (req: AuthRequest, res) => {
+// POST /api/settings/regenerate-api-key - Replace the default secret key.
+// The response is the only time the new key is returned. Signed-in members
+// only: the new key has every scope, more than a calling key may hold.
+router.post('/regenerate-api-key', verifyToken, requirePermission('apiKeys'), async (req: AuthRequest, res) => {
   try {
     const merchantId = req.merchant!.id
 
-    // Generate new API key
-    const newApiKey = `rf_${crypto.randomBytes(32).toString('hex')}`
+    const apiKey = await rotateDefaultApiKey(merchantId)
+
+    await auditRequest(req, {
+      action: 'api_key.regenerate',
+      target: { type: 'api_key', id: apiKey.id },
+      metadata: { lookupPrefix: apiKey.lookupPrefix },
+    })
 
-    const merchant = await prisma.merchant.update({
+    const merchant = await prisma.merchant.findUnique({
       where: { id: merchantId },
-      data: { apiKey: newApiKey },
-      select: { id: true, email: true, businessName: true, apiKey: true, plan: true },
+      select: { id: true, email: true, businessName: true, plan: true },
     })
 
-    res.json({ merchant })
+    res.json({ merchant: { ...merchant, apiKey: apiKey.key } })
   } catch (error) {
     console.error('Error regenerating API key:', error)
     res.status(500).json({ error: 'Failed to regenerate API key' })
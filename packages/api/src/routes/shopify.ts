@@ -13,6 +13,8 @@ import {
   isShopifyConfigured,
 } from '../integrations/shopify.js'
 import { prisma } from '../utils/prisma.js'
+import { recordAuditEvent, requestActor } from '../services/audit.js'
+import { sessionClient } from '../services/sessions.js'
 
 const router = Router()
 
@@ -68,9 +70,27 @@ router.get('/callback', async (req: Request, res: Response) => {
       state as string
     )
 
+    const previous = await prisma.merchantIntegration.findUnique({
+      where: { merchantId_platform: { merchantId, platform: 'shopify' } },
+      select: { shopDomain: true, scope: true, isActive: true },
+    })
+
     // Install integration
     await installIntegration(merchantId, shop as string, accessToken, scope)
 
+    // The merchant approved the install on Shopify; no session reaches this redirect
+    await recordAuditEvent({
+      action: 'shopify.install',
+      merchantId,
+      actor: { actorType: 'system', actorLabel: 'Shopify', client: sessionClient(req) },
+      target: { type: 'shopify_store', id: shop as string },
+      changes: {
+        shopDomain: { from: previous?.shopDomain ?? null, to: shop as string },
+        scope: { from: previous?.scope ?? null, to: scope },
+        isActive: { from: previous?.isActive ?? null, to: true },
+      },
+    })
+
     // Redirect to success page
     res.send(`
       <!DOCTYPE html>
@@ -180,6 +200,14 @@ router.post('/sync', async (req: AuthRequest, res: Response) => {
 
     const count = await syncProducts(merchantId, integration.shopDomain, integration.accessToken)
 
+    await recordAuditEvent({
+      action: 'shopify.sync',
+      merchantId,
+      actor: requestActor(req),
+      target: { type: 'shopify_store', id: integration.shopDomain },
+      metadata: { syncedCount: count },
+    })
+
     res.json({
       success: true,
       syncedCount: count,
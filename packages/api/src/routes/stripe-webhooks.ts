@@ -0,0 +1,34 @@
+import express, { Request, Response } from 'express'
+import { constructWebhookEvent } from '../services/stripe.js'
+import { handleStripeEvent } from '../services/subscriptions.js'
+
+const router = express.Router()
+
+/**
+ * POST /api/webhooks/stripe
+ * Subscription lifecycle events from Stripe. Mounted with a raw body
+ * parser, since the signature covers the exact bytes Stripe sent.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  let event
+  try {
+    event = constructWebhookEvent(req.body, req.headers['stripe-signature'] as string | undefined)
+  } catch (error) {
+    console.error('❌ Stripe webhook rejected:', (error as Error).message)
+    return res.status(400).json({ error: (error as Error).message })
+  }
+
+  try {
+    const handled = await handleStripeEvent(event)
+
+    console.log(`💳 Stripe webhook: ${event.type}${handled ? '' : ' (ignored)'}`)
+
+    res.status(200).json({ received: true })
+  } catch (error) {
+    // A non-2xx response makes Stripe retry the event
+    console.error(`Stripe ${event.type} webhook error:`, error)
+    res.status(500).json({ error: 'Webhook processing failed' })
+  }
+})
+
+export default router
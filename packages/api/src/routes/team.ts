@@ -0,0 +1,249 @@
+import express, { Request, Response, NextFunction } from 'express'
+import { verifyToken, requirePermission, AuthRequest } from '../middleware/auth.js'
+import {
+  ROLE_PERMISSIONS,
+  acceptInvitation,
+  changeMemberRole,
+  inviteMember,
+  listTeam,
+  parseRole,
+  previewInvitation,
+  removeMember,
+  revokeInvitation,
+  setTwoFactorRequirement
+} from '../services/team.js'
+import { listMemberships, userProfileSelect } from '../services/users.js'
+import { createSession, sessionClient } from '../services/sessions.js'
+import { loginChallenge } from '../services/two-factor.js'
+import { auditRequest, recordAuditEvent, userActor } from '../services/audit.js'
+import { prisma } from '../utils/prisma.js'
+
+const router = express.Router()
+
+/**
+ * A member as the audit log should name them, before a change
+ */
+function findMemberForAudit(merchantId: string, membershipId: string) {
+  return prisma.membership.findFirst({
+    where: { id: membershipId, merchantId },
+    select: { role: true, userId: true, user: { select: { email: true } } }
+  })
+}
+
+/**
+ * GET /api/team
+ * Members, pending invitations, and what each role can do
+ */
+router.get('/', verifyToken, requirePermission('team'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const [{ members, invitations }, merchant] = await Promise.all([
+      listTeam(req.merchantId!),
+      prisma.merchant.findUnique({ where: { id: req.merchantId }, select: { requireTwoFactor: true } })
+    ])
+
+    res.json({
+      success: true,
+      members,
+      invitations,
+      roles: ROLE_PERMISSIONS,
+      requireTwoFactor: merchant?.requireTwoFactor ?? false
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * PUT /api/team/security
+ * Require two-factor authentication for every member: { requireTwoFactor }.
+ * Owners only.
+ */
+router.put('/security', verifyToken, requirePermission('team'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const actor = { role: req.role!, totpEnabledAt: req.user!.totpEnabledAt }
+    const previous = await prisma.merchant.findUnique({ where: { id: req.merchantId }, select: { requireTwoFactor: true } })
+    const requireTwoFactor = await setTwoFactorRequirement(req.merchantId!, req.body.requireTwoFactor, actor)
+
+    if (previous && previous.requireTwoFactor !== requireTwoFactor) {
+      await auditRequest(req, {
+        action: 'team.security_update',
+        target: { type: 'merchant', id: req.merchantId },
+        changes: { requireTwoFactor: { from: previous.requireTwoFactor, to: requireTwoFactor } }
+      })
+    }
+
+    res.json({
+      success: true,
+      requireTwoFactor
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/team/invitations
+ * Invite someone by email: { email, role }
+ */
+router.post('/invitations', verifyToken, requirePermission('team'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const invitedBy = { ...req.user!, role: req.role! }
+    const invitation = await inviteMember(req.merchantId!, req.body, invitedBy)
+
+    await auditRequest(req, {
+      action: 'team.invite',
+      target: { type: 'invitation', id: invitation.id },
+      metadata: { email: invitation.email, role: invitation.role }
+    })
+
+    res.status(201).json({
+      success: true,
+      invitation
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * DELETE /api/team/invitations/:id
+ * Revoke a pending invitation
+ */
+router.delete('/invitations/:id', verifyToken, requirePermission('team'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await revokeInvitation(req.merchantId!, req.params.id)
+
+    await auditRequest(req, {
+      action: 'team.invitation_revoke',
+      target: { type: 'invitation', id: req.params.id }
+    })
+
+    res.json({ success: true })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/team/invitations/:token
+ * What an invitation is for, for the accept screen (no auth)
+ */
+router.get('/invitations/:token', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invitation = await previewInvitation(req.params.token)
+
+    res.json({
+      success: true,
+      invitation
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/team/invitations/accept
+ * Accept an invitation (no auth): { token, password, name? }. Returns a
+ * session for the merchant joined, or a two-factor challenge like
+ * POST /api/auth/login.
+ */
+router.post('/invitations/accept', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId, merchantId } = await acceptInvitation(req.body)
+
+    const [joiner, joined] = await Promise.all([
+      prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { id: true, email: true, totpEnabledAt: true } }),
+      prisma.merchant.findUniqueOrThrow({ where: { id: merchantId }, select: { id: true, requireTwoFactor: true } })
+    ])
+
+    await recordAuditEvent({
+      action: 'team.join',
+      merchantId,
+      actor: userActor(req, joiner),
+      target: { type: 'user', id: userId }
+    })
+    const challenge = loginChallenge(joiner, joined)
+
+    if (challenge) {
+      res.status(201).json({ success: true, ...challenge })
+      return
+    }
+
+    const [token, user, merchant, memberships] = await Promise.all([
+      createSession(userId, merchantId, sessionClient(req)),
+      prisma.user.update({
+        where: { id: userId },
+        data: { lastLoginAt: new Date() },
+        select: userProfileSelect
+      }),
+      prisma.merchant.findUnique({
+        where: { id: merchantId },
+        select: { id: true, email: true, businessName: true, plan: true, subscriptionStatus: true, trialEndsAt: true }
+      }),
+      listMemberships(userId)
+    ])
+
+    res.status(201).json({
+      success: true,
+      token,
+      merchant,
+      user,
+      role: memberships.find(membership => membership.merchantId === merchantId)?.role,
+      memberships
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * PUT /api/team/members/:id
+ * Change a member's role: { role }
+ */
+router.put('/members/:id', verifyToken, requirePermission('team'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const previous = await findMemberForAudit(req.merchantId!, req.params.id)
+    const membership = await changeMemberRole(req.merchantId!, req.params.id, parseRole(req.body.role), req.role!)
+
+    if (previous && previous.role !== membership.role) {
+      await auditRequest(req, {
+        action: 'team.role_change',
+        target: { type: 'user', id: previous.userId },
+        changes: { role: { from: previous.role, to: membership.role } },
+        metadata: { email: previous.user.email }
+      })
+    }
+
+    res.json({
+      success: true,
+      member: { id: membership.id, role: membership.role }
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * DELETE /api/team/members/:id
+ * Remove a member from the team
+ */
+router.delete('/members/:id', verifyToken, requirePermission('team'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const previous = await findMemberForAudit(req.merchantId!, req.params.id)
+    await removeMember(req.merchantId!, req.params.id, req.role!)
+
+    if (previous) {
+      await auditRequest(req, {
+        action: 'team.remove',
+        target: { type: 'user', id: previous.userId },
+        metadata: { email: previous.user.email, role: previous.role }
+      })
+    }
+
+    res.json({ success: true })
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
@@ -1,32 +1,183 @@
 import express, { Request, Response, NextFunction } from 'express'
 import { prisma } from '../utils/prisma.js'
-import { badRequest, unauthorized, tooManyRequests, internalError } from '../middleware/errorHandler.js'
+import { badRequest, unauthorized, forbidden, notFound, internalError } from '../middleware/errorHandler.js'
 import { validateRequired } from '../utils/validation.js'
 import { processImageInput, validateImageBuffer } from '../utils/imageUtils.js'
-import { generateTryOn, extractSizeRecommendation, isGeminiConfigured } from '../services/gemini.js'
-import { saveImage } from '../services/storage.js'
-import { trackUsage, getCurrentUsage } from '../services/billing.js'
-import { SubscriptionPlan } from '@prisma/client'
+import { getTryOnProvider, resolveTryOnProvider } from '../services/providers/index.js'
+import { saveImage, withSignedImageUrls } from '../services/storage.js'
+import { releaseUsage, reserveUsage, resolveRequestId } from '../services/usage-meter.js'
+import { resolveApiKey, assertApiKeyAccess, hasScope } from '../services/api-keys.js'
+import {
+  EnqueueTryOnJobInput,
+  enqueueTryOnJob,
+  getTryOnJob,
+  serializeTryOnJob,
+  serializeTryOnJobResult
+} from '../services/tryon-jobs.js'
+import {
+  buildProgressEvent,
+  subscribeToProgress,
+  TRYON_STAGES,
+  TryOnProgressEvent,
+  TryOnStage
+} from '../services/tryon-progress.js'
+import { assertFeature } from '../middleware/entitlements.js'
+import { setUsageLimitHeaders } from '../middleware/rateLimit.js'
+import { checkTrial, trialExpiredError } from '../services/trials.js'
+import { Merchant, TryOnJob, UsageReservation } from '@prisma/client'
 
 const router = express.Router()
 
-// Plan limits per month
-const PLAN_LIMITS: Record<SubscriptionPlan, number> = {
-  [SubscriptionPlan.ATELIER]: 500,
-  [SubscriptionPlan.MAISON]: 2000,
-  [SubscriptionPlan.COUTURE]: 5000
+// Most products a single batch request may queue
+const MAX_BATCH_SIZE = 10
+
+/**
+ * Resolve the widget's publishable or secret key and require the WIDGET
+ * scope. Sent as X-API-Key, or in the query string where headers cannot be
+ * set (EventSource); the body field is accepted for older widget builds.
+ */
+async function resolveWidgetApiKey(req: Request) {
+  const fromQuery = !req.headers['x-api-key'] && !req.body?.apiKey
+  const apiKey = req.headers['x-api-key'] || req.body?.apiKey || req.query.apiKey
+
+  if (!apiKey || typeof apiKey !== 'string') {
+    throw unauthorized('API key required')
+  }
+
+  const resolved = await resolveApiKey(apiKey)
+
+  // URLs end up in access logs and browser history, so only public keys there
+  if (fromQuery && resolved.type !== 'PUBLISHABLE') {
+    throw forbidden('Secret keys cannot be sent in the query string - use the X-API-Key header')
+  }
+
+  // Publishable keys only from the merchant's allowed domains
+  assertApiKeyAccess(resolved, ['PUBLISHABLE', 'SECRET'], req.headers.origin)
+
+  if (!hasScope(resolved, 'WIDGET')) {
+    throw forbidden('API key is missing the WIDGET scope')
+  }
+
+  return resolved
+}
+
+/**
+ * Reject merchants whose subscription does not allow generation, expiring
+ * trials that have run out. Quota is enforced when usage is reserved.
+ */
+async function assertCanGenerate(
+  merchant: Pick<Merchant, 'id' | 'subscriptionStatus' | 'trialEndsAt' | 'stripeSubscriptionId'>
+): Promise<void> {
+  const status = await checkTrial(merchant)
+
+  if (status === 'SUSPENDED') {
+    throw unauthorized('Account suspended - please contact support')
+  }
+
+  if (status === 'CANCELED') {
+    throw unauthorized('Subscription canceled - please reactivate your account')
+  }
+
+  if (status === 'PAST_DUE') {
+    throw unauthorized('Payment past due - please update your payment method')
+  }
+
+  if (status === 'TRIAL_EXPIRED') {
+    throw trialExpiredError()
+  }
+}
+
+/**
+ * Queue jobs for reserved units of quota, one per entry in `productIds`
+ * (same order as `reservations`). Units that already have a job, because
+ * this is a retry of the same request, get that job back. If queueing
+ * fails, units left without a job are released.
+ */
+async function queueReservedJobs(
+  reservations: UsageReservation[],
+  productIds: string[],
+  input: Omit<EnqueueTryOnJobInput, 'productId' | 'inputImageUrl' | 'requestId' | 'usageReservationId'>,
+  storeInputImage: () => Promise<string>
+): Promise<TryOnJob[]> {
+  const findJobs = () => prisma.tryOnJob.findMany({
+    where: { usageReservationId: { in: reservations.map(reservation => reservation.id) } }
+  })
+
+  const jobs = await findJobs()
+  let inputImageUrl: string | null = null
+
+  try {
+    for (const [index, reservation] of reservations.entries()) {
+      if (jobs.some(job => job.usageReservationId === reservation.id)) continue
+
+      // Stored once, and only if something still needs queueing
+      inputImageUrl = inputImageUrl || await storeInputImage()
+
+      jobs.push(await enqueueTryOnJob({
+        ...input,
+        productId: productIds[index],
+        inputImageUrl,
+        requestId: reservation.requestId,
+        usageReservationId: reservation.id
+      }))
+    }
+  } catch (error) {
+    // A concurrent retry of the same request may have queued them first
+    const queued = await findJobs()
+    const orphaned = reservations.filter(reservation =>
+      !queued.some(job => job.usageReservationId === reservation.id)
+    )
+
+    await Promise.all(orphaned.map(reservation => releaseUsage(reservation.id)))
+
+    if (orphaned.length > 0) throw error
+    return reservations.map(reservation => queued.find(job => job.usageReservationId === reservation.id)!)
+  }
+
+  return reservations.map(reservation => jobs.find(job => job.usageReservationId === reservation.id)!)
+}
+
+/**
+ * Response entry for a queued job
+ */
+function queuedJobResponse(job: TryOnJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    statusUrl: `/api/v1/tryons/jobs/${job.id}`,
+    eventsUrl: `/api/v1/tryons/jobs/${job.id}/events`
+  }
+}
+
+/**
+ * The generation provider for a request, which must be configured
+ */
+function resolveConfiguredProvider(requested: string | undefined, merchantDefault: string | null) {
+  if (requested && !getTryOnProvider(requested)) {
+    throw badRequest(`Unknown try-on provider: ${requested}`)
+  }
+
+  const provider = resolveTryOnProvider(requested, merchantDefault)
+  if (!provider.isConfigured()) {
+    throw internalError('AI service not configured. Please contact support.')
+  }
+
+  return provider
 }
 
 /**
  * POST /api/v1/tryons/generate
- * Core try-on generation endpoint
+ * Core try-on generation endpoint. Validates the request, reserves a unit
+ * of quota and queues a generation job; poll GET /api/v1/tryons/jobs/:id
+ * for the result or stream GET /api/v1/tryons/jobs/:id/events for progress.
+ * Send an Idempotency-Key header so a retried request gets the same job
+ * back instead of using quota twice.
  */
 router.post('/generate', async (req: Request, res: Response, next: NextFunction) => {
   let merchantId: string | null = null
 
   try {
     const {
-      apiKey,
       customerId,
       customerPhoto,
       productId,
@@ -37,52 +188,17 @@ router.post('/generate', async (req: Request, res: Response, next: NextFunction)
     // 1. VERIFY MERCHANT API KEY AND CHECK USAGE LIMITS
     // ========================================================================
 
-    validateRequired({ apiKey, customerPhoto, productId })
-
-    // Validate API key format
-    if (!apiKey.startsWith('rfts_')) {
-      throw unauthorized('Invalid API key format')
-    }
-
-    // Fetch merchant by API key
-    const merchant = await prisma.merchant.findUnique({
-      where: { apiKey },
-      select: {
-        id: true,
-        businessName: true,
-        plan: true,
-        subscriptionStatus: true,
-        email: true
-      }
-    })
+    // Validates format, revocation, expiry, scope and origin
+    const { merchant } = await resolveWidgetApiKey(req)
 
-    if (!merchant) {
-      throw unauthorized('Invalid API key')
-    }
+    validateRequired({ customerPhoto, productId })
 
     merchantId = merchant.id
 
-    // Check subscription status
-    if (merchant.subscriptionStatus === 'SUSPENDED') {
-      throw unauthorized('Account suspended - please contact support')
-    }
-
-    if (merchant.subscriptionStatus === 'CANCELED') {
-      throw unauthorized('Subscription canceled - please reactivate your account')
-    }
-
-    if (merchant.subscriptionStatus === 'PAST_DUE') {
-      throw unauthorized('Payment past due - please update your payment method')
-    }
-
-    // Check usage limits
-    const monthlyLimit = PLAN_LIMITS[merchant.plan]
-    const currentUsage = await getCurrentUsage(merchant.id)
+    await assertCanGenerate(merchant)
 
-    if (currentUsage.used >= monthlyLimit) {
-      throw tooManyRequests(
-        `Monthly try-on limit exceeded (${monthlyLimit} try-ons). Please upgrade your plan or wait until next month.`
-      )
+    if (options.quality === 'hd') {
+      await assertFeature(merchant.id, 'hdQuality')
     }
 
     // ========================================================================
@@ -98,232 +214,306 @@ router.post('/generate', async (req: Request, res: Response, next: NextFunction)
       throw badRequest(`Invalid customer photo: ${(error as Error).message}`)
     }
 
-    // ========================================================================
-    // 3. FETCH PRODUCT DETAILS FROM DATABASE
-    // ========================================================================
-
     const product = await prisma.product.findFirst({
       where: {
         id: productId,
         merchantId: merchant.id,
         isActive: true
-      }
+      },
+      select: { id: true }
     })
 
     if (!product) {
       throw badRequest('Product not found or inactive')
     }
 
-    // Download product image
-    let productImageBuffer: Buffer
-    try {
-      productImageBuffer = await processImageInput(product.imageUrl)
-      validateImageBuffer(productImageBuffer, 5)
-    } catch (error) {
-      throw badRequest(`Failed to load product image: ${(error as Error).message}`)
-    }
+    const provider = resolveConfiguredProvider(options.provider, merchant.tryOnProvider)
 
     // ========================================================================
-    // 4. CALL GEMINI AI FOR TRY-ON GENERATION
+    // 3. RESERVE QUOTA, STORE CUSTOMER PHOTO AND QUEUE GENERATION JOB
     // ========================================================================
 
-    // Check if Gemini is configured
-    if (!isGeminiConfigured()) {
-      throw internalError('AI service not configured. Please contact support.')
-    }
+    // Committed when the job succeeds, released if it fails
+    const reservations = await reserveUsage(merchant.id, resolveRequestId(req.headers['idempotency-key']))
+    await setUsageLimitHeaders(res, merchant.id)
 
-    // Log try-on started event
-    await prisma.analyticsEvent.create({
-      data: {
+    const [job] = await queueReservedJobs(
+      reservations,
+      [product.id],
+      {
         merchantId: merchant.id,
-        eventType: 'TRY_ON_STARTED',
-        eventData: {
-          productId: product.id,
-          customerId,
-          quality: options.quality || 'standard'
+        customerId,
+        options: {
+          quality: options.quality || 'standard',
+          saveToProfile: !!options.saveToProfile,
+          provider: provider.name
         },
         ipAddress: req.ip,
         userAgent: req.headers['user-agent']
-      }
-    })
-
-    let tryOnResult
-    try {
-      tryOnResult = await generateTryOn(
-        customerPhotoBuffer,
-        productImageBuffer,
-        {
-          quality: options.quality || 'standard',
-          background: 'studio'
-        }
-      )
-    } catch (error) {
-      // Log failure event
-      await prisma.analyticsEvent.create({
-        data: {
-          merchantId: merchant.id,
-          eventType: 'TRY_ON_FAILED',
-          eventData: {
-            productId: product.id,
-            error: (error as Error).message
-          }
-        }
-      })
-
-      throw internalError(`AI generation failed: ${(error as Error).message}`)
-    }
+      },
+      () => saveImage(customerPhotoBuffer, `customer-${Date.now()}.jpg`, 'inputs', merchant.id)
+    )
 
     // ========================================================================
-    // 5. SAVE GENERATED IMAGE
+    // 4. RETURN JOB ID - the widget polls the status endpoint for the result
     // ========================================================================
 
-    const inputImageUrl = await saveImage(
-      customerPhotoBuffer,
-      `customer-${Date.now()}.jpg`,
-      'inputs'
-    )
+    res.status(202).json({
+      success: true,
+      ...queuedJobResponse(job)
+    })
+  } catch (error) {
+    // Log error if we have merchantId
+    if (merchantId) {
+      try {
+        await prisma.analyticsEvent.create({
+          data: {
+            merchantId,
+            eventType: 'TRY_ON_FAILED',
+            eventData: {
+              error: (error as Error).message,
+              stack: (error as Error).stack
+            }
+          }
+        })
+      } catch (logError) {
+        console.error('Failed to log error event:', logError)
+      }
+    }
 
-    const outputImageUrl = await saveImage(
-      tryOnResult.resultBuffer,
-      `tryon-${Date.now()}.jpg`,
-      'outputs'
-    )
+    next(error)
+  }
+})
 
-    // Extract size recommendation from AI analysis
-    const recommendedSize = extractSizeRecommendation(tryOnResult.analysis)
+/**
+ * POST /api/v1/tryons/batch
+ * Queue one try-on per product for the same customer photo. Requires a plan
+ * with batch generation; the whole batch must fit in the remaining quota.
+ * Idempotent per Idempotency-Key, like /generate.
+ */
+router.post('/batch', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const {
+      customerId,
+      customerPhoto,
+      productIds,
+      options = {}
+    } = req.body
 
-    // ========================================================================
-    // 6. FIND OR CREATE CUSTOMER
-    // ========================================================================
+    const { merchant } = await resolveWidgetApiKey(req)
 
-    let customer
-    if (customerId) {
-      customer = await prisma.customer.findUnique({
-        where: { id: customerId }
-      })
+    validateRequired({ customerPhoto, productIds })
 
-      if (customer) {
-        await prisma.customer.update({
-          where: { id: customerId },
-          data: { lastSeen: new Date() }
-        })
-      }
+    if (!Array.isArray(productIds) || productIds.length === 0 || productIds.length > MAX_BATCH_SIZE ||
+        productIds.some(id => typeof id !== 'string')) {
+      throw badRequest(`productIds must be a list of 1 to ${MAX_BATCH_SIZE} product IDs`)
     }
 
-    if (!customer) {
-      // Create new customer
-      customer = await prisma.customer.create({
-        data: {
-          anonymousId: `anon_${Date.now()}_${Math.random().toString(36).substring(7)}`,
-          ...(options.saveToProfile && { photoUrl: inputImageUrl })
-        }
-      })
+    const uniqueProductIds = [...new Set<string>(productIds)]
+
+    await assertFeature(merchant.id, 'batchGeneration')
+
+    if (options.quality === 'hd') {
+      await assertFeature(merchant.id, 'hdQuality')
     }
 
-    // ========================================================================
-    // 7. RECORD TRY-ON EVENT IN DATABASE
-    // ========================================================================
+    await assertCanGenerate(merchant)
+
+    let customerPhotoBuffer: Buffer
+    try {
+      customerPhotoBuffer = await processImageInput(customerPhoto)
+      validateImageBuffer(customerPhotoBuffer, 5) // 5MB limit
+    } catch (error) {
+      throw badRequest(`Invalid customer photo: ${(error as Error).message}`)
+    }
 
-    const tryOn = await prisma.tryOn.create({
-      data: {
-        customerId: customer.id,
-        productId: product.id,
+    const products = await prisma.product.findMany({
+      where: {
+        id: { in: uniqueProductIds },
         merchantId: merchant.id,
-        inputImageUrl,
-        outputImageUrl,
-        processingTimeMs: tryOnResult.processingTimeMs
-      }
+        isActive: true
+      },
+      select: { id: true }
     })
 
-    // ========================================================================
-    // 8. UPDATE MERCHANT USAGE COUNTER
-    // ========================================================================
+    const found = new Set(products.map(product => product.id))
+    const missing = uniqueProductIds.filter(id => !found.has(id))
+    if (missing.length > 0) {
+      throw badRequest(`Products not found or inactive: ${missing.join(', ')}`)
+    }
 
-    await trackUsage(merchant.id)
+    const provider = resolveConfiguredProvider(options.provider, merchant.tryOnProvider)
 
-    // Get updated usage
-    const updatedUsage = await getCurrentUsage(merchant.id)
+    const reservations = await reserveUsage(
+      merchant.id,
+      resolveRequestId(req.headers['idempotency-key']),
+      uniqueProductIds.length
+    )
+    await setUsageLimitHeaders(res, merchant.id)
 
-    // Log success event
-    await prisma.analyticsEvent.create({
-      data: {
+    const queued = await queueReservedJobs(
+      reservations,
+      uniqueProductIds,
+      {
         merchantId: merchant.id,
-        eventType: 'TRY_ON_COMPLETED',
-        eventData: {
-          tryOnId: tryOn.id,
-          productId: product.id,
-          customerId: customer.id,
-          processingTimeMs: tryOnResult.processingTimeMs,
-          recommendedSize
+        customerId,
+        options: {
+          quality: options.quality || 'standard',
+          saveToProfile: !!options.saveToProfile,
+          provider: provider.name
         },
         ipAddress: req.ip,
         userAgent: req.headers['user-agent']
-      }
-    })
+      },
+      // One stored photo shared by every job in the batch
+      () => saveImage(customerPhotoBuffer, `customer-${Date.now()}.jpg`, 'inputs', merchant.id)
+    )
 
-    // ========================================================================
-    // 9. RETURN RESPONSE
-    // ========================================================================
+    const jobs = queued.map(job => ({ productId: job.productId, ...queuedJobResponse(job) }))
+
+    res.status(202).json({ success: true, jobs })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/v1/tryons/jobs/:id
+ * Poll the status of a try-on generation job
+ */
+router.get('/jobs/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params
+    const { merchant } = await resolveWidgetApiKey(req)
+
+    const job = await getTryOnJob(id, merchant.id)
+
+    if (!job) {
+      throw notFound('Try-on job not found')
+    }
 
     res.json({
       success: true,
-      tryonId: tryOn.id,
-      imageUrl: outputImageUrl,
-      recommendedSize,
-      usageRemaining: updatedUsage.remaining,
-      processingTimeMs: tryOnResult.processingTimeMs,
-      metadata: {
-        customerId: customer.id,
-        productId: product.id,
-        productName: product.name,
-        quality: options.quality || 'standard'
-      }
+      job: serializeTryOnJob(job)
     })
   } catch (error) {
-    // Log error if we have merchantId
-    if (merchantId) {
-      try {
-        await prisma.analyticsEvent.create({
-          data: {
-            merchantId,
-            eventType: 'TRY_ON_FAILED',
-            eventData: {
-              error: (error as Error).message,
-              stack: (error as Error).stack
-            }
-          }
-        })
-      } catch (logError) {
-        console.error('Failed to log error event:', logError)
-      }
-    }
-
     next(error)
   }
 })
 
 /**
- * GET /api/v1/tryons/:id
- * Get try-on details
+ * GET /api/v1/tryons/jobs/:id/events
+ * Server-Sent Events stream of generation progress for a job. Sends the
+ * current stage immediately, then each stage change until the job finishes.
  */
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/jobs/:id/events', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params
-    const { apiKey } = req.query
+    const { merchant } = await resolveWidgetApiKey(req)
 
-    if (!apiKey || typeof apiKey !== 'string') {
-      throw unauthorized('API key required')
+    const job = await getTryOnJob(id, merchant.id)
+
+    if (!job) {
+      throw notFound('Try-on job not found')
     }
 
-    // Verify API key
-    const merchant = await prisma.merchant.findUnique({
-      where: { apiKey }
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
     })
 
-    if (!merchant) {
-      throw unauthorized('Invalid API key')
+    let lastStage = -1
+    let closed = false
+
+    // Stages only move forward; the database can lag behind in-process events
+    const send = (event: TryOnProgressEvent, data: object = {}) => {
+      const stageIndex = TRYON_STAGES.indexOf(event.stage)
+      if (closed || stageIndex <= lastStage) return
+      lastStage = stageIndex
+
+      res.write(`event: progress\ndata: ${JSON.stringify({ ...event, ...data })}\n\n`)
+      res.flush()
+
+      if (event.stage === 'completed' || event.stage === 'failed') {
+        close()
+      }
     }
 
+    // Build an event from the persisted job row
+    const sendFromJob = (current: TryOnJob) => {
+      const stage = jobStage(current)
+      const startedAt = (current.startedAt || current.createdAt).getTime()
+      const event = buildProgressEvent(
+        current.id,
+        stage,
+        startedAt,
+        current.estimatedDurationMs || 0,
+        current.errorMessage || undefined
+      )
+      send(event, stage === 'completed' ? { result: serializeTryOnJobResult(current) } : {})
+    }
+
+    // Completed events from this instance carry no result, so read it back
+    const unsubscribe = subscribeToProgress(job.id, event => {
+      if (event.stage !== 'completed') {
+        send(event)
+        return
+      }
+
+      getTryOnJob(job.id, merchant.id)
+        .then(current => current && sendFromJob(current))
+        .catch(error => console.error(`Failed to load job ${job.id}:`, error))
+    })
+
+    // Fall back to the database for jobs running on another instance
+    const pollTimer = setInterval(() => {
+      getTryOnJob(job.id, merchant.id)
+        .then(current => current && sendFromJob(current))
+        .catch(error => console.error(`Failed to poll job ${job.id}:`, error))
+    }, 2000)
+
+    const heartbeatTimer = setInterval(() => {
+      res.write(': heartbeat\n\n')
+      res.flush()
+    }, 15000)
+
+    const close = () => {
+      if (closed) return
+      closed = true
+      unsubscribe()
+      clearInterval(pollTimer)
+      clearInterval(heartbeatTimer)
+      res.end()
+    }
+
+    req.on('close', close)
+
+    sendFromJob(job)
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * Map a job row to its progress stage
+ */
+function jobStage(job: TryOnJob): TryOnStage {
+  if (job.status === 'SUCCEEDED') return 'completed'
+  if (job.status === 'FAILED') return 'failed'
+  return (job.stage as TryOnStage | null) || 'queued'
+}
+
+/**
+ * GET /api/v1/tryons/:id
+ * Get try-on details
+ */
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params
+    const { merchant, type } = await resolveWidgetApiKey(req)
+
     // Fetch try-on
     const tryOn = await prisma.tryOn.findFirst({
       where: {
@@ -343,7 +533,8 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
         customer: {
           select: {
             id: true,
-            email: true
+            // Publishable keys are public in the page, so no customer emails
+            email: type === 'SECRET'
           }
         }
       }
@@ -355,7 +546,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
 
     res.json({
       success: true,
-      tryOn
+      tryOn: withSignedImageUrls(tryOn)
     })
   } catch (error) {
     next(error)
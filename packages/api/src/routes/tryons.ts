@@ -1,13 +1,16 @@
 import express, { Response, NextFunction } from 'express'
 import multer from 'multer'
 import { prisma } from '../utils/prisma.js'
-import { verifyApiKey, AuthRequest } from '../middleware/auth.js'
+import { verifyApiKey, verifyWidgetKey, requireScope, AuthRequest } from '../middleware/auth.js'
 import { checkRateLimit } from '../middleware/rateLimit.js'
 import { validateImageFile, validateRequired } from '../utils/validation.js'
-import { badRequest } from '../middleware/errorHandler.js'
-import { generateTryOn } from '../services/gemini.js'
-import { saveImage } from '../services/storage.js'
-import { trackUsage } from '../services/billing.js'
+import { badRequest, notFound } from '../middleware/errorHandler.js'
+import { getTryOnProvider, resolveTryOnProvider, formatModelUsed } from '../services/providers/index.js'
+import { saveImage, getSignedImageUrl, withSignedImageUrls } from '../services/storage.js'
+import { commitUsage, releaseUsage, reserveUsage, resolveRequestId } from '../services/usage-meter.js'
+import { emitWebhook } from '../services/webhook-delivery.js'
+import { findMerchantCustomer } from '../services/tryon-jobs.js'
+import { parseCurrency } from '../services/currency.js'
 
 const router = express.Router()
 
@@ -26,16 +29,19 @@ const upload = multer({
  */
 router.post(
   '/',
-  verifyApiKey,
+  verifyWidgetKey,
+  requireScope('WIDGET'),
   checkRateLimit,
   upload.fields([
     { name: 'personImage', maxCount: 1 },
     { name: 'garmentImage', maxCount: 1 }
   ]),
   async (req: AuthRequest, res: Response, next: NextFunction) => {
+    let reservationId: string | null = null
+
     try {
       const files = req.files as { [fieldname: string]: Express.Multer.File[] }
-      const { productId, customerId, customerEmail } = req.body
+      const { productId, customerId, customerEmail, provider: requestedProvider } = req.body
 
       // Validate required files
       if (!files.personImage || !files.personImage[0]) {
@@ -53,32 +59,36 @@ router.post(
       validateImageFile(personFile)
       validateImageFile(garmentFile)
 
-      // Save input images
-      const personImageUrl = await saveImage(personFile.buffer, personFile.originalname, 'inputs')
-      const garmentImageUrl = await saveImage(garmentFile.buffer, garmentFile.originalname, 'inputs')
+      if (requestedProvider && !getTryOnProvider(requestedProvider)) {
+        throw badRequest(`Unknown try-on provider: ${requestedProvider}`)
+      }
+
+      // Hold a unit of quota for the generation; committed once it succeeds
+      const [reservation] = await reserveUsage(req.merchantId!, resolveRequestId(req.headers['idempotency-key']))
+      reservationId = reservation.id
 
-      // Generate try-on with Gemini AI
-      const { resultBuffer, processingTimeMs } = await generateTryOn(
-        personFile.buffer,
-        garmentFile.buffer
-      )
+      // Save the customer's photo; the try-on keeps only it and the result
+      const personImageUrl = await saveImage(personFile.buffer, personFile.originalname, 'inputs', req.merchantId)
+
+      // Generate try-on with the merchant's provider
+      const provider = resolveTryOnProvider(requestedProvider, req.merchant.tryOnProvider)
+      const result = await provider.generate(personFile.buffer, garmentFile.buffer, {
+        costContext: { merchantId: req.merchantId! }
+      })
+      const { resultBuffer, processingTimeMs } = result
 
       // Save output image
-      const outputImageUrl = await saveImage(resultBuffer, 'result.jpg', 'outputs')
+      const outputImageUrl = await saveImage(resultBuffer, 'result.jpg', 'outputs', req.merchantId)
 
-      // Find or create customer
-      let customer
-      if (customerId) {
-        customer = await prisma.customer.findUnique({
-          where: { id: customerId }
-        })
-      } else if (customerEmail) {
+      // Find or create customer; an unknown customer ID gets a new customer
+      let customer = customerId ? await findMerchantCustomer(customerId, req.merchantId!) : null
+      if (!customer && customerEmail) {
         customer = await prisma.customer.upsert({
           where: { email: customerEmail },
           update: { lastSeen: new Date() },
           create: { email: customerEmail }
         })
-      } else {
+      } else if (!customer) {
         // Create anonymous customer
         customer = await prisma.customer.create({
           data: {
@@ -95,12 +105,13 @@ router.post(
           merchantId: req.merchantId!,
           inputImageUrl: personImageUrl,
           outputImageUrl,
-          processingTimeMs
+          processingTimeMs,
+          geminiModelUsed: formatModelUsed(result)
         }
       })
 
       // Track usage for billing
-      await trackUsage(req.merchantId!)
+      await commitUsage(reservation.id)
 
       // Log analytics event
       await prisma.analyticsEvent.create({
@@ -121,11 +132,17 @@ router.post(
         success: true,
         tryOn: {
           id: tryOn.id,
-          outputImageUrl: tryOn.outputImageUrl,
+          outputImageUrl: getSignedImageUrl(tryOn.outputImageUrl),
           processingTimeMs: tryOn.processingTimeMs
         }
       })
     } catch (error) {
+      // No-op once committed; otherwise the failed generation gives its unit back
+      if (reservationId) {
+        await releaseUsage(reservationId).catch(releaseError =>
+          console.error('Failed to release usage reservation:', releaseError)
+        )
+      }
       next(error)
     }
   }
@@ -135,7 +152,7 @@ router.post(
  * GET /api/tryons
  * List try-ons for merchant
  */
-router.get('/', verifyApiKey, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/', verifyApiKey, requireScope('WIDGET'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { page = '1', limit = '20', productId } = req.query
 
@@ -175,7 +192,7 @@ router.get('/', verifyApiKey, async (req: AuthRequest, res: Response, next: Next
 
     res.json({
       success: true,
-      tryOns,
+      tryOns: tryOns.map(withSignedImageUrls),
       pagination: {
         page: pageNum,
         limit: limitNum,
@@ -192,7 +209,7 @@ router.get('/', verifyApiKey, async (req: AuthRequest, res: Response, next: Next
  * GET /api/tryons/:id
  * Get a specific try-on
  */
-router.get('/:id', verifyApiKey, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/:id', verifyApiKey, requireScope('WIDGET'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params
 
@@ -219,7 +236,7 @@ router.get('/:id', verifyApiKey, async (req: AuthRequest, res: Response, next: N
 
     res.json({
       success: true,
-      tryOn
+      tryOn: withSignedImageUrls(tryOn)
     })
   } catch (error) {
     next(error)
@@ -230,17 +247,31 @@ router.get('/:id', verifyApiKey, async (req: AuthRequest, res: Response, next: N
  * PATCH /api/tryons/:id/conversion
  * Mark try-on as converted (customer purchased)
  */
-router.patch('/:id/conversion', verifyApiKey, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.patch('/:id/conversion', verifyApiKey, requireScope('WIDGET'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params
-    const { purchaseAmount } = req.body
+    const { purchaseAmount, currency } = req.body
+
+    // Only the caller's own try-ons; another merchant's ID is not found
+    const existing = await prisma.tryOn.findFirst({
+      where: { id, merchantId: req.merchantId! },
+      select: { id: true, product: { select: { currency: true } } }
+    })
+
+    if (!existing) {
+      throw notFound('Try-on not found')
+    }
+
+    // Purchases without a currency are in the product's
+    const purchaseCurrency = purchaseAmount ? parseCurrency(currency, existing.product.currency) : null
 
     const tryOn = await prisma.tryOn.update({
-      where: { id },
+      where: { id: existing.id },
       data: {
         converted: true,
         convertedAt: new Date(),
-        purchaseAmount: purchaseAmount ? parseFloat(purchaseAmount) : null
+        purchaseAmount: purchaseAmount ? parseFloat(purchaseAmount) : null,
+        purchaseCurrency
       }
     })
 
@@ -250,15 +281,26 @@ router.patch('/:id/conversion', verifyApiKey, async (req: AuthRequest, res: Resp
         merchantId: req.merchantId!,
         eventType: 'CONVERSION',
         eventData: {
-          tryOnId: id,
-          purchaseAmount
+          tryOnId: tryOn.id,
+          purchaseAmount,
+          currency: purchaseCurrency
         }
       }
     })
 
+    // Reached only once the lookup above found the caller's own try-on
+    emitWebhook(tryOn.merchantId, 'conversion.recorded', {
+      tryOnId: tryOn.id,
+      productId: tryOn.productId,
+      orderId: null,
+      amount: tryOn.purchaseAmount,
+      currency: purchaseCurrency,
+      source: 'api'
+    })
+
     res.json({
       success: true,
-      tryOn
+      tryOn: withSignedImageUrls(tryOn)
     })
   } catch (error) {
     next(error)
@@ -0,0 +1,46 @@
+import express, { Request, Response, NextFunction } from 'express'
+import { forbidden, notFound } from '../middleware/errorHandler.js'
+import { getStorageDriver, isPrivateStorageKey } from '../services/storage.js'
+import { verifyLocalSignature } from '../services/storage-drivers/index.js'
+import { getImageMimeType } from '../utils/imageUtils.js'
+
+const router = express.Router()
+
+/**
+ * GET /uploads/:key
+ * Serve an image from storage. Customer photos and try-on results require
+ * a signed URL (?expires=&signature=); signed URLs are rejected once
+ * expired or tampered with.
+ */
+router.get('/*', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const key = req.params[0]
+    const { expires, signature } = req.query
+
+    if (!expires && !signature && isPrivateStorageKey(key)) {
+      throw forbidden('Signed image URL required')
+    }
+
+    if (expires || signature) {
+      if (typeof expires !== 'string' || typeof signature !== 'string' ||
+          !verifyLocalSignature(key, expires, signature)) {
+        throw forbidden('Image link is invalid or has expired')
+      }
+    }
+
+    let buffer: Buffer
+    try {
+      buffer = await getStorageDriver().getObject(key)
+    } catch {
+      throw notFound('Image not found')
+    }
+
+    res.set('Content-Type', getImageMimeType(buffer))
+    res.set('Cache-Control', signature ? 'private, max-age=300' : 'public, max-age=86400')
+    res.send(buffer)
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
@@ -1,7 +1,18 @@
 import express, { Request, Response, NextFunction } from 'express'
 import { prisma } from '../utils/prisma.js'
-import { verifyToken, AuthRequest } from '../middleware/auth.js'
-import { badRequest } from '../middleware/errorHandler.js'
+import { verifyToken, requirePermission, AuthRequest } from '../middleware/auth.js'
+import { badRequest, notFound } from '../middleware/errorHandler.js'
+import { requireFeature } from '../middleware/entitlements.js'
+import {
+  WEBHOOK_EVENTS,
+  SIGNATURE_HEADER,
+  assertPublicWebhookUrl,
+  emitWebhook,
+  generateWebhookSecret,
+  redeliverWebhook
+} from '../services/webhook-delivery.js'
+import { normalizeCurrency } from '../services/currency.js'
+import { auditRequest, diffChanges } from '../services/audit.js'
 
 const router = express.Router()
 
@@ -22,7 +33,8 @@ router.post('/shopify', express.json(), async (req: Request, res: Response, next
       where: {
         OR: [
           { website: { contains: shopDomain } },
-          { webhookSecret: shopDomain } // Store shop domain in webhookSecret for Shopify
+          { integrations: { some: { platform: 'shopify', shopDomain } } },
+          { webhookSecret: shopDomain } // Legacy: shop domain stored in webhookSecret
         ]
       }
     })
@@ -43,7 +55,7 @@ router.post('/shopify', express.json(), async (req: Request, res: Response, next
         break
 
       case 'orders/create':
-        await handleOrderCreated(merchant.id, data)
+        await handleOrderCreated(merchant.id, data, 'shopify')
         break
 
       default:
@@ -95,7 +107,7 @@ router.post('/woocommerce', express.json(), async (req: Request, res: Response,
         await handleProductDelete(merchant.id, data.id.toString())
       }
     } else if (event === 'order.created') {
-      await handleOrderCreated(merchant.id, data)
+      await handleOrderCreated(merchant.id, data, 'woocommerce')
     }
 
     res.status(200).json({ message: 'Webhook processed' })
@@ -109,10 +121,15 @@ router.post('/woocommerce', express.json(), async (req: Request, res: Response,
  * GET /api/webhooks/config
  * Get webhook configuration for merchant
  */
-router.get('/config', verifyToken, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/config', verifyToken, requirePermission('webhooks'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const baseUrl = process.env.BASE_URL || 'http://localhost:3001'
 
+    const merchant = await prisma.merchant.findUnique({
+      where: { id: req.merchantId },
+      select: { webhookUrl: true, webhookSecret: true }
+    })
+
     const config = {
       shopifyWebhookUrl: `${baseUrl}/api/webhooks/shopify`,
       woocommerceWebhookUrl: `${baseUrl}/api/webhooks/woocommerce?merchant_id=${req.merchantId}`,
@@ -121,7 +138,14 @@ router.get('/config', verifyToken, async (req: AuthRequest, res: Response, next:
         'products/update',
         'products/delete',
         'orders/create'
-      ]
+      ],
+      // Outbound: events we send to the merchant
+      outbound: {
+        url: merchant?.webhookUrl || null,
+        signingSecret: merchant?.webhookUrl ? merchant.webhookSecret : null,
+        signatureHeader: SIGNATURE_HEADER,
+        events: WEBHOOK_EVENTS
+      }
     }
 
     res.json({
@@ -133,6 +157,132 @@ router.get('/config', verifyToken, async (req: AuthRequest, res: Response, next:
   }
 })
 
+/**
+ * PUT /api/webhooks/config
+ * Set the URL we deliver outbound events to (null to disable). It must be
+ * https and resolve to a public address. A signing secret is generated on
+ * first setup or when rotateSecret is true.
+ */
+router.put('/config', verifyToken, requirePermission('webhooks'), requireFeature('webhooks', req => Boolean(req.body?.url)), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { url, rotateSecret } = req.body
+
+    if (url !== null) {
+      await assertPublicWebhookUrl(url)
+    }
+
+    const merchant = await prisma.merchant.findUnique({
+      where: { id: req.merchantId },
+      select: { webhookUrl: true, webhookSecret: true }
+    })
+
+    // Replace legacy values (Shopify shop domains) with a real signing secret
+    const needsSecret = !merchant?.webhookSecret?.startsWith('whsec_') || rotateSecret === true
+    const secretRotated = url !== null && needsSecret
+
+    const updated = await prisma.merchant.update({
+      where: { id: req.merchantId },
+      data: {
+        webhookUrl: url,
+        ...(secretRotated && { webhookSecret: generateWebhookSecret() })
+      },
+      select: { webhookUrl: true, webhookSecret: true }
+    })
+
+    // The secret itself stays out of the log
+    const changes = diffChanges(merchant, updated, ['webhookUrl'])
+    if (changes || secretRotated) {
+      await auditRequest(req, {
+        action: 'webhook.update',
+        target: { type: 'merchant', id: req.merchantId! },
+        changes,
+        ...(secretRotated && { metadata: { secretRotated: true } })
+      })
+    }
+
+    res.json({
+      success: true,
+      outbound: {
+        url: updated.webhookUrl,
+        signingSecret: updated.webhookUrl ? updated.webhookSecret : null,
+        signatureHeader: SIGNATURE_HEADER,
+        events: WEBHOOK_EVENTS
+      }
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/webhooks/deliveries
+ * List outbound webhook deliveries, newest first
+ */
+router.get('/deliveries', verifyToken, requirePermission('webhooks'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+    const skip = (page - 1) * limit
+    const { eventType, status } = req.query
+
+    if (eventType && !WEBHOOK_EVENTS.includes(eventType as typeof WEBHOOK_EVENTS[number])) {
+      throw badRequest(`Invalid eventType. Must be one of: ${WEBHOOK_EVENTS.join(', ')}`)
+    }
+
+    const where = {
+      merchantId: req.merchantId,
+      ...(eventType && { eventType: eventType as string }),
+      ...(status === 'delivered' && { delivered: true }),
+      ...(status === 'pending' && { delivered: false, nextAttemptAt: { not: null } }),
+      ...(status === 'failed' && { delivered: false, nextAttemptAt: null })
+    }
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhook.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit
+      }),
+      prisma.webhook.count({ where })
+    ])
+
+    res.json({
+      success: true,
+      deliveries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/webhooks/deliveries/:id/redeliver
+ * Send a delivery again immediately
+ */
+router.post('/deliveries/:id/redeliver', verifyToken, requirePermission('webhooks'), requireFeature('webhooks'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const delivery = await redeliverWebhook(req.params.id, req.merchantId!)
+
+    if (!delivery) {
+      throw notFound('Webhook delivery not found')
+    }
+
+    res.json({
+      success: true,
+      delivery
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -156,7 +306,7 @@ async function handleProductSync(merchantId: string, productData: any) {
       description: productData.description || productData.body_html,
       imageUrl: productData.image?.src || productData.images?.[0]?.src || productData.image_url,
       price: parseFloat(productData.price || productData.variants?.[0]?.price || '0'),
-      currency: productData.currency || 'USD',
+      currency: normalizeCurrency(productData.currency || productData.currency_code) || 'USD',
       sku: productData.sku || productData.variants?.[0]?.sku,
       metadata: {
         platform: productData.platform || 'unknown',
@@ -207,10 +357,33 @@ async function handleProductDelete(merchantId: string, externalId: string) {
   }
 }
 
+/**
+ * Order line item, as Shopify (product_id) or WooCommerce (external_id) sends it
+ */
+interface OrderLineItem {
+  product_id?: number | string
+  external_id?: string
+  price?: string
+  total?: string
+}
+
+/**
+ * The fields of an order webhook used to match try-ons
+ */
+interface OrderPayload {
+  id: number | string
+  customer?: { email?: string }
+  billing?: { email?: string }
+  line_items?: OrderLineItem[]
+  items?: OrderLineItem[]
+  currency?: string
+  currency_code?: string
+}
+
 /**
  * Handle order created - check for try-on conversions
  */
-async function handleOrderCreated(merchantId: string, orderData: any) {
+async function handleOrderCreated(merchantId: string, orderData: OrderPayload, platform: string) {
   try {
     const customerEmail = orderData.customer?.email || orderData.billing?.email
 
@@ -241,6 +414,7 @@ async function handleOrderCreated(merchantId: string, orderData: any) {
 
     // Match products in order to try-ons
     const lineItems = orderData.line_items || orderData.items || []
+    const orderCurrency = normalizeCurrency(orderData.currency || orderData.currency_code)
 
     for (const tryOn of recentTryOns) {
       if (!tryOn.productId) continue
@@ -252,7 +426,7 @@ async function handleOrderCreated(merchantId: string, orderData: any) {
       if (!product) continue
 
       // Check if this product is in the order
-      const matchingItem = lineItems.find((item: any) => {
+      const matchingItem = lineItems.find(item => {
         const itemExternalId = item.product_id?.toString() || item.external_id
         return itemExternalId === product.externalId
       })
@@ -264,7 +438,8 @@ async function handleOrderCreated(merchantId: string, orderData: any) {
           data: {
             converted: true,
             convertedAt: new Date(),
-            purchaseAmount: parseFloat(matchingItem.price || matchingItem.total || '0')
+            purchaseAmount: parseFloat(matchingItem.price || matchingItem.total || '0'),
+            purchaseCurrency: orderCurrency || product.currency
           }
         })
 
@@ -276,11 +451,21 @@ async function handleOrderCreated(merchantId: string, orderData: any) {
             eventData: {
               tryOnId: tryOn.id,
               orderId: orderData.id,
-              productId: product.id
+              productId: product.id,
+              currency: orderCurrency || product.currency
             }
           }
         })
 
+        emitWebhook(merchantId, 'conversion.recorded', {
+          tryOnId: tryOn.id,
+          productId: product.id,
+          orderId: String(orderData.id),
+          amount: parseFloat(matchingItem.price || matchingItem.total || '0'),
+          currency: orderCurrency || product.currency,
+          source: platform
+        })
+
         console.log(`Try-on converted: ${tryOn.id}`)
       }
     }
@@ -6,6 +6,7 @@ import dotenv from 'dotenv'
 import { requestLogger } from './middleware/requestLogger.js'
 import { errorHandler } from './middleware/errorHandler.js'
 import { notFoundHandler } from './middleware/errorHandler.js'
+import { trustProxySetting } from './utils/proxy.js'
 
 // Routes
 import authRoutes from './routes/auth.js'
@@ -16,8 +17,23 @@ import analyticsRoutes from './routes/analytics.js'
 import analyticsV1Routes from './routes/analytics-v1.js'
 import webhookRoutes from './routes/webhooks.js'
 import settingsRoutes from './routes/settings.js'
+import apiKeyRoutes from './routes/api-keys.js'
 import shopifyRoutes from './routes/shopify.js'
 import shopifyWebhookRoutes from './routes/shopify-webhooks.js'
+import uploadRoutes from './routes/uploads.js'
+import billingRoutes from './routes/billing.js'
+import planRoutes from './routes/plans.js'
+import stripeWebhookRoutes from './routes/stripe-webhooks.js'
+import notificationRoutes from './routes/notifications.js'
+import teamRoutes from './routes/team.js'
+import auditRoutes from './routes/audit.js'
+
+// Background workers
+import { startTryOnWorker, stopTryOnWorker } from './services/tryon-jobs.js'
+import { startWebhookWorker, stopWebhookWorker } from './services/webhook-delivery.js'
+import { startBillingCloseWorker, stopBillingCloseWorker } from './services/invoices.js'
+import { startTrialWorker, stopTrialWorker } from './services/trials.js'
+import { startExchangeRateWorker, stopExchangeRateWorker } from './services/currency.js'
 
 // Load environment variables
 dotenv.config()
@@ -25,6 +41,10 @@ dotenv.config()
 const app: Application = express()
 const PORT = process.env.PORT || 3001
 
+// Client addresses (req.ip) from X-Forwarded-For, for sign in throttling,
+// sessions and the audit log
+app.set('trust proxy', trustProxySetting())
+
 // ============================================================================
 // MIDDLEWARE
 // ============================================================================
@@ -51,6 +71,9 @@ app.use(cors(corsOptions))
 // Compression
 app.use(compression())
 
+// Stripe signs the raw body, so its webhook is mounted before JSON parsing
+app.use('/api/webhooks/stripe', express.raw({ type: 'application/json' }), stripeWebhookRoutes)
+
 // Body parsing
 app.use(express.json({ limit: '10mb' }))
 app.use(express.urlencoded({ extended: true, limit: '10mb' }))
@@ -93,9 +116,18 @@ app.use('/api/analytics', analyticsRoutes)
 app.use('/api/v1/analytics', analyticsV1Routes)
 app.use('/api/webhooks', webhookRoutes)
 app.use('/api/settings', settingsRoutes)
+app.use('/api/api-keys', apiKeyRoutes)
+app.use('/api/billing', billingRoutes)
+app.use('/api/plans', planRoutes)
+app.use('/api/notifications', notificationRoutes)
+app.use('/api/team', teamRoutes)
+app.use('/api/audit', auditRoutes)
 app.use('/api/integrations/shopify', shopifyRoutes)
 app.use('/api/webhooks/shopify', shopifyWebhookRoutes)
 
+// Stored images (local storage driver)
+app.use('/uploads', uploadRoutes)
+
 // ============================================================================
 // ERROR HANDLING
 // ============================================================================
@@ -122,16 +154,28 @@ const server = app.listen(PORT, () => {
   console.log(`   GET  /health - Health check`)
   console.log(`   POST /api/auth/register - Register merchant`)
   console.log(`   POST /api/auth/login - Login merchant`)
-  console.log(`   POST /api/v1/tryons/generate - Create virtual try-on (v1)`)
+  console.log(`   POST /api/v1/tryons/generate - Queue virtual try-on (v1)`)
+  console.log(`   GET  /api/v1/tryons/jobs/:id - Try-on job status (v1)`)
   console.log(`   POST /api/tryons - Create try-on`)
   console.log(`   GET  /api/products - List products`)
   console.log(`   GET  /api/analytics/stats - Dashboard stats`)
   console.log('\n')
+
+  startTryOnWorker()
+  startWebhookWorker()
+  startBillingCloseWorker()
+  startTrialWorker()
+  startExchangeRateWorker()
 })
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server')
+  stopTryOnWorker()
+  stopWebhookWorker()
+  stopBillingCloseWorker()
+  stopTrialWorker()
+  stopExchangeRateWorker()
   server.close(() => {
     console.log('HTTP server closed')
     process.exit(0)
@@ -140,6 +184,11 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT signal received: closing HTTP server')
+  stopTryOnWorker()
+  stopWebhookWorker()
+  stopBillingCloseWorker()
+  stopTrialWorker()
+  stopExchangeRateWorker()
   server.close(() => {
     console.log('HTTP server closed')
     process.exit(0)
@@ -0,0 +1,177 @@
+import { fakePrisma } from '../test/prisma.js'
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { ApiKey } from '@prisma/client'
+import { Response } from 'express'
+import {
+  ResolvedApiKey,
+  allowDomains,
+  assertApiKeyAccess,
+  createApiKey,
+  hasScope,
+  isAllowedOrigin,
+  normalizeAllowedDomains
+} from './api-keys.js'
+import { AuthRequest, requireScope } from '../middleware/auth.js'
+
+let allowedDomains: string[] = []
+let updates: { allowedDomains: string[] }[] = []
+
+fakePrisma.apiKey = {
+  create: async ({ data }: { data: Partial<ApiKey> }) => ({ id: 'key_1', ...data })
+}
+fakePrisma.analyticsEvent = {
+  create: async () => ({})
+}
+fakePrisma.merchant = {
+  findUniqueOrThrow: async () => ({ allowedDomains }),
+  update: async ({ data }: { data: { allowedDomains: string[] } }) => {
+    updates.push(data)
+    return data
+  }
+}
+
+function resolvedKey(type: ApiKey['type'], domains: string[]): ResolvedApiKey {
+  return { type, scopes: ['WIDGET'], merchant: { allowedDomains: domains } } as unknown as ResolvedApiKey
+}
+
+describe('createApiKey scopes', () => {
+  it('gives secret keys every scope by default', async () => {
+    const apiKey = await createApiKey('merchant_1', { name: 'Server' })
+
+    assert.match(apiKey.key, /^rfts_[0-9a-f]{64}$/)
+    assert.deepEqual(apiKey.scopes, ['WIDGET', 'CATALOG_WRITE', 'ANALYTICS_READ'])
+  })
+
+  it('keeps the scopes a secret key is created with', async () => {
+    const apiKey = await createApiKey('merchant_1', { name: 'Reports', scopes: ['ANALYTICS_READ'] })
+
+    assert.deepEqual(apiKey.scopes, ['ANALYTICS_READ'])
+  })
+
+  it('only ever gives publishable keys the WIDGET scope', async () => {
+    const apiKey = await createApiKey('merchant_1', {
+      name: 'Storefront',
+      type: 'PUBLISHABLE',
+      scopes: ['CATALOG_WRITE', 'ANALYTICS_READ']
+    })
+
+    assert.match(apiKey.key, /^rfpk_/)
+    assert.deepEqual(apiKey.scopes, ['WIDGET'])
+  })
+})
+
+describe('requireScope', () => {
+  function check(req: Partial<AuthRequest>): unknown {
+    let result: unknown = 'not called'
+    requireScope('CATALOG_WRITE')(req as AuthRequest, {} as Response, error => { result = error })
+    return result
+  }
+
+  it('rejects keys without the scope', () => {
+    const error = check({ apiKey: { scopes: ['WIDGET'] } as ApiKey }) as Error
+
+    assert.match(error.message, /missing the CATALOG_WRITE scope/)
+  })
+
+  it('allows keys with the scope, and dashboard sessions', () => {
+    assert.equal(check({ apiKey: { scopes: ['CATALOG_WRITE'] } as ApiKey }), undefined)
+    assert.equal(check({ merchantId: 'merchant_1' }), undefined)
+  })
+
+  it('matches hasScope', () => {
+    assert.equal(hasScope({ scopes: ['WIDGET', 'ANALYTICS_READ'] }, 'ANALYTICS_READ'), true)
+    assert.equal(hasScope({ scopes: ['WIDGET'] }, 'ANALYTICS_READ'), false)
+  })
+})
+
+describe('isAllowedOrigin', () => {
+  it('matches hosts exactly, with or without a stored scheme', () => {
+    assert.equal(isAllowedOrigin('https://shop.com', ['shop.com']), true)
+    assert.equal(isAllowedOrigin('https://shop.com', ['https://shop.com']), true)
+    assert.equal(isAllowedOrigin('http://localhost:3000', ['http://localhost:3000']), true)
+  })
+
+  it('rejects lookalike and sub domains', () => {
+    assert.equal(isAllowedOrigin('https://shop.com.evil.com', ['shop.com']), false)
+    assert.equal(isAllowedOrigin('https://evilshop.com', ['shop.com']), false)
+    assert.equal(isAllowedOrigin('https://www.shop.com', ['shop.com']), false)
+    assert.equal(isAllowedOrigin('https://shop.com:8443', ['shop.com']), false)
+  })
+
+  it('rejects origins that are not URLs', () => {
+    assert.equal(isAllowedOrigin('null', ['shop.com']), false)
+    assert.equal(isAllowedOrigin('', ['shop.com']), false)
+  })
+})
+
+describe('assertApiKeyAccess', () => {
+  it('rejects key types the route does not accept', () => {
+    assert.throws(
+      () => assertApiKeyAccess(resolvedKey('PUBLISHABLE', ['shop.com']), ['SECRET'], 'https://shop.com'),
+      /use a secret key/
+    )
+    assert.throws(
+      () => assertApiKeyAccess(resolvedKey('SECRET', []), ['PUBLISHABLE'], undefined),
+      /only accepts publishable keys/
+    )
+  })
+
+  it('rejects publishable keys until the merchant allows a domain', () => {
+    assert.throws(
+      () => assertApiKeyAccess(resolvedKey('PUBLISHABLE', []), ['PUBLISHABLE'], 'https://shop.com'),
+      /Add your storefront domain/
+    )
+  })
+
+  it('rejects publishable keys from other origins, or none', () => {
+    const apiKey = resolvedKey('PUBLISHABLE', ['shop.com'])
+
+    assert.throws(() => assertApiKeyAccess(apiKey, ['PUBLISHABLE'], 'https://evil.com'), /not allowed/)
+    assert.throws(() => assertApiKeyAccess(apiKey, ['PUBLISHABLE'], undefined), /\(none\) not allowed/)
+  })
+
+  it('accepts publishable keys from allowed origins, and secret keys from anywhere', () => {
+    assertApiKeyAccess(resolvedKey('PUBLISHABLE', ['shop.com']), ['PUBLISHABLE', 'SECRET'], 'https://shop.com')
+    assertApiKeyAccess(resolvedKey('SECRET', []), ['PUBLISHABLE', 'SECRET'], undefined)
+  })
+})
+
+describe('allowed domains', () => {
+  beforeEach(() => {
+    updates = []
+  })
+
+  it('normalizes entries to scheme and host, dropping duplicates', () => {
+    assert.deepEqual(
+      normalizeAllowedDomains(['shop.com', ' https://shop.com/cart ', 'http://localhost:3000']),
+      ['https://shop.com', 'http://localhost:3000']
+    )
+  })
+
+  it('rejects lists with invalid entries', () => {
+    assert.equal(normalizeAllowedDomains('shop.com'), null)
+    assert.equal(normalizeAllowedDomains(['shop.com', '']), null)
+    assert.equal(normalizeAllowedDomains(['shop.com', 42]), null)
+    assert.equal(normalizeAllowedDomains(['https://shop .com']), null)
+  })
+
+  it('adds domains to the ones a merchant has', async () => {
+    allowedDomains = ['https://shop.com']
+
+    const change = await allowDomains('merchant_1', ['my-shop.myshopify.com'])
+
+    assert.deepEqual(change, {
+      from: ['https://shop.com'],
+      to: ['https://shop.com', 'https://my-shop.myshopify.com']
+    })
+    assert.deepEqual(updates, [{ allowedDomains: change!.to }])
+  })
+
+  it('does not write when the merchant already has them', async () => {
+    allowedDomains = ['https://shop.com', 'https://my-shop.myshopify.com']
+
+    assert.equal(await allowDomains('merchant_1', ['shop.com', 'https://my-shop.myshopify.com']), null)
+    assert.deepEqual(updates, [])
+  })
+})
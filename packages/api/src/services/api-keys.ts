@@ -0,0 +1,549 @@
+import crypto from 'crypto'
+import { ApiKey, ApiKeyScope, ApiKeyType } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { unauthorized, forbidden } from '../middleware/errorHandler.js'
+
+export const API_KEY_SCOPES = Object.values(ApiKeyScope)
+
+const KEY_PREFIXES: Record<ApiKeyType, string> = {
+  PUBLISHABLE: 'rfpk_',
+  SECRET: 'rfts_'
+}
+
+// <prefix><64 hex chars>
+const API_KEY_PATTERN = /^(rfpk|rfts)_[0-9a-f]{64}$/
+
+// Keys minted by the old settings route ("rf_"); accepted until migrated
+const LEGACY_API_KEY_PATTERN = /^rf_[0-9a-f]{64}$/
+
+// Characters after the type prefix kept as the non-secret lookup prefix
+const LOOKUP_PREFIX_HEX_LENGTH = 8
+
+export const DEFAULT_API_KEY_NAME = 'Default key'
+export const DEFAULT_PUBLISHABLE_KEY_NAME = 'Storefront widget'
+const LAST_USED_RESOLUTION_MS = 60 * 1000 // Avoid a write on every request
+
+// Merchant fields needed by API-key authenticated routes
+const merchantSelect = {
+  id: true,
+  businessName: true,
+  plan: true,
+  subscriptionStatus: true,
+  trialEndsAt: true,
+  stripeSubscriptionId: true,
+  allowedDomains: true,
+  email: true,
+  tryOnProvider: true,
+  reportingCurrency: true
+} as const
+
+export interface CreateApiKeyInput {
+  name: string
+  type?: ApiKeyType
+  scopes?: ApiKeyScope[]
+  expiresAt?: Date | null
+}
+
+// A newly issued key, carrying its full value. Only returned at creation.
+export type IssuedApiKey = ApiKey & { key: string }
+
+/**
+ * Generate a new API key value
+ */
+export function generateApiKey(type: ApiKeyType = 'SECRET'): string {
+  return `${KEY_PREFIXES[type]}${crypto.randomBytes(32).toString('hex')}`
+}
+
+/**
+ * Whether a value is a well-formed API key, in the current or legacy format
+ */
+export function isValidApiKeyFormat(key: string): boolean {
+  return API_KEY_PATTERN.test(key) || LEGACY_API_KEY_PATTERN.test(key)
+}
+
+/**
+ * Hash stored in place of the key. Keys hashed before salting have no salt.
+ */
+export function hashApiKey(key: string, salt: string = ''): string {
+  return crypto.createHash('sha256').update(salt).update(key).digest('hex')
+}
+
+/**
+ * Indexed lookup prefix, e.g. "rfts_1a2b3c4d". Too short to be useful on its own.
+ */
+export function lookupPrefixOf(key: string): string {
+  return key.substring(0, key.indexOf('_') + 1 + LOOKUP_PREFIX_HEX_LENGTH)
+}
+
+/**
+ * Fields stored for a key: salted hash, lookup prefix and preview
+ */
+function hashedKeyFields(key: string) {
+  const keySalt = crypto.randomBytes(16).toString('hex')
+
+  return {
+    lookupPrefix: lookupPrefixOf(key),
+    keySalt,
+    keyHash: hashApiKey(key, keySalt),
+    keyPreview: previewApiKey(key)
+  }
+}
+
+/**
+ * Constant-time comparison of a raw key against a stored hash
+ */
+function keyMatches(key: string, apiKey: Pick<ApiKey, 'keyHash' | 'keySalt'>): boolean {
+  const expected = Buffer.from(apiKey.keyHash, 'hex')
+  const actual = Buffer.from(hashApiKey(key, apiKey.keySalt || ''), 'hex')
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+/**
+ * Non-secret preview shown in key lists
+ */
+function previewApiKey(key: string): string {
+  const prefixLength = key.indexOf('_') + 1
+  return `${key.substring(0, prefixLength + 4)}…${key.substring(key.length - 4)}`
+}
+
+/**
+ * Issue a named API key for a merchant. Secret key scopes default to all
+ * scopes; publishable keys only ever get WIDGET. Every route that mints
+ * keys goes through here.
+ */
+export async function createApiKey(
+  merchantId: string,
+  input: CreateApiKeyInput,
+  key?: string
+): Promise<IssuedApiKey> {
+  const type = input.type || 'SECRET'
+  const value = key || generateApiKey(type)
+  const scopes: ApiKeyScope[] = type === 'PUBLISHABLE'
+    ? ['WIDGET']
+    : input.scopes?.length ? input.scopes : API_KEY_SCOPES
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      merchantId,
+      name: input.name,
+      ...hashedKeyFields(value),
+      key: type === 'PUBLISHABLE' ? value : null,
+      type,
+      scopes,
+      expiresAt: input.expiresAt || null
+    }
+  })
+
+  await prisma.analyticsEvent.create({
+    data: {
+      merchantId,
+      eventType: 'API_KEY_CREATED',
+      eventData: {
+        apiKeyId: apiKey.id,
+        name: apiKey.name,
+        type: apiKey.type,
+        scopes: apiKey.scopes
+      }
+    }
+  })
+
+  return { ...apiKey, key: value }
+}
+
+/**
+ * List a merchant's keys, newest first
+ */
+export async function listApiKeys(merchantId: string): Promise<ApiKey[]> {
+  return prisma.apiKey.findMany({
+    where: { merchantId },
+    orderBy: { createdAt: 'desc' }
+  })
+}
+
+/**
+ * Revoke a key. Returns null if the merchant has no such key.
+ */
+export async function revokeApiKey(
+  id: string,
+  merchantId: string,
+  reason: string = 'revoked'
+): Promise<ApiKey | null> {
+  const existing = await prisma.apiKey.findFirst({
+    where: { id, merchantId }
+  })
+
+  if (!existing) {
+    return null
+  }
+
+  if (existing.revokedAt) {
+    return existing
+  }
+
+  const apiKey = await prisma.apiKey.update({
+    where: { id },
+    data: { revokedAt: new Date() }
+  })
+
+  await prisma.analyticsEvent.create({
+    data: {
+      merchantId,
+      eventType: 'API_KEY_REVOKED',
+      eventData: {
+        apiKeyId: apiKey.id,
+        name: apiKey.name,
+        reason
+      }
+    }
+  })
+
+  return apiKey
+}
+
+/**
+ * Replace the merchant's default secret key, revoking the old one
+ */
+export async function rotateDefaultApiKey(merchantId: string): Promise<IssuedApiKey> {
+  const previous = await prisma.apiKey.findMany({
+    where: {
+      merchantId,
+      name: DEFAULT_API_KEY_NAME,
+      type: 'SECRET',
+      revokedAt: null
+    },
+    select: { id: true }
+  })
+
+  const apiKey = await createApiKey(merchantId, { name: DEFAULT_API_KEY_NAME })
+
+  for (const { id } of previous) {
+    await revokeApiKey(id, merchantId, 'regenerated')
+  }
+
+  // A default key that was never migrated out of Merchant.apiKey stops working too
+  await prisma.merchant.updateMany({
+    where: { id: merchantId, apiKey: { not: null } },
+    data: { apiKey: null }
+  })
+
+  return apiKey
+}
+
+/**
+ * The merchant's active publishable key for the storefront widget,
+ * created on first request
+ */
+export async function getOrCreatePublishableKey(merchantId: string): Promise<ApiKey> {
+  // Publishable keys keep their full value (`key`), so they can be shown again
+  const existing = await prisma.apiKey.findFirst({
+    where: {
+      merchantId,
+      type: 'PUBLISHABLE',
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+    },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return existing || createApiKey(merchantId, {
+    name: DEFAULT_PUBLISHABLE_KEY_NAME,
+    type: 'PUBLISHABLE'
+  })
+}
+
+/**
+ * Move a merchant's plaintext Merchant.apiKey into api_keys, hashed.
+ * Returns false if it was already moved (e.g. by a concurrent request).
+ */
+async function migrateLegacyMerchantKey(merchantId: string, key: string): Promise<boolean> {
+  return prisma.$transaction(async tx => {
+    // Clearing the column claims the key, so it is only migrated once
+    const claimed = await tx.merchant.updateMany({
+      where: { id: merchantId, apiKey: key },
+      data: { apiKey: null }
+    })
+
+    if (claimed.count !== 1) {
+      return false
+    }
+
+    await tx.apiKey.create({
+      data: {
+        merchantId,
+        name: DEFAULT_API_KEY_NAME,
+        ...hashedKeyFields(key),
+        scopes: API_KEY_SCOPES
+      }
+    })
+
+    return true
+  })
+}
+
+/**
+ * Look up an API key with its merchant. Candidates are found by lookup
+ * prefix and compared in constant time. Keys stored before salting, and
+ * plaintext keys left in Merchant.apiKey, are re-hashed on first use.
+ */
+async function findApiKey(key: string) {
+  const include = { merchant: { select: merchantSelect } } as const
+
+  const candidates = await prisma.apiKey.findMany({
+    where: { lookupPrefix: lookupPrefixOf(key) },
+    include
+  })
+
+  const apiKey = candidates.find(candidate => keyMatches(key, candidate))
+
+  if (apiKey) {
+    return apiKey
+  }
+
+  const unsalted = await prisma.apiKey.findFirst({
+    where: { keySalt: null, keyHash: hashApiKey(key) },
+    select: { id: true }
+  })
+
+  if (unsalted) {
+    return prisma.apiKey.update({
+      where: { id: unsalted.id },
+      data: hashedKeyFields(key),
+      include
+    })
+  }
+
+  const legacyMerchant = await prisma.merchant.findUnique({
+    where: { apiKey: key },
+    select: { id: true }
+  })
+
+  if (!legacyMerchant) {
+    return null
+  }
+
+  await migrateLegacyMerchantKey(legacyMerchant.id, key)
+
+  // Either we migrated it or a concurrent request did; look it up again
+  const migrated = await prisma.apiKey.findMany({
+    where: { lookupPrefix: lookupPrefixOf(key) },
+    include
+  })
+
+  return migrated.find(candidate => keyMatches(key, candidate)) || null
+}
+
+/**
+ * Backfill: hash every plaintext Merchant.apiKey, and re-hash unsalted
+ * publishable keys (their value is stored, so no request is needed).
+ * Unsalted secret keys are re-hashed the next time they are used.
+ */
+export async function migrateLegacyApiKeys(): Promise<{ merchantKeys: number; rehashedKeys: number }> {
+  let merchantKeys = 0
+  let rehashedKeys = 0
+
+  const merchants = await prisma.merchant.findMany({
+    where: { apiKey: { not: null } },
+    select: { id: true, apiKey: true }
+  })
+
+  for (const merchant of merchants) {
+    const existing = await prisma.apiKey.findFirst({
+      where: { keyHash: hashApiKey(merchant.apiKey!), keySalt: null },
+      select: { id: true }
+    })
+
+    if (existing) {
+      // Already copied to api_keys unsalted; re-hash it and drop the plaintext
+      await prisma.apiKey.update({
+        where: { id: existing.id },
+        data: hashedKeyFields(merchant.apiKey!)
+      })
+      await prisma.merchant.update({
+        where: { id: merchant.id },
+        data: { apiKey: null }
+      })
+      merchantKeys++
+    } else if (await migrateLegacyMerchantKey(merchant.id, merchant.apiKey!)) {
+      merchantKeys++
+    }
+  }
+
+  const unsaltedPublishable = await prisma.apiKey.findMany({
+    where: { keySalt: null, key: { not: null } },
+    select: { id: true, key: true }
+  })
+
+  for (const apiKey of unsaltedPublishable) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: hashedKeyFields(apiKey.key!)
+    })
+    rehashedKeys++
+  }
+
+  return { merchantKeys, rehashedKeys }
+}
+
+export type ResolvedApiKey = NonNullable<Awaited<ReturnType<typeof findApiKey>>>
+
+/**
+ * Resolve a raw key to its record and merchant, rejecting unknown,
+ * revoked and expired keys. Records when the key was last used.
+ */
+export async function resolveApiKey(key: string): Promise<ResolvedApiKey> {
+  if (!isValidApiKeyFormat(key)) {
+    throw unauthorized('Invalid API key format')
+  }
+
+  const apiKey = await findApiKey(key)
+
+  if (!apiKey) {
+    throw unauthorized('Invalid API key')
+  }
+
+  if (apiKey.revokedAt) {
+    throw unauthorized('API key has been revoked')
+  }
+
+  if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+    throw unauthorized('API key has expired')
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() }
+    }).catch(error => console.error('Failed to record API key usage:', error))
+  }
+
+  return apiKey
+}
+
+/**
+ * Whether an Origin header matches one of the merchant's allowed domains.
+ * Domains may be stored with or without a scheme; hosts must match exactly.
+ */
+export function isAllowedOrigin(origin: string, allowedDomains: string[]): boolean {
+  let host: string
+  try {
+    host = new URL(origin).host
+  } catch {
+    return false
+  }
+
+  return allowedDomains.some(domain => {
+    try {
+      return new URL(/^https?:\/\//.test(domain) ? domain : `https://${domain}`).host === host
+    } catch {
+      return false
+    }
+  })
+}
+
+/**
+ * Normalize allowed domains to scheme and host, e.g. "https://shop.com".
+ * Returns null if any entry is not a valid http(s) origin.
+ */
+export function normalizeAllowedDomains(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null
+
+  const domains = new Set<string>()
+
+  for (const entry of value) {
+    if (typeof entry !== 'string' || !entry.trim()) return null
+
+    try {
+      const trimmed = entry.trim()
+      const url = new URL(/^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`)
+      domains.add(`${url.protocol}//${url.host}`)
+    } catch {
+      return null
+    }
+  }
+
+  return [...domains]
+}
+
+/**
+ * Add domains to the merchant's allowed domains, keeping the ones it has.
+ * Returns the list before and after, or null if it already had them all.
+ */
+export async function allowDomains(
+  merchantId: string,
+  domains: string[]
+): Promise<{ from: string[]; to: string[] } | null> {
+  const merchant = await prisma.merchant.findUniqueOrThrow({
+    where: { id: merchantId },
+    select: { allowedDomains: true }
+  })
+
+  const to = normalizeAllowedDomains([...merchant.allowedDomains, ...domains])
+  if (!to) {
+    throw new Error(`Invalid allowed domain in ${domains.join(', ')}`)
+  }
+
+  if (to.every(domain => merchant.allowedDomains.includes(domain))) {
+    return null
+  }
+
+  await prisma.merchant.update({
+    where: { id: merchantId },
+    data: { allowedDomains: to }
+  })
+
+  return { from: merchant.allowedDomains, to }
+}
+
+/**
+ * Reject key types a route does not accept, and publishable keys used
+ * outside the merchant's allowed domains
+ */
+export function assertApiKeyAccess(
+  apiKey: ResolvedApiKey,
+  acceptedTypes: ApiKeyType[],
+  origin: string | undefined
+): void {
+  if (!acceptedTypes.includes(apiKey.type)) {
+    throw forbidden(apiKey.type === 'PUBLISHABLE'
+      ? 'Publishable keys cannot access this endpoint - use a secret key from your server'
+      : 'This endpoint only accepts publishable keys')
+  }
+
+  if (apiKey.type === 'PUBLISHABLE') {
+    if (apiKey.merchant.allowedDomains.length === 0) {
+      throw forbidden('Add your storefront domain to allowed domains to use a publishable key')
+    }
+
+    if (!origin || !isAllowedOrigin(origin, apiKey.merchant.allowedDomains)) {
+      throw forbidden(`Origin ${origin || '(none)'} not allowed for this API key`)
+    }
+  }
+}
+
+/**
+ * Whether a key grants a scope
+ */
+export function hasScope(apiKey: Pick<ApiKey, 'scopes'>, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes(scope)
+}
+
+/**
+ * Key details safe to return from list endpoints. Secret keys only show
+ * their preview; publishable keys are not secret and are needed for the
+ * widget snippet.
+ */
+export function serializeApiKey(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    type: apiKey.type,
+    scopes: apiKey.scopes,
+    key: apiKey.key || apiKey.keyPreview,
+    keyPreview: apiKey.keyPreview,
+    lastUsedAt: apiKey.lastUsedAt,
+    expiresAt: apiKey.expiresAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt
+  }
+}
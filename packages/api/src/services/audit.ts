@@ -0,0 +1,263 @@
+import { Request } from 'express'
+import { AuditEvent, Prisma } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { AuthRequest } from '../middleware/auth.js'
+import { SessionClient, sessionClient } from './sessions.js'
+
+const MAX_EXPORTED = 10000
+
+/**
+ * Who did something: a signed-in user, an API key, or the platform itself
+ * (Stripe webhooks, lockouts)
+ */
+export interface AuditActor {
+  actorType: 'user' | 'api_key' | 'system'
+  userId?: string
+  apiKeyId?: string
+  actorLabel?: string // Email or key name at the time
+  client?: SessionClient // Where the request came from
+}
+
+/**
+ * Field-by-field edits: { field: { from, to } }
+ */
+export type AuditChanges = Record<string, { from: Prisma.InputJsonValue | null; to: Prisma.InputJsonValue | null }>
+
+export interface AuditEntry {
+  action: string // Dotted, e.g. "settings.update"
+  merchantId?: string | null
+  actor?: AuditActor // Defaults to the system
+  target?: { type: string; id?: string | null }
+  changes?: AuditChanges
+  metadata?: Prisma.InputJsonObject
+}
+
+export interface AuditFilters {
+  action?: string // An action, or a prefix ending in "." such as "product."
+  actorId?: string // User or API key ID
+  targetType?: string
+  targetId?: string
+  from?: Date
+  to?: Date
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * A user acting through a request, signed in or not yet (a sign in, a
+ * password reset link)
+ */
+export function userActor(req: Request, user: { id: string; email: string }): AuditActor {
+  return { actorType: 'user', userId: user.id, actorLabel: user.email, client: sessionClient(req) }
+}
+
+/**
+ * The actor behind an authenticated request
+ */
+export function requestActor(req: AuthRequest): AuditActor {
+  if (req.user) {
+    return userActor(req, req.user)
+  }
+
+  const client = sessionClient(req)
+
+  if (req.apiKey) {
+    return { actorType: 'api_key', apiKeyId: req.apiKey.id, actorLabel: req.apiKey.name, client }
+  }
+
+  return { actorType: 'system', client }
+}
+
+/**
+ * The fields that differ between two versions of a record. Only the listed
+ * fields are compared, so secrets never reach the trail. Returns undefined
+ * when nothing changed.
+ */
+export function diffChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  fields: readonly string[]
+): AuditChanges | undefined {
+  const changes: AuditChanges = {}
+
+  for (const field of fields) {
+    const from = toJson(before?.[field])
+    const to = toJson(after?.[field])
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to }
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : undefined
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue | null {
+  if (value === undefined || value === null) return null
+  if (value instanceof Date) return value.toISOString()
+  if (value instanceof Prisma.Decimal) return value.toString()
+  return value as Prisma.InputJsonValue
+}
+
+/**
+ * Append an event to the audit trail. A failed write is logged rather than
+ * failing the request that caused it.
+ */
+export async function recordAuditEvent(entry: AuditEntry): Promise<void> {
+  const actor = entry.actor ?? { actorType: 'system' }
+
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        action: entry.action,
+        merchantId: entry.merchantId ?? null,
+        actorType: actor.actorType,
+        userId: actor.userId,
+        apiKeyId: actor.apiKeyId,
+        actorLabel: actor.actorLabel,
+        targetType: entry.target?.type,
+        targetId: entry.target?.id ?? undefined,
+        changes: entry.changes,
+        metadata: entry.metadata,
+        ipAddress: actor.client?.ipAddress,
+        userAgent: actor.client?.userAgent
+      }
+    })
+  } catch (error) {
+    console.error(`Failed to record audit event ${entry.action}:`, error)
+  }
+}
+
+/**
+ * Record what an authenticated request did to its merchant
+ */
+export function auditRequest(req: AuthRequest, entry: Omit<AuditEntry, 'merchantId' | 'actor'>): Promise<void> {
+  return recordAuditEvent({ ...entry, merchantId: req.merchantId, actor: requestActor(req) })
+}
+
+/**
+ * Record an event about a user on every team they belong to, so each team's
+ * owners see it. Users on no team get one event without a merchant.
+ */
+export async function recordUserAuditEvent(userId: string, entry: Omit<AuditEntry, 'merchantId'>): Promise<void> {
+  const memberships = await prisma.membership.findMany({
+    where: { userId },
+    select: { merchantId: true }
+  })
+
+  if (memberships.length === 0) {
+    await recordAuditEvent(entry)
+    return
+  }
+
+  await Promise.all(memberships.map(({ merchantId }) => recordAuditEvent({ ...entry, merchantId })))
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+function auditWhere(merchantId: string, filters: AuditFilters): Prisma.AuditEventWhereInput {
+  return {
+    merchantId,
+    ...(filters.action && (filters.action.endsWith('.')
+      ? { action: { startsWith: filters.action } }
+      : { action: filters.action })),
+    ...(filters.actorId && { OR: [{ userId: filters.actorId }, { apiKeyId: filters.actorId }] }),
+    ...(filters.targetType && { targetType: filters.targetType }),
+    ...(filters.targetId && { targetId: filters.targetId }),
+    ...((filters.from || filters.to) && {
+      createdAt: {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to })
+      }
+    })
+  }
+}
+
+/**
+ * A page of a merchant's audit trail, newest first
+ */
+export async function listAuditEvents(merchantId: string, filters: AuditFilters, page: number, limit: number) {
+  const where = auditWhere(merchantId, filters)
+
+  const [events, total] = await Promise.all([
+    prisma.auditEvent.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.auditEvent.count({ where })
+  ])
+
+  return { events, total }
+}
+
+/**
+ * The distinct actions and actors in a merchant's trail, for filter menus
+ */
+export async function auditFilterOptions(merchantId: string) {
+  const [actions, actors] = await Promise.all([
+    prisma.auditEvent.findMany({
+      where: { merchantId },
+      distinct: ['action'],
+      select: { action: true },
+      orderBy: { action: 'asc' }
+    }),
+    prisma.auditEvent.findMany({
+      where: { merchantId, actorType: { not: 'system' } },
+      distinct: ['userId', 'apiKeyId'],
+      select: { actorType: true, userId: true, apiKeyId: true, actorLabel: true },
+      orderBy: { createdAt: 'desc' }
+    })
+  ])
+
+  return {
+    actions: actions.map(({ action }) => action),
+    actors: actors.map(actor => ({
+      id: actor.userId || actor.apiKeyId,
+      type: actor.actorType,
+      label: actor.actorLabel
+    }))
+  }
+}
+
+/**
+ * Every matching event for export, newest first, up to 10,000
+ */
+export async function exportAuditEvents(merchantId: string, filters: AuditFilters): Promise<AuditEvent[]> {
+  return prisma.auditEvent.findMany({
+    where: auditWhere(merchantId, filters),
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: MAX_EXPORTED
+  })
+}
+
+const CSV_COLUMNS = [
+  'createdAt', 'action', 'actorType', 'actorLabel', 'userId', 'apiKeyId',
+  'targetType', 'targetId', 'changes', 'metadata', 'ipAddress', 'userAgent'
+] as const
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+  // A leading =, +, - or @ would run as a formula in a spreadsheet
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text
+
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * Audit events as CSV, one row per event. Diffs and metadata are JSON cells.
+ */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const rows = events.map(event => CSV_COLUMNS.map(column => csvCell(event[column])).join(','))
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
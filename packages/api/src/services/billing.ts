@@ -1,90 +1,103 @@
 import { prisma } from '../utils/prisma.js'
-import { SubscriptionPlan } from '@prisma/client'
-
-const PLAN_LIMITS: Record<SubscriptionPlan, number> = {
-  [SubscriptionPlan.ATELIER]: 500,
-  [SubscriptionPlan.MAISON]: 2000,
-  [SubscriptionPlan.COUTURE]: 5000
-}
-
-const OVERAGE_RATE = 0.50 // $0.50 per try-on above limit
+import { evaluateUsageAlerts } from './usage-alerts.js'
+import { UNLIMITED, calculateOverage, getEffectivePlan, isUnlimited } from './plans.js'
+import { billingMonth, getPeriodCharges } from './invoices.js'
+import { autoUpgradeIfDue, getUsageAllowance } from './overage.js'
 
 /**
- * Track a try-on usage for billing
+ * The merchant's usage row for a month, created on first use
  */
-export async function trackUsage(merchantId: string): Promise<void> {
-  const now = new Date()
-  const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
-  const year = now.getFullYear()
-  const monthNumber = now.getMonth() + 1
-
-  // Get merchant to determine plan limits
-  const merchant = await prisma.merchant.findUnique({
-    where: { id: merchantId },
-    select: { plan: true }
+export async function ensureUsageRow(merchantId: string, month: string = billingMonth()) {
+  const [year, monthNumber] = month.split('-').map(Number)
+
+  const existing = await prisma.usageTracking.findUnique({
+    where: { merchantId_month: { merchantId, month } }
   })
 
-  if (!merchant) {
-    throw new Error('Merchant not found')
+  if (existing) {
+    return existing
   }
 
-  const includedTryons = PLAN_LIMITS[merchant.plan]
+  // Plan (or enterprise contract) determines the quota
+  const plan = await getEffectivePlan(merchantId)
 
-  // Upsert usage tracking
-  const usage = await prisma.usageTracking.upsert({
-    where: {
-      merchantId_month: {
-        merchantId,
-        month
-      }
-    },
-    update: {
-      tryonCount: { increment: 1 }
-    },
+  return prisma.usageTracking.upsert({
+    where: { merchantId_month: { merchantId, month } },
+    update: {},
     create: {
       merchantId,
       month,
       year,
       monthNumber,
-      tryonCount: 1,
-      includedTryons
+      includedTryons: plan.includedTryons
     }
   })
+}
 
-  // Calculate overages
-  const overageTryons = Math.max(0, usage.tryonCount - includedTryons)
-  const overageCharges = overageTryons * OVERAGE_RATE
-
-  // Update overage charges
-  await prisma.usageTracking.update({
-    where: {
-      merchantId_month: {
-        merchantId,
-        month
-      }
-    },
+/**
+ * Bring overage in line with a try-on count just reached by an increment,
+ * and send usage alerts for any thresholds it reached
+ */
+export async function recordUsageCount(merchantId: string, month: string, tryonCount: number): Promise<void> {
+  const plan = await getEffectivePlan(merchantId)
+  const includedTryons = plan.includedTryons
+  const { overageTryons, overageCharges } = calculateOverage(plan, tryonCount)
+
+  // Skipped if a later increment already landed, so overage never goes backwards
+  await prisma.usageTracking.updateMany({
+    where: { merchantId, month, tryonCount },
     data: {
+      includedTryons,
       overageTryons,
       overageCharges
     }
   })
+
+  if (isUnlimited(includedTryons)) {
+    return
+  }
+
+  // Quota ran out: AUTO_UPGRADE merchants move to the next plan. Counted
+  // as ">=" so a count that skips past the quota still triggers it.
+  if (tryonCount >= includedTryons) {
+    autoUpgradeIfDue(merchantId).catch(error =>
+      console.error(`Auto-upgrade check failed for merchant ${merchantId}:`, error)
+    )
+  }
+
+  // Email, dashboard, analytics and webhook alerts at the merchant's thresholds
+  await evaluateUsageAlerts(merchantId, month, tryonCount, plan).catch(error =>
+    console.error(`Usage alerts failed for merchant ${merchantId}:`, error)
+  )
 }
 
 /**
- * Get current month's usage for a merchant
+ * Track a try-on usage for billing that was not reserved beforehand
+ * (see services/usage-meter.ts for reserved generations)
  */
-export async function getCurrentUsage(merchantId: string) {
-  const now = new Date()
-  const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+export async function trackUsage(merchantId: string): Promise<void> {
+  const month = billingMonth()
+  await ensureUsageRow(merchantId, month)
 
-  const merchant = await prisma.merchant.findUnique({
-    where: { id: merchantId },
-    select: { plan: true }
+  const usage = await prisma.usageTracking.update({
+    where: { merchantId_month: { merchantId, month } },
+    data: { tryonCount: { increment: 1 } }
   })
 
-  if (!merchant) {
-    throw new Error('Merchant not found')
-  }
+  await recordUsageCount(merchantId, month, usage.tryonCount)
+}
+
+/**
+ * Get current month's usage for a merchant. Unlimited plans report
+ * limit and remaining as UNLIMITED (-1).
+ */
+export async function getCurrentUsage(merchantId: string) {
+  const month = billingMonth()
+
+  const [plan, allowance] = await Promise.all([
+    getEffectivePlan(merchantId),
+    getUsageAllowance(merchantId)
+  ])
 
   const usage = await prisma.usageTracking.findUnique({
     where: {
@@ -95,18 +108,28 @@ export async function getCurrentUsage(merchantId: string) {
     }
   })
 
-  const limit = PLAN_LIMITS[merchant.plan]
+  const limit = plan.includedTryons
   const used = usage?.tryonCount || 0
-  const remaining = Math.max(0, limit - used)
-  const overage = Math.max(0, used - limit)
+  const reserved = usage?.reservedCount || 0
+  const unlimited = isUnlimited(limit)
+  const { overageTryons, overageCharges } = calculateOverage(plan, used)
 
   return {
     used,
+    reserved, // Held by generations still in progress
     limit,
-    remaining,
-    overage,
-    overageCharges: overage * OVERAGE_RATE,
-    percentage: (used / limit) * 100
+    remaining: unlimited ? UNLIMITED : Math.max(0, limit - used - reserved),
+    overage: overageTryons,
+    overageCharges,
+    overageRate: plan.overageRate,
+    percentage: unlimited ? 0 : (used / limit) * 100,
+    overagePolicy: {
+      policy: allowance.policy,
+      effectivePolicy: allowance.effectivePolicy,
+      spendCap: allowance.spendCap,
+      maxTryons: allowance.limit, // Including overage the policy allows
+      upgradeTo: allowance.upgradeTo
+    }
   }
 }
 
@@ -138,7 +161,7 @@ export async function getMonthlyBilling(merchantId: string, month: string) {
 }
 
 /**
- * Get billing history for a merchant
+ * Get billing history for a merchant. Closed months link to their invoice.
  */
 export async function getBillingHistory(merchantId: string, limit: number = 12) {
   const history = await prisma.usageTracking.findMany({
@@ -147,6 +170,7 @@ export async function getBillingHistory(merchantId: string, limit: number = 12)
       { year: 'desc' },
       { monthNumber: 'desc' }
     ],
+    include: { invoice: { select: { id: true, number: true } } },
     take: limit
   })
 
@@ -157,45 +181,39 @@ export async function getBillingHistory(merchantId: string, limit: number = 12)
     overageTryons: usage.overageTryons,
     overageCharges: Number(usage.overageCharges),
     totalCharges: Number(usage.totalCharges),
-    billedAt: usage.billedAt
+    billedAt: usage.billedAt,
+    invoice: usage.invoice && {
+      id: usage.invoice.id,
+      number: usage.invoice.number,
+      url: `/api/billing/invoices/${usage.invoice.id}`,
+      htmlUrl: `/api/billing/invoices/${usage.invoice.id}/html`
+    }
   }))
 }
 
 /**
- * Calculate estimated monthly bill
+ * Calculate estimated monthly bill: what the period close would invoice
+ * for this month if the current plan stays in place
  */
 export async function getEstimatedBill(merchantId: string) {
-  const merchant = await prisma.merchant.findUnique({
-    where: { id: merchantId },
-    select: { plan: true }
-  })
-
-  if (!merchant) {
-    throw new Error('Merchant not found')
-  }
-
-  const usage = await getCurrentUsage(merchantId)
-
-  // Base plan prices
-  const planPrices: Record<SubscriptionPlan, number> = {
-    [SubscriptionPlan.ATELIER]: 99,
-    [SubscriptionPlan.MAISON]: 299,
-    [SubscriptionPlan.COUTURE]: 999
-  }
-
-  const baseFee = planPrices[merchant.plan]
-  const overageFee = usage.overageCharges
+  const [plan, usage, charges] = await Promise.all([
+    getEffectivePlan(merchantId),
+    getCurrentUsage(merchantId),
+    getPeriodCharges(merchantId)
+  ])
 
   return {
-    baseFee,
-    overageFee,
-    total: baseFee + overageFee,
+    baseFee: charges.subscriptionCharges,
+    overageFee: charges.overageCharges,
+    total: charges.total,
+    lineItems: charges.lineItems,
     breakdown: {
-      plan: merchant.plan,
+      plan: plan.id,
+      contract: plan.contract?.name || null,
       includedTryons: usage.limit,
       usedTryons: usage.used,
       overageTryons: usage.overage,
-      overageRate: OVERAGE_RATE
+      overageRate: plan.overageRate
     }
   }
 }
@@ -0,0 +1,240 @@
+import { SubscriptionPlan } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { ensureUsageRow } from './billing.js'
+import { billingMonth, billingPeriod, getPeriodCharges } from './invoices.js'
+
+export const COST_CURRENCY = 'USD'
+
+// Object storage price, USD per GB held for a month (S3 Standard by default)
+const STORAGE_COST_PER_GB_MONTH = parseFloat(process.env.STORAGE_COST_PER_GB_MONTH || '0.023')
+const BYTES_PER_GB = 1024 * 1024 * 1024
+
+/**
+ * The merchant (and job, if any) a provider call is made for
+ */
+export interface CostContext {
+  merchantId: string
+  tryOnJobId?: string
+}
+
+/**
+ * One call to a try-on provider, as written to the cost ledger
+ */
+export interface ProviderCall {
+  provider: string
+  model: string
+  attempt?: number
+  cached?: boolean
+  succeeded: boolean
+  errorMessage?: string
+  inputTokens?: number
+  outputTokens?: number
+  latencyMs: number
+  cost: number
+  currency?: string
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * Write a provider call to the cost ledger. Calls made outside a merchant
+ * request have no context and are not recorded. A failed write is logged;
+ * bookkeeping never fails a generation.
+ */
+export async function recordProviderCall(context: CostContext | undefined, call: ProviderCall): Promise<void> {
+  if (!context) return
+
+  try {
+    await prisma.generationCost.create({
+      data: {
+        merchantId: context.merchantId,
+        tryOnJobId: context.tryOnJobId,
+        provider: call.provider,
+        model: call.model,
+        attempt: call.attempt ?? 1,
+        cached: call.cached ?? false,
+        succeeded: call.succeeded,
+        errorMessage: call.errorMessage,
+        inputTokens: call.inputTokens ?? 0,
+        outputTokens: call.outputTokens ?? 0,
+        latencyMs: Math.round(call.latencyMs),
+        cost: call.cost,
+        currency: call.currency || COST_CURRENCY
+      }
+    })
+  } catch (error) {
+    console.error(`Failed to record ${call.provider} call for merchant ${context.merchantId}:`, error)
+  }
+}
+
+/**
+ * Add bytes written to storage to the merchant's usage row for this month
+ */
+export async function recordStorageWrite(merchantId: string, bytes: number): Promise<void> {
+  try {
+    const usage = await ensureUsageRow(merchantId)
+
+    await prisma.usageTracking.update({
+      where: { id: usage.id },
+      data: { storageBytes: { increment: bytes } }
+    })
+  } catch (error) {
+    console.error(`Failed to record storage write for merchant ${merchantId}:`, error)
+  }
+}
+
+// ============================================================================
+// MARGIN REPORT
+// ============================================================================
+
+export interface MerchantMargin {
+  merchantId: string
+  businessName: string
+  plan: SubscriptionPlan // Current plan
+  revenue: number
+  invoiced: boolean // false while the month is open; revenue is the charges so far
+  aiCost: number
+  storageCost: number
+  grossMargin: number
+  marginPercent: number | null // null without revenue
+  providerCalls: number
+  cachedCalls: number
+  failedCalls: number
+  storageBytes: number // Held at the end of the month
+}
+
+export interface PlanMargin {
+  plan: SubscriptionPlan
+  merchants: number
+  revenue: number
+  aiCost: number
+  storageCost: number
+  grossMargin: number
+  marginPercent: number | null
+}
+
+export interface MarginReport {
+  month: string
+  currency: string
+  merchants: MerchantMargin[] // Least profitable first
+  plans: PlanMargin[]
+  totals: Omit<PlanMargin, 'plan' | 'merchants'>
+}
+
+function marginPercent(revenue: number, grossMargin: number): number | null {
+  return revenue > 0 ? Math.round((grossMargin / revenue) * 1000) / 10 : null
+}
+
+/**
+ * Monthly cost of holding a number of bytes in storage
+ */
+export function storageCostFor(bytes: number): number {
+  return (bytes / BYTES_PER_GB) * STORAGE_COST_PER_GB_MONTH
+}
+
+/**
+ * Revenue vs AI cost vs storage cost per merchant for a billing month, with
+ * per-plan and overall totals. Revenue is the issued invoice, or the charges
+ * so far while the month is still open. Storage held is every byte written
+ * up to the end of the month.
+ */
+export async function getMarginReport(month: string = billingMonth()): Promise<MarginReport> {
+  const { start, end } = billingPeriod(month)
+
+  const [calls, storage, invoices, usageRows] = await Promise.all([
+    prisma.generationCost.groupBy({
+      by: ['merchantId', 'cached', 'succeeded'],
+      where: { createdAt: { gte: start, lt: end } },
+      _sum: { cost: true },
+      _count: { _all: true }
+    }),
+    prisma.usageTracking.groupBy({
+      by: ['merchantId'],
+      where: { month: { lte: month } },
+      _sum: { storageBytes: true }
+    }),
+    prisma.invoice.findMany({
+      where: { month },
+      select: { merchantId: true, total: true }
+    }),
+    prisma.usageTracking.findMany({
+      where: { month },
+      select: { merchantId: true }
+    })
+  ])
+
+  const merchantIds = [...new Set([
+    ...calls.map(row => row.merchantId),
+    ...storage.map(row => row.merchantId),
+    ...invoices.map(invoice => invoice.merchantId),
+    ...usageRows.map(row => row.merchantId)
+  ])]
+
+  const merchants = await prisma.merchant.findMany({
+    where: { id: { in: merchantIds } },
+    select: { id: true, businessName: true, plan: true }
+  })
+
+  const rows: MerchantMargin[] = []
+
+  for (const merchant of merchants) {
+    const merchantCalls = calls.filter(row => row.merchantId === merchant.id)
+    const invoice = invoices.find(candidate => candidate.merchantId === merchant.id)
+    const storageBytes = Number(storage.find(row => row.merchantId === merchant.id)?._sum.storageBytes ?? 0)
+
+    const revenue = invoice
+      ? Number(invoice.total)
+      : (await getPeriodCharges(merchant.id, month)).total
+    const aiCost = roundCents(merchantCalls.reduce((sum, row) => sum + Number(row._sum.cost ?? 0), 0))
+    const storageCost = roundCents(storageCostFor(storageBytes))
+    const grossMargin = roundCents(revenue - aiCost - storageCost)
+
+    rows.push({
+      merchantId: merchant.id,
+      businessName: merchant.businessName,
+      plan: merchant.plan,
+      revenue,
+      invoiced: Boolean(invoice),
+      aiCost,
+      storageCost,
+      grossMargin,
+      marginPercent: marginPercent(revenue, grossMargin),
+      providerCalls: merchantCalls.reduce((sum, row) => sum + row._count._all, 0),
+      cachedCalls: merchantCalls.filter(row => row.cached).reduce((sum, row) => sum + row._count._all, 0),
+      failedCalls: merchantCalls.filter(row => !row.succeeded).reduce((sum, row) => sum + row._count._all, 0),
+      storageBytes
+    })
+  }
+
+  rows.sort((a, b) => a.grossMargin - b.grossMargin)
+
+  const summarize = (group: MerchantMargin[]) => {
+    const revenue = roundCents(group.reduce((sum, row) => sum + row.revenue, 0))
+    const aiCost = roundCents(group.reduce((sum, row) => sum + row.aiCost, 0))
+    const storageCost = roundCents(group.reduce((sum, row) => sum + row.storageCost, 0))
+    const grossMargin = roundCents(revenue - aiCost - storageCost)
+
+    return { revenue, aiCost, storageCost, grossMargin, marginPercent: marginPercent(revenue, grossMargin) }
+  }
+
+  const plans = Object.values(SubscriptionPlan)
+    .map(plan => {
+      const group = rows.filter(row => row.plan === plan)
+      return { plan, merchants: group.length, ...summarize(group) }
+    })
+    .filter(plan => plan.merchants > 0)
+
+  return {
+    month,
+    currency: COST_CURRENCY,
+    merchants: rows,
+    plans,
+    totals: summarize(rows)
+  }
+}
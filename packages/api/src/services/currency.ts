@@ -0,0 +1,178 @@
+import fetch from 'node-fetch'
+import { prisma } from '../utils/prisma.js'
+import { badRequest } from '../middleware/errorHandler.js'
+import { getCache, setCache } from '../utils/cache.js'
+
+export const BASE_CURRENCY = 'USD'
+
+// Latest rates against USD, as { rates: { EUR: 0.92, ... } }. Empty disables refreshing.
+const EXCHANGE_RATES_URL = process.env.EXCHANGE_RATES_URL ?? 'https://open.er-api.com/v6/latest/USD'
+const POLL_INTERVAL_MS = parseInt(process.env.EXCHANGE_RATES_POLL_MS || String(24 * 60 * 60 * 1000), 10) // daily
+const RATE_CACHE_KEY = 'exchange-rates'
+const RATE_CACHE_TTL_SECONDS = 60 * 60
+
+/**
+ * Units of each currency per 1 USD
+ */
+export type RateTable = Record<string, number>
+
+/**
+ * Upper-cased ISO 4217 code, or null if the input is not one
+ */
+export function normalizeCurrency(input: unknown): string | null {
+  if (typeof input !== 'string') return null
+
+  const code = input.trim().toUpperCase()
+  return /^[A-Z]{3}$/.test(code) ? code : null
+}
+
+/**
+ * Currency code written after a feed price, e.g. "29.99 EUR" (the Google
+ * Merchant Center format)
+ */
+export function currencyFromPrice(price: unknown): string | null {
+  if (typeof price !== 'string') return null
+
+  const match = price.trim().match(/^[\d.,]+\s+([A-Za-z]{3})$/)
+  return match ? normalizeCurrency(match[1]) : null
+}
+
+/**
+ * Currency supplied with a request, or the fallback when none was given.
+ * A value that is not a currency code is rejected.
+ */
+export function parseCurrency(input: unknown, fallback: string): string {
+  if (input === undefined || input === null || input === '') {
+    return fallback
+  }
+
+  const currency = normalizeCurrency(input)
+  if (!currency) {
+    throw badRequest('Currency must be a three-letter ISO 4217 code, e.g. "EUR"')
+  }
+
+  return currency
+}
+
+/**
+ * Convert an amount between currencies. Null when either rate is unknown.
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: RateTable): number | null {
+  if (from === to) return amount
+
+  const fromRate = from === BASE_CURRENCY ? 1 : rates[from]
+  const toRate = to === BASE_CURRENCY ? 1 : rates[to]
+
+  if (!fromRate || !toRate) return null
+
+  return (amount / fromRate) * toRate
+}
+
+/**
+ * The cached rate table, loaded from exchange_rates on first use
+ */
+export async function getRateTable(): Promise<RateTable> {
+  const cached = getCache<RateTable>(RATE_CACHE_KEY)
+  if (cached) return cached
+
+  const rows = await prisma.exchangeRate.findMany()
+  const rates: RateTable = Object.fromEntries(rows.map(row => [row.currency, Number(row.rate)]))
+
+  setCache(RATE_CACHE_KEY, rates, RATE_CACHE_TTL_SECONDS)
+  return rates
+}
+
+/**
+ * Converts amounts in any currency to one target currency, and remembers
+ * currencies it had no rate for so callers can flag incomplete totals
+ */
+export async function createCurrencyConverter(to: string) {
+  const rates = await getRateTable()
+  const missing = new Set<string>()
+
+  return {
+    currency: to,
+    convert(amount: number, from: string | null | undefined): number {
+      const converted = convertAmount(amount, from || BASE_CURRENCY, to, rates)
+
+      if (converted === null) {
+        missing.add(from || BASE_CURRENCY)
+        return 0
+      }
+
+      return converted
+    },
+    missingRates: () => Array.from(missing)
+  }
+}
+
+// ============================================================================
+// BACKGROUND JOB
+// ============================================================================
+
+let pollTimer: NodeJS.Timeout | null = null
+let polling = false
+
+/**
+ * Fetch the latest rates into exchange_rates. A failed fetch keeps the
+ * rates already stored. Returns how many rates were stored.
+ */
+export async function refreshExchangeRates(): Promise<number> {
+  if (polling || !EXCHANGE_RATES_URL) return 0
+  polling = true
+
+  try {
+    const response = await fetch(EXCHANGE_RATES_URL)
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+
+    const body = await response.json() as { rates?: Record<string, unknown> }
+    const rates = Object.entries(body.rates || {})
+      .map(([code, rate]) => [normalizeCurrency(code), Number(rate)] as const)
+      .filter((entry): entry is [string, number] => entry[0] !== null && Number.isFinite(entry[1]) && entry[1] > 0)
+
+    await prisma.$transaction(rates.map(([currency, rate]) =>
+      prisma.exchangeRate.upsert({
+        where: { currency },
+        update: { rate },
+        create: { currency, rate }
+      })
+    ))
+
+    setCache(RATE_CACHE_KEY, Object.fromEntries(rates), RATE_CACHE_TTL_SECONDS)
+    console.log(`💱 Refreshed ${rates.length} exchange rate(s)`)
+
+    return rates.length
+  } catch (error) {
+    console.error('Exchange rate refresh failed:', error)
+    return 0
+  } finally {
+    polling = false
+  }
+}
+
+/**
+ * Start the background job that refreshes exchange rates. It also runs
+ * once at startup.
+ */
+export function startExchangeRateWorker(): void {
+  if (pollTimer || !EXCHANGE_RATES_URL) return
+
+  refreshExchangeRates()
+  pollTimer = setInterval(() => {
+    refreshExchangeRates()
+  }, POLL_INTERVAL_MS)
+
+  console.log('💱 Exchange rate worker started')
+}
+
+/**
+ * Stop refreshing exchange rates
+ */
+export function stopExchangeRateWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer)
+    pollTimer = null
+  }
+}
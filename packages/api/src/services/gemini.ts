@@ -1,18 +1,23 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
+import { GoogleGenerativeAI, GenerationConfig } from '@google/generative-ai'
 import crypto from 'crypto'
 import fetch from 'node-fetch'
+import type { TryOnProgressCallback } from './tryon-progress.js'
+import { COST_CURRENCY, CostContext, recordProviderCall } from './cost-ledger.js'
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || ''
 const genAI = new GoogleGenerativeAI(GEMINI_API_KEY)
 
-// Cost tracking constants (Gemini 2.5 Flash pricing)
-const COST_PER_REQUEST = 0.06 // £0.06 per generation (estimate)
+// Image-output model used for try-on generation
+export const GEMINI_TRYON_MODEL = process.env.GEMINI_TRYON_MODEL || 'gemini-2.5-flash-image'
+
+// Cost tracking constants (Gemini 2.5 Flash pricing, in COST_CURRENCY)
+const COST_PER_REQUEST = 0.06 // $0.06 per generation (estimate)
 const COST_PER_1K_INPUT_TOKENS = 0.00001875 // $0.00001875 per 1K input tokens
 const COST_PER_1K_OUTPUT_TOKENS = 0.000075 // $0.000075 per 1K output tokens
 
 // Cache for try-on results (in-memory, 24-hour TTL)
 interface CacheEntry {
-  imageUrl: string
+  imageBuffer: Buffer
   generationTime: number
   cost: number
   timestamp: number
@@ -27,10 +32,11 @@ export interface TryOnOptions {
   style?: 'studio' | 'casual'
   angles?: ('front' | 'side' | 'back')[]
   saveToCache?: boolean
+  costContext?: CostContext // Merchant the call is billed to in the cost ledger
 }
 
 export interface TryOnResult {
-  imageUrl: string
+  imageBuffer: Buffer
   generationTime: number
   cost: number
   analysis?: string
@@ -61,7 +67,7 @@ function cleanExpiredCache(): void {
  * Retry wrapper with exponential backoff
  */
 async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
+  fn: (attempt: number) => Promise<T>,
   maxRetries: number = 3,
   baseDelay: number = 1000
 ): Promise<T> {
@@ -69,7 +75,7 @@ async function retryWithBackoff<T>(
 
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
-      return await fn()
+      return await fn(attempt + 1)
     } catch (error) {
       lastError = error as Error
 
@@ -187,7 +193,8 @@ Generate the highest quality photorealistic virtual try-on image possible.`
 export async function generateVirtualTryon(
   customerPhotoUrl: string,
   productImageUrl: string,
-  options: TryOnOptions = {}
+  options: TryOnOptions = {},
+  onProgress?: TryOnProgressCallback
 ): Promise<TryOnResult> {
   const startTime = Date.now()
   const cacheKey = generateCacheKey(customerPhotoUrl, productImageUrl, options)
@@ -198,6 +205,14 @@ export async function generateVirtualTryon(
     const cached = tryonCache.get(cacheKey)
     if (cached) {
       console.log(`✓ Cache hit for try-on request (key: ${cacheKey.substring(0, 8)}...)`)
+      await recordProviderCall(options.costContext, {
+        provider: 'gemini',
+        model: GEMINI_TRYON_MODEL,
+        cached: true,
+        succeeded: true,
+        latencyMs: Date.now() - startTime,
+        cost: 0
+      })
       return {
         ...cached,
         cached: true,
@@ -209,6 +224,7 @@ export async function generateVirtualTryon(
 
   try {
     // Download images with retry logic
+    onProgress?.('downloading_images')
     const [customerBuffer, productBuffer] = await retryWithBackoff(async () => {
       return await Promise.all([
         getImageBuffer(customerPhotoUrl),
@@ -216,21 +232,21 @@ export async function generateVirtualTryon(
       ])
     })
 
-    // Generate try-on with retry logic
-    const result = await retryWithBackoff(async () => {
-      return await generateTryOnInternal(customerBuffer, productBuffer, options)
+    // Generate try-on with retry logic; every attempt goes to the cost ledger
+    const result = await retryWithBackoff(async (attempt) => {
+      return await generateTryOnAttempt(customerBuffer, productBuffer, options, attempt, onProgress)
     })
 
     const generationTime = Date.now() - startTime
-    const cost = calculateCost(customerBuffer.length, productBuffer.length, result.analysis || '')
+    const cost = result.cost
 
     console.log(`✓ Virtual try-on generated successfully`)
     console.log(`  - Generation time: ${generationTime}ms`)
-    console.log(`  - Estimated cost: £${cost.toFixed(4)}`)
+    console.log(`  - Estimated cost: $${cost.toFixed(4)}`)
     console.log(`  - Cache key: ${cacheKey.substring(0, 8)}...`)
 
     const finalResult: TryOnResult = {
-      imageUrl: result.imageUrl,
+      imageBuffer: result.imageBuffer,
       generationTime,
       cost,
       analysis: result.analysis,
@@ -240,7 +256,7 @@ export async function generateVirtualTryon(
     // Cache the result
     if (options.saveToCache !== false) {
       tryonCache.set(cacheKey, {
-        imageUrl: result.imageUrl,
+        imageBuffer: result.imageBuffer,
         generationTime,
         cost,
         timestamp: Date.now(),
@@ -255,21 +271,73 @@ export async function generateVirtualTryon(
   }
 }
 
+/**
+ * One provider call, written to the cost ledger whether it succeeds or not.
+ * A response without an image was still billed, so it is costed before the
+ * attempt fails.
+ */
+async function generateTryOnAttempt(
+  customerBuffer: Buffer,
+  productBuffer: Buffer,
+  options: TryOnOptions,
+  attempt: number,
+  onProgress?: TryOnProgressCallback
+): Promise<{ imageBuffer: Buffer; analysis?: string; cost: number }> {
+  const callStart = Date.now()
+  const call = { provider: 'gemini', model: GEMINI_TRYON_MODEL, attempt, currency: COST_CURRENCY }
+
+  let response
+  try {
+    response = await generateTryOnInternal(customerBuffer, productBuffer, options, onProgress)
+  } catch (error) {
+    await recordProviderCall(options.costContext, {
+      ...call,
+      succeeded: false,
+      errorMessage: (error as Error).message,
+      latencyMs: Date.now() - callStart,
+      cost: 0
+    })
+    throw error
+  }
+
+  const { inputTokens, outputTokens } = response.usage
+  const cost = calculateCost(inputTokens, outputTokens)
+
+  await recordProviderCall(options.costContext, {
+    ...call,
+    succeeded: Boolean(response.imageBuffer),
+    errorMessage: response.imageBuffer ? undefined : `${GEMINI_TRYON_MODEL} returned no image`,
+    inputTokens,
+    outputTokens,
+    latencyMs: Date.now() - callStart,
+    cost
+  })
+
+  if (!response.imageBuffer) {
+    throw new Error(`${GEMINI_TRYON_MODEL} returned no image`)
+  }
+
+  return { imageBuffer: response.imageBuffer, analysis: response.analysis, cost }
+}
+
 /**
  * Internal try-on generation (called by retry wrapper)
  */
 async function generateTryOnInternal(
   customerBuffer: Buffer,
   productBuffer: Buffer,
-  options: TryOnOptions
-): Promise<{ imageUrl: string; analysis?: string }> {
+  options: TryOnOptions,
+  onProgress?: TryOnProgressCallback
+): Promise<{ imageBuffer?: Buffer; analysis?: string; usage: { inputTokens: number; outputTokens: number } }> {
   const model = genAI.getGenerativeModel({
-    model: 'gemini-2.0-flash-exp',
+    model: GEMINI_TRYON_MODEL,
     generationConfig: {
       temperature: 0.4, // Lower temperature for more consistent results
       topK: 32,
       topP: 0.95,
-    },
+      // Not yet in the SDK's GenerationConfig type
+      responseModalities: ['TEXT', 'IMAGE'],
+    } as GenerationConfig,
   })
 
   const prompt = generatePrompt(options)
@@ -288,12 +356,18 @@ async function generateTryOnInternal(
     },
   }
 
-  console.log('🤖 Sending request to Gemini 2.5 Flash...')
+  console.log(`🤖 Sending request to ${GEMINI_TRYON_MODEL}...`)
+  onProgress?.('calling_model')
   const result = await model.generateContent([prompt, customerImage, productImage])
-  const response = result.response
-  const text = response.text()
+  const parts = result.response.candidates?.[0]?.content.parts || []
+  const text = parts.map(part => part.text || '').join('')
+  const imagePart = parts.find(part => part.inlineData?.mimeType.startsWith('image/'))
+  // Not yet in the SDK's response type
+  const usageMetadata = (result.response as { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number } })
+    .usageMetadata
 
   console.log('📊 Gemini response received')
+  onProgress?.('parsing_analysis')
 
   // Extract JSON analysis
   let analysis: string | undefined
@@ -308,31 +382,24 @@ async function generateTryOnInternal(
     console.log('⚠ Could not parse JSON analysis from response')
   }
 
-  // In production, this would call an actual image generation API
-  // For now, we return a placeholder URL that would be the generated image
-  const imageUrl = `https://storage.renderedfits.com/tryons/${crypto.randomBytes(16).toString('hex')}.jpg`
-
-  // In a real implementation, you would:
-  // 1. Use Imagen 3 or Stable Diffusion for actual image generation
-  // 2. Upload the generated image to cloud storage
-  // 3. Return the public URL
-
   return {
-    imageUrl,
+    imageBuffer: imagePart?.inlineData ? Buffer.from(imagePart.inlineData.data, 'base64') : undefined,
     analysis,
+    usage: {
+      // Estimated when the response does not report usage
+      inputTokens: usageMetadata?.promptTokenCount ??
+        Math.ceil((customerBuffer.length + productBuffer.length) / 100) + 500, // Prompt tokens
+      outputTokens: usageMetadata?.candidatesTokenCount ?? Math.ceil(text.length / 4) + 100
+    }
   }
 }
 
 /**
  * Calculate estimated cost based on token usage
  */
-function calculateCost(customerImageSize: number, productImageSize: number, analysisText: string): number {
-  // Rough estimate: images contribute to input tokens, analysis to output tokens
-  const estimatedInputTokens = Math.ceil((customerImageSize + productImageSize) / 100) + 500 // Prompt tokens
-  const estimatedOutputTokens = Math.ceil(analysisText.length / 4) + 100
-
-  const inputCost = (estimatedInputTokens / 1000) * COST_PER_1K_INPUT_TOKENS
-  const outputCost = (estimatedOutputTokens / 1000) * COST_PER_1K_OUTPUT_TOKENS
+function calculateCost(inputTokens: number, outputTokens: number): number {
+  const inputCost = (inputTokens / 1000) * COST_PER_1K_INPUT_TOKENS
+  const outputCost = (outputTokens / 1000) * COST_PER_1K_OUTPUT_TOKENS
 
   return inputCost + outputCost + (COST_PER_REQUEST * 0.5) // Add 50% of base cost
 }
@@ -551,7 +618,7 @@ export function getCachedResult(
 export function getFallbackResult(generationTime: number): TryOnResult {
   console.log('⚠ Using fallback result due to generation failure')
   return {
-    imageUrl: 'https://storage.renderedfits.com/fallback/placeholder.jpg',
+    imageBuffer: Buffer.alloc(0),
     generationTime,
     cost: 0,
     analysis: JSON.stringify({
@@ -598,18 +665,17 @@ export async function batchGenerateTryons(
 export async function generateTryOn(
   personImageBuffer: Buffer,
   garmentImageBuffer: Buffer,
-  options: TryOnOptions = {}
+  options: TryOnOptions = {},
+  onProgress?: TryOnProgressCallback
 ): Promise<{ resultBuffer: Buffer; processingTimeMs: number; analysis: string }> {
   // Convert buffers to data URLs for the new function
   const personDataUrl = `data:image/jpeg;base64,${personImageBuffer.toString('base64')}`
   const garmentDataUrl = `data:image/jpeg;base64,${garmentImageBuffer.toString('base64')}`
 
-  const result = await generateVirtualTryon(personDataUrl, garmentDataUrl, options)
+  const result = await generateVirtualTryon(personDataUrl, garmentDataUrl, options, onProgress)
 
-  // For legacy compatibility, return a placeholder buffer
-  // In production, you would download the image from result.imageUrl
   return {
-    resultBuffer: personImageBuffer, // Placeholder
+    resultBuffer: result.imageBuffer,
     processingTimeMs: result.generationTime,
     analysis: result.analysis || 'No analysis available',
   }
@@ -0,0 +1,144 @@
+import { fakePrisma } from '../test/prisma.js'
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Merchant, PlanChange, SubscriptionStatus, SubscriptionStatusChange } from '@prisma/client'
+import { billingMonth, calculatePeriodCharges, closeDuePeriods } from './invoices.js'
+
+// June 2024: 30 days
+const MONTH = '2024-06'
+
+function day(date: number, month = 5): Date {
+  return new Date(2024, month, date)
+}
+
+function merchant(overrides: Partial<Merchant> = {}): Merchant {
+  return {
+    plan: 'ATELIER',
+    createdAt: day(1, 0),
+    trialEndsAt: day(15, 0),
+    subscriptionStatus: 'ACTIVE',
+    subscriptionEndsAt: day(1, 6),
+    ...overrides
+  } as Merchant
+}
+
+function statusChange(changedAt: Date, fromStatus: SubscriptionStatus, toStatus: SubscriptionStatus) {
+  return { changedAt, fromStatus, toStatus } as SubscriptionStatusChange
+}
+
+function charges(
+  billed: Merchant,
+  statusChanges: SubscriptionStatusChange[] = [],
+  planChanges: PlanChange[] = [],
+  tryonCount = 0
+) {
+  return calculatePeriodCharges({ month: MONTH, merchant: billed, contract: null, planChanges, statusChanges, tryonCount })
+}
+
+describe('calculatePeriodCharges', () => {
+  it('charges the plan fee for a whole month', () => {
+    const { lineItems, total } = charges(merchant())
+
+    assert.deepEqual(lineItems.map(line => [line.type, line.amount]), [['SUBSCRIPTION', 99]])
+    assert.equal(total, 99)
+  })
+
+  it('prorates by day across a plan change', () => {
+    const { lineItems, total } = charges(merchant({ plan: 'MAISON' }), [], [
+      { changedAt: day(16), fromPlan: 'ATELIER', toPlan: 'MAISON' } as PlanChange
+    ])
+
+    // 15 days of $99 and 15 of $299
+    assert.deepEqual(lineItems.map(line => [line.type, line.quantity, line.amount]), [
+      ['PRORATION', 15, 49.5],
+      ['PRORATION', 15, 149.5]
+    ])
+    assert.equal(total, 199)
+  })
+
+  it('charges overage at the closing plan\'s rate', () => {
+    const { overageTryons, overageCharges, total } = charges(merchant(), [], [], 520)
+
+    assert.equal(overageTryons, 20)
+    assert.equal(overageCharges, 10)
+    assert.equal(total, 109)
+  })
+
+  it('does not charge trial days', () => {
+    const { lineItems } = charges(merchant({ createdAt: day(7), trialEndsAt: day(21) }))
+
+    assert.deepEqual(lineItems.map(line => [line.type, line.quantity]), [['PRORATION', 10]])
+  })
+
+  it('bills a past month by the status then, not today\'s', () => {
+    // Cancelled the month after
+    const canceled = merchant({ subscriptionStatus: 'CANCELED', subscriptionEndsAt: day(10, 6) })
+
+    assert.equal(charges(canceled, [statusChange(day(10, 6), 'ACTIVE', 'CANCELED')]).total, 99)
+  })
+
+  it('stops at a cancellation', () => {
+    // Cancelled during the 10th, with the paid period running on to July
+    const canceled = merchant({ subscriptionStatus: 'CANCELED' })
+    const { lineItems } = charges(canceled, [statusChange(new Date(2024, 5, 10, 12), 'ACTIVE', 'CANCELED')])
+
+    assert.deepEqual(lineItems.map(line => [line.type, line.quantity]), [['PRORATION', 10]])
+  })
+
+  it('charges from a resubscription after the trial ran out', () => {
+    const resubscribed = merchant({ trialEndsAt: day(20, 4) })
+    const { lineItems } = charges(resubscribed, [
+      statusChange(day(20, 4), 'TRIAL', 'TRIAL_EXPIRED'),
+      statusChange(day(16), 'TRIAL_EXPIRED', 'ACTIVE')
+    ])
+
+    assert.deepEqual(lineItems.map(line => [line.type, line.quantity]), [['PRORATION', 15]])
+  })
+
+  it('bills merchants cancelled before status history up to their period end', () => {
+    const canceled = merchant({ subscriptionStatus: 'CANCELED', subscriptionEndsAt: day(11) })
+    const { lineItems } = charges(canceled)
+
+    assert.deepEqual(lineItems.map(line => [line.type, line.quantity]), [['PRORATION', 10]])
+  })
+
+  it('does not bill cancelled merchants without a period end', () => {
+    const canceled = merchant({ subscriptionStatus: 'CANCELED', subscriptionEndsAt: null })
+
+    assert.equal(charges(canceled).total, 0)
+  })
+})
+
+describe('closeDuePeriods usage rows', () => {
+  it('only opens rows for merchants who paid for some of the month', async () => {
+    const now = new Date()
+    const lastMonth = billingMonth(new Date(now.getFullYear(), now.getMonth() - 1, 1))
+    const monthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1)
+    const longAgo = new Date(now.getFullYear() - 1, 0, 1)
+    let rows: { merchantId: string; month: string }[] = []
+
+    fakePrisma.merchant = {
+      findMany: async () => [
+        { ...merchant({ createdAt: longAgo, trialEndsAt: null }), id: 'active', statusChanges: [] },
+        { ...merchant({ createdAt: longAgo, trialEndsAt: null, subscriptionStatus: 'CANCELED', subscriptionEndsAt: null }),
+          id: 'canceled_no_end', statusChanges: [] },
+        { ...merchant({ createdAt: longAgo, trialEndsAt: null, subscriptionStatus: 'CANCELED' }),
+          id: 'canceled_before', statusChanges: [statusChange(longAgo, 'ACTIVE', 'CANCELED')] },
+        { ...merchant({ createdAt: longAgo, trialEndsAt: null, subscriptionStatus: 'CANCELED' }),
+          id: 'canceled_during', statusChanges: [statusChange(new Date(monthStart.getTime() + 36e5 * 30), 'ACTIVE', 'CANCELED')] }
+      ]
+    }
+    fakePrisma.usageTracking = {
+      createMany: async ({ data }: { data: typeof rows }) => {
+        rows = data
+        return { count: data.length }
+      },
+      findMany: async () => []
+    }
+
+    await closeDuePeriods()
+
+    assert.deepEqual(rows.map(row => row.merchantId), ['active', 'canceled_during'])
+    assert.ok(rows.every(row => row.month === lastMonth))
+  })
+})
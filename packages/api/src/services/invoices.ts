@@ -0,0 +1,585 @@
+import {
+  Invoice,
+  InvoiceLineItem,
+  InvoiceLineItemType,
+  Merchant,
+  PlanChange,
+  PlanContract,
+  SubscriptionPlan,
+  SubscriptionStatus,
+  SubscriptionStatusChange
+} from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { EffectivePlan, applyContract, calculateOverage, getPlan } from './plans.js'
+
+const POLL_INTERVAL_MS = parseInt(process.env.BILLING_CLOSE_POLL_MS || String(60 * 60 * 1000), 10) // hourly
+const CURRENCY = 'USD'
+
+export interface InvoiceLine {
+  type: InvoiceLineItemType
+  description: string
+  quantity: number
+  unitAmount: number
+  amount: number
+  periodStart?: Date
+  periodEnd?: Date
+}
+
+export interface PeriodCharges {
+  lineItems: InvoiceLine[]
+  includedTryons: number
+  overageTryons: number
+  overageCharges: number
+  subscriptionCharges: number
+  total: number
+}
+
+type BillableMerchant = Pick<
+  Merchant,
+  'plan' | 'createdAt' | 'trialEndsAt' | 'subscriptionStatus' | 'subscriptionEndsAt'
+>
+
+export type InvoiceWithLineItems = Invoice & { lineItems: InvoiceLineItem[] }
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// ============================================================================
+// BILLING PERIODS
+// ============================================================================
+
+/**
+ * Billing month a date falls in, e.g. "2024-01" (the UsageTracking.month format)
+ */
+export function billingMonth(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+/**
+ * First instant of a billing month, first instant of the next, and its length in days
+ */
+export function billingPeriod(month: string) {
+  const [year, monthNumber] = month.split('-').map(Number)
+
+  return {
+    start: new Date(year, monthNumber - 1, 1),
+    end: new Date(year, monthNumber, 1),
+    days: new Date(year, monthNumber, 0).getDate()
+  }
+}
+
+/**
+ * The catalog plan a merchant was on at a point in time, from their plan history
+ */
+function planAt(currentPlan: SubscriptionPlan, changes: PlanChange[], at: Date): SubscriptionPlan {
+  const sorted = [...changes].sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime())
+  const lastBefore = sorted.filter(change => change.changedAt <= at).pop()
+
+  if (lastBefore) return lastBefore.toPlan
+  return sorted[0]?.fromPlan || currentPlan
+}
+
+/**
+ * The subscription status a merchant had at a point in time, from their
+ * status history
+ */
+function statusAt(
+  currentStatus: SubscriptionStatus,
+  changes: SubscriptionStatusChange[],
+  at: Date
+): SubscriptionStatus {
+  const sorted = [...changes].sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime())
+  const lastBefore = sorted.filter(change => change.changedAt <= at).pop()
+
+  if (lastBefore) return lastBefore.toStatus
+  return sorted[0]?.fromStatus || currentStatus
+}
+
+/**
+ * Whether the merchant pays for a day: they had signed up, were out of
+ * their trial (and had subscribed after it), and had not yet cancelled.
+ * Status is the one in force when the day began.
+ */
+function isBillableDay(
+  merchant: BillableMerchant,
+  statusChanges: SubscriptionStatusChange[],
+  dayStart: Date,
+  dayEnd: Date
+): boolean {
+  if (dayEnd <= merchant.createdAt) return false
+  if (merchant.trialEndsAt && dayEnd <= merchant.trialEndsAt) return false
+
+  const status = statusAt(merchant.subscriptionStatus, statusChanges, dayStart)
+  if (status === 'TRIAL_EXPIRED') return false
+
+  if (status === 'CANCELED') {
+    // Cancelled before the day began
+    if (statusChanges.some(change => change.toStatus === 'CANCELED' && change.changedAt <= dayStart)) {
+      return false
+    }
+
+    // Cancelled before status history was kept: paid up to the end of the
+    // last period, and never paid without one
+    return Boolean(merchant.subscriptionEndsAt && dayStart < merchant.subscriptionEndsAt)
+  }
+
+  return true
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+/**
+ * Charges for one billing month: the plan fee for each run of days on the
+ * same plan (prorated by day when that is not the whole month), plus
+ * overage at the rate of the plan in force at the end of the period.
+ * Trial days and days before sign-up or after cancellation are free.
+ */
+export function calculatePeriodCharges(input: {
+  month: string
+  merchant: BillableMerchant
+  contract: PlanContract | null
+  planChanges: PlanChange[]
+  statusChanges: SubscriptionStatusChange[]
+  tryonCount: number
+}): PeriodCharges {
+  const period = billingPeriod(input.month)
+  const segments: { plan: EffectivePlan; start: Date; end: Date; days: number }[] = []
+
+  for (let day = 1; day <= period.days; day++) {
+    const dayStart = new Date(period.start.getFullYear(), period.start.getMonth(), day)
+    const dayEnd = new Date(period.start.getFullYear(), period.start.getMonth(), day + 1)
+
+    if (!isBillableDay(input.merchant, input.statusChanges, dayStart, dayEnd)) continue
+
+    const plan = applyContract(
+      getPlan(planAt(input.merchant.plan, input.planChanges, dayStart)),
+      input.contract,
+      dayStart
+    )
+
+    const last = segments[segments.length - 1]
+    if (last && last.end.getTime() === dayStart.getTime() &&
+        last.plan.id === plan.id && last.plan.contract?.id === plan.contract?.id) {
+      last.end = dayEnd
+      last.days++
+    } else {
+      segments.push({ plan, start: dayStart, end: dayEnd, days: 1 })
+    }
+  }
+
+  const lineItems: InvoiceLine[] = segments.map(segment => {
+    const name = segment.plan.contract ? segment.plan.name : `${segment.plan.name} plan`
+
+    if (segment.days === period.days) {
+      return {
+        type: 'SUBSCRIPTION',
+        description: name,
+        quantity: 1,
+        unitAmount: segment.plan.monthlyPrice,
+        amount: segment.plan.monthlyPrice,
+        periodStart: segment.start,
+        periodEnd: segment.end
+      }
+    }
+
+    const lastDay = new Date(segment.end.getTime() - 1)
+
+    return {
+      type: 'PRORATION',
+      description: `${name}, ${formatDay(segment.start)} - ${formatDay(lastDay)} (${segment.days} of ${period.days} days)`,
+      quantity: segment.days,
+      unitAmount: Math.round((segment.plan.monthlyPrice / period.days) * 10000) / 10000,
+      amount: roundCents((segment.plan.monthlyPrice * segment.days) / period.days),
+      periodStart: segment.start,
+      periodEnd: segment.end
+    }
+  })
+
+  const subscriptionCharges = roundCents(lineItems.reduce((sum, line) => sum + line.amount, 0))
+
+  // A month spent entirely in trial is not billed at all
+  const closingPlan = segments[segments.length - 1]?.plan
+  if (!closingPlan) {
+    return {
+      lineItems,
+      includedTryons: getPlan(input.merchant.plan).includedTryons,
+      overageTryons: 0,
+      overageCharges: 0,
+      subscriptionCharges,
+      total: subscriptionCharges
+    }
+  }
+
+  const { overageTryons, overageCharges } = calculateOverage(closingPlan, input.tryonCount)
+
+  if (overageTryons > 0) {
+    lineItems.push({
+      type: 'OVERAGE',
+      description: `Try-ons above the ${closingPlan.includedTryons.toLocaleString()} included`,
+      quantity: overageTryons,
+      unitAmount: closingPlan.overageRate,
+      amount: overageCharges,
+      periodStart: period.start,
+      periodEnd: period.end
+    })
+  }
+
+  return {
+    lineItems,
+    includedTryons: closingPlan.includedTryons,
+    overageTryons,
+    overageCharges,
+    subscriptionCharges,
+    total: roundCents(subscriptionCharges + overageCharges)
+  }
+}
+
+/**
+ * Charges for a merchant's month so far, as they would be invoiced if the
+ * period closed with the current plan
+ */
+export async function getPeriodCharges(merchantId: string, month: string = billingMonth()): Promise<PeriodCharges> {
+  const [merchant, usage] = await Promise.all([
+    prisma.merchant.findUnique({
+      where: { id: merchantId },
+      include: { planContract: true, planChanges: true, statusChanges: true }
+    }),
+    prisma.usageTracking.findUnique({
+      where: { merchantId_month: { merchantId, month } },
+      select: { tryonCount: true }
+    })
+  ])
+
+  if (!merchant) {
+    throw new Error('Merchant not found')
+  }
+
+  return calculatePeriodCharges({
+    month,
+    merchant,
+    contract: merchant.planContract,
+    planChanges: merchant.planChanges,
+    statusChanges: merchant.statusChanges,
+    tryonCount: usage?.tryonCount || 0
+  })
+}
+
+// ============================================================================
+// PERIOD CLOSE
+// ============================================================================
+
+/**
+ * Finalize one usage row: write its totals and billedAt and issue the
+ * invoice. Returns null if the period was already closed.
+ */
+export async function closeBillingPeriod(usageTrackingId: string): Promise<InvoiceWithLineItems | null> {
+  const usage = await prisma.usageTracking.findUnique({ where: { id: usageTrackingId } })
+
+  if (!usage || usage.billedAt) {
+    return null
+  }
+
+  const period = billingPeriod(usage.month)
+  const charges = await getPeriodCharges(usage.merchantId, usage.month)
+
+  return prisma.$transaction(async tx => {
+    // Claim by setting billedAt, so a concurrent close skips it
+    const claimed = await tx.usageTracking.updateMany({
+      where: { id: usage.id, billedAt: null },
+      data: {
+        billedAt: new Date(),
+        includedTryons: charges.includedTryons,
+        overageTryons: charges.overageTryons,
+        overageCharges: charges.overageCharges,
+        totalCharges: charges.total
+      }
+    })
+
+    if (claimed.count !== 1) {
+      return null
+    }
+
+    return tx.invoice.create({
+      data: {
+        merchantId: usage.merchantId,
+        usageTrackingId: usage.id,
+        number: `RF-${usage.month.replace('-', '')}-${usage.id.slice(-10).toUpperCase()}`,
+        month: usage.month,
+        periodStart: period.start,
+        periodEnd: period.end,
+        currency: CURRENCY,
+        total: charges.total,
+        lineItems: { create: charges.lineItems }
+      },
+      include: { lineItems: true }
+    })
+  })
+}
+
+/**
+ * Whether a merchant pays for any day of a month
+ */
+function hasBillableDays(
+  merchant: BillableMerchant,
+  statusChanges: SubscriptionStatusChange[],
+  month: string
+): boolean {
+  const period = billingPeriod(month)
+
+  for (let day = 1; day <= period.days; day++) {
+    const dayStart = new Date(period.start.getFullYear(), period.start.getMonth(), day)
+    const dayEnd = new Date(period.start.getFullYear(), period.start.getMonth(), day + 1)
+
+    if (isBillableDay(merchant, statusChanges, dayStart, dayEnd)) return true
+  }
+
+  return false
+}
+
+/**
+ * Give every merchant who was a paying customer during a month a usage
+ * row, so months without try-ons still close with their plan fee
+ */
+async function ensureUsageRows(month: string): Promise<void> {
+  const period = billingPeriod(month)
+  const [year, monthNumber] = month.split('-').map(Number)
+
+  const candidates = await prisma.merchant.findMany({
+    where: { createdAt: { lt: period.end } },
+    select: {
+      id: true,
+      plan: true,
+      createdAt: true,
+      trialEndsAt: true,
+      subscriptionStatus: true,
+      subscriptionEndsAt: true,
+      statusChanges: true
+    }
+  })
+  const merchants = candidates.filter(merchant => hasBillableDays(merchant, merchant.statusChanges, month))
+
+  await prisma.usageTracking.createMany({
+    data: merchants.map(merchant => ({
+      merchantId: merchant.id,
+      month,
+      year,
+      monthNumber,
+      includedTryons: getPlan(merchant.plan).includedTryons
+    })),
+    skipDuplicates: true
+  })
+}
+
+let pollTimer: NodeJS.Timeout | null = null
+let polling = false
+
+/**
+ * Close every usage row from a finished month that has not been billed
+ */
+export async function closeDuePeriods(): Promise<number> {
+  if (polling) return 0
+  polling = true
+
+  let closed = 0
+
+  try {
+    const now = new Date()
+    await ensureUsageRows(billingMonth(new Date(now.getFullYear(), now.getMonth() - 1, 1)))
+
+    const due = await prisma.usageTracking.findMany({
+      where: {
+        billedAt: null,
+        month: { lt: billingMonth(now) }
+      },
+      select: { id: true },
+      orderBy: { month: 'asc' }
+    })
+
+    for (const usage of due) {
+      try {
+        if (await closeBillingPeriod(usage.id)) closed++
+      } catch (error) {
+        console.error(`Billing period ${usage.id} close failed:`, error)
+      }
+    }
+
+    if (closed > 0) {
+      console.log(`🧾 Closed ${closed} billing period(s)`)
+    }
+  } catch (error) {
+    console.error('Billing period close failed:', error)
+  } finally {
+    polling = false
+  }
+
+  return closed
+}
+
+/**
+ * Start the background job that closes finished billing months. It also
+ * runs once at startup, so a month rolled over while the API was down
+ * still closes.
+ */
+export function startBillingCloseWorker(): void {
+  if (pollTimer) return
+
+  closeDuePeriods()
+  pollTimer = setInterval(() => {
+    closeDuePeriods()
+  }, POLL_INTERVAL_MS)
+
+  console.log('🧾 Billing period close worker started')
+}
+
+/**
+ * Stop closing billing periods
+ */
+export function stopBillingCloseWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer)
+    pollTimer = null
+  }
+}
+
+// ============================================================================
+// INVOICES
+// ============================================================================
+
+/**
+ * A merchant's invoices, newest first
+ */
+export async function listInvoices(merchantId: string, limit: number = 12): Promise<Invoice[]> {
+  return prisma.invoice.findMany({
+    where: { merchantId },
+    orderBy: { periodStart: 'desc' },
+    take: limit
+  })
+}
+
+/**
+ * One of a merchant's invoices with its line items
+ */
+export async function getInvoice(invoiceId: string, merchantId: string): Promise<InvoiceWithLineItems | null> {
+  return prisma.invoice.findFirst({
+    where: { id: invoiceId, merchantId },
+    include: { lineItems: { orderBy: { periodStart: 'asc' } } }
+  })
+}
+
+/**
+ * Invoice for API responses
+ */
+export function serializeInvoice(invoice: Invoice & { lineItems?: InvoiceLineItem[] }) {
+  return {
+    id: invoice.id,
+    number: invoice.number,
+    month: invoice.month,
+    periodStart: invoice.periodStart,
+    periodEnd: invoice.periodEnd,
+    currency: invoice.currency,
+    total: Number(invoice.total),
+    issuedAt: invoice.issuedAt,
+    htmlUrl: `/api/billing/invoices/${invoice.id}/html`,
+    ...(invoice.lineItems && {
+      lineItems: invoice.lineItems.map(line => ({
+        type: line.type,
+        description: line.description,
+        quantity: line.quantity,
+        unitAmount: Number(line.unitAmount),
+        amount: Number(line.amount)
+      }))
+    })
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Printable HTML invoice. Browsers save it as a PDF via Print.
+ */
+export function renderInvoiceHtml(
+  invoice: InvoiceWithLineItems,
+  merchant: Pick<Merchant, 'businessName' | 'email' | 'billingEmail'>
+): string {
+  const money = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: invoice.currency }).format(amount)
+  const period = `${invoice.periodStart.toLocaleDateString('en-US', { dateStyle: 'long' })} - ${
+    new Date(invoice.periodEnd.getTime() - 1).toLocaleDateString('en-US', { dateStyle: 'long' })}`
+
+  const rows = invoice.lineItems.map(line => `
+        <tr>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="num">${line.quantity.toLocaleString()}</td>
+          <td class="num">${money(Number(line.unitAmount))}</td>
+          <td class="num">${money(Number(line.amount))}</td>
+        </tr>`).join('')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${escapeHtml(invoice.number)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Arial, sans-serif; color: #111827; max-width: 760px; margin: 40px auto; padding: 0 24px; }
+    h1 { font-size: 28px; margin: 0 0 4px; }
+    .muted { color: #6b7280; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 32px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th, td { padding: 10px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+    th { font-size: 12px; text-transform: uppercase; color: #6b7280; }
+    .num { text-align: right; white-space: nowrap; }
+    .total td { font-weight: 700; border-bottom: none; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Invoice</h1>
+      <div class="muted">${escapeHtml(invoice.number)}</div>
+    </div>
+    <div style="text-align: right">
+      <strong>Rendered Fits</strong>
+      <div class="muted">Issued ${invoice.issuedAt.toLocaleDateString('en-US', { dateStyle: 'long' })}</div>
+    </div>
+  </div>
+
+  <div>
+    <div class="muted">Billed to</div>
+    <strong>${escapeHtml(merchant.businessName)}</strong>
+    <div>${escapeHtml(merchant.billingEmail || merchant.email)}</div>
+  </div>
+
+  <p class="muted">Billing period: ${period}</p>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="num">Qty</th>
+        <th class="num">Unit price</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${rows || `
+        <tr><td colspan="4" class="muted">No charges this period</td></tr>`}
+      <tr class="total">
+        <td colspan="3" class="num">Total (${escapeHtml(invoice.currency)})</td>
+        <td class="num">${money(Number(invoice.total))}</td>
+      </tr>
+    </tbody>
+  </table>
+</body>
+</html>
+`
+}
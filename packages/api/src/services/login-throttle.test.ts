@@ -0,0 +1,114 @@
+import { fakePrisma } from '../test/prisma.js'
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { AddressInfo } from 'node:net'
+import { Server } from 'node:http'
+import express, { NextFunction, Request, Response } from 'express'
+import { throttleLogin } from './login-throttle.js'
+import { sessionClient } from './sessions.js'
+import { ApiError, unauthorized } from '../middleware/errorHandler.js'
+import { trustProxySetting } from '../utils/proxy.js'
+
+interface Throttle {
+  key: string
+  failures: number
+  lastFailureAt: Date
+  lockedUntil: Date | null
+}
+
+const throttles = new Map<string, Throttle>()
+
+fakePrisma.loginThrottle = {
+  findMany: async ({ where }: { where: { key: { in: string[] } } }) =>
+    where.key.in.flatMap(key => throttles.get(key) || [])
+}
+
+// The failure upsert in recordLoginFailure; its first value is the key
+fakePrisma.$queryRaw = async (_sql: TemplateStringsArray, key: string, now: Date) => {
+  const throttle = throttles.get(key) || { key, failures: 0, lastFailureAt: now, lockedUntil: null }
+  throttle.failures += 1
+  throttle.lastFailureAt = now
+  throttles.set(key, throttle)
+
+  return [{ failures: throttle.failures }]
+}
+
+describe('sign in throttling behind a proxy', () => {
+  let server: Server
+  let baseUrl: string
+
+  before(async () => {
+    // As deployed: one trusted proxy hop in front of the API
+    const app = express()
+    app.set('trust proxy', trustProxySetting(undefined, true))
+    app.use(express.json())
+    app.post('/login', async (req, _res, next) => {
+      try {
+        await throttleLogin(req.body.email, sessionClient(req), async () => {
+          throw unauthorized('Invalid credentials')
+        })
+      } catch (error) {
+        next(error)
+      }
+    })
+    app.use((error: ApiError, _req: Request, res: Response, _next: NextFunction) => {
+      res.status(error.statusCode).end()
+    })
+
+    server = app.listen(0)
+    await new Promise(resolve => server.once('listening', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  // Every request arrives from the proxy's address, 127.0.0.1
+  async function login(email: string, clientIp: string): Promise<number> {
+    const response = await fetch(`${baseUrl}/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': clientIp },
+      body: JSON.stringify({ email })
+    })
+
+    return response.status
+  }
+
+  it('counts failures per client address, not per proxy', async () => {
+    assert.equal(await login('a@example.com', '203.0.113.1'), 401)
+    assert.equal(await login('b@example.com', '198.51.100.7'), 401)
+
+    assert.equal(throttles.get('ip:203.0.113.1')?.failures, 1)
+    assert.equal(throttles.get('ip:198.51.100.7')?.failures, 1)
+    assert.equal(throttles.has('ip:127.0.0.1'), false)
+  })
+
+  it('does not slow one client down for another client\'s failures', async () => {
+    for (const email of ['c@example.com', 'd@example.com']) {
+      assert.equal(await login(email, '203.0.113.1'), 401)
+    }
+
+    // Three failures from the first client: it now has to wait
+    assert.equal(await login('e@example.com', '203.0.113.1'), 429)
+    assert.equal(await login('f@example.com', '198.51.100.7'), 401)
+  })
+
+  it('trusts only the last hop, so a client cannot pick its address', async () => {
+    assert.equal(await login('g@example.com', '198.51.100.99, 203.0.113.1'), 429)
+  })
+})
+
+describe('trustProxySetting', () => {
+  it('trusts one hop in production and none elsewhere by default', () => {
+    assert.equal(trustProxySetting(undefined, true), 1)
+    assert.equal(trustProxySetting('', false), false)
+  })
+
+  it('reads booleans, hop counts and subnets', () => {
+    assert.equal(trustProxySetting('true', false), true)
+    assert.equal(trustProxySetting('false', true), false)
+    assert.equal(trustProxySetting('2', false), 2)
+    assert.equal(trustProxySetting('loopback, 10.0.0.0/8', false), 'loopback, 10.0.0.0/8')
+  })
+})
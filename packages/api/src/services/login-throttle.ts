@@ -0,0 +1,225 @@
+import { prisma } from '../utils/prisma.js'
+import { ApiError, tooManyRequests } from '../middleware/errorHandler.js'
+import { SessionClient } from './sessions.js'
+import { recordAuditEvent, recordUserAuditEvent } from './audit.js'
+import { notifyMerchant } from './notifications.js'
+import { sendMail } from './mailer.js'
+
+const ACCOUNT_LOCKOUT_FAILURES = parseInt(process.env.LOGIN_LOCKOUT_FAILURES || '10', 10)
+const IP_LOCKOUT_FAILURES = parseInt(process.env.LOGIN_IP_LOCKOUT_FAILURES || '50', 10)
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10)
+const FAILURE_WINDOW_MS = 60 * 60 * 1000 // Failures older than this are forgotten
+const FREE_FAILURES = 3 // Failures before delays start
+const MAX_DELAY_SECONDS = 60
+const SUSPICIOUS_FAILURES = 5 // A sign in after this many failures is reported to owners
+
+type ThrottleScope = 'account' | 'ip'
+
+interface ThrottleKey {
+  scope: ThrottleScope
+  key: string
+}
+
+function throttleKeys(email: string, client: SessionClient): ThrottleKey[] {
+  const keys: ThrottleKey[] = [{ scope: 'account', key: `account:${email.toLowerCase()}` }]
+
+  if (client.ipAddress) {
+    keys.push({ scope: 'ip', key: `ip:${client.ipAddress}` })
+  }
+
+  return keys
+}
+
+/**
+ * Seconds to wait after a number of failures: none at first, then doubling
+ */
+function delaySeconds(failures: number): number {
+  if (failures < FREE_FAILURES) return 0
+  return Math.min(2 ** (failures - FREE_FAILURES), MAX_DELAY_SECONDS)
+}
+
+/**
+ * Fail with 429 while an account or IP address is locked out or waiting
+ * out its delay
+ */
+export async function assertLoginAllowed(email: string, client: SessionClient): Promise<void> {
+  const throttles = await prisma.loginThrottle.findMany({
+    where: { key: { in: throttleKeys(email, client).map(({ key }) => key) } }
+  })
+
+  const now = Date.now()
+  let waitMs = 0
+  let locked = false
+
+  for (const throttle of throttles) {
+    if (throttle.lockedUntil && throttle.lockedUntil.getTime() > now) {
+      locked = true
+      waitMs = Math.max(waitMs, throttle.lockedUntil.getTime() - now)
+    } else if (now - throttle.lastFailureAt.getTime() < FAILURE_WINDOW_MS) {
+      waitMs = Math.max(waitMs, throttle.lastFailureAt.getTime() + delaySeconds(throttle.failures) * 1000 - now)
+    }
+  }
+
+  if (waitMs <= 0) return
+
+  const retryAfter = Math.ceil(waitMs / 1000)
+
+  throw locked
+    ? tooManyRequests(`Too many failed sign ins - try again in ${Math.ceil(retryAfter / 60)} minutes`, {
+      code: 'login_locked',
+      retryAfter
+    })
+    : tooManyRequests(`Too many failed sign ins - wait ${retryAfter} seconds before trying again`, {
+      code: 'login_throttled',
+      retryAfter
+    })
+}
+
+/**
+ * Tell the owners of every team a user belongs to, by dashboard notification
+ * and email, and email the user too
+ */
+async function alertOwners(userId: string, title: string, body: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      email: true,
+      memberships: {
+        select: {
+          merchantId: true,
+          merchant: {
+            select: { memberships: { where: { role: 'OWNER' }, select: { user: { select: { email: true } } } } }
+          }
+        }
+      }
+    }
+  })
+
+  if (!user) return
+
+  const emailed = new Set<string>()
+
+  for (const membership of user.memberships) {
+    const owners = membership.merchant.memberships.map(owner => owner.user.email)
+    owners.forEach(email => emailed.add(email))
+
+    await notifyMerchant(membership.merchantId, { type: 'SECURITY_ALERT', title, body, link: '/team' }, { emailTo: owners })
+      .catch(error => console.error(`Security alert for merchant ${membership.merchantId} failed:`, error))
+  }
+
+  if (!emailed.has(user.email)) {
+    await sendMail({ to: user.email, subject: title, text: body })
+      .catch(error => console.error(`Security alert email to ${user.email} failed:`, error))
+  }
+}
+
+/**
+ * Lock an account or IP address out after too many failures: audit it, and
+ * alert the owners of an account's teams
+ */
+async function lockOut({ scope, key }: ThrottleKey, failures: number, email: string, client: SessionClient): Promise<void> {
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000)
+
+  await prisma.loginThrottle.update({ where: { key }, data: { lockedUntil } })
+
+  // Attempts on an email without a login have no team to tell
+  const user = scope === 'account'
+    ? await prisma.user.findUnique({ where: { email: email.toLowerCase() }, select: { id: true } })
+    : null
+
+  const entry = {
+    action: scope === 'account' ? 'auth.login_locked' : 'auth.ip_locked',
+    actor: { actorType: 'system' as const, client },
+    target: user ? { type: 'user', id: user.id } : undefined,
+    metadata: { email: email.toLowerCase(), failures, lockedUntil: lockedUntil.toISOString() }
+  }
+
+  if (!user) {
+    await recordAuditEvent(entry)
+    return
+  }
+
+  await recordUserAuditEvent(user.id, entry)
+  await alertOwners(
+    user.id,
+    `Sign ins to ${email} were locked after ${failures} failed attempts`,
+    `There were ${failures} failed attempts to sign in to ${email} on Rendered Fits, ` +
+      `the last from ${client.ipAddress || 'an unknown address'}. ` +
+      `Sign ins to it are blocked until ${lockedUntil.toUTCString()}.\n\n` +
+      'If this was not a team member, consider requiring two-factor authentication for the team.'
+  )
+}
+
+/**
+ * Count a failed sign in against the account and the IP address, locking
+ * either out once it reaches its limit
+ */
+export async function recordLoginFailure(email: string, client: SessionClient): Promise<void> {
+  const now = new Date()
+  const staleBefore = new Date(now.getTime() - FAILURE_WINDOW_MS)
+
+  for (const throttleKey of throttleKeys(email, client)) {
+    const [{ failures }] = await prisma.$queryRaw<{ failures: number }[]>`
+      INSERT INTO login_throttles (key, failures, "lastFailureAt")
+      VALUES (${throttleKey.key}, 1, ${now})
+      ON CONFLICT (key) DO UPDATE SET
+        failures = CASE WHEN login_throttles."lastFailureAt" < ${staleBefore} THEN 1 ELSE login_throttles.failures + 1 END,
+        "lastFailureAt" = ${now}
+      RETURNING failures
+    `
+
+    const limit = throttleKey.scope === 'account' ? ACCOUNT_LOCKOUT_FAILURES : IP_LOCKOUT_FAILURES
+
+    if (failures % limit === 0) {
+      await lockOut(throttleKey, failures, email, client)
+    }
+  }
+}
+
+/**
+ * Run a sign in step, counting a rejected credential (401) as a failure.
+ * Fails first if the account or IP address is throttled.
+ */
+export async function throttleLogin<T>(email: string, client: SessionClient, attempt: () => Promise<T>): Promise<T> {
+  await assertLoginAllowed(email, client)
+
+  try {
+    return await attempt()
+  } catch (error) {
+    if (error instanceof ApiError && error.statusCode === 401) {
+      await recordLoginFailure(email, client)
+    }
+    throw error
+  }
+}
+
+/**
+ * Clear an account's failures once a session is issued. A sign in that
+ * follows many failures may be a guessed password, so owners hear of it.
+ */
+export async function recordLoginSuccess(email: string, client: SessionClient, userId: string): Promise<void> {
+  const key = `account:${email.toLowerCase()}`
+  const throttle = await prisma.loginThrottle.findUnique({ where: { key } })
+
+  if (!throttle) return
+
+  await prisma.loginThrottle.deleteMany({ where: { key } })
+
+  const recent = Date.now() - throttle.lastFailureAt.getTime() < FAILURE_WINDOW_MS
+
+  if (!recent || throttle.failures < SUSPICIOUS_FAILURES) return
+
+  await recordUserAuditEvent(userId, {
+    action: 'auth.suspicious_login',
+    actor: { actorType: 'user', userId, actorLabel: email.toLowerCase(), client },
+    target: { type: 'user', id: userId },
+    metadata: { email: email.toLowerCase(), failures: throttle.failures }
+  })
+  await alertOwners(
+    userId,
+    `${email} signed in after ${throttle.failures} failed attempts`,
+    `${email} signed in to Rendered Fits from ${client.ipAddress || 'an unknown address'} ` +
+      `(${client.userAgent || 'unknown device'}) after ${throttle.failures} failed attempts.\n\n` +
+      'If this was not them, they should reset their password, which signs out every session.'
+  )
+}
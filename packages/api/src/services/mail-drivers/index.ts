@@ -0,0 +1,24 @@
+import { createLogDriver } from './log.js'
+import { createSmtpDriver } from './smtp.js'
+import type { MailDriver } from './types.js'
+
+export type { MailDriver, MailMessage } from './types.js'
+export { createLogDriver } from './log.js'
+export { createSmtpDriver } from './smtp.js'
+
+/**
+ * Build the driver selected by MAIL_DRIVER (smtp or log). Defaults to smtp
+ * when SMTP_URL is set, otherwise log.
+ */
+export function createMailDriver(
+  name: string = process.env.MAIL_DRIVER || (process.env.SMTP_URL ? 'smtp' : 'log')
+): MailDriver {
+  switch (name) {
+    case 'smtp':
+      return createSmtpDriver()
+    case 'log':
+      return createLogDriver()
+    default:
+      throw new Error(`Unknown mail driver: ${name}`)
+  }
+}
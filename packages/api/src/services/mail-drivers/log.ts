@@ -0,0 +1,13 @@
+import type { MailDriver } from './types.js'
+
+/**
+ * Print emails to the console instead of sending them
+ */
+export function createLogDriver(): MailDriver {
+  return {
+    name: 'log',
+    async send(message) {
+      console.log(`✉ To: ${message.to} | ${message.subject}\n${message.text}`)
+    }
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * A plain-text email to a merchant
+ */
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * A way to deliver email (an SMTP server, or the console in development)
+ */
+export interface MailDriver {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
@@ -0,0 +1,23 @@
+import { createMailDriver, MailDriver, MailMessage } from './mail-drivers/index.js'
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Rendered Fits <no-reply@renderedfits.com>'
+
+let driver: MailDriver | null = null
+
+/**
+ * Get the configured mail driver (created on first use)
+ */
+export function getMailDriver(): MailDriver {
+  if (!driver) {
+    driver = createMailDriver()
+    console.log(`✉ Mail driver: ${driver.name}`)
+  }
+  return driver
+}
+
+/**
+ * Send a plain-text email
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailDriver().send({ from: MAIL_FROM, ...message })
+}
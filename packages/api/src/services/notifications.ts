@@ -0,0 +1,73 @@
+import { Notification, NotificationType } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { sendMail } from './mailer.js'
+
+const DASHBOARD_URL = process.env.DASHBOARD_URL || 'http://localhost:5173'
+const MAX_LISTED = 50
+
+export interface MerchantNotification {
+  type: NotificationType
+  title: string
+  body: string
+  link?: string // Dashboard path, e.g. "/billing"
+}
+
+/**
+ * Tell a merchant something: a dashboard notification, plus an email to
+ * their billing contact, or to `emailTo` if given. A failed email is logged;
+ * the dashboard notification still stands.
+ */
+export async function notifyMerchant(
+  merchantId: string,
+  notification: MerchantNotification,
+  options: { emailTo?: string[] } = {}
+): Promise<Notification> {
+  const created = await prisma.notification.create({
+    data: { merchantId, ...notification }
+  })
+
+  const merchant = await prisma.merchant.findUnique({
+    where: { id: merchantId },
+    select: { email: true, billingEmail: true }
+  })
+
+  if (merchant) {
+    const link = notification.link ? `\n\n${DASHBOARD_URL}${notification.link}` : ''
+
+    await sendMail({
+      to: options.emailTo?.length ? options.emailTo.join(', ') : merchant.billingEmail || merchant.email,
+      subject: notification.title,
+      text: `${notification.body}${link}`
+    }).catch(error => console.error(`Email to merchant ${merchantId} failed:`, error))
+  }
+
+  return created
+}
+
+/**
+ * A merchant's latest notifications, newest first, and how many are unread
+ */
+export async function listNotifications(merchantId: string, options: { unreadOnly?: boolean } = {}) {
+  const [notifications, unread] = await Promise.all([
+    prisma.notification.findMany({
+      where: { merchantId, ...(options.unreadOnly && { readAt: null }) },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_LISTED
+    }),
+    prisma.notification.count({ where: { merchantId, readAt: null } })
+  ])
+
+  return { notifications, unread }
+}
+
+/**
+ * Mark notifications read: the given IDs, or all of the merchant's
+ */
+export async function markNotificationsRead(merchantId: string, ids?: string[]): Promise<number> {
+  const result = await prisma.notification.updateMany({
+    where: { merchantId, readAt: null, ...(ids && { id: { in: ids } }) },
+    data: { readAt: new Date() }
+  })
+
+  return result.count
+}
@@ -0,0 +1,133 @@
+import { fakePrisma } from '../test/prisma.js'
+import { describe, it, before, after, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { Notification, OveragePolicy } from '@prisma/client'
+import { allowanceExceeded, autoUpgradeIfDue, calculateAllowance, OverageSettings } from './overage.js'
+import { EffectivePlan, UNLIMITED, applyTrial, getPlan } from './plans.js'
+
+function plan(id: 'ATELIER' | 'MAISON' | 'COUTURE', overrides: Partial<EffectivePlan> = {}): EffectivePlan {
+  return { ...getPlan(id), contract: null, trial: false, ...overrides }
+}
+
+function settings(overagePolicy: OveragePolicy, overrides: Partial<OverageSettings> = {}): OverageSettings {
+  return { overagePolicy, overageSpendCap: null, canUpgrade: true, ...overrides }
+}
+
+describe('calculateAllowance', () => {
+  it('stops at the quota under a hard cap', () => {
+    const allowance = calculateAllowance(plan('ATELIER'), settings('HARD_CAP'))
+
+    assert.equal(allowance.effectivePolicy, 'HARD_CAP')
+    assert.equal(allowance.limit, 500)
+  })
+
+  it('adds the try-ons the overage spend cap pays for', () => {
+    // $100 at $0.50 a try-on
+    const allowance = calculateAllowance(plan('ATELIER'), settings('OVERAGE', { overageSpendCap: 100 }))
+
+    assert.equal(allowance.effectivePolicy, 'OVERAGE')
+    assert.equal(allowance.limit, 700)
+    assert.equal(allowance.spendCap, 100)
+  })
+
+  it('rounds partly paid overage try-ons down', () => {
+    const allowance = calculateAllowance(plan('ATELIER'), settings('OVERAGE', { overageSpendCap: 10.75 }))
+
+    assert.equal(allowance.limit, 521)
+  })
+
+  it('has no limit for overage at no charge', () => {
+    const allowance = calculateAllowance(plan('ATELIER', { overageRate: 0 }), settings('OVERAGE', { overageSpendCap: 50 }))
+
+    assert.equal(allowance.limit, UNLIMITED)
+  })
+
+  it('holds auto-upgrades at the current quota until the plan changes', () => {
+    const allowance = calculateAllowance(plan('ATELIER'), settings('AUTO_UPGRADE'))
+
+    assert.equal(allowance.effectivePolicy, 'AUTO_UPGRADE')
+    assert.equal(allowance.upgradeTo, 'MAISON')
+    assert.equal(allowance.limit, 500)
+  })
+
+  it('falls back to a hard cap when there is nothing to upgrade to', () => {
+    for (const [current, canUpgrade] of [[plan('COUTURE'), true], [plan('ATELIER'), false]] as const) {
+      const allowance = calculateAllowance(current, settings('AUTO_UPGRADE', { canUpgrade }))
+
+      assert.equal(allowance.effectivePolicy, 'HARD_CAP')
+      assert.equal(allowance.upgradeTo, null)
+      assert.equal(allowance.limit, current.includedTryons)
+    }
+  })
+
+  it('holds trials at the trial quota whatever the policy', () => {
+    const allowance = calculateAllowance(applyTrial(plan('MAISON')), settings('OVERAGE', { overageSpendCap: 100 }))
+
+    assert.equal(allowance.effectivePolicy, 'HARD_CAP')
+    assert.equal(allowance.limit, 50)
+  })
+
+  it('has no limit on unlimited contracts', () => {
+    const allowance = calculateAllowance(plan('COUTURE', { includedTryons: UNLIMITED }), settings('HARD_CAP'))
+
+    assert.equal(allowance.limit, UNLIMITED)
+  })
+})
+
+describe('allowanceExceeded', () => {
+  it('tells auto-upgrade merchants try-ons resume after the upgrade', () => {
+    const error = allowanceExceeded(calculateAllowance(plan('ATELIER'), settings('AUTO_UPGRADE')))
+
+    assert.equal(error.statusCode, 429)
+    assert.match(error.message, /resume once the upgrade to MAISON is confirmed/)
+    assert.deepEqual(error.details, { code: 'quota_exceeded', policy: 'AUTO_UPGRADE', limit: 500, upgradeTo: 'MAISON' })
+  })
+})
+
+describe('autoUpgradeIfDue', () => {
+  let notifications: Partial<Notification>[] = []
+
+  before(() => {
+    process.env.STRIPE_SECRET_KEY = 'sk_test_123'
+    process.env.MAIL_DRIVER = 'log'
+
+    // One merchant row serving every select along the way
+    fakePrisma.merchant = {
+      findUnique: async () => ({
+        plan: 'ATELIER',
+        planContract: null,
+        subscriptionStatus: 'ACTIVE',
+        trialEndsAt: null,
+        stripeSubscriptionId: 'sub_1',
+        overagePolicy: 'AUTO_UPGRADE',
+        overageSpendCap: null,
+        email: 'owner@example.com',
+        billingEmail: null
+      })
+    }
+    fakePrisma.notification = {
+      create: async ({ data }: { data: Partial<Notification> }) => {
+        notifications.push(data)
+        return data
+      }
+    }
+  })
+
+  after(() => {
+    delete process.env.STRIPE_SECRET_KEY
+    delete process.env.MAIL_DRIVER
+  })
+
+  beforeEach(() => {
+    notifications = []
+  })
+
+  it('tells the merchant when the upgrade cannot be made', async () => {
+    // No STRIPE_PRICE_MAISON: a refusal retrying will not fix
+    assert.equal(await autoUpgradeIfDue('merchant_1', 0), false)
+
+    assert.equal(notifications.length, 1)
+    assert.equal(notifications[0].type, 'USAGE_ALERT')
+    assert.match(String(notifications[0].title), /could not upgrade you to MAISON/)
+  })
+})
@@ -0,0 +1,251 @@
+import { OveragePolicy, SubscriptionPlan } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { ApiError, badRequest, notFound, tooManyRequests } from '../middleware/errorHandler.js'
+import { isStripeConfigured } from './stripe.js'
+import { changePlan } from './subscriptions.js'
+import { notifyMerchant } from './notifications.js'
+import { EffectivePlan, PlanDefinition, UNLIMITED, getEffectivePlan, isUnlimited, listPlans } from './plans.js'
+
+// Subscription statuses Stripe can move to a bigger plan without the merchant
+const UPGRADABLE_STATUSES = ['ACTIVE']
+
+// Auto-upgrade attempts before the merchant is told it failed, and the base
+// delay between them (doubled each retry)
+const AUTO_UPGRADE_ATTEMPTS = 3
+const AUTO_UPGRADE_RETRY_MS = parseInt(process.env.AUTO_UPGRADE_RETRY_MS || '30000', 10)
+
+export const OVERAGE_POLICY_LABELS: Record<OveragePolicy, string> = {
+  HARD_CAP: 'Stop try-ons at the plan quota',
+  OVERAGE: 'Allow paid overage up to a monthly spend cap',
+  AUTO_UPGRADE: 'Upgrade to the next plan when the quota runs out'
+}
+
+/**
+ * How many try-ons a merchant may start this month under their overage policy
+ */
+export interface UsageAllowance {
+  policy: OveragePolicy // What the merchant chose
+  effectivePolicy: OveragePolicy // What applies now; AUTO_UPGRADE falls back to HARD_CAP when no upgrade is possible
+  includedTryons: number
+  overageRate: number
+  spendCap: number | null // USD of overage per month, OVERAGE only
+  limit: number // Try-ons allowed this month, UNLIMITED for no cap
+  upgradeTo: SubscriptionPlan | null // Plan AUTO_UPGRADE moves to
+}
+
+/**
+ * Settings that decide a merchant's allowance
+ */
+export interface OverageSettings {
+  overagePolicy: OveragePolicy
+  overageSpendCap: number | null
+  canUpgrade: boolean // Has a subscription Stripe can switch in place
+}
+
+/**
+ * The next catalog plan with a bigger quota, if any
+ */
+export function nextPlanFor(plan: EffectivePlan): PlanDefinition | null {
+  if (plan.contract) {
+    return null
+  }
+
+  return listPlans().find(candidate =>
+    candidate.monthlyPrice > plan.monthlyPrice &&
+    (isUnlimited(candidate.includedTryons) || candidate.includedTryons > plan.includedTryons)
+  ) || null
+}
+
+/**
+ * Try-ons allowed this month for a plan and overage settings
+ */
+export function calculateAllowance(plan: EffectivePlan, settings: OverageSettings): UsageAllowance {
+  const base = {
+    policy: settings.overagePolicy,
+    includedTryons: plan.includedTryons,
+    overageRate: plan.overageRate,
+    spendCap: null,
+    upgradeTo: null
+  }
+
+  if (isUnlimited(plan.includedTryons)) {
+    return { ...base, effectivePolicy: settings.overagePolicy, limit: UNLIMITED }
+  }
+
+  // Trials stop at the trial quota; overage and upgrades start with a paid plan
+  if (plan.trial) {
+    return { ...base, effectivePolicy: 'HARD_CAP', limit: plan.includedTryons }
+  }
+
+  if (settings.overagePolicy === 'OVERAGE' && settings.overageSpendCap !== null) {
+    const overageTryons = plan.overageRate > 0
+      ? Math.floor(settings.overageSpendCap / plan.overageRate)
+      : UNLIMITED
+
+    return {
+      ...base,
+      effectivePolicy: 'OVERAGE',
+      spendCap: settings.overageSpendCap,
+      limit: isUnlimited(overageTryons) ? UNLIMITED : plan.includedTryons + overageTryons
+    }
+  }
+
+  const nextPlan = settings.overagePolicy === 'AUTO_UPGRADE' && settings.canUpgrade ? nextPlanFor(plan) : null
+
+  if (nextPlan) {
+    // The upgrade starts when the quota runs out. Try-ons stop at the current
+    // quota until Stripe confirms it and the plan, with its quota, changes.
+    return { ...base, effectivePolicy: 'AUTO_UPGRADE', limit: plan.includedTryons, upgradeTo: nextPlan.id }
+  }
+
+  return { ...base, effectivePolicy: 'HARD_CAP', limit: plan.includedTryons }
+}
+
+/**
+ * A merchant's allowance for the current month
+ */
+export async function getUsageAllowance(merchantId: string): Promise<UsageAllowance> {
+  const [plan, merchant] = await Promise.all([
+    getEffectivePlan(merchantId),
+    prisma.merchant.findUnique({
+      where: { id: merchantId },
+      select: {
+        overagePolicy: true,
+        overageSpendCap: true,
+        subscriptionStatus: true,
+        stripeSubscriptionId: true
+      }
+    })
+  ])
+
+  if (!merchant) {
+    throw notFound('Merchant not found')
+  }
+
+  return calculateAllowance(plan, {
+    overagePolicy: merchant.overagePolicy,
+    overageSpendCap: merchant.overageSpendCap === null ? null : Number(merchant.overageSpendCap),
+    canUpgrade: isStripeConfigured() &&
+      Boolean(merchant.stripeSubscriptionId) &&
+      UPGRADABLE_STATUSES.includes(merchant.subscriptionStatus)
+  })
+}
+
+/**
+ * 429 for a generation the allowance does not cover
+ */
+export function allowanceExceeded(allowance: UsageAllowance): ApiError {
+  const details = {
+    code: 'quota_exceeded',
+    policy: allowance.effectivePolicy,
+    limit: allowance.limit
+  }
+
+  if (allowance.effectivePolicy === 'OVERAGE') {
+    return tooManyRequests(
+      `Monthly overage spend cap reached ($${allowance.spendCap?.toFixed(2)}). Raise the cap or upgrade your plan.`,
+      details
+    )
+  }
+
+  if (allowance.effectivePolicy === 'AUTO_UPGRADE') {
+    return tooManyRequests(
+      `Monthly try-on limit reached (${allowance.limit} try-ons). Try-ons resume once the upgrade to ${allowance.upgradeTo} is confirmed.`,
+      { ...details, upgradeTo: allowance.upgradeTo }
+    )
+  }
+
+  return tooManyRequests(
+    `Monthly try-on limit exceeded (${allowance.limit} try-ons). Please upgrade your plan or wait until next month.`,
+    details
+  )
+}
+
+/**
+ * Change what happens when a merchant reaches their quota. Paid overage
+ * needs a spend cap.
+ */
+export async function updateOveragePolicy(
+  merchantId: string,
+  input: { policy: unknown; spendCap?: unknown }
+): Promise<UsageAllowance> {
+  const policy = input.policy as OveragePolicy
+
+  if (!Object.values(OveragePolicy).includes(policy)) {
+    throw badRequest(`Policy must be one of: ${Object.values(OveragePolicy).join(', ')}`)
+  }
+
+  let spendCap: number | null = null
+
+  if (policy === 'OVERAGE') {
+    spendCap = Number(input.spendCap)
+
+    if (!Number.isFinite(spendCap) || spendCap <= 0) {
+      throw badRequest('Paid overage needs a monthly spend cap above zero')
+    }
+
+    spendCap = Math.round(spendCap * 100) / 100
+  }
+
+  await prisma.merchant.update({
+    where: { id: merchantId },
+    data: { overagePolicy: policy, overageSpendCap: spendCap }
+  })
+
+  return getUsageAllowance(merchantId)
+}
+
+/**
+ * Move an AUTO_UPGRADE merchant whose quota has run out to the next plan.
+ * The plan itself changes when Stripe's subscription webhook arrives.
+ * Failed Stripe calls are retried with backoff; if the upgrade still cannot
+ * be made, the merchant is told, since try-ons stay at the quota. Returns
+ * whether the upgrade was requested (or already was).
+ */
+export async function autoUpgradeIfDue(
+  merchantId: string,
+  retryDelayMs: number = AUTO_UPGRADE_RETRY_MS
+): Promise<boolean> {
+  const allowance = await getUsageAllowance(merchantId)
+
+  if (allowance.effectivePolicy !== 'AUTO_UPGRADE' || !allowance.upgradeTo) {
+    return false
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await changePlan(merchantId, allowance.upgradeTo)
+      console.log(`⬆ Auto-upgrade for merchant ${merchantId} to ${allowance.upgradeTo}: ${result.status}`)
+      return true
+    } catch (error) {
+      // An earlier trigger already switched the subscription; Stripe's webhook is on its way
+      if (error instanceof ApiError && error.details?.code === 'already_subscribed') {
+        return true
+      }
+
+      // Our own refusals (no price for the plan, a contract) will not change on retry
+      if (attempt >= AUTO_UPGRADE_ATTEMPTS || error instanceof ApiError) {
+        console.error(`Auto-upgrade to ${allowance.upgradeTo} failed for merchant ${merchantId}:`, error)
+        await notifyAutoUpgradeFailed(merchantId, allowance)
+        return false
+      }
+
+      console.warn(`Auto-upgrade to ${allowance.upgradeTo} failed for merchant ${merchantId}, retrying:`, error)
+      await new Promise(resolve => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)))
+    }
+  }
+}
+
+/**
+ * Tell a merchant their automatic upgrade did not go through
+ */
+async function notifyAutoUpgradeFailed(merchantId: string, allowance: UsageAllowance): Promise<void> {
+  await notifyMerchant(merchantId, {
+    type: 'USAGE_ALERT',
+    title: `We could not upgrade you to ${allowance.upgradeTo}`,
+    body: `Your store has used all ${allowance.limit.toLocaleString()} try-ons in your plan this month, ` +
+      `but the automatic upgrade to ${allowance.upgradeTo} did not go through. Try-ons are paused until ` +
+      'you upgrade from the billing page or your quota resets next month.',
+    link: '/billing'
+  }).catch(error => console.error(`Auto-upgrade notification failed for merchant ${merchantId}:`, error))
+}
@@ -0,0 +1,254 @@
+import { PlanContract, SubscriptionPlan } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+
+// includedTryons value for plans without a monthly cap
+export const UNLIMITED = -1
+
+// Try-ons a merchant on a free trial gets per month, whatever their plan
+export const TRIAL_TRYON_QUOTA = parseInt(process.env.TRIAL_TRYON_QUOTA || '50', 10)
+
+/**
+ * Features a plan grants. Contracts can switch individual features on or off.
+ */
+export interface PlanFeatures {
+  advancedAnalytics: boolean
+  webhooks: boolean
+  whiteLabel: boolean
+  hdQuality: boolean
+  batchGeneration: boolean
+  apiAccess: boolean
+}
+
+export type Feature = keyof PlanFeatures
+
+export const FEATURE_LABELS: Record<Feature, string> = {
+  advancedAnalytics: 'Advanced analytics',
+  webhooks: 'Webhook integration',
+  whiteLabel: 'White-label widget',
+  hdQuality: 'HD try-on quality',
+  batchGeneration: 'Batch generation',
+  apiAccess: 'Secret API keys'
+}
+
+export interface PlanDefinition {
+  id: SubscriptionPlan
+  name: string
+  description: string
+  monthlyPrice: number // USD
+  includedTryons: number // UNLIMITED for no cap
+  overageRate: number // USD per try-on above includedTryons
+  features: PlanFeatures
+  highlights: string[] // Selling points shown alongside the quota
+}
+
+/**
+ * A merchant's plan with any active enterprise contract applied
+ */
+export interface EffectivePlan extends PlanDefinition {
+  contract: {
+    id: string
+    name: string
+    startsAt: Date
+    endsAt: Date | null
+  } | null
+  trial: boolean // On a free trial, with the reduced trial quota
+}
+
+/**
+ * The plan catalog. Every limit, price and feature check reads from here.
+ */
+export const PLAN_CATALOG: Record<SubscriptionPlan, PlanDefinition> = {
+  [SubscriptionPlan.ATELIER]: {
+    id: SubscriptionPlan.ATELIER,
+    name: 'Atelier',
+    description: 'For boutiques getting started with virtual try-on',
+    monthlyPrice: 99,
+    includedTryons: 500,
+    overageRate: 0.50,
+    features: {
+      advancedAnalytics: false,
+      webhooks: false,
+      whiteLabel: false,
+      hdQuality: false,
+      batchGeneration: false,
+      apiAccess: false
+    },
+    highlights: [
+      'Basic analytics',
+      'Email support',
+      'Widget customization'
+    ]
+  },
+  [SubscriptionPlan.MAISON]: {
+    id: SubscriptionPlan.MAISON,
+    name: 'Maison',
+    description: 'For growing brands that integrate try-on into their stack',
+    monthlyPrice: 299,
+    includedTryons: 2000,
+    overageRate: 0.50,
+    features: {
+      advancedAnalytics: true,
+      webhooks: true,
+      whiteLabel: false,
+      hdQuality: true,
+      batchGeneration: false,
+      apiAccess: false
+    },
+    highlights: [
+      'Advanced analytics',
+      'HD try-on quality',
+      'Webhook integration',
+      'Priority support'
+    ]
+  },
+  [SubscriptionPlan.COUTURE]: {
+    id: SubscriptionPlan.COUTURE,
+    name: 'Couture',
+    description: 'For high-volume retailers; custom contracts available',
+    monthlyPrice: 999,
+    includedTryons: 5000,
+    overageRate: 0.50,
+    features: {
+      advancedAnalytics: true,
+      webhooks: true,
+      whiteLabel: true,
+      hdQuality: true,
+      batchGeneration: true,
+      apiAccess: true
+    },
+    highlights: [
+      'White-label widget',
+      'Batch generation and API access',
+      'Dedicated support'
+    ]
+  }
+}
+
+/**
+ * Catalog entry for a plan
+ */
+export function getPlan(plan: SubscriptionPlan): PlanDefinition {
+  return PLAN_CATALOG[plan]
+}
+
+/**
+ * All catalog plans, cheapest first
+ */
+export function listPlans(): PlanDefinition[] {
+  return Object.values(PLAN_CATALOG).sort((a, b) => a.monthlyPrice - b.monthlyPrice)
+}
+
+/**
+ * Cheapest catalog plan that includes a feature
+ */
+export function minimumPlanFor(feature: Feature): PlanDefinition | null {
+  return listPlans().find(plan => plan.features[feature]) || null
+}
+
+/**
+ * Which catalog plans include each feature. Served to the dashboard so it
+ * can grey out what the merchant's plan does not include.
+ */
+export function getCapabilityMatrix() {
+  return (Object.keys(FEATURE_LABELS) as Feature[]).map(feature => ({
+    feature,
+    label: FEATURE_LABELS[feature],
+    minimumPlan: minimumPlanFor(feature)?.id || null,
+    plans: Object.fromEntries(
+      listPlans().map(plan => [plan.id, plan.features[feature]])
+    ) as Record<SubscriptionPlan, boolean>
+  }))
+}
+
+/**
+ * Whether a quota has no cap
+ */
+export function isUnlimited(includedTryons: number): boolean {
+  return includedTryons === UNLIMITED
+}
+
+/**
+ * Try-ons above the plan quota and what they cost
+ */
+export function calculateOverage(plan: Pick<PlanDefinition, 'includedTryons' | 'overageRate'>, used: number) {
+  const overageTryons = isUnlimited(plan.includedTryons) ? 0 : Math.max(0, used - plan.includedTryons)
+
+  return {
+    overageTryons,
+    overageCharges: Math.round(overageTryons * plan.overageRate * 100) / 100
+  }
+}
+
+/**
+ * Whether a contract is in force at a point in time
+ */
+function isContractActive(contract: PlanContract, at: Date = new Date()): boolean {
+  return contract.startsAt <= at && (!contract.endsAt || contract.endsAt > at)
+}
+
+/**
+ * Apply a contract's terms on top of the catalog plan, if the contract is
+ * in force at `at` (default now)
+ */
+export function applyContract(
+  plan: PlanDefinition,
+  contract: PlanContract | null,
+  at: Date = new Date()
+): EffectivePlan {
+  if (!contract || !isContractActive(contract, at)) {
+    return { ...plan, contract: null, trial: false }
+  }
+
+  const overrides = (contract.features || {}) as Partial<PlanFeatures>
+
+  return {
+    ...plan,
+    name: contract.name,
+    monthlyPrice: Number(contract.monthlyPrice),
+    includedTryons: contract.includedTryons,
+    overageRate: Number(contract.overageRate),
+    features: { ...plan.features, ...overrides },
+    contract: {
+      id: contract.id,
+      name: contract.name,
+      startsAt: contract.startsAt,
+      endsAt: contract.endsAt
+    },
+    trial: false
+  }
+}
+
+/**
+ * Cap a plan's quota at the trial quota. Enterprise contracts keep their terms.
+ */
+export function applyTrial(plan: EffectivePlan): EffectivePlan {
+  if (plan.contract) {
+    return plan
+  }
+
+  return {
+    ...plan,
+    includedTryons: isUnlimited(plan.includedTryons)
+      ? TRIAL_TRYON_QUOTA
+      : Math.min(plan.includedTryons, TRIAL_TRYON_QUOTA),
+    trial: true
+  }
+}
+
+/**
+ * The plan a merchant is billed and limited by: their catalog plan, or
+ * their enterprise contract while it is active. Trials get the trial quota.
+ */
+export async function getEffectivePlan(merchantId: string): Promise<EffectivePlan> {
+  const merchant = await prisma.merchant.findUnique({
+    where: { id: merchantId },
+    select: { plan: true, planContract: true, subscriptionStatus: true }
+  })
+
+  if (!merchant) {
+    throw new Error('Merchant not found')
+  }
+
+  const plan = applyContract(getPlan(merchant.plan), merchant.planContract)
+  return merchant.subscriptionStatus === 'TRIAL' ? applyTrial(plan) : plan
+}
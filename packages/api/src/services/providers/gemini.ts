@@ -0,0 +1,22 @@
+import { generateTryOn, isGeminiConfigured, GEMINI_TRYON_MODEL } from '../gemini.js'
+import type { TryOnProvider } from './types.js'
+
+/**
+ * Google Gemini image generation
+ */
+export const geminiProvider: TryOnProvider = {
+  name: 'gemini',
+  model: GEMINI_TRYON_MODEL,
+
+  isConfigured: isGeminiConfigured,
+
+  async generate(personImage, garmentImage, options, onProgress) {
+    const result = await generateTryOn(personImage, garmentImage, options, onProgress)
+
+    return {
+      ...result,
+      provider: 'gemini',
+      model: GEMINI_TRYON_MODEL
+    }
+  }
+}
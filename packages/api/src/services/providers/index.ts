@@ -0,0 +1,58 @@
+import { geminiProvider } from './gemini.js'
+import { localProvider } from './local.js'
+import type { TryOnProvider, TryOnProviderResult } from './types.js'
+
+export type { TryOnProvider, TryOnProviderOptions, TryOnProviderResult } from './types.js'
+
+const DEFAULT_PROVIDER = process.env.TRYON_PROVIDER || 'gemini'
+
+const providers = new Map<string, TryOnProvider>([
+  [geminiProvider.name, geminiProvider],
+  [localProvider.name, localProvider]
+])
+
+/**
+ * Register an additional try-on provider
+ */
+export function registerTryOnProvider(provider: TryOnProvider): void {
+  providers.set(provider.name, provider)
+}
+
+/**
+ * Look up a provider by name
+ */
+export function getTryOnProvider(name: string): TryOnProvider | null {
+  return providers.get(name) || null
+}
+
+/**
+ * Names of all registered providers
+ */
+export function listTryOnProviders(): string[] {
+  return Array.from(providers.keys())
+}
+
+/**
+ * Pick the provider for a generation: the per-request choice wins over the
+ * merchant's setting, which wins over the TRYON_PROVIDER default
+ */
+export function resolveTryOnProvider(
+  requested?: string | null,
+  merchantDefault?: string | null
+): TryOnProvider {
+  const name = requested || merchantDefault || DEFAULT_PROVIDER
+  const provider = getTryOnProvider(name)
+
+  if (!provider) {
+    throw new Error(`Unknown try-on provider: ${name}`)
+  }
+
+  return provider
+}
+
+/**
+ * Value recorded in TryOn.geminiModelUsed, e.g. "gemini:gemini-2.5-flash-image"
+ */
+export function formatModelUsed(result: TryOnProviderResult): string {
+  return `${result.provider}:${result.model}`
+}
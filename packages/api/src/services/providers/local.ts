@@ -0,0 +1,76 @@
+import sharp from 'sharp'
+import { recordProviderCall } from '../cost-ledger.js'
+import type { TryOnProvider } from './types.js'
+
+const LOCAL_MODEL = 'sharp-composite-v1'
+
+/**
+ * Deterministic offline provider: overlays the garment on the person's torso.
+ * No AI fitting - intended for development and end-to-end tests.
+ */
+export const localProvider: TryOnProvider = {
+  name: 'local',
+  model: LOCAL_MODEL,
+
+  isConfigured: () => true,
+
+  async generate(personImage, garmentImage, options, onProgress) {
+    const startTime = Date.now()
+    const size = options.quality === 'hd' ? 1024 : 512
+
+    onProgress?.('calling_model')
+
+    const base = await sharp(personImage)
+      .rotate() // Respect EXIF orientation
+      .resize(size, size, { fit: 'cover', position: 'top' })
+      .toBuffer()
+
+    // Garment covers the middle of the frame, slightly translucent
+    const { data: garment, info } = await sharp(garmentImage)
+      .resize({
+        width: Math.round(size * 0.55),
+        height: Math.round(size * 0.6),
+        fit: 'inside'
+      })
+      .ensureAlpha(0.9)
+      .png()
+      .toBuffer({ resolveWithObject: true })
+
+    const resultBuffer = await sharp(base)
+      .composite([{
+        input: garment,
+        left: Math.round((size - info.width) / 2),
+        top: Math.round(size * 0.22)
+      }])
+      .jpeg({ quality: 90 })
+      .toBuffer()
+
+    onProgress?.('parsing_analysis')
+
+    // No provider charge, but the call still shows in the ledger
+    await recordProviderCall(options.costContext, {
+      provider: 'local',
+      model: LOCAL_MODEL,
+      succeeded: true,
+      latencyMs: Date.now() - startTime,
+      cost: 0
+    })
+
+    const analysis = JSON.stringify({
+      fit_analysis: 'Local composite - garment overlaid without fit modelling',
+      recommended_size: 'M',
+      style_match: 'N/A',
+      color_harmony: 'N/A',
+      confidence_score: 0,
+      technical_notes: `Generated offline by ${LOCAL_MODEL}`
+    }, null, 2)
+
+    return {
+      resultBuffer,
+      processingTimeMs: Date.now() - startTime,
+      analysis,
+      provider: 'local',
+      model: LOCAL_MODEL
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import type { TryOnProgressCallback } from '../tryon-progress.js'
+import type { CostContext } from '../cost-ledger.js'
+
+export interface TryOnProviderOptions {
+  quality?: 'standard' | 'hd'
+  style?: 'studio' | 'casual'
+  costContext?: CostContext // Attributes provider calls in the cost ledger
+}
+
+export interface TryOnProviderResult {
+  resultBuffer: Buffer
+  processingTimeMs: number
+  analysis: string
+  provider: string
+  model: string
+}
+
+/**
+ * An image-generation backend that renders a garment onto a person
+ */
+export interface TryOnProvider {
+  name: string
+  model: string
+  isConfigured(): boolean
+  generate(
+    personImage: Buffer,
+    garmentImage: Buffer,
+    options: TryOnProviderOptions,
+    onProgress?: TryOnProgressCallback
+  ): Promise<TryOnProviderResult>
+}
@@ -0,0 +1,152 @@
+import { Request } from 'express'
+import jwt from 'jsonwebtoken'
+import { prisma } from '../utils/prisma.js'
+import { notFound, unauthorized } from '../middleware/errorHandler.js'
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000 // How stale lastSeenAt can get
+
+/**
+ * Payload of a dashboard JWT: a user signed in to one merchant's team, in
+ * one server-side session
+ */
+export interface SessionClaims {
+  userId: string
+  merchantId: string
+  sessionId: string
+}
+
+/**
+ * The device a session was started from
+ */
+export interface SessionClient {
+  userAgent?: string
+  ipAddress?: string
+}
+
+/**
+ * Client details of a request, for the session list
+ */
+export function sessionClient(req: Request): SessionClient {
+  return {
+    userAgent: req.headers['user-agent']?.substring(0, 500),
+    ipAddress: req.ip
+  }
+}
+
+function signSessionToken(claims: SessionClaims, expiresAt: Date): string {
+  const expiresIn = Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000))
+  return jwt.sign(claims, JWT_SECRET, { expiresIn })
+}
+
+/**
+ * Start a session for a user on a merchant and return its JWT
+ */
+export async function createSession(userId: string, merchantId: string, client: SessionClient = {}): Promise<string> {
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      merchantId,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt: new Date(Date.now() + SESSION_TTL_SECONDS * 1000)
+    }
+  })
+
+  return signSessionToken({ userId, merchantId, sessionId: session.id }, session.expiresAt)
+}
+
+/**
+ * Move a session to another merchant the user belongs to and return its new
+ * JWT. The token for the previous merchant stops working.
+ */
+export async function switchSessionMerchant(sessionId: string, merchantId: string): Promise<string> {
+  const session = await prisma.session.update({
+    where: { id: sessionId },
+    data: { merchantId, lastSeenAt: new Date() }
+  })
+
+  return signSessionToken({ userId: session.userId, merchantId, sessionId }, session.expiresAt)
+}
+
+/**
+ * Verify a dashboard JWT and its session. Tokens issued before sessions
+ * existed are rejected, so those devices sign in again.
+ */
+export async function verifySessionToken(token: string): Promise<SessionClaims> {
+  const decoded = jwt.verify(token, JWT_SECRET) as Partial<SessionClaims>
+
+  if (!decoded.userId || !decoded.merchantId || !decoded.sessionId) {
+    throw unauthorized('Session expired - please sign in again')
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: decoded.sessionId },
+    select: { userId: true, merchantId: true, lastSeenAt: true, expiresAt: true, revokedAt: true }
+  })
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date() ||
+      session.userId !== decoded.userId || session.merchantId !== decoded.merchantId) {
+    throw unauthorized('Session expired - please sign in again')
+  }
+
+  if (Date.now() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+    prisma.session.update({
+      where: { id: decoded.sessionId },
+      data: { lastSeenAt: new Date() }
+    }).catch(error => console.error(`Failed to touch session ${decoded.sessionId}:`, error))
+  }
+
+  return { userId: decoded.userId, merchantId: decoded.merchantId, sessionId: decoded.sessionId }
+}
+
+/**
+ * A user's active sessions, most recently used first
+ */
+export async function listSessions(userId: string) {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: 'desc' },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastSeenAt: true,
+      expiresAt: true,
+      merchant: { select: { id: true, businessName: true } }
+    }
+  })
+}
+
+/**
+ * Sign one of a user's sessions out
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<void> {
+  const revoked = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+
+  if (revoked.count === 0) {
+    throw notFound('Session not found')
+  }
+}
+
+/**
+ * Sign all of a user's sessions out, except `exceptSessionId` if given.
+ * Returns how many were revoked.
+ */
+export async function revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const revoked = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } })
+    },
+    data: { revokedAt: new Date() }
+  })
+
+  return revoked.count
+}
@@ -0,0 +1,21 @@
+import { createLocalDriver } from './local.js'
+import { createS3Driver } from './s3.js'
+import type { StorageDriver } from './types.js'
+
+export type { StorageDriver } from './types.js'
+export { createLocalDriver, verifyLocalSignature } from './local.js'
+export { createS3Driver } from './s3.js'
+
+/**
+ * Build the driver selected by STORAGE_DRIVER (local or s3)
+ */
+export function createStorageDriver(name: string = process.env.STORAGE_DRIVER || 'local'): StorageDriver {
+  switch (name) {
+    case 'local':
+      return createLocalDriver()
+    case 's3':
+      return createS3Driver()
+    default:
+      throw new Error(`Unknown storage driver: ${name}`)
+  }
+}
@@ -0,0 +1,105 @@
+import fs from 'fs/promises'
+import path from 'path'
+import crypto from 'crypto'
+import type { StorageDriver } from './types.js'
+
+export interface LocalDriverConfig {
+  rootDir: string
+  baseUrl: string
+  signingSecret: string
+}
+
+/**
+ * Local-disk config from environment variables
+ */
+export function localConfigFromEnv(): LocalDriverConfig {
+  return {
+    rootDir: process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads'),
+    baseUrl: process.env.BASE_URL || 'http://localhost:3001',
+    signingSecret: process.env.STORAGE_SIGNING_SECRET
+      || process.env.JWT_SECRET
+      || 'your-secret-key-change-in-production'
+  }
+}
+
+/**
+ * HMAC signature for a local object key and expiry (unix seconds)
+ */
+function signKey(config: LocalDriverConfig, key: string, expires: number): string {
+  return crypto
+    .createHmac('sha256', config.signingSecret)
+    .update(`${key}:${expires}`)
+    .digest('hex')
+}
+
+/**
+ * Check a signed local URL's expiry and signature
+ */
+export function verifyLocalSignature(
+  key: string,
+  expires: string,
+  signature: string,
+  config: LocalDriverConfig = localConfigFromEnv()
+): boolean {
+  const expiresAt = parseInt(expires, 10)
+  if (!expiresAt || expiresAt * 1000 < Date.now()) return false
+
+  const expected = Buffer.from(signKey(config, key, expiresAt))
+  const actual = Buffer.from(signature)
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+/**
+ * Files under UPLOAD_DIR, served by the API at /uploads/<key>
+ */
+export function createLocalDriver(config: LocalDriverConfig = localConfigFromEnv()): StorageDriver {
+  const rootDir = path.resolve(config.rootDir)
+
+  // Refuse keys that would escape the upload directory
+  const resolvePath = (key: string): string => {
+    const filePath = path.resolve(rootDir, key)
+    if (!filePath.startsWith(rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return filePath
+  }
+
+  const publicUrl = (key: string): string => {
+    const encoded = key.split('/').map(encodeURIComponent).join('/')
+    return `${config.baseUrl}/uploads/${encoded}`
+  }
+
+  return {
+    name: 'local',
+
+    async putObject(key, buffer) {
+      const filePath = resolvePath(key)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, buffer)
+    },
+
+    async getObject(key) {
+      return fs.readFile(resolvePath(key))
+    },
+
+    async deleteObject(key) {
+      await fs.unlink(resolvePath(key))
+    },
+
+    getPublicUrl: publicUrl,
+
+    getSignedUrl(key, expiresInSeconds) {
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds
+      return `${publicUrl(key)}?expires=${expires}&signature=${signKey(config, key, expires)}`
+    },
+
+    keyFromUrl(url) {
+      const prefix = `${config.baseUrl}/uploads/`
+      if (!url.startsWith(prefix)) return null
+
+      const keyPath = url.substring(prefix.length).split('?')[0]
+      return decodeURIComponent(keyPath)
+    }
+  }
+}
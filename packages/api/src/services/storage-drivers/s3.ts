@@ -0,0 +1,204 @@
+import crypto from 'crypto'
+import fetch from 'node-fetch'
+import type { StorageDriver } from './types.js'
+
+export interface S3DriverConfig {
+  endpoint: string // e.g. https://s3.eu-west-2.amazonaws.com or http://localhost:9000 (MinIO)
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  forcePathStyle: boolean // Required for MinIO and most S3-compatible servers
+  publicUrl?: string // CDN or bucket website URL for unsigned links
+}
+
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60 // SigV4 limit
+
+/**
+ * S3 config from environment variables
+ */
+export function s3ConfigFromEnv(): S3DriverConfig {
+  const region = process.env.AWS_REGION || 'us-east-1'
+
+  return {
+    endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+    region,
+    bucket: process.env.S3_BUCKET_NAME || process.env.AWS_S3_BUCKET || '',
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    publicUrl: process.env.S3_PUBLIC_URL
+  }
+}
+
+// ============================================================================
+// AWS SIGNATURE V4
+// ============================================================================
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest()
+}
+
+/**
+ * RFC 3986 encoding as required by SigV4
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/')
+}
+
+/**
+ * "20240115T103000Z" timestamp used by SigV4
+ */
+function amzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '')
+}
+
+function signingKey(config: S3DriverConfig, dateStamp: string): Buffer {
+  const kDate = hmac(`AWS4${config.secretAccessKey}`, dateStamp)
+  const kRegion = hmac(kDate, config.region)
+  const kService = hmac(kRegion, 's3')
+  return hmac(kService, 'aws4_request')
+}
+
+function signString(config: S3DriverConfig, timestamp: string, canonicalRequest: string): {
+  scope: string
+  signature: string
+} {
+  const dateStamp = timestamp.substring(0, 8)
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', timestamp, scope, sha256Hex(canonicalRequest)].join('\n')
+
+  return {
+    scope,
+    signature: hmac(signingKey(config, dateStamp), stringToSign).toString('hex')
+  }
+}
+
+// ============================================================================
+// DRIVER
+// ============================================================================
+
+/**
+ * AWS S3 or any S3-compatible object store (MinIO, R2, Spaces)
+ */
+export function createS3Driver(config: S3DriverConfig = s3ConfigFromEnv()): StorageDriver {
+  if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+    throw new Error('S3 storage requires S3_BUCKET_NAME, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY')
+  }
+
+  const endpoint = new URL(config.endpoint)
+  const bucketBase = config.forcePathStyle
+    ? `${endpoint.protocol}//${endpoint.host}/${config.bucket}`
+    : `${endpoint.protocol}//${config.bucket}.${endpoint.host}`
+
+  const objectUrl = (key: string): URL => new URL(`${bucketBase}/${encodeKey(key)}`)
+
+  /**
+   * Send a header-signed request for an object
+   */
+  const send = async (method: string, key: string, body?: Buffer, contentType?: string) => {
+    const url = objectUrl(key)
+    const timestamp = amzDate(new Date())
+    const payloadHash = sha256Hex(body || '')
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': timestamp,
+      ...(contentType && { 'content-type': contentType })
+    }
+
+    const headerNames = Object.keys(headers).sort()
+    const canonicalHeaders = headerNames.map(name => `${name}:${headers[name]}\n`).join('')
+    const signedHeaders = headerNames.join(';')
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n')
+    const { scope, signature } = signString(config, timestamp, canonicalRequest)
+
+    // fetch sets Host itself
+    const requestHeaders = Object.fromEntries(
+      Object.entries(headers).filter(([name]) => name !== 'host')
+    )
+    const response = await fetch(url.toString(), {
+      method,
+      body,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      }
+    })
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      throw new Error(`S3 ${method} ${key} failed (${response.status}): ${detail.substring(0, 200)}`)
+    }
+
+    return response
+  }
+
+  return {
+    name: 's3',
+
+    async putObject(key, buffer, contentType) {
+      await send('PUT', key, buffer, contentType)
+    },
+
+    async getObject(key) {
+      const response = await send('GET', key)
+      return Buffer.from(await response.arrayBuffer())
+    },
+
+    async deleteObject(key) {
+      await send('DELETE', key)
+    },
+
+    getPublicUrl(key) {
+      return config.publicUrl
+        ? `${config.publicUrl}/${encodeKey(key)}`
+        : objectUrl(key).toString()
+    },
+
+    getSignedUrl(key, expiresInSeconds) {
+      const url = objectUrl(key)
+      const timestamp = amzDate(new Date())
+      const scope = `${timestamp.substring(0, 8)}/${config.region}/s3/aws4_request`
+
+      const params: Record<string, string> = {
+        'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+        'X-Amz-Credential': `${config.accessKeyId}/${scope}`,
+        'X-Amz-Date': timestamp,
+        'X-Amz-Expires': String(Math.min(expiresInSeconds, MAX_PRESIGN_SECONDS)),
+        'X-Amz-SignedHeaders': 'host'
+      }
+
+      const query = Object.keys(params)
+        .sort()
+        .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+        .join('&')
+
+      const canonicalRequest = ['GET', url.pathname, query, `host:${url.host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n')
+      const { signature } = signString(config, timestamp, canonicalRequest)
+
+      return `${url.toString()}?${query}&X-Amz-Signature=${signature}`
+    },
+
+    keyFromUrl(url) {
+      const prefixes = [config.publicUrl, bucketBase].filter(Boolean) as string[]
+      const prefix = prefixes.find(base => url.startsWith(`${base}/`))
+      if (!prefix) return null
+
+      const keyPath = url.substring(prefix.length + 1).split('?')[0]
+      return decodeURIComponent(keyPath)
+    }
+  }
+}
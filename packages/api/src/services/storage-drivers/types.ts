@@ -0,0 +1,14 @@
+/**
+ * A place to keep uploaded and generated images, addressed by object key
+ * (e.g. "merchants/<id>/outputs/<file>.jpg")
+ */
+export interface StorageDriver {
+  name: string
+  putObject(key: string, buffer: Buffer, contentType: string): Promise<void>
+  getObject(key: string): Promise<Buffer>
+  deleteObject(key: string): Promise<void>
+  getPublicUrl(key: string): string
+  getSignedUrl(key: string, expiresInSeconds: number): string
+  // Inverse of getPublicUrl/getSignedUrl; null for URLs this driver does not own
+  keyFromUrl(url: string): string | null
+}
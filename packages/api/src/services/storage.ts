@@ -1,52 +1,83 @@
-import fs from 'fs/promises'
 import path from 'path'
 import crypto from 'crypto'
+import fetch from 'node-fetch'
+import { getImageMimeType } from '../utils/imageUtils.js'
+import { createStorageDriver, StorageDriver } from './storage-drivers/index.js'
+import { recordStorageWrite } from './cost-ledger.js'
 
-const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads')
-const BASE_URL = process.env.BASE_URL || 'http://localhost:3001'
+type StorageFolder = 'inputs' | 'outputs' | 'products'
+
+// Customer photos and try-on results are only reachable through signed URLs
+const PRIVATE_FOLDERS: StorageFolder[] = ['inputs', 'outputs']
+
+const SIGNED_URL_TTL_SECONDS = parseInt(process.env.IMAGE_URL_TTL_SECONDS || '3600', 10) // 1 hour
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp'
+}
+
+let driver: StorageDriver | null = null
 
 /**
- * Ensure upload directory exists
+ * Get the configured storage driver (created on first use)
  */
-async function ensureUploadDir(): Promise<void> {
-  try {
-    await fs.access(UPLOAD_DIR)
-  } catch {
-    await fs.mkdir(UPLOAD_DIR, { recursive: true })
+export function getStorageDriver(): StorageDriver {
+  if (!driver) {
+    driver = createStorageDriver()
+    console.log(`🗄  Storage driver: ${driver.name}`)
   }
+  return driver
 }
 
 /**
  * Generate unique filename
  */
-function generateFilename(originalName: string): string {
-  const ext = path.extname(originalName)
+function generateFilename(originalName: string, contentType: string): string {
+  const ext = path.extname(originalName) || MIME_EXTENSIONS[contentType] || ''
   const hash = crypto.randomBytes(16).toString('hex')
   const timestamp = Date.now()
   return `${timestamp}-${hash}${ext}`
 }
 
 /**
- * Save image to local storage
- * In production, this should upload to S3 or similar
+ * Object key for an image, namespaced by merchant when known
+ */
+export function buildStorageKey(folder: StorageFolder, filename: string, merchantId?: string): string {
+  return merchantId
+    ? `merchants/${merchantId}/${folder}/${filename}`
+    : `${folder}/${filename}`
+}
+
+/**
+ * Whether a storage key holds customer data that must not be served unsigned
+ */
+export function isPrivateStorageKey(key: string): boolean {
+  return key.split('/').some(segment => PRIVATE_FOLDERS.includes(segment as StorageFolder))
+}
+
+/**
+ * Save image through the storage driver
+ * @returns Public URL of the stored image
  */
 export async function saveImage(
   buffer: Buffer,
   originalName: string,
-  folder: 'inputs' | 'outputs' | 'products' = 'inputs'
+  folder: StorageFolder = 'inputs',
+  merchantId?: string
 ): Promise<string> {
-  await ensureUploadDir()
+  const storage = getStorageDriver()
+  const contentType = getImageMimeType(buffer)
+  const key = buildStorageKey(folder, generateFilename(originalName, contentType), merchantId)
 
-  const folderPath = path.join(UPLOAD_DIR, folder)
-  await fs.mkdir(folderPath, { recursive: true })
+  await storage.putObject(key, buffer, contentType)
 
-  const filename = generateFilename(originalName)
-  const filePath = path.join(folderPath, filename)
-
-  await fs.writeFile(filePath, buffer)
+  if (merchantId) {
+    await recordStorageWrite(merchantId, buffer.length)
+  }
 
-  // Return URL path
-  return `${BASE_URL}/uploads/${folder}/${filename}`
+  return storage.getPublicUrl(key)
 }
 
 /**
@@ -54,10 +85,11 @@ export async function saveImage(
  */
 export async function saveImages(
   files: Array<{ buffer: Buffer; originalName: string }>,
-  folder: 'inputs' | 'outputs' | 'products' = 'inputs'
+  folder: StorageFolder = 'inputs',
+  merchantId?: string
 ): Promise<string[]> {
   return Promise.all(
-    files.map(file => saveImage(file.buffer, file.originalName, folder))
+    files.map(file => saveImage(file.buffer, file.originalName, folder, merchantId))
   )
 }
 
@@ -66,11 +98,15 @@ export async function saveImages(
  */
 export async function deleteImage(imageUrl: string): Promise<void> {
   try {
-    // Extract filename from URL
-    const urlPath = new URL(imageUrl).pathname
-    const filePath = path.join(process.cwd(), urlPath)
+    const storage = getStorageDriver()
+    const key = storage.keyFromUrl(imageUrl)
 
-    await fs.unlink(filePath)
+    if (!key) {
+      console.warn(`Not deleting image outside ${storage.name} storage: ${imageUrl}`)
+      return
+    }
+
+    await storage.deleteObject(key)
   } catch (error) {
     console.error('Failed to delete image:', error)
     // Don't throw - deletion failures shouldn't break the application
@@ -78,23 +114,59 @@ export async function deleteImage(imageUrl: string): Promise<void> {
 }
 
 /**
- * Get image buffer from URL or file path
+ * Get image buffer from a stored image URL, storage key or external URL
  */
 export async function getImageBuffer(imageUrl: string): Promise<Buffer> {
   try {
-    // Check if it's a local file
+    const storage = getStorageDriver()
+    const key = storage.keyFromUrl(imageUrl)
+
+    if (key) {
+      return await storage.getObject(key)
+    }
+
     if (imageUrl.startsWith('http://') || imageUrl.startsWith('https://')) {
-      const urlPath = new URL(imageUrl).pathname
-      const filePath = path.join(process.cwd(), urlPath)
-      return await fs.readFile(filePath)
-    } else {
-      return await fs.readFile(imageUrl)
+      const response = await fetch(imageUrl)
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+      return Buffer.from(await response.arrayBuffer())
     }
+
+    return await storage.getObject(imageUrl)
   } catch (error) {
     throw new Error(`Failed to read image: ${error}`)
   }
 }
 
+/**
+ * Time-limited URL for a stored image. URLs from outside storage are
+ * returned unchanged.
+ */
+export function getSignedImageUrl(
+  imageUrl: string,
+  expiresInSeconds: number = SIGNED_URL_TTL_SECONDS
+): string {
+  const storage = getStorageDriver()
+  const key = storage.keyFromUrl(imageUrl)
+
+  return key ? storage.getSignedUrl(key, expiresInSeconds) : imageUrl
+}
+
+/**
+ * Copy of a try-on with freshly signed image URLs, for API responses.
+ * The stored URLs stay unsigned so links can be re-minted on every read.
+ */
+export function withSignedImageUrls<T extends { inputImageUrl: string; outputImageUrl: string }>(
+  tryOn: T
+): T {
+  return {
+    ...tryOn,
+    inputImageUrl: getSignedImageUrl(tryOn.inputImageUrl),
+    outputImageUrl: getSignedImageUrl(tryOn.outputImageUrl)
+  }
+}
+
 /**
  * Validate image dimensions (optional - requires sharp library)
  */
@@ -122,37 +194,3 @@ export async function optimizeImage(
   // In production, use sharp to resize and compress
   return buffer
 }
-
-// ============================================================================
-// AWS S3 Integration (for production)
-// ============================================================================
-
-/**
- * Upload to S3 (placeholder for production implementation)
- */
-export async function uploadToS3(
-  buffer: Buffer,
-  filename: string,
-  folder: string
-): Promise<string> {
-  // TODO: Implement S3 upload
-  // const s3 = new S3Client({ region: process.env.AWS_REGION })
-  // const command = new PutObjectCommand({
-  //   Bucket: process.env.AWS_S3_BUCKET,
-  //   Key: `${folder}/${filename}`,
-  //   Body: buffer,
-  //   ContentType: 'image/jpeg'
-  // })
-  // await s3.send(command)
-  // return `https://${process.env.AWS_S3_BUCKET}.s3.amazonaws.com/${folder}/${filename}`
-
-  throw new Error('S3 upload not implemented yet')
-}
-
-/**
- * Delete from S3
- */
-export async function deleteFromS3(key: string): Promise<void> {
-  // TODO: Implement S3 deletion
-  throw new Error('S3 deletion not implemented yet')
-}
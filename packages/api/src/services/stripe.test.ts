@@ -0,0 +1,82 @@
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { constructWebhookEvent, signStripePayload } from './stripe.js'
+
+const SECRET = 'whsec_test'
+
+const payload = JSON.stringify({
+  id: 'evt_test',
+  type: 'invoice.paid',
+  created: 1700000000,
+  data: { object: { id: 'in_test' } }
+})
+
+function now(): number {
+  return Math.floor(Date.now() / 1000)
+}
+
+describe('constructWebhookEvent', () => {
+  beforeEach(() => {
+    process.env.STRIPE_WEBHOOK_SECRET = SECRET
+  })
+
+  it('parses an event with a valid signature', () => {
+    const event = constructWebhookEvent(Buffer.from(payload), signStripePayload(SECRET, payload, now()))
+
+    assert.equal(event.id, 'evt_test')
+    assert.equal(event.type, 'invoice.paid')
+  })
+
+  it('accepts any matching v1 signature, as sent while a secret is rolled', () => {
+    const timestamp = now()
+    const stale = signStripePayload('whsec_old', payload, timestamp).split(',')[1]
+    const header = `${signStripePayload(SECRET, payload, timestamp)},${stale}`
+
+    assert.equal(constructWebhookEvent(payload, header).id, 'evt_test')
+  })
+
+  it('rejects a signature made with another secret', () => {
+    assert.throws(
+      () => constructWebhookEvent(payload, signStripePayload('whsec_other', payload, now())),
+      /Invalid Stripe webhook signature/
+    )
+  })
+
+  it('rejects a payload changed after signing', () => {
+    const header = signStripePayload(SECRET, payload, now())
+
+    assert.throws(
+      () => constructWebhookEvent(payload.replace('invoice.paid', 'invoice.payment_failed'), header),
+      /Invalid Stripe webhook signature/
+    )
+  })
+
+  it('rejects a missing or malformed header', () => {
+    assert.throws(() => constructWebhookEvent(payload, undefined), /Missing Stripe-Signature header/)
+    assert.throws(() => constructWebhookEvent(payload, 'v1=abc'), /Malformed Stripe-Signature header/)
+    assert.throws(() => constructWebhookEvent(payload, `t=${now()}`), /Malformed Stripe-Signature header/)
+  })
+
+  it('accepts timestamps within five minutes either way', () => {
+    for (const offset of [-4 * 60, 4 * 60]) {
+      const header = signStripePayload(SECRET, payload, now() + offset)
+      assert.equal(constructWebhookEvent(payload, header).id, 'evt_test')
+    }
+  })
+
+  it('rejects timestamps more than five minutes either way', () => {
+    for (const offset of [-6 * 60, 6 * 60]) {
+      const header = signStripePayload(SECRET, payload, now() + offset)
+      assert.throws(() => constructWebhookEvent(payload, header), /outside tolerance/)
+    }
+  })
+
+  it('refuses to verify without STRIPE_WEBHOOK_SECRET', () => {
+    delete process.env.STRIPE_WEBHOOK_SECRET
+
+    assert.throws(
+      () => constructWebhookEvent(payload, signStripePayload(SECRET, payload, now())),
+      /STRIPE_WEBHOOK_SECRET/
+    )
+  })
+})
@@ -0,0 +1,280 @@
+import crypto from 'crypto'
+import fetch from 'node-fetch'
+
+// STRIPE_API_BASE points at stripe-mock (docker-compose) in development
+const API_BASE = process.env.STRIPE_API_BASE || 'https://api.stripe.com'
+const API_VERSION = '2024-06-20'
+const REQUEST_TIMEOUT_MS = 15000
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+export interface StripeCustomer {
+  id: string
+  email: string | null
+  invoice_settings: { default_payment_method: string | null }
+  metadata: Record<string, string>
+}
+
+export interface StripeSubscription {
+  id: string
+  customer: string
+  status: 'trialing' | 'active' | 'past_due' | 'unpaid' | 'canceled' | 'incomplete' | 'incomplete_expired' | 'paused'
+  current_period_end: number
+  trial_end: number | null
+  cancel_at_period_end: boolean
+  items: { data: { id: string; price: { id: string } }[] }
+  metadata: Record<string, string>
+}
+
+export interface StripeInvoice {
+  id: string
+  customer: string
+  subscription: string | null
+  amount_paid: number
+  amount_due: number
+  currency: string
+  billing_reason: string | null
+  hosted_invoice_url: string | null
+  lines: { data: { period: { start: number; end: number } }[] }
+}
+
+export interface StripeCheckoutSession {
+  id: string
+  url: string | null
+}
+
+export interface StripeEvent {
+  id: string
+  type: string
+  created: number
+  data: { object: unknown }
+}
+
+type StripeParams = Record<string, unknown>
+
+/**
+ * Whether a Stripe secret key is configured
+ */
+export function isStripeConfigured(): boolean {
+  return Boolean(process.env.STRIPE_SECRET_KEY)
+}
+
+/**
+ * Form-encode params the way Stripe expects nested objects and arrays,
+ * e.g. { items: [{ price: 'p' }] } -> items[0][price]=p
+ */
+export function encodeStripeParams(params: StripeParams, prefix?: string): string {
+  const parts: string[] = []
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue
+    const name = prefix ? `${prefix}[${key}]` : key
+
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (item !== null && typeof item === 'object') {
+          parts.push(encodeStripeParams(item as StripeParams, `${name}[${index}]`))
+        } else {
+          parts.push(`${encodeURIComponent(`${name}[${index}]`)}=${encodeURIComponent(String(item))}`)
+        }
+      })
+    } else if (typeof value === 'object') {
+      parts.push(encodeStripeParams(value as StripeParams, name))
+    } else {
+      parts.push(`${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`)
+    }
+  }
+
+  return parts.filter(Boolean).join('&')
+}
+
+/**
+ * Call the Stripe API. Throws with Stripe's error message on failure.
+ */
+async function stripeRequest<T>(
+  method: 'GET' | 'POST' | 'DELETE',
+  path: string,
+  params?: StripeParams,
+  idempotencyKey?: string
+): Promise<T> {
+  const secretKey = process.env.STRIPE_SECRET_KEY
+  if (!secretKey) {
+    throw new Error('Stripe is not configured (STRIPE_SECRET_KEY)')
+  }
+
+  const body = params ? encodeStripeParams(params) : ''
+  const url = method === 'GET' && body ? `${API_BASE}${path}?${body}` : `${API_BASE}${path}`
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, {
+      method,
+      signal: controller.signal,
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Stripe-Version': API_VERSION,
+        ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey })
+      },
+      body: method === 'GET' ? undefined : body
+    })
+
+    const data = await response.json() as { error?: { message?: string } }
+
+    if (!response.ok) {
+      throw new Error(`Stripe ${method} ${path} failed (${response.status}): ${data?.error?.message || response.statusText}`)
+    }
+
+    return data as unknown as T
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+// ============================================================================
+// CUSTOMERS, SUBSCRIPTIONS, CHECKOUT
+// ============================================================================
+
+/**
+ * Create a Stripe customer for a merchant
+ */
+export async function createCustomer(input: {
+  merchantId: string
+  email: string
+  name: string
+}): Promise<StripeCustomer> {
+  return stripeRequest<StripeCustomer>('POST', '/v1/customers', {
+    email: input.email,
+    name: input.name,
+    metadata: { merchantId: input.merchantId }
+  }, `customer-${input.merchantId}`)
+}
+
+/**
+ * Fetch a customer
+ */
+export async function retrieveCustomer(customerId: string): Promise<StripeCustomer> {
+  return stripeRequest<StripeCustomer>('GET', `/v1/customers/${customerId}`)
+}
+
+/**
+ * Subscribe a customer with a saved payment method to a price
+ */
+export async function createSubscription(input: {
+  customerId: string
+  priceId: string
+  merchantId: string
+  trialEnd?: Date | null
+}): Promise<StripeSubscription> {
+  return stripeRequest<StripeSubscription>('POST', '/v1/subscriptions', {
+    customer: input.customerId,
+    items: [{ price: input.priceId }],
+    trial_end: input.trialEnd ? Math.floor(input.trialEnd.getTime() / 1000) : undefined,
+    metadata: { merchantId: input.merchantId }
+  })
+}
+
+/**
+ * Fetch a subscription
+ */
+export async function retrieveSubscription(subscriptionId: string): Promise<StripeSubscription> {
+  return stripeRequest<StripeSubscription>('GET', `/v1/subscriptions/${subscriptionId}`)
+}
+
+/**
+ * Move a subscription to another price, prorating the difference
+ */
+export async function updateSubscriptionPrice(
+  subscriptionId: string,
+  priceId: string
+): Promise<StripeSubscription> {
+  const subscription = await retrieveSubscription(subscriptionId)
+  const item = subscription.items.data[0]
+
+  return stripeRequest<StripeSubscription>('POST', `/v1/subscriptions/${subscriptionId}`, {
+    items: [{ id: item?.id, price: priceId }],
+    proration_behavior: 'create_prorations',
+    cancel_at_period_end: false
+  })
+}
+
+/**
+ * Start a hosted Checkout session that creates a subscription
+ */
+export async function createCheckoutSession(input: {
+  customerId: string
+  priceId: string
+  merchantId: string
+  successUrl: string
+  cancelUrl: string
+  trialEnd?: Date | null
+}): Promise<StripeCheckoutSession> {
+  return stripeRequest<StripeCheckoutSession>('POST', '/v1/checkout/sessions', {
+    mode: 'subscription',
+    customer: input.customerId,
+    client_reference_id: input.merchantId,
+    line_items: [{ price: input.priceId, quantity: 1 }],
+    success_url: input.successUrl,
+    cancel_url: input.cancelUrl,
+    subscription_data: {
+      trial_end: input.trialEnd ? Math.floor(input.trialEnd.getTime() / 1000) : undefined,
+      metadata: { merchantId: input.merchantId }
+    }
+  })
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+/**
+ * Stripe-Signature header value: "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${payload}`>"
+ */
+export function signStripePayload(secret: string, payload: string, timestamp: number): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex')
+
+  return `t=${timestamp},v1=${signature}`
+}
+
+/**
+ * Verify a webhook's Stripe-Signature header against the raw request body
+ * and parse the event. Throws if the signature is missing, wrong or stale.
+ */
+export function constructWebhookEvent(payload: Buffer | string, signatureHeader: string | undefined): StripeEvent {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET
+  if (!secret) {
+    throw new Error('Stripe webhooks are not configured (STRIPE_WEBHOOK_SECRET)')
+  }
+
+  if (!signatureHeader) {
+    throw new Error('Missing Stripe-Signature header')
+  }
+
+  const parts = signatureHeader.split(',').map(part => part.split('='))
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1])
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value)
+
+  if (!timestamp || signatures.length === 0) {
+    throw new Error('Malformed Stripe-Signature header')
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new Error('Stripe webhook timestamp outside tolerance')
+  }
+
+  const body = payload.toString()
+  const expected = Buffer.from(signStripePayload(secret, body, timestamp).split('v1=')[1], 'hex')
+  const valid = signatures.some(signature => {
+    const actual = Buffer.from(signature, 'hex')
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+  })
+
+  if (!valid) {
+    throw new Error('Invalid Stripe webhook signature')
+  }
+
+  return JSON.parse(body) as StripeEvent
+}
@@ -0,0 +1,144 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import * as stripe from './stripe.js'
+
+/**
+ * Stripe webhook events moving a merchant through its subscription
+ * statuses. Needs the database and stripe-mock from docker-compose:
+ *
+ *   STRIPE_API_BASE=http://localhost:12111 npm test
+ */
+const SECRET = 'whsec_test'
+
+const skip = !process.env.STRIPE_API_BASE || !process.env.DATABASE_URL
+  ? 'needs STRIPE_API_BASE (stripe-mock) and DATABASE_URL'
+  : false
+
+describe('handleStripeEvent subscription statuses', { skip }, () => {
+  const customerId = `cus_test_${Date.now()}`
+  const periodEnd = Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60
+  let merchantId: string
+  let subscription: stripe.StripeSubscription
+  let prisma: typeof import('../utils/prisma.js')['prisma']
+  let handleStripeEvent: typeof import('./subscriptions.js')['handleStripeEvent']
+
+  before(async () => {
+    // Imported here: constructing the Prisma client fails without its
+    // engine, which would fail the file even when the suite is skipped
+    ;({ prisma } = await import('../utils/prisma.js'))
+    ;({ handleStripeEvent } = await import('./subscriptions.js'))
+
+    process.env.STRIPE_SECRET_KEY ||= 'sk_test_123'
+    process.env.STRIPE_WEBHOOK_SECRET = SECRET
+
+    // stripe-mock's subscription, as this merchant's
+    subscription = {
+      ...await stripe.retrieveSubscription(`sub_test_${Date.now()}`),
+      customer: customerId,
+      current_period_end: periodEnd,
+      trial_end: periodEnd
+    }
+
+    const merchant = await prisma.merchant.create({
+      data: {
+        email: `${customerId}@example.com`,
+        password: 'not-a-hash',
+        businessName: 'Stripe Webhook Test',
+        subscriptionStatus: 'TRIAL',
+        stripeCustomerId: customerId
+      }
+    })
+    merchantId = merchant.id
+  })
+
+  after(async () => {
+    await prisma.merchant.deleteMany({ where: { stripeCustomerId: customerId } })
+    await prisma.$disconnect()
+  })
+
+  /**
+   * Sign and verify an event the way the webhook route does, then apply it
+   */
+  async function deliver(type: string, object: unknown) {
+    const payload = JSON.stringify({
+      id: `evt_test_${Date.now()}`,
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: { object }
+    })
+    const signature = stripe.signStripePayload(SECRET, payload, Math.floor(Date.now() / 1000))
+
+    assert.equal(await handleStripeEvent(stripe.constructWebhookEvent(payload, signature)), true)
+
+    return prisma.merchant.findUniqueOrThrow({ where: { id: merchantId } })
+  }
+
+  function invoice(amountPaid: number): stripe.StripeInvoice {
+    return {
+      id: `in_test_${Date.now()}`,
+      customer: customerId,
+      subscription: subscription.id,
+      amount_paid: amountPaid,
+      amount_due: 9900,
+      currency: 'usd',
+      billing_reason: 'subscription_cycle',
+      hosted_invoice_url: null,
+      lines: { data: [{ period: { start: periodEnd - 30 * 24 * 60 * 60, end: periodEnd } }] }
+    }
+  }
+
+  it('starts a trial when the subscription is created', async () => {
+    const merchant = await deliver('customer.subscription.created', { ...subscription, status: 'trialing' })
+
+    assert.equal(merchant.subscriptionStatus, 'TRIAL')
+    assert.equal(merchant.stripeSubscriptionId, subscription.id)
+    assert.equal(merchant.trialEndsAt?.getTime(), periodEnd * 1000)
+  })
+
+  it('stays on trial for the $0 invoice that opens it', async () => {
+    const merchant = await deliver('invoice.paid', invoice(0))
+
+    assert.equal(merchant.subscriptionStatus, 'TRIAL')
+  })
+
+  it('becomes active once an invoice is paid', async () => {
+    const merchant = await deliver('invoice.paid', invoice(9900))
+
+    assert.equal(merchant.subscriptionStatus, 'ACTIVE')
+    assert.equal(merchant.subscriptionEndsAt?.getTime(), periodEnd * 1000)
+  })
+
+  it('is past due when a payment fails', async () => {
+    const merchant = await deliver('invoice.payment_failed', invoice(0))
+
+    assert.equal(merchant.subscriptionStatus, 'PAST_DUE')
+  })
+
+  it('is canceled when the subscription is deleted', async () => {
+    const merchant = await deliver('customer.subscription.deleted', { ...subscription, status: 'canceled' })
+
+    assert.equal(merchant.subscriptionStatus, 'CANCELED')
+  })
+
+  it('stays canceled when a late payment failure arrives', async () => {
+    const merchant = await deliver('invoice.payment_failed', invoice(0))
+
+    assert.equal(merchant.subscriptionStatus, 'CANCELED')
+  })
+
+  it('stays canceled when a late invoice is paid', async () => {
+    const merchant = await deliver('invoice.paid', invoice(9900))
+
+    assert.equal(merchant.subscriptionStatus, 'CANCELED')
+  })
+
+  it('is active again after subscribing again', async () => {
+    const merchant = await deliver('customer.subscription.created', {
+      ...subscription,
+      id: `sub_test_again_${Date.now()}`,
+      status: 'active'
+    })
+
+    assert.equal(merchant.subscriptionStatus, 'ACTIVE')
+  })
+})
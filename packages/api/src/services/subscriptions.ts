@@ -0,0 +1,315 @@
+import { SubscriptionPlan, SubscriptionStatus } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { badRequest, notFound } from '../middleware/errorHandler.js'
+import * as stripe from './stripe.js'
+import { getEffectivePlan } from './plans.js'
+import { recordAuditEvent } from './audit.js'
+
+const DASHBOARD_URL = process.env.DASHBOARD_URL || 'http://localhost:5173'
+
+// Subscriptions Stripe still bills; plan changes update these in place
+const LIVE_STRIPE_STATUSES = ['trialing', 'active', 'past_due', 'unpaid', 'incomplete']
+
+/**
+ * Stripe price configured for a plan (STRIPE_PRICE_ATELIER etc.)
+ */
+export function priceIdForPlan(plan: SubscriptionPlan): string | null {
+  return process.env[`STRIPE_PRICE_${plan}`] || null
+}
+
+/**
+ * Plan a Stripe price belongs to, if it is one of ours
+ */
+export function planForPriceId(priceId: string | undefined): SubscriptionPlan | null {
+  if (!priceId) return null
+  return Object.values(SubscriptionPlan).find(plan => priceIdForPlan(plan) === priceId) || null
+}
+
+/**
+ * Our status for a Stripe subscription status
+ */
+export function statusForSubscription(status: stripe.StripeSubscription['status']): SubscriptionStatus {
+  switch (status) {
+    case 'trialing':
+      return 'TRIAL'
+    case 'active':
+      return 'ACTIVE'
+    case 'past_due':
+    case 'unpaid':
+    case 'incomplete':
+    case 'paused':
+      return 'PAST_DUE'
+    case 'canceled':
+    case 'incomplete_expired':
+      return 'CANCELED'
+  }
+}
+
+/**
+ * The merchant's Stripe customer ID, creating the customer on first use
+ */
+export async function ensureStripeCustomer(merchantId: string): Promise<string> {
+  const merchant = await prisma.merchant.findUnique({
+    where: { id: merchantId },
+    select: { stripeCustomerId: true, email: true, billingEmail: true, businessName: true }
+  })
+
+  if (!merchant) {
+    throw notFound('Merchant not found')
+  }
+
+  if (merchant.stripeCustomerId) {
+    return merchant.stripeCustomerId
+  }
+
+  // Idempotent per merchant on Stripe's side, so a concurrent call gets the same customer
+  const customer = await stripe.createCustomer({
+    merchantId,
+    email: merchant.billingEmail || merchant.email,
+    name: merchant.businessName
+  })
+
+  await prisma.merchant.update({
+    where: { id: merchantId },
+    data: { stripeCustomerId: customer.id }
+  })
+
+  return customer.id
+}
+
+export type PlanChangeResult =
+  | { status: 'checkout'; checkoutUrl: string }
+  | { status: 'updated' | 'subscribed'; plan: SubscriptionPlan }
+
+/**
+ * Move a merchant to a plan. A live subscription is switched in place;
+ * a customer with a saved card is subscribed directly; anyone else is
+ * sent to Stripe Checkout. The merchant's plan and status are updated
+ * from the resulting webhooks, not here.
+ */
+export async function changePlan(merchantId: string, plan: SubscriptionPlan): Promise<PlanChangeResult> {
+  if (!stripe.isStripeConfigured()) {
+    throw badRequest('Billing is not configured')
+  }
+
+  const priceId = priceIdForPlan(plan)
+  if (!priceId) {
+    throw badRequest(`No Stripe price configured for plan ${plan}`)
+  }
+
+  const merchant = await prisma.merchant.findUnique({
+    where: { id: merchantId },
+    select: {
+      plan: true,
+      subscriptionStatus: true,
+      trialEndsAt: true,
+      stripeSubscriptionId: true
+    }
+  })
+
+  if (!merchant) {
+    throw notFound('Merchant not found')
+  }
+
+  if ((await getEffectivePlan(merchantId)).contract) {
+    throw badRequest('Your plan is set by an enterprise contract - contact your account manager to change it')
+  }
+
+  if (merchant.stripeSubscriptionId) {
+    const subscription = await stripe.retrieveSubscription(merchant.stripeSubscriptionId)
+
+    if (LIVE_STRIPE_STATUSES.includes(subscription.status)) {
+      if (subscription.items.data[0]?.price.id === priceId) {
+        throw badRequest(`Already subscribed to ${plan}`, { code: 'already_subscribed' })
+      }
+
+      await stripe.updateSubscriptionPrice(subscription.id, priceId)
+      return { status: 'updated', plan }
+    }
+  }
+
+  const customerId = await ensureStripeCustomer(merchantId)
+
+  // Keep whatever is left of the free trial
+  const trialEnd = merchant.subscriptionStatus === 'TRIAL' &&
+    merchant.trialEndsAt && merchant.trialEndsAt > new Date()
+    ? merchant.trialEndsAt
+    : null
+
+  const customer = await stripe.retrieveCustomer(customerId)
+
+  if (customer.invoice_settings.default_payment_method) {
+    const subscription = await stripe.createSubscription({ customerId, priceId, merchantId, trialEnd })
+    await syncSubscription(subscription)
+    return { status: 'subscribed', plan }
+  }
+
+  const session = await stripe.createCheckoutSession({
+    customerId,
+    priceId,
+    merchantId,
+    trialEnd,
+    successUrl: `${DASHBOARD_URL}/billing?checkout=success`,
+    cancelUrl: `${DASHBOARD_URL}/billing?checkout=canceled`
+  })
+
+  if (!session.url) {
+    throw new Error('Stripe did not return a checkout URL')
+  }
+
+  return { status: 'checkout', checkoutUrl: session.url }
+}
+
+// ============================================================================
+// WEBHOOK EVENTS
+// ============================================================================
+
+/**
+ * Merchant a Stripe customer belongs to
+ */
+async function findMerchantByCustomer(customerId: string) {
+  return prisma.merchant.findUnique({
+    where: { stripeCustomerId: customerId },
+    select: { id: true, plan: true, subscriptionStatus: true, stripeSubscriptionId: true }
+  })
+}
+
+/**
+ * The status history row for moving a merchant to `status`, if it is a change
+ */
+function statusChange(merchant: { id: string; subscriptionStatus: SubscriptionStatus }, status: SubscriptionStatus) {
+  return status === merchant.subscriptionStatus
+    ? []
+    : [prisma.subscriptionStatusChange.create({
+        data: { merchantId: merchant.id, fromStatus: merchant.subscriptionStatus, toStatus: status }
+      })]
+}
+
+/**
+ * Copy a subscription's plan, status and period onto its merchant
+ */
+async function syncSubscription(subscription: stripe.StripeSubscription): Promise<void> {
+  const merchant = await findMerchantByCustomer(subscription.customer)
+
+  if (!merchant) {
+    console.warn(`⚠ Stripe subscription ${subscription.id} has no matching merchant`)
+    return
+  }
+
+  // A cancellation of a subscription we already replaced is not news
+  if (merchant.stripeSubscriptionId && merchant.stripeSubscriptionId !== subscription.id &&
+      subscription.status === 'canceled') {
+    return
+  }
+
+  const plan = planForPriceId(subscription.items.data[0]?.price.id)
+
+  // Suspension is an admin decision; billing never lifts or overrides it
+  const status = merchant.subscriptionStatus === 'SUSPENDED'
+    ? merchant.subscriptionStatus
+    : statusForSubscription(subscription.status)
+
+  await prisma.$transaction([
+    prisma.merchant.update({
+      where: { id: merchant.id },
+      data: {
+        stripeSubscriptionId: subscription.id,
+        subscriptionStatus: status,
+        ...(plan && { plan }),
+        trialEndsAt: subscription.trial_end ? new Date(subscription.trial_end * 1000) : undefined,
+        subscriptionEndsAt: new Date(subscription.current_period_end * 1000)
+      }
+    }),
+    // Plan history for prorating the month of the change
+    ...(plan && plan !== merchant.plan
+      ? [prisma.planChange.create({
+          data: { merchantId: merchant.id, fromPlan: merchant.plan, toPlan: plan }
+        })]
+      : []),
+    // Status history for billing past months
+    ...statusChange(merchant, status)
+  ])
+
+  if (plan && plan !== merchant.plan) {
+    await recordAuditEvent({
+      action: 'billing.plan_change',
+      merchantId: merchant.id,
+      actor: { actorType: 'system', actorLabel: 'Stripe' },
+      target: { type: 'subscription', id: subscription.id },
+      changes: { plan: { from: merchant.plan, to: plan } }
+    })
+  }
+}
+
+/**
+ * invoice.paid: the merchant is paid up until the end of the invoiced period.
+ * The $0 invoice at the start of a trial leaves the merchant on TRIAL. A
+ * late invoice for a canceled subscription does not revive it; subscribing
+ * again reactivates the merchant through the new subscription's events.
+ */
+async function handleInvoicePaid(invoice: stripe.StripeInvoice): Promise<void> {
+  const merchant = await findMerchantByCustomer(invoice.customer)
+
+  if (!merchant || merchant.subscriptionStatus === 'SUSPENDED' || merchant.subscriptionStatus === 'CANCELED') {
+    return
+  }
+
+  if (merchant.subscriptionStatus === 'TRIAL' && invoice.amount_paid === 0) {
+    return
+  }
+
+  const periodEnd = Math.max(0, ...invoice.lines.data.map(line => line.period.end))
+
+  await prisma.$transaction([
+    prisma.merchant.update({
+      where: { id: merchant.id },
+      data: {
+        subscriptionStatus: 'ACTIVE',
+        ...(periodEnd > 0 && { subscriptionEndsAt: new Date(periodEnd * 1000) })
+      }
+    }),
+    ...statusChange(merchant, 'ACTIVE')
+  ])
+}
+
+/**
+ * invoice.payment_failed: Stripe retries the charge; until it succeeds the
+ * merchant is past due
+ */
+async function handleInvoicePaymentFailed(invoice: stripe.StripeInvoice): Promise<void> {
+  const merchant = await findMerchantByCustomer(invoice.customer)
+
+  if (!merchant || merchant.subscriptionStatus === 'SUSPENDED' || merchant.subscriptionStatus === 'CANCELED') {
+    return
+  }
+
+  await prisma.$transaction([
+    prisma.merchant.update({
+      where: { id: merchant.id },
+      data: { subscriptionStatus: 'PAST_DUE' }
+    }),
+    ...statusChange(merchant, 'PAST_DUE')
+  ])
+}
+
+/**
+ * Apply a verified Stripe event. Unhandled event types are ignored.
+ * Handlers set state rather than increment it, so redelivered events are harmless.
+ */
+export async function handleStripeEvent(event: stripe.StripeEvent): Promise<boolean> {
+  switch (event.type) {
+    case 'invoice.paid':
+      await handleInvoicePaid(event.data.object as stripe.StripeInvoice)
+      return true
+    case 'invoice.payment_failed':
+      await handleInvoicePaymentFailed(event.data.object as stripe.StripeInvoice)
+      return true
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      await syncSubscription(event.data.object as stripe.StripeSubscription)
+      return true
+    default:
+      return false
+  }
+}
@@ -0,0 +1,390 @@
+import crypto from 'crypto'
+import bcrypt from 'bcryptjs'
+import { MemberRole, Prisma } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { badRequest, conflict, forbidden, notFound, unauthorized } from '../middleware/errorHandler.js'
+import { validateEmail, validatePassword, validateRequired } from '../utils/validation.js'
+import { sendMail } from './mailer.js'
+import { hashPassword } from './users.js'
+
+const DASHBOARD_URL = process.env.DASHBOARD_URL || 'http://localhost:5173'
+const INVITATION_TTL_DAYS = parseInt(process.env.INVITATION_TTL_DAYS || '7', 10)
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const MEMBER_ROLES = Object.values(MemberRole)
+
+/**
+ * What a role can do in the dashboard. API keys are limited by their scopes
+ * instead.
+ */
+export type Permission =
+  | 'analytics' // Analytics, usage and conversion reporting
+  | 'catalog' // Products and catalog imports
+  | 'settings' // Widget settings and the business profile
+  | 'apiKeys' // Create, rotate and revoke API keys
+  | 'webhooks' // Webhook endpoint and deliveries
+  | 'billing' // Plans, invoices, payment and overage
+  | 'team' // Invite, change and remove members
+  | 'audit' // Read and export the audit log
+
+export const ROLE_PERMISSIONS: Record<MemberRole, Permission[]> = {
+  OWNER: ['analytics', 'catalog', 'settings', 'apiKeys', 'webhooks', 'billing', 'team', 'audit'],
+  ADMIN: ['analytics', 'catalog', 'settings', 'apiKeys', 'webhooks', 'team', 'audit'],
+  ANALYST: ['analytics'],
+  DEVELOPER: ['analytics', 'catalog', 'settings', 'apiKeys', 'webhooks'],
+  BILLING: ['analytics', 'billing']
+}
+
+/**
+ * Whether a role grants a permission
+ */
+export function hasPermission(role: MemberRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+/**
+ * Validate a role from a request
+ */
+export function parseRole(input: unknown): MemberRole {
+  if (typeof input !== 'string' || !MEMBER_ROLES.includes(input as MemberRole)) {
+    throw badRequest(`Role must be one of: ${MEMBER_ROLES.join(', ')}`)
+  }
+
+  return input as MemberRole
+}
+
+function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Only owners can make someone else an owner, or change or remove one
+ */
+function assertCanManageRole(actorRole: MemberRole, role: MemberRole): void {
+  if (role === 'OWNER' && actorRole !== 'OWNER') {
+    throw forbidden('Only owners can manage owners', { code: 'role_forbidden' })
+  }
+}
+
+// ============================================================================
+// MEMBERS
+// ============================================================================
+
+/**
+ * A merchant's members and pending invitations
+ */
+export async function listTeam(merchantId: string) {
+  const [memberships, invitations] = await Promise.all([
+    prisma.membership.findMany({
+      where: { merchantId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        role: true,
+        createdAt: true,
+        user: { select: { id: true, email: true, name: true, lastLoginAt: true, totpEnabledAt: true } }
+      }
+    }),
+    prisma.invitation.findMany({
+      where: { merchantId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true,
+        invitedBy: { select: { email: true, name: true } }
+      }
+    })
+  ])
+
+  return {
+    members: memberships.map(({ user, ...membership }) => ({
+      ...membership,
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      lastLoginAt: user.lastLoginAt,
+      twoFactorEnabled: Boolean(user.totpEnabledAt)
+    })),
+    invitations
+  }
+}
+
+/**
+ * Fail if a change would leave the merchant without an owner
+ */
+async function assertNotLastOwner(merchantId: string, membershipId: string): Promise<void> {
+  const owners = await prisma.membership.count({
+    where: { merchantId, role: 'OWNER', id: { not: membershipId } }
+  })
+
+  if (owners === 0) {
+    throw conflict('An account needs at least one owner - make someone else an owner first')
+  }
+}
+
+async function findMembership(merchantId: string, membershipId: string) {
+  const membership = await prisma.membership.findFirst({
+    where: { id: membershipId, merchantId }
+  })
+
+  if (!membership) {
+    throw notFound('Team member not found')
+  }
+
+  return membership
+}
+
+/**
+ * Change a member's role
+ */
+export async function changeMemberRole(
+  merchantId: string,
+  membershipId: string,
+  role: MemberRole,
+  actorRole: MemberRole
+) {
+  const membership = await findMembership(merchantId, membershipId)
+
+  assertCanManageRole(actorRole, membership.role)
+  assertCanManageRole(actorRole, role)
+
+  if (membership.role === 'OWNER' && role !== 'OWNER') {
+    await assertNotLastOwner(merchantId, membershipId)
+  }
+
+  return prisma.membership.update({
+    where: { id: membershipId },
+    data: { role }
+  })
+}
+
+/**
+ * Remove a member from the team. Their login stays, for other teams.
+ */
+export async function removeMember(merchantId: string, membershipId: string, actorRole: MemberRole): Promise<void> {
+  const membership = await findMembership(merchantId, membershipId)
+
+  assertCanManageRole(actorRole, membership.role)
+
+  if (membership.role === 'OWNER') {
+    await assertNotLastOwner(merchantId, membershipId)
+  }
+
+  await prisma.membership.delete({ where: { id: membershipId } })
+}
+
+/**
+ * Require every member to sign in with two-factor, or stop requiring it.
+ * Only owners can change this. An owner turning it on must have it on
+ * themselves; members without it set it up at their next sign in.
+ */
+export async function setTwoFactorRequirement(
+  merchantId: string,
+  required: unknown,
+  actor: { role: MemberRole; totpEnabledAt: Date | null }
+): Promise<boolean> {
+  if (typeof required !== 'boolean') {
+    throw badRequest('requireTwoFactor must be true or false')
+  }
+
+  if (actor.role !== 'OWNER') {
+    throw forbidden('Only owners can change the two-factor requirement', { code: 'role_forbidden' })
+  }
+
+  if (required && !actor.totpEnabledAt) {
+    throw badRequest('Turn on two-factor authentication for your own login first')
+  }
+
+  await prisma.merchant.update({
+    where: { id: merchantId },
+    data: { requireTwoFactor: required }
+  })
+
+  return required
+}
+
+// ============================================================================
+// INVITATIONS
+// ============================================================================
+
+/**
+ * Invite someone to the team by email. The token is only ever sent in the
+ * email; a repeat invitation to the same address replaces the pending one.
+ */
+export async function inviteMember(
+  merchantId: string,
+  input: { email: unknown; role: unknown },
+  invitedBy: { id: string; name: string | null; email: string; role: MemberRole }
+) {
+  validateRequired({ email: input.email, role: input.role })
+  validateEmail(String(input.email))
+
+  const email = String(input.email).toLowerCase()
+  const role = parseRole(input.role)
+
+  assertCanManageRole(invitedBy.role, role)
+
+  const member = await prisma.membership.findFirst({
+    where: { merchantId, user: { email } }
+  })
+
+  if (member) {
+    throw conflict(`${email} is already a member of this team`)
+  }
+
+  const merchant = await prisma.merchant.findUnique({
+    where: { id: merchantId },
+    select: { businessName: true }
+  })
+
+  if (!merchant) {
+    throw notFound('Merchant not found')
+  }
+
+  const token = crypto.randomBytes(32).toString('hex')
+
+  const invitation = await prisma.$transaction(async (tx) => {
+    await tx.invitation.updateMany({
+      where: { merchantId, email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() }
+    })
+
+    return tx.invitation.create({
+      data: {
+        merchantId,
+        email,
+        role,
+        tokenHash: hashInvitationToken(token),
+        invitedById: invitedBy.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * DAY_MS)
+      },
+      select: { id: true, email: true, role: true, expiresAt: true, createdAt: true }
+    })
+  })
+
+  const inviter = invitedBy.name || invitedBy.email
+
+  await sendMail({
+    to: email,
+    subject: `${inviter} invited you to ${merchant.businessName} on Rendered Fits`,
+    text: `${inviter} invited you to join the ${merchant.businessName} team on Rendered Fits ` +
+      `as ${role.toLowerCase()}.\n\n` +
+      `Accept the invitation within ${INVITATION_TTL_DAYS} days:\n` +
+      `${DASHBOARD_URL}/accept-invitation?token=${token}`
+  }).catch(error => console.error(`Invitation email to ${email} failed:`, error))
+
+  return invitation
+}
+
+/**
+ * Revoke a pending invitation
+ */
+export async function revokeInvitation(merchantId: string, invitationId: string): Promise<void> {
+  const revoked = await prisma.invitation.updateMany({
+    where: { id: invitationId, merchantId, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+
+  if (revoked.count === 0) {
+    throw notFound('Invitation not found')
+  }
+}
+
+/**
+ * A pending invitation by its emailed token
+ */
+async function findPendingInvitation(token: unknown) {
+  if (typeof token !== 'string' || !token) {
+    throw badRequest('Invitation token is required')
+  }
+
+  const invitation = await prisma.invitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+    include: { merchant: { select: { businessName: true } } }
+  })
+
+  if (!invitation || invitation.revokedAt || invitation.acceptedAt || invitation.expiresAt <= new Date()) {
+    throw notFound('This invitation is invalid or has expired - ask for a new one')
+  }
+
+  return invitation
+}
+
+/**
+ * What an invitation is for, shown before it is accepted
+ */
+export async function previewInvitation(token: unknown) {
+  const invitation = await findPendingInvitation(token)
+  const user = await prisma.user.findUnique({
+    where: { email: invitation.email },
+    select: { id: true }
+  })
+
+  return {
+    email: invitation.email,
+    role: invitation.role,
+    businessName: invitation.merchant.businessName,
+    expiresAt: invitation.expiresAt,
+    existingUser: Boolean(user)
+  }
+}
+
+/**
+ * Accept an invitation. Someone new sets a name and password; someone who
+ * already has a login confirms their password. Returns the member's user
+ * ID and the merchant they joined.
+ */
+export async function acceptInvitation(input: { token: unknown; password: unknown; name?: unknown }) {
+  const invitation = await findPendingInvitation(input.token)
+
+  validateRequired({ password: input.password })
+  const password = String(input.password)
+
+  let user = await prisma.user.findUnique({ where: { email: invitation.email } })
+
+  // The emailed link proves the address, so it counts as verified
+  if (user) {
+    if (!await bcrypt.compare(password, user.password)) {
+      throw unauthorized('Invalid password for this email')
+    }
+
+    if (!user.emailVerifiedAt) {
+      await prisma.user.update({ where: { id: user.id }, data: { emailVerifiedAt: new Date() } })
+    }
+  } else {
+    validatePassword(password)
+
+    user = await prisma.user.create({
+      data: {
+        email: invitation.email,
+        password: await hashPassword(password),
+        name: typeof input.name === 'string' && input.name.trim() ? input.name.trim() : null,
+        emailVerifiedAt: new Date()
+      }
+    })
+  }
+
+  const userId = user.id
+
+  try {
+    await prisma.$transaction([
+      prisma.invitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() }
+      }),
+      prisma.membership.create({
+        data: { userId, merchantId: invitation.merchantId, role: invitation.role }
+      })
+    ])
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw conflict('You are already a member of this team')
+    }
+    throw error
+  }
+
+  return { userId, merchantId: invitation.merchantId }
+}
@@ -0,0 +1,240 @@
+import { Prisma, SubscriptionStatus } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { ApiError, paymentRequired } from '../middleware/errorHandler.js'
+import { notifyMerchant } from './notifications.js'
+
+const TRIAL_DAYS = parseInt(process.env.TRIAL_DAYS || '14', 10)
+const POLL_INTERVAL_MS = parseInt(process.env.TRIAL_WORKER_POLL_MS || String(60 * 60 * 1000), 10) // hourly
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Days before the trial ends to send a reminder, e.g. "7,3,1"
+const REMINDER_OFFSET_DAYS = (process.env.TRIAL_REMINDER_DAYS || '7,3,1')
+  .split(',')
+  .map(days => parseInt(days.trim(), 10))
+  .filter(days => Number.isInteger(days) && days > 0)
+  .sort((a, b) => a - b)
+
+/**
+ * Merchant fields that decide whether a trial has run out
+ */
+export type TrialState = {
+  subscriptionStatus: SubscriptionStatus
+  trialEndsAt: Date | null
+  stripeSubscriptionId: string | null
+}
+
+/**
+ * When a trial starting now ends
+ */
+export function trialEndDate(from: Date = new Date()): Date {
+  return new Date(from.getTime() + TRIAL_DAYS * DAY_MS)
+}
+
+/**
+ * Whether a merchant's free trial is over. Trials on a Stripe subscription
+ * are ended by Stripe, which moves them to active or past due.
+ */
+export function hasTrialExpired(merchant: TrialState, at: Date = new Date()): boolean {
+  return merchant.subscriptionStatus === 'TRIAL' &&
+    !merchant.stripeSubscriptionId &&
+    Boolean(merchant.trialEndsAt && merchant.trialEndsAt <= at)
+}
+
+/**
+ * 402 for requests a merchant whose trial ended can no longer make
+ */
+export function trialExpiredError(): ApiError {
+  return paymentRequired('Your free trial has ended - choose a plan to keep generating try-ons', {
+    code: 'trial_expired',
+    upgrade: { url: '/billing' }
+  })
+}
+
+/**
+ * Move a merchant whose trial ran out to TRIAL_EXPIRED. They keep dashboard
+ * access to choose a plan, but cannot generate try-ons. Returns false if
+ * the trial had not run out or was already expired.
+ */
+export async function expireTrial(merchantId: string): Promise<boolean> {
+  const expired = await prisma.$transaction(async tx => {
+    const { count } = await tx.merchant.updateMany({
+      where: {
+        id: merchantId,
+        subscriptionStatus: 'TRIAL',
+        stripeSubscriptionId: null,
+        trialEndsAt: { lte: new Date() }
+      },
+      data: { subscriptionStatus: 'TRIAL_EXPIRED' }
+    })
+
+    // Status history for billing past months
+    if (count === 1) {
+      await tx.subscriptionStatusChange.create({
+        data: { merchantId, fromStatus: 'TRIAL', toStatus: 'TRIAL_EXPIRED' }
+      })
+    }
+
+    return count === 1
+  })
+
+  if (!expired) {
+    return false
+  }
+
+  notifyMerchant(merchantId, {
+    type: 'TRIAL_ENDED',
+    title: 'Your Rendered Fits trial has ended',
+    body: 'Your free trial has ended and virtual try-ons are paused on your store. Choose a plan to turn them back on.',
+    link: '/billing'
+  }).catch(error => console.error(`Trial ended notification failed for merchant ${merchantId}:`, error))
+
+  return true
+}
+
+/**
+ * Auth-time trial check: expire the trial if it has run out, and return
+ * the merchant's current status
+ */
+export async function checkTrial(merchant: TrialState & { id: string }): Promise<SubscriptionStatus> {
+  if (!hasTrialExpired(merchant)) {
+    return merchant.subscriptionStatus
+  }
+
+  await expireTrial(merchant.id)
+  return 'TRIAL_EXPIRED'
+}
+
+// ============================================================================
+// BACKGROUND JOB
+// ============================================================================
+
+let pollTimer: NodeJS.Timeout | null = null
+let polling = false
+
+/**
+ * The reminder due for a trial ending at `trialEndsAt`: the smallest offset
+ * whose send time has passed, so a merchant who signed up with less time
+ * left than the largest offset only gets the reminders that still apply
+ */
+export function dueReminderOffset(trialEndsAt: Date, at: Date = new Date()): number | null {
+  const daysLeft = (trialEndsAt.getTime() - at.getTime()) / DAY_MS
+  if (daysLeft <= 0) return null
+
+  return REMINDER_OFFSET_DAYS.find(days => days >= daysLeft) ?? null
+}
+
+/**
+ * Send a trial reminder (email and dashboard notification), once per offset
+ * and trial end date
+ */
+async function sendTrialReminder(
+  merchant: { id: string; trialEndsAt: Date },
+  offsetDays: number
+): Promise<boolean> {
+  // A reminder for this offset or a closer one already went out
+  const sent = await prisma.trialReminder.findFirst({
+    where: { merchantId: merchant.id, trialEndsAt: merchant.trialEndsAt, offsetDays: { lte: offsetDays } }
+  })
+
+  if (sent) return false
+
+  try {
+    await prisma.trialReminder.create({
+      data: { merchantId: merchant.id, trialEndsAt: merchant.trialEndsAt, offsetDays }
+    })
+  } catch (error) {
+    // Another instance claimed it
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return false
+    throw error
+  }
+
+  const daysLeft = Math.max(1, Math.ceil((merchant.trialEndsAt.getTime() - Date.now()) / DAY_MS))
+
+  await notifyMerchant(merchant.id, {
+    type: 'TRIAL_REMINDER',
+    title: `Your Rendered Fits trial ends in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`,
+    body: `Your free trial ends on ${merchant.trialEndsAt.toDateString()}. After that, virtual try-ons ` +
+      'pause on your store until you choose a plan.',
+    link: '/billing'
+  })
+
+  return true
+}
+
+/**
+ * Expire trials that have run out and send reminders that are due
+ */
+export async function processTrials(): Promise<{ expired: number; reminded: number }> {
+  if (polling) return { expired: 0, reminded: 0 }
+  polling = true
+
+  let expired = 0
+  let reminded = 0
+
+  try {
+    const now = new Date()
+    const maxOffset = Math.max(0, ...REMINDER_OFFSET_DAYS)
+
+    const trials = await prisma.merchant.findMany({
+      where: {
+        subscriptionStatus: 'TRIAL',
+        stripeSubscriptionId: null,
+        trialEndsAt: { not: null, lte: new Date(now.getTime() + maxOffset * DAY_MS) }
+      },
+      select: { id: true, trialEndsAt: true }
+    })
+
+    for (const trial of trials) {
+      const trialEndsAt = trial.trialEndsAt!
+
+      try {
+        if (trialEndsAt <= now) {
+          if (await expireTrial(trial.id)) expired++
+          continue
+        }
+
+        const offsetDays = dueReminderOffset(trialEndsAt, now)
+        if (offsetDays !== null && await sendTrialReminder({ id: trial.id, trialEndsAt }, offsetDays)) {
+          reminded++
+        }
+      } catch (error) {
+        console.error(`Trial processing failed for merchant ${trial.id}:`, error)
+      }
+    }
+
+    if (expired > 0 || reminded > 0) {
+      console.log(`⏳ Expired ${expired} trial(s), sent ${reminded} trial reminder(s)`)
+    }
+  } catch (error) {
+    console.error('Trial processing failed:', error)
+  } finally {
+    polling = false
+  }
+
+  return { expired, reminded }
+}
+
+/**
+ * Start the background job that expires trials and sends reminders. It
+ * also runs once at startup.
+ */
+export function startTrialWorker(): void {
+  if (pollTimer) return
+
+  processTrials()
+  pollTimer = setInterval(() => {
+    processTrials()
+  }, POLL_INTERVAL_MS)
+
+  console.log('⏳ Trial worker started')
+}
+
+/**
+ * Stop processing trials
+ */
+export function stopTrialWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer)
+    pollTimer = null
+  }
+}
@@ -0,0 +1,101 @@
+import { fakePrisma } from '../test/prisma.js'
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { TryOnJob } from '@prisma/client'
+import { findMerchantCustomer, recoverStaleJobs } from './tryon-jobs.js'
+
+// Customers and the merchants whose try-ons they appear in
+const customers = [
+  { id: 'customer_a', merchantIds: ['merchant_a'] },
+  { id: 'customer_b', merchantIds: ['merchant_b'] }
+]
+
+fakePrisma.customer = {
+  findFirst: async ({ where }: { where: { id: string; tryOns: { some: { merchantId: string } } } }) =>
+    customers.find(customer =>
+      customer.id === where.id && customer.merchantIds.includes(where.tryOns.some.merchantId)
+    ) || null
+}
+
+type Job = Pick<TryOnJob, 'id' | 'status' | 'attempts' | 'startedAt' | 'leaseExpiresAt' | 'usageReservationId'>
+type Condition = Record<string, unknown>
+
+let jobs: Job[] = []
+
+/**
+ * The parts of a Prisma where clause the worker's queries use
+ */
+function matches(job: Job, where: Condition): boolean {
+  return Object.entries(where).every(([field, expected]) => {
+    if (field === 'OR') return (expected as Condition[]).some(condition => matches(job, condition))
+
+    const actual = job[field as keyof Job]
+    if (expected instanceof Date) return actual instanceof Date && actual.getTime() === expected.getTime()
+    if (expected && typeof expected === 'object' && 'lt' in expected) {
+      return actual instanceof Date && actual < (expected.lt as Date)
+    }
+
+    return actual === expected
+  })
+}
+
+fakePrisma.tryOnJob = {
+  findMany: async ({ where }: { where: Condition }) => jobs.filter(job => matches(job, where)),
+  updateMany: async ({ where, data }: { where: Condition; data: Partial<Job> }) => {
+    const matched = jobs.filter(job => matches(job, where))
+    matched.forEach(job => Object.assign(job, data))
+    return { count: matched.length }
+  }
+}
+
+describe('findMerchantCustomer', () => {
+  it('finds customers the merchant has seen', async () => {
+    assert.equal((await findMerchantCustomer('customer_a', 'merchant_a'))?.id, 'customer_a')
+  })
+
+  it('does not find another store\'s customers', async () => {
+    assert.equal(await findMerchantCustomer('customer_b', 'merchant_a'), null)
+  })
+})
+
+describe('recoverStaleJobs', () => {
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000)
+
+  function job(id: string, overrides: Partial<Job>): Job {
+    return { id, status: 'RUNNING', attempts: 1, startedAt: minutesAgo(10), leaseExpiresAt: null, usageReservationId: null, ...overrides }
+  }
+
+  it('leaves long jobs whose worker, on any instance, still renews the lease', async () => {
+    jobs = [job('renewed', { leaseExpiresAt: new Date(Date.now() + 30 * 1000) })]
+
+    await recoverStaleJobs()
+
+    assert.equal(jobs[0].status, 'RUNNING')
+  })
+
+  it('requeues jobs whose lease ran out', async () => {
+    jobs = [job('expired', { leaseExpiresAt: minutesAgo(1) })]
+
+    await recoverStaleJobs()
+
+    assert.equal(jobs[0].status, 'QUEUED')
+    assert.equal(jobs[0].startedAt, null)
+    assert.equal(jobs[0].leaseExpiresAt, null)
+  })
+
+  it('fails jobs out of attempts', async () => {
+    jobs = [job('exhausted', { attempts: 3, leaseExpiresAt: minutesAgo(1) })]
+
+    await recoverStaleJobs()
+
+    assert.equal(jobs[0].status, 'FAILED')
+  })
+
+  it('recovers jobs claimed before leases by how long they have run', async () => {
+    jobs = [job('old', {}), job('recent', { startedAt: minutesAgo(1) })]
+
+    await recoverStaleJobs()
+
+    assert.deepEqual(jobs.map(({ id, status }) => [id, status]), [['old', 'QUEUED'], ['recent', 'RUNNING']])
+  })
+})
@@ -0,0 +1,525 @@
+import { Prisma, TryOnJob } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { processImageInput, validateImageBuffer } from '../utils/imageUtils.js'
+import { extractSizeRecommendation } from './gemini.js'
+import { resolveTryOnProvider, formatModelUsed } from './providers/index.js'
+import { saveImage, getImageBuffer, getSignedImageUrl } from './storage.js'
+import { trackUsage, getCurrentUsage } from './billing.js'
+import { commitUsage, releaseExpiredReservations, releaseUsage } from './usage-meter.js'
+import { emitWebhook } from './webhook-delivery.js'
+import {
+  startProgress,
+  reportProgress,
+  progressReporter,
+  estimateGenerationTime
+} from './tryon-progress.js'
+
+const POLL_INTERVAL_MS = parseInt(process.env.TRYON_WORKER_POLL_MS || '1000', 10)
+const WORKER_CONCURRENCY = parseInt(process.env.TRYON_WORKER_CONCURRENCY || '2', 10)
+const JOB_TIMEOUT_MS = parseInt(process.env.TRYON_JOB_TIMEOUT_MS || '300000', 10) // 5 minutes
+const JOB_LEASE_MS = parseInt(process.env.TRYON_JOB_LEASE_MS || '60000', 10) // Renewed every third of this
+const MAX_ATTEMPTS = 3
+
+export interface TryOnJobOptions {
+  quality?: 'standard' | 'hd'
+  saveToProfile?: boolean
+  provider?: string // Resolved when the job is queued
+}
+
+export interface EnqueueTryOnJobInput {
+  merchantId: string
+  productId: string
+  customerId?: string
+  inputImageUrl: string
+  requestId?: string
+  usageReservationId?: string
+  options?: TryOnJobOptions
+  ipAddress?: string
+  userAgent?: string
+}
+
+/**
+ * Queue a try-on generation job for the background worker
+ */
+export async function enqueueTryOnJob(input: EnqueueTryOnJobInput): Promise<TryOnJob> {
+  return prisma.tryOnJob.create({
+    data: {
+      merchantId: input.merchantId,
+      productId: input.productId,
+      customerId: input.customerId,
+      inputImageUrl: input.inputImageUrl,
+      requestId: input.requestId,
+      usageReservationId: input.usageReservationId,
+      options: (input.options || {}) as Prisma.InputJsonObject,
+      ipAddress: input.ipAddress,
+      userAgent: input.userAgent
+    }
+  })
+}
+
+/**
+ * Get a job, scoped to the merchant that created it
+ */
+export async function getTryOnJob(jobId: string, merchantId: string): Promise<TryOnJob | null> {
+  return prisma.tryOnJob.findFirst({
+    where: {
+      id: jobId,
+      merchantId
+    }
+  })
+}
+
+/**
+ * A customer the merchant has seen before. Customers are shared records
+ * without a merchant of their own, so one belongs to a merchant through
+ * its try-ons there; an ID from another store finds nothing.
+ */
+export async function findMerchantCustomer(customerId: string, merchantId: string) {
+  return prisma.customer.findFirst({
+    where: {
+      id: customerId,
+      tryOns: { some: { merchantId } }
+    }
+  })
+}
+
+/**
+ * Job result with a freshly signed image URL
+ */
+export function serializeTryOnJobResult(job: TryOnJob) {
+  if (!job.result) return null
+
+  const result = job.result as Prisma.JsonObject
+  return {
+    ...result,
+    imageUrl: getSignedImageUrl(result.imageUrl as string)
+  }
+}
+
+/**
+ * Public representation of a job for API responses
+ */
+export function serializeTryOnJob(job: TryOnJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    stage: job.stage,
+    attempts: job.attempts,
+    error: job.errorMessage,
+    result: serializeTryOnJobResult(job),
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt
+  }
+}
+
+// ============================================================================
+// GENERATION PIPELINE
+// ============================================================================
+
+/**
+ * Run the try-on generation for a claimed job and record the outcome
+ */
+async function processTryOnJob(job: TryOnJob): Promise<void> {
+  const options = (job.options || {}) as TryOnJobOptions
+  const quality = options.quality || 'standard'
+  const onProgress = progressReporter(job.id)
+
+  try {
+    const estimatedDurationMs = await estimateGenerationTime(job.merchantId)
+    startProgress(job.id, estimatedDurationMs)
+    await prisma.tryOnJob.update({
+      where: { id: job.id },
+      data: { estimatedDurationMs }
+    })
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: job.productId,
+        merchantId: job.merchantId,
+        isActive: true
+      }
+    })
+
+    if (!product) {
+      throw new Error('Product not found or inactive')
+    }
+
+    onProgress('downloading_images')
+    const customerPhotoBuffer = await getImageBuffer(job.inputImageUrl)
+
+    // Download product image
+    let productImageBuffer: Buffer
+    try {
+      productImageBuffer = await processImageInput(product.imageUrl)
+      onProgress('validating')
+      validateImageBuffer(productImageBuffer, 5)
+    } catch (error) {
+      throw new Error(`Failed to load product image: ${(error as Error).message}`)
+    }
+
+    const provider = resolveTryOnProvider(options.provider)
+    if (!provider.isConfigured()) {
+      throw new Error('AI service not configured. Please contact support.')
+    }
+
+    // Log try-on started event
+    await prisma.analyticsEvent.create({
+      data: {
+        merchantId: job.merchantId,
+        eventType: 'TRY_ON_STARTED',
+        eventData: {
+          jobId: job.id,
+          productId: product.id,
+          customerId: job.customerId,
+          quality,
+          provider: provider.name
+        },
+        ipAddress: job.ipAddress,
+        userAgent: job.userAgent
+      }
+    })
+
+    let tryOnResult
+    try {
+      tryOnResult = await provider.generate(
+        customerPhotoBuffer,
+        productImageBuffer,
+        { quality, style: 'studio', costContext: { merchantId: job.merchantId, tryOnJobId: job.id } },
+        onProgress
+      )
+    } catch (error) {
+      throw new Error(`AI generation failed: ${(error as Error).message}`)
+    }
+
+    onProgress('uploading')
+    const outputImageUrl = await saveImage(
+      tryOnResult.resultBuffer,
+      `tryon-${Date.now()}.jpg`,
+      'outputs',
+      job.merchantId
+    )
+
+    // Extract size recommendation from AI analysis
+    const recommendedSize = extractSizeRecommendation(tryOnResult.analysis)
+
+    // Find or create customer
+    let customer
+    if (job.customerId) {
+      customer = await findMerchantCustomer(job.customerId, job.merchantId)
+
+      if (customer) {
+        await prisma.customer.update({
+          where: { id: customer.id },
+          data: { lastSeen: new Date() }
+        })
+      }
+    }
+
+    if (!customer) {
+      customer = await prisma.customer.create({
+        data: {
+          anonymousId: `anon_${Date.now()}_${Math.random().toString(36).substring(7)}`,
+          ...(options.saveToProfile && { photoUrl: job.inputImageUrl })
+        }
+      })
+    }
+
+    const tryOn = await prisma.tryOn.create({
+      data: {
+        customerId: customer.id,
+        productId: product.id,
+        merchantId: job.merchantId,
+        inputImageUrl: job.inputImageUrl,
+        outputImageUrl,
+        processingTimeMs: tryOnResult.processingTimeMs,
+        geminiModelUsed: formatModelUsed(tryOnResult)
+      }
+    })
+
+    // Count the reserved unit as used; jobs queued before metering have none
+    if (job.usageReservationId) {
+      await commitUsage(job.usageReservationId)
+    } else {
+      await trackUsage(job.merchantId)
+    }
+    const updatedUsage = await getCurrentUsage(job.merchantId)
+
+    // Log success event
+    await prisma.analyticsEvent.create({
+      data: {
+        merchantId: job.merchantId,
+        eventType: 'TRY_ON_COMPLETED',
+        eventData: {
+          jobId: job.id,
+          tryOnId: tryOn.id,
+          productId: product.id,
+          customerId: customer.id,
+          processingTimeMs: tryOnResult.processingTimeMs,
+          recommendedSize,
+          modelUsed: formatModelUsed(tryOnResult)
+        },
+        ipAddress: job.ipAddress,
+        userAgent: job.userAgent
+      }
+    })
+
+    await prisma.tryOnJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'SUCCEEDED',
+        tryOnId: tryOn.id,
+        finishedAt: new Date(),
+        result: {
+          tryonId: tryOn.id,
+          imageUrl: outputImageUrl,
+          recommendedSize,
+          usageRemaining: updatedUsage.remaining,
+          processingTimeMs: tryOnResult.processingTimeMs,
+          metadata: {
+            customerId: customer.id,
+            productId: product.id,
+            productName: product.name,
+            quality,
+            provider: tryOnResult.provider,
+            model: tryOnResult.model
+          }
+        }
+      }
+    })
+
+    reportProgress(job.id, 'completed')
+    emitWebhook(job.merchantId, 'tryon.completed', {
+      jobId: job.id,
+      tryOnId: tryOn.id,
+      productId: product.id,
+      externalProductId: product.externalId,
+      customerId: customer.id,
+      recommendedSize,
+      processingTimeMs: tryOnResult.processingTimeMs
+    })
+    console.log(`✓ Try-on job ${job.id} succeeded (try-on ${tryOn.id})`)
+  } catch (error) {
+    const message = (error as Error).message
+    console.error(`❌ Try-on job ${job.id} failed:`, message)
+
+    await prisma.tryOnJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'FAILED',
+        errorMessage: message,
+        finishedAt: new Date()
+      }
+    })
+
+    // A failed generation does not count against the quota
+    if (job.usageReservationId) {
+      await releaseUsage(job.usageReservationId).catch(releaseError =>
+        console.error(`Failed to release usage for job ${job.id}:`, releaseError)
+      )
+    }
+
+    reportProgress(job.id, 'failed', message)
+    emitWebhook(job.merchantId, 'tryon.failed', {
+      jobId: job.id,
+      productId: job.productId,
+      error: message
+    })
+
+    try {
+      await prisma.analyticsEvent.create({
+        data: {
+          merchantId: job.merchantId,
+          eventType: 'TRY_ON_FAILED',
+          eventData: {
+            jobId: job.id,
+            productId: job.productId,
+            error: message
+          }
+        }
+      })
+    } catch (logError) {
+      console.error('Failed to log error event:', logError)
+    }
+  }
+}
+
+// ============================================================================
+// WORKER LOOP
+// ============================================================================
+
+const activeJobs = new Set<string>()
+let pollTimer: NodeJS.Timeout | null = null
+let recoveryTimer: NodeJS.Timeout | null = null
+let leaseTimer: NodeJS.Timeout | null = null
+let polling = false
+
+/**
+ * Atomically move a job from QUEUED to RUNNING, taking its lease.
+ * Returns false if another worker claimed it first.
+ */
+async function claimJob(jobId: string): Promise<boolean> {
+  const claimed = await prisma.tryOnJob.updateMany({
+    where: {
+      id: jobId,
+      status: 'QUEUED'
+    },
+    data: {
+      status: 'RUNNING',
+      startedAt: new Date(),
+      leaseExpiresAt: new Date(Date.now() + JOB_LEASE_MS),
+      attempts: { increment: 1 }
+    }
+  })
+
+  return claimed.count === 1
+}
+
+/**
+ * Extend the leases of the jobs this process is running. A job running
+ * past JOB_TIMEOUT_MS is no longer renewed, so a hung generation is
+ * eventually recovered too.
+ */
+export async function renewJobLeases(): Promise<void> {
+  if (activeJobs.size === 0) return
+
+  await prisma.tryOnJob.updateMany({
+    where: {
+      id: { in: Array.from(activeJobs) },
+      status: 'RUNNING',
+      startedAt: { gt: new Date(Date.now() - JOB_TIMEOUT_MS) }
+    },
+    data: { leaseExpiresAt: new Date(Date.now() + JOB_LEASE_MS) }
+  })
+}
+
+/**
+ * Pick up queued jobs while there is free worker capacity
+ */
+async function pollQueue(): Promise<void> {
+  if (polling) return
+  polling = true
+
+  try {
+    const capacity = WORKER_CONCURRENCY - activeJobs.size
+    if (capacity <= 0) return
+
+    const queued = await prisma.tryOnJob.findMany({
+      where: { status: 'QUEUED' },
+      orderBy: { createdAt: 'asc' },
+      take: capacity,
+      select: { id: true }
+    })
+
+    for (const { id } of queued) {
+      if (!(await claimJob(id))) continue
+
+      const job = await prisma.tryOnJob.findUnique({ where: { id } })
+      if (!job) continue
+
+      activeJobs.add(id)
+      processTryOnJob(job)
+        .catch(error => console.error(`Try-on job ${id} crashed:`, error))
+        .finally(() => activeJobs.delete(id))
+    }
+  } catch (error) {
+    console.error('Try-on worker poll failed:', error)
+  } finally {
+    polling = false
+  }
+}
+
+/**
+ * Requeue jobs left RUNNING by a worker that died (e.g. a server restart),
+ * on any instance: their lease ran out without being renewed. Jobs that
+ * have already used all their attempts are failed instead.
+ */
+export async function recoverStaleJobs(): Promise<void> {
+  const now = new Date()
+
+  const stale = await prisma.tryOnJob.findMany({
+    where: {
+      status: 'RUNNING',
+      OR: [
+        { leaseExpiresAt: { lt: now } },
+        // Claimed before leases were kept
+        { leaseExpiresAt: null, startedAt: { lt: new Date(now.getTime() - JOB_TIMEOUT_MS) } }
+      ]
+    },
+    select: { id: true, attempts: true, usageReservationId: true, leaseExpiresAt: true }
+  })
+
+  for (const job of stale) {
+    // Only if the lease was not renewed since it was read
+    const unrenewed = { id: job.id, status: 'RUNNING' as const, leaseExpiresAt: job.leaseExpiresAt }
+
+    if (job.attempts >= MAX_ATTEMPTS) {
+      const failed = await prisma.tryOnJob.updateMany({
+        where: unrenewed,
+        data: {
+          status: 'FAILED',
+          errorMessage: 'Job interrupted too many times',
+          finishedAt: new Date()
+        }
+      })
+
+      if (failed.count === 1 && job.usageReservationId) {
+        await releaseUsage(job.usageReservationId)
+      }
+    } else {
+      await prisma.tryOnJob.updateMany({
+        where: unrenewed,
+        data: { status: 'QUEUED', stage: 'queued', startedAt: null, leaseExpiresAt: null }
+      })
+    }
+  }
+
+  if (stale.length > 0) {
+    console.log(`♻ Recovered ${stale.length} stale try-on job(s)`)
+  }
+}
+
+/**
+ * Start the background worker that processes queued try-on jobs
+ */
+export function startTryOnWorker(): void {
+  if (pollTimer) return
+
+  recoverStaleJobs().catch(error => console.error('Try-on job recovery failed:', error))
+
+  pollTimer = setInterval(() => {
+    pollQueue()
+  }, POLL_INTERVAL_MS)
+
+  recoveryTimer = setInterval(() => {
+    recoverStaleJobs().catch(error => console.error('Try-on job recovery failed:', error))
+    releaseExpiredReservations().catch(error => console.error('Usage reservation expiry failed:', error))
+  }, 60000) // 1 minute
+
+  leaseTimer = setInterval(() => {
+    renewJobLeases().catch(error => console.error('Try-on job lease renewal failed:', error))
+  }, JOB_LEASE_MS / 3)
+
+  console.log(`🧵 Try-on worker started (concurrency: ${WORKER_CONCURRENCY})`)
+}
+
+/**
+ * Stop polling for new jobs. In-flight jobs that do not finish before
+ * the process exits are recovered on the next start.
+ */
+export function stopTryOnWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer)
+    pollTimer = null
+  }
+
+  if (recoveryTimer) {
+    clearInterval(recoveryTimer)
+    recoveryTimer = null
+  }
+
+  if (leaseTimer) {
+    clearInterval(leaseTimer)
+    leaseTimer = null
+  }
+}
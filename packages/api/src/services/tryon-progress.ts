@@ -0,0 +1,148 @@
+import { EventEmitter } from 'events'
+import { prisma } from '../utils/prisma.js'
+
+/**
+ * Generation stages, in pipeline order
+ */
+export const TRYON_STAGES = [
+  'queued',
+  'downloading_images',
+  'validating',
+  'calling_model',
+  'parsing_analysis',
+  'uploading',
+  'completed',
+  'failed'
+] as const
+
+export type TryOnStage = typeof TRYON_STAGES[number]
+
+export type TryOnProgressCallback = (stage: TryOnStage) => void
+
+// Share of the total generation time elapsed when each stage begins
+const STAGE_PROGRESS: Record<TryOnStage, number> = {
+  queued: 0,
+  downloading_images: 0.05,
+  validating: 0.15,
+  calling_model: 0.2,
+  parsing_analysis: 0.85,
+  uploading: 0.9,
+  completed: 1,
+  failed: 1
+}
+
+const DEFAULT_DURATION_MS = 8000
+
+export interface TryOnProgressEvent {
+  jobId: string
+  stage: TryOnStage
+  progress: number // 0-1
+  etaMs: number
+  timestamp: string
+  error?: string
+}
+
+interface JobProgressState {
+  stage: TryOnStage
+  startedAt: number
+  estimatedDurationMs: number
+}
+
+const emitter = new EventEmitter()
+emitter.setMaxListeners(0) // One listener per open SSE connection
+
+const jobStates = new Map<string, JobProgressState>()
+
+/**
+ * Build a progress event from a stage and timing estimate
+ */
+export function buildProgressEvent(
+  jobId: string,
+  stage: TryOnStage,
+  startedAt: number,
+  estimatedDurationMs: number,
+  error?: string
+): TryOnProgressEvent {
+  const elapsed = Date.now() - startedAt
+  const isTerminal = stage === 'completed' || stage === 'failed'
+
+  return {
+    jobId,
+    stage,
+    progress: STAGE_PROGRESS[stage],
+    etaMs: isTerminal ? 0 : Math.max(0, estimatedDurationMs - elapsed),
+    timestamp: new Date().toISOString(),
+    ...(error && { error })
+  }
+}
+
+/**
+ * Estimate how long a generation will take from the merchant's recent try-ons
+ */
+export async function estimateGenerationTime(merchantId: string): Promise<number> {
+  const recent = await prisma.tryOn.aggregate({
+    where: {
+      merchantId,
+      generatedAt: { gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
+    },
+    _avg: { processingTimeMs: true }
+  })
+
+  return Math.round(recent._avg.processingTimeMs || DEFAULT_DURATION_MS)
+}
+
+/**
+ * Begin tracking progress for a job that a worker has just claimed
+ */
+export function startProgress(jobId: string, estimatedDurationMs: number): void {
+  jobStates.set(jobId, {
+    stage: 'queued',
+    startedAt: Date.now(),
+    estimatedDurationMs
+  })
+}
+
+/**
+ * Report that a job has reached a stage. Stages only move forward, so a
+ * stage reported twice (or out of order by a nested call) is ignored.
+ */
+export function reportProgress(jobId: string, stage: TryOnStage, error?: string): void {
+  const state = jobStates.get(jobId)
+  if (!state) return
+
+  if (TRYON_STAGES.indexOf(stage) <= TRYON_STAGES.indexOf(state.stage)) return
+  state.stage = stage
+
+  const event = buildProgressEvent(jobId, stage, state.startedAt, state.estimatedDurationMs, error)
+  emitter.emit(jobId, event)
+
+  if (stage === 'completed' || stage === 'failed') {
+    jobStates.delete(jobId)
+  }
+
+  // Persist so status polling and other API instances can see the stage
+  prisma.tryOnJob.update({
+    where: { id: jobId },
+    data: { stage }
+  }).catch(err => console.error(`Failed to persist stage for job ${jobId}:`, err))
+}
+
+/**
+ * Create a stage callback bound to a job, for passing into services
+ */
+export function progressReporter(jobId: string): TryOnProgressCallback {
+  return (stage: TryOnStage) => reportProgress(jobId, stage)
+}
+
+/**
+ * Listen for progress events on a job. Returns an unsubscribe function.
+ */
+export function subscribeToProgress(
+  jobId: string,
+  listener: (event: TryOnProgressEvent) => void
+): () => void {
+  emitter.on(jobId, listener)
+  return () => {
+    emitter.off(jobId, listener)
+  }
+}
@@ -0,0 +1,152 @@
+import { fakePrisma } from '../test/prisma.js'
+import { describe, it, beforeEach, afterEach, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'node:crypto'
+import { User } from '@prisma/client'
+import {
+  enableTwoFactor,
+  loginChallenge,
+  readLoginChallenge,
+  startTwoFactorSetup,
+  verifyTwoFactor
+} from './two-factor.js'
+
+// RFC 6238 test secret ("12345678901234567890"), base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+type TwoFactorUser = Pick<User, 'id' | 'email' | 'totpSecret' | 'totpEnabledAt' | 'totpLastStep'>
+
+let user: TwoFactorUser
+let recoveryCodes: { codeHash: string; usedAt: Date | null }[] = []
+
+fakePrisma.user = {
+  findUnique: async () => ({ ...user }),
+  update: async ({ data }: { data: Partial<TwoFactorUser> }) => Object.assign(user, data),
+  // The step claim in acceptTotpCode
+  updateMany: async ({ data }: { data: { totpLastStep: number } }) => {
+    if (user.totpLastStep !== null && user.totpLastStep >= data.totpLastStep) return { count: 0 }
+    user.totpLastStep = data.totpLastStep
+    return { count: 1 }
+  }
+}
+fakePrisma.recoveryCode = {
+  deleteMany: async () => {
+    recoveryCodes = []
+  },
+  createMany: async ({ data }: { data: { codeHash: string }[] }) => {
+    recoveryCodes.push(...data.map(({ codeHash }) => ({ codeHash, usedAt: null })))
+  },
+  updateMany: async ({ where }: { where: { codeHash: string } }) => {
+    const code = recoveryCodes.find(candidate => candidate.codeHash === where.codeHash && !candidate.usedAt)
+    if (code) code.usedAt = new Date()
+    return { count: code ? 1 : 0 }
+  }
+}
+fakePrisma.$transaction = async (operations: Promise<unknown>[]) => Promise.all(operations)
+
+const at = (seconds: number) => mock.timers.setTime(seconds * 1000)
+
+describe('two-factor codes', () => {
+  beforeEach(() => {
+    user = { id: 'user_1', email: 'owner@example.com', totpSecret: RFC_SECRET, totpEnabledAt: new Date(), totpLastStep: null }
+    recoveryCodes = []
+    mock.timers.enable({ apis: ['Date'], now: Date.now() })
+  })
+
+  afterEach(() => {
+    mock.timers.reset()
+  })
+
+  it('accepts the RFC 6238 code for the current step', async () => {
+    at(59)
+    await verifyTwoFactor('user_1', { code: '287082' })
+
+    at(1111111109)
+    await verifyTwoFactor('user_1', { code: '081804' })
+  })
+
+  it('allows one step of clock drift either way, and no more', async () => {
+    // 287082 is the code for the step ending at 60s
+    at(59 + 30)
+    await verifyTwoFactor('user_1', { code: '287082' })
+
+    user.totpLastStep = null
+    at(59 + 60)
+    await assert.rejects(verifyTwoFactor('user_1', { code: '287082' }), /Invalid two-factor code/)
+  })
+
+  it('does not accept a code twice', async () => {
+    at(59)
+    await verifyTwoFactor('user_1', { code: '287 082' })
+
+    await assert.rejects(verifyTwoFactor('user_1', { code: '287082' }), /Invalid two-factor code/)
+  })
+
+  it('rejects malformed codes', async () => {
+    at(59)
+    for (const code of ['28708', '2870820', 'abcdef', undefined]) {
+      await assert.rejects(verifyTwoFactor('user_1', { code }), /Invalid two-factor code/)
+    }
+  })
+
+  it('enrols with a code from the new secret and issues recovery codes that work once', async () => {
+    user.totpEnabledAt = null
+    const { secret, otpauthUrl } = await startTwoFactorSetup('user_1')
+
+    assert.match(otpauthUrl, /^otpauth:\/\/totp\/Rendered%20Fits%3Aowner%40example.com\?secret=[A-Z2-7]{32}&/)
+    await assert.rejects(enableTwoFactor('user_1', '000000'), /code is not right/)
+
+    const codes = await enableTwoFactor('user_1', currentCode(secret))
+
+    assert.equal(codes.length, 10)
+    assert.ok(user.totpEnabledAt)
+
+    await verifyTwoFactor('user_1', { recoveryCode: codes[0].toUpperCase() })
+    await assert.rejects(verifyTwoFactor('user_1', { recoveryCode: codes[0] }), /Invalid recovery code/)
+  })
+})
+
+describe('login challenges', () => {
+  const owner = { id: 'user_1', email: 'owner@example.com' }
+  const merchant = { id: 'merchant_1', requireTwoFactor: false }
+
+  it('asks for a code when two-factor is on, and setup when the team requires it', () => {
+    assert.equal(loginChallenge({ ...owner, totpEnabledAt: null }, merchant), null)
+
+    const verify = loginChallenge({ ...owner, totpEnabledAt: new Date() }, merchant)
+    const setup = loginChallenge({ ...owner, totpEnabledAt: null }, { ...merchant, requireTwoFactor: true })
+
+    assert.equal(readLoginChallenge(verify?.challengeToken).step, 'verify')
+    assert.equal(setup?.setupRequired, true)
+    assert.deepEqual(readLoginChallenge(setup?.challengeToken), {
+      userId: 'user_1',
+      email: 'owner@example.com',
+      merchantId: 'merchant_1',
+      step: 'setup'
+    })
+  })
+
+  it('rejects tampered challenge tokens', () => {
+    const { challengeToken } = loginChallenge({ ...owner, totpEnabledAt: new Date() }, merchant)!
+    const [header, , signature] = challengeToken.split('.')
+    const forged = Buffer.from(JSON.stringify({ userId: 'user_2', email: 'x@example.com', merchantId: 'merchant_1', step: 'verify', purpose: 'two_factor' })).toString('base64url')
+
+    assert.throws(() => readLoginChallenge(`${header}.${forged}.${signature}`), /sign in has expired/)
+  })
+})
+
+/**
+ * The current code for a base32 secret, as an authenticator app computes it
+ */
+function currentCode(secret: string): string {
+  let bits = ''
+  for (const char of secret) bits += 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'.indexOf(char).toString(2).padStart(5, '0')
+  const key = Buffer.from(bits.match(/.{8}/g)!.map(byte => parseInt(byte, 2)))
+
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 30000)))
+  const hmac = crypto.createHmac('sha1', key).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1e6).padStart(6, '0')
+}
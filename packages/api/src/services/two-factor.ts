@@ -0,0 +1,418 @@
+import crypto from 'crypto'
+import bcrypt from 'bcryptjs'
+import jwt from 'jsonwebtoken'
+import { prisma } from '../utils/prisma.js'
+import { badRequest, conflict, forbidden, notFound, unauthorized } from '../middleware/errorHandler.js'
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+const ISSUER = 'Rendered Fits'
+const CHALLENGE_TTL_SECONDS = 10 * 60 // Time to enter the code after the password
+const RECOVERY_CODE_COUNT = 10
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_PERIOD_SECONDS = 30
+const TOTP_DIGITS = 6
+const TOTP_DRIFT_STEPS = 1 // Codes from one step either side still work, for clock drift
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/**
+ * The second sign in step a user still owes: entering a code, or setting
+ * two-factor up because their team requires it
+ */
+export type TwoFactorStep = 'verify' | 'setup'
+
+/**
+ * Payload of a login challenge token: the password was right, the session
+ * waits on a code
+ */
+interface LoginChallengeClaims {
+  userId: string
+  email: string // Sign in failures are counted per email
+  merchantId: string
+  step: TwoFactorStep
+  purpose: 'two_factor'
+}
+
+// ============================================================================
+// TOTP
+// ============================================================================
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) continue
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * The code for a secret at a 30-second step (RFC 6238, HMAC-SHA1)
+ */
+function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * The step a code is valid for, allowing for clock drift, or null
+ */
+function matchTotpStep(secret: string, code: string): number | null {
+  const current = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS)
+
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const expected = totpCode(secret, current + drift)
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return current + drift
+    }
+  }
+
+  return null
+}
+
+/**
+ * Accept a code for a user's secret. Each step's code works once, so a code
+ * seen over someone's shoulder cannot be replayed.
+ */
+async function acceptTotpCode(
+  user: { id: string; totpSecret: string | null; totpLastStep: number | null },
+  code: unknown
+): Promise<boolean> {
+  const digits = typeof code === 'string' ? code.replace(/\s/g, '') : ''
+
+  if (!user.totpSecret || !new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(digits)) {
+    return false
+  }
+
+  const step = matchTotpStep(user.totpSecret, digits)
+
+  if (step === null || (user.totpLastStep !== null && step <= user.totpLastStep)) {
+    return false
+  }
+
+  // Claim the step, so two requests with the same code cannot both succeed
+  const claimed = await prisma.user.updateMany({
+    where: { id: user.id, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+    data: { totpLastStep: step }
+  })
+
+  return claimed.count > 0
+}
+
+// ============================================================================
+// RECOVERY CODES
+// ============================================================================
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^0-9a-f]/g, '')
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+/**
+ * Replace a user's recovery codes. Only hashes are stored, so the returned
+ * codes are the one copy.
+ */
+async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex')
+    return `${hex.substring(0, 5)}-${hex.substring(5)}`
+  })
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) }))
+    })
+  ])
+
+  return codes
+}
+
+/**
+ * Use up one of a user's recovery codes. A code works once.
+ */
+async function consumeRecoveryCode(userId: string, code: unknown): Promise<boolean> {
+  if (typeof code !== 'string' || !normalizeRecoveryCode(code)) {
+    return false
+  }
+
+  const used = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() }
+  })
+
+  return used.count > 0
+}
+
+// ============================================================================
+// ENROLLMENT
+// ============================================================================
+
+async function findUser(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } })
+
+  if (!user) {
+    throw notFound('User not found')
+  }
+
+  return user
+}
+
+async function confirmPassword(userId: string, password: unknown) {
+  const user = await findUser(userId)
+
+  if (typeof password !== 'string' || !password || !await bcrypt.compare(password, user.password)) {
+    throw badRequest('Password is incorrect')
+  }
+
+  return user
+}
+
+/**
+ * Whether a user has two-factor on, and how many recovery codes are left
+ */
+export async function twoFactorStatus(userId: string) {
+  const [user, recoveryCodesRemaining, requiredBy] = await Promise.all([
+    findUser(userId),
+    prisma.recoveryCode.count({ where: { userId, usedAt: null } }),
+    prisma.membership.count({ where: { userId, merchant: { requireTwoFactor: true } } })
+  ])
+
+  return {
+    enabled: Boolean(user.totpEnabledAt),
+    enabledAt: user.totpEnabledAt,
+    recoveryCodesRemaining: user.totpEnabledAt ? recoveryCodesRemaining : 0,
+    required: requiredBy > 0
+  }
+}
+
+/**
+ * Start enrolling: a new secret for the user's authenticator app, as text and
+ * as an otpauth:// URI for a QR code. It is not used until a code from it
+ * is confirmed.
+ */
+export async function startTwoFactorSetup(userId: string) {
+  const user = await findUser(userId)
+
+  if (user.totpEnabledAt) {
+    throw conflict('Two-factor authentication is already on')
+  }
+
+  const secret = base32Encode(crypto.randomBytes(20))
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpSecret: secret, totpLastStep: null }
+  })
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  })
+
+  return {
+    secret,
+    otpauthUrl: `otpauth://totp/${label}?${params.toString()}`
+  }
+}
+
+/**
+ * Finish enrolling with a code from the authenticator app. Returns the
+ * user's recovery codes.
+ */
+export async function enableTwoFactor(userId: string, code: unknown): Promise<string[]> {
+  const user = await findUser(userId)
+
+  if (user.totpEnabledAt) {
+    throw conflict('Two-factor authentication is already on')
+  }
+
+  if (!user.totpSecret) {
+    throw badRequest('Start two-factor setup first')
+  }
+
+  if (!await acceptTotpCode(user, code)) {
+    throw badRequest('That code is not right - check the time on your device and try again')
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpEnabledAt: new Date() }
+  })
+
+  return issueRecoveryCodes(userId)
+}
+
+/**
+ * Turn two-factor off, after confirming the password. Not allowed while a
+ * team the user belongs to requires it.
+ */
+export async function disableTwoFactor(userId: string, password: unknown): Promise<void> {
+  await confirmPassword(userId, password)
+
+  const requiredBy = await prisma.membership.findFirst({
+    where: { userId, merchant: { requireTwoFactor: true } },
+    select: { merchant: { select: { businessName: true } } }
+  })
+
+  if (requiredBy) {
+    throw forbidden(`${requiredBy.merchant.businessName} requires two-factor authentication`, {
+      code: 'two_factor_required'
+    })
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null }
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } })
+  ])
+}
+
+/**
+ * Replace the user's recovery codes, after confirming the password
+ */
+export async function regenerateRecoveryCodes(userId: string, password: unknown): Promise<string[]> {
+  const user = await confirmPassword(userId, password)
+
+  if (!user.totpEnabledAt) {
+    throw badRequest('Two-factor authentication is not on')
+  }
+
+  return issueRecoveryCodes(userId)
+}
+
+/**
+ * Check the second factor at sign in: a code from the authenticator app, or
+ * a recovery code
+ */
+export async function verifyTwoFactor(
+  userId: string,
+  input: { code?: unknown; recoveryCode?: unknown }
+): Promise<void> {
+  const user = await findUser(userId)
+
+  if (!user.totpEnabledAt) {
+    throw badRequest('Two-factor authentication is not on')
+  }
+
+  const accepted = input.recoveryCode
+    ? await consumeRecoveryCode(userId, input.recoveryCode)
+    : await acceptTotpCode(user, input.code)
+
+  if (!accepted) {
+    throw unauthorized(input.recoveryCode ? 'Invalid recovery code' : 'Invalid two-factor code')
+  }
+}
+
+// ============================================================================
+// LOGIN CHALLENGES
+// ============================================================================
+
+/**
+ * The second step a sign in needs, if any: a code when the user has
+ * two-factor on, or setup when the merchant requires it and they do not
+ */
+export function twoFactorStep(
+  user: { totpEnabledAt: Date | null },
+  merchant: { requireTwoFactor: boolean }
+): TwoFactorStep | null {
+  if (user.totpEnabledAt) return 'verify'
+  if (merchant.requireTwoFactor) return 'setup'
+  return null
+}
+
+/**
+ * The response to a correct password when a second step is needed: a
+ * short-lived challenge token, exchanged for a session at
+ * POST /api/auth/login/two-factor. Null when no second step is needed.
+ */
+export function loginChallenge(
+  user: { id: string; email: string; totpEnabledAt: Date | null },
+  merchant: { id: string; requireTwoFactor: boolean }
+) {
+  const step = twoFactorStep(user, merchant)
+
+  if (!step) return null
+
+  const claims: LoginChallengeClaims = {
+    userId: user.id,
+    email: user.email,
+    merchantId: merchant.id,
+    step,
+    purpose: 'two_factor'
+  }
+
+  return {
+    twoFactorRequired: true,
+    setupRequired: step === 'setup',
+    challengeToken: jwt.sign(claims, JWT_SECRET, { expiresIn: CHALLENGE_TTL_SECONDS })
+  }
+}
+
+/**
+ * Verify a login challenge token
+ */
+export function readLoginChallenge(token: unknown): Omit<LoginChallengeClaims, 'purpose'> {
+  if (typeof token !== 'string' || !token) {
+    throw badRequest('Challenge token is required')
+  }
+
+  try {
+    const { userId, email, merchantId, step, purpose } = jwt.verify(token, JWT_SECRET) as Partial<LoginChallengeClaims>
+
+    if (purpose === 'two_factor' && userId && email && merchantId && step) {
+      return { userId, email, merchantId, step }
+    }
+  } catch {
+    // Expired or tampered with; handled below
+  }
+
+  throw unauthorized('This sign in has expired - please start again')
+}
@@ -0,0 +1,149 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { badRequest, notFound } from '../middleware/errorHandler.js'
+import { emitWebhook } from './webhook-delivery.js'
+import { notifyMerchant } from './notifications.js'
+import { EffectivePlan, isUnlimited } from './plans.js'
+
+const MAX_THRESHOLDS = 5
+
+/**
+ * Try-ons at which a threshold (percent of the quota) is reached
+ */
+export function thresholdCount(includedTryons: number, threshold: number): number {
+  return Math.ceil((includedTryons * threshold) / 100)
+}
+
+/**
+ * Thresholds a usage count has reached
+ */
+export function reachedThresholds(thresholds: number[], includedTryons: number, tryonCount: number): number[] {
+  if (isUnlimited(includedTryons) || includedTryons <= 0) {
+    return []
+  }
+
+  return thresholds.filter(threshold => tryonCount >= thresholdCount(includedTryons, threshold))
+}
+
+/**
+ * Validate a list of alert thresholds: whole percentages from 1 to 100
+ */
+export function parseThresholds(input: unknown): number[] {
+  if (!Array.isArray(input) || input.length > MAX_THRESHOLDS ||
+      input.some(value => !Number.isInteger(value) || value < 1 || value > 100)) {
+    throw badRequest(`Thresholds must be a list of up to ${MAX_THRESHOLDS} whole percentages from 1 to 100`)
+  }
+
+  return [...new Set(input as number[])].sort((a, b) => a - b)
+}
+
+/**
+ * Send the alerts for thresholds a merchant's usage has just reached. Each
+ * threshold fires once per billing month, as an email, a dashboard
+ * notification, an analytics event and a usage.threshold_reached webhook.
+ */
+export async function evaluateUsageAlerts(
+  merchantId: string,
+  month: string,
+  tryonCount: number,
+  plan: EffectivePlan
+): Promise<void> {
+  const merchant = await prisma.merchant.findUnique({
+    where: { id: merchantId },
+    select: { usageAlertThresholds: true }
+  })
+
+  const reached = reachedThresholds(merchant?.usageAlertThresholds || [], plan.includedTryons, tryonCount)
+  if (reached.length === 0) {
+    return
+  }
+
+  const sent = await prisma.usageAlert.findMany({
+    where: { merchantId, month, threshold: { in: reached } },
+    select: { threshold: true }
+  })
+
+  for (const threshold of reached) {
+    if (sent.some(alert => alert.threshold === threshold)) continue
+
+    try {
+      await prisma.usageAlert.create({
+        data: { merchantId, month, threshold, tryonCount, includedTryons: plan.includedTryons }
+      })
+    } catch (error) {
+      // A concurrent increment claimed it
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') continue
+      throw error
+    }
+
+    await sendUsageAlert(merchantId, { month, threshold, tryonCount, plan })
+  }
+}
+
+/**
+ * Deliver one usage alert on every channel
+ */
+async function sendUsageAlert(
+  merchantId: string,
+  alert: { month: string; threshold: number; tryonCount: number; plan: EffectivePlan }
+): Promise<void> {
+  const { month, threshold, tryonCount, plan } = alert
+  const limit = plan.includedTryons
+
+  emitWebhook(merchantId, 'usage.threshold_reached', {
+    month,
+    threshold,
+    used: tryonCount,
+    limit,
+    plan: plan.id
+  })
+
+  await prisma.analyticsEvent.create({
+    data: {
+      merchantId,
+      eventType: 'USAGE_ALERT',
+      eventData: { month, threshold, used: tryonCount, limit, plan: plan.id }
+    }
+  })
+
+  await notifyMerchant(merchantId, {
+    type: 'USAGE_ALERT',
+    title: threshold >= 100
+      ? `You have used all ${limit.toLocaleString()} try-ons in your plan this month`
+      : `You have used ${threshold}% of your monthly try-ons`,
+    body: `Your store has generated ${tryonCount.toLocaleString()} of the ${limit.toLocaleString()} ` +
+      `try-ons included in your ${plan.name} plan for ${month}. ` +
+      'Review your overage setting or upgrade your plan to keep try-ons running.',
+    link: '/billing'
+  })
+}
+
+/**
+ * A merchant's alert thresholds
+ */
+export async function getUsageAlertThresholds(merchantId: string): Promise<number[]> {
+  const merchant = await prisma.merchant.findUnique({
+    where: { id: merchantId },
+    select: { usageAlertThresholds: true }
+  })
+
+  if (!merchant) {
+    throw notFound('Merchant not found')
+  }
+
+  return merchant.usageAlertThresholds
+}
+
+/**
+ * Replace a merchant's alert thresholds
+ */
+export async function updateUsageAlertThresholds(merchantId: string, input: unknown): Promise<number[]> {
+  const thresholds = parseThresholds(input)
+
+  await prisma.merchant.update({
+    where: { id: merchantId },
+    data: { usageAlertThresholds: thresholds }
+  })
+
+  return thresholds
+}
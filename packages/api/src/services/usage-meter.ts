@@ -0,0 +1,236 @@
+import crypto from 'crypto'
+import { Prisma, UsageReservation } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { ensureUsageRow, recordUsageCount } from './billing.js'
+import { billingMonth } from './invoices.js'
+import { isUnlimited } from './plans.js'
+import { allowanceExceeded, getUsageAllowance } from './overage.js'
+
+// Longer than a job can run with all its retries; expired units return to the quota
+const RESERVATION_TTL_MS = parseInt(process.env.USAGE_RESERVATION_TTL_MS || String(60 * 60 * 1000), 10)
+
+/**
+ * Request ID for idempotent metering: the client's Idempotency-Key header
+ * if it sent one, otherwise a fresh ID (the request is not deduplicated)
+ */
+export function resolveRequestId(header: string | string[] | undefined): string {
+  const value = Array.isArray(header) ? header[0] : header
+
+  if (value && value.length <= 255) {
+    return value
+  }
+
+  return crypto.randomUUID()
+}
+
+/**
+ * Request IDs for each unit of a reservation. A single unit uses the
+ * request ID as is; a batch gets one per unit.
+ */
+function unitRequestIds(requestId: string, quantity: number): string[] {
+  if (quantity === 1) return [requestId]
+  return Array.from({ length: quantity }, (_, index) => `${requestId}#${index}`)
+}
+
+/**
+ * Take `count` units from this month's allowance, or none if that would go
+ * over it. A single conditional UPDATE, so concurrent requests cannot
+ * both take the last unit.
+ */
+async function holdUnits(
+  tx: Prisma.TransactionClient,
+  merchantId: string,
+  month: string,
+  count: number,
+  limit: number
+): Promise<boolean> {
+  if (isUnlimited(limit)) {
+    await tx.usageTracking.update({
+      where: { merchantId_month: { merchantId, month } },
+      data: { reservedCount: { increment: count } }
+    })
+    return true
+  }
+
+  const updated = await tx.$executeRaw`
+    UPDATE usage_tracking
+    SET "reservedCount" = "reservedCount" + ${count}, "updatedAt" = NOW()
+    WHERE "merchantId" = ${merchantId}
+      AND month = ${month}
+      AND "tryonCount" + "reservedCount" + ${count} <= ${limit}
+  `
+
+  return updated === 1
+}
+
+/**
+ * Reservations for request IDs, in the same order
+ */
+async function findReservations(
+  client: Prisma.TransactionClient,
+  merchantId: string,
+  requestIds: string[]
+): Promise<UsageReservation[]> {
+  const reservations = await client.usageReservation.findMany({
+    where: { merchantId, requestId: { in: requestIds } }
+  })
+
+  return requestIds
+    .map(id => reservations.find(reservation => reservation.requestId === id))
+    .filter((reservation): reservation is UsageReservation => Boolean(reservation))
+}
+
+/**
+ * Reserve quota for `quantity` generations before starting them. Throws
+ * 429 if the month's allowance under the merchant's overage policy cannot
+ * cover all of them.
+ *
+ * Idempotent per request ID: repeating a request returns its existing
+ * reservations, in unit order, without taking more quota. Units released
+ * before a job was queued for them are taken again, so a retry can succeed;
+ * units whose job failed stay released.
+ */
+export async function reserveUsage(
+  merchantId: string,
+  requestId: string,
+  quantity: number = 1
+): Promise<UsageReservation[]> {
+  const month = billingMonth()
+  const requestIds = unitRequestIds(requestId, quantity)
+  const allowance = await getUsageAllowance(merchantId)
+
+  await ensureUsageRow(merchantId, month)
+
+  try {
+    return await prisma.$transaction(async tx => {
+      const existing = await tx.usageReservation.findMany({
+        where: { merchantId, requestId: { in: requestIds } },
+        include: { tryOnJob: { select: { id: true } } }
+      })
+      const released = existing.filter(reservation => reservation.status === 'RELEASED' && !reservation.tryOnJob)
+      const missing = requestIds.filter(id => !existing.some(reservation => reservation.requestId === id))
+      const needed = released.length + missing.length
+
+      if (needed > 0 && !(await holdUnits(tx, merchantId, month, needed, allowance.limit))) {
+        throw allowanceExceeded(allowance)
+      }
+
+      const expiresAt = new Date(Date.now() + RESERVATION_TTL_MS)
+
+      if (released.length > 0) {
+        await tx.usageReservation.updateMany({
+          where: { id: { in: released.map(reservation => reservation.id) }, status: 'RELEASED' },
+          data: { status: 'RESERVED', month, expiresAt, releasedAt: null }
+        })
+      }
+
+      if (missing.length > 0) {
+        await tx.usageReservation.createMany({
+          data: missing.map(id => ({ merchantId, requestId: id, month, expiresAt }))
+        })
+      }
+
+      return findReservations(tx, merchantId, requestIds)
+    })
+  } catch (error) {
+    // A concurrent request with the same ID won the insert; use its reservations
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return findReservations(prisma, merchantId, requestIds)
+    }
+    throw error
+  }
+}
+
+/**
+ * Count a reserved unit as used. A unit that expired while its job was
+ * still queued is counted too, since the try-on was delivered. Returns
+ * false if it was already committed.
+ */
+export async function commitUsage(reservationId: string): Promise<boolean> {
+  const result = await prisma.$transaction(async tx => {
+    const reservation = await tx.usageReservation.findUnique({ where: { id: reservationId } })
+
+    if (!reservation || reservation.status === 'COMMITTED') {
+      return null
+    }
+
+    const claimed = await tx.usageReservation.updateMany({
+      where: { id: reservationId, status: reservation.status },
+      data: { status: 'COMMITTED', committedAt: new Date() }
+    })
+
+    if (claimed.count !== 1) {
+      return null
+    }
+
+    const usage = await tx.usageTracking.update({
+      where: { merchantId_month: { merchantId: reservation.merchantId, month: reservation.month } },
+      data: {
+        tryonCount: { increment: 1 },
+        // A released unit was already returned to the quota
+        ...(reservation.status === 'RESERVED' && { reservedCount: { decrement: 1 } })
+      }
+    })
+
+    return { merchantId: reservation.merchantId, month: reservation.month, tryonCount: usage.tryonCount }
+  })
+
+  if (!result) {
+    return false
+  }
+
+  await recordUsageCount(result.merchantId, result.month, result.tryonCount)
+  return true
+}
+
+/**
+ * Return a reserved unit to the quota. Returns false if it was already
+ * committed or released.
+ */
+export async function releaseUsage(reservationId: string): Promise<boolean> {
+  return prisma.$transaction(async tx => {
+    const claimed = await tx.usageReservation.updateMany({
+      where: { id: reservationId, status: 'RESERVED' },
+      data: { status: 'RELEASED', releasedAt: new Date() }
+    })
+
+    if (claimed.count !== 1) {
+      return false
+    }
+
+    const reservation = await tx.usageReservation.findUniqueOrThrow({ where: { id: reservationId } })
+
+    await tx.usageTracking.update({
+      where: { merchantId_month: { merchantId: reservation.merchantId, month: reservation.month } },
+      data: { reservedCount: { decrement: 1 } }
+    })
+
+    return true
+  })
+}
+
+/**
+ * Release reservations whose generation never finished, e.g. because the
+ * server stopped mid-job and the job was not recovered
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+  const expired = await prisma.usageReservation.findMany({
+    where: {
+      status: 'RESERVED',
+      expiresAt: { lt: new Date() }
+    },
+    select: { id: true },
+    take: 100
+  })
+
+  let released = 0
+  for (const { id } of expired) {
+    if (await releaseUsage(id)) released++
+  }
+
+  if (released > 0) {
+    console.log(`♻ Released ${released} expired usage reservation(s)`)
+  }
+
+  return released
+}
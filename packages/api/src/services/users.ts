@@ -0,0 +1,361 @@
+import crypto from 'crypto'
+import bcrypt from 'bcryptjs'
+import { Prisma, UserTokenType } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { badRequest, forbidden, unauthorized } from '../middleware/errorHandler.js'
+import { validatePassword } from '../utils/validation.js'
+import { sendMail } from './mailer.js'
+import { revokeAllSessions } from './sessions.js'
+
+const DASHBOARD_URL = process.env.DASHBOARD_URL || 'http://localhost:5173'
+const EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48', 10)
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10)
+
+// User fields returned to the dashboard. Never includes credentials.
+export const userProfileSelect = {
+  id: true,
+  email: true,
+  name: true,
+  emailVerifiedAt: true,
+  totpEnabledAt: true,
+  createdAt: true,
+  lastLoginAt: true
+} as const
+
+/**
+ * Hash a password for storage
+ */
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, 10)
+}
+
+/**
+ * Merchants a user belongs to, oldest membership first
+ */
+export async function listMemberships(userId: string) {
+  const memberships = await prisma.membership.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      role: true,
+      merchant: { select: { id: true, businessName: true } }
+    }
+  })
+
+  return memberships.map(membership => ({
+    merchantId: membership.merchant.id,
+    businessName: membership.merchant.businessName,
+    role: membership.role
+  }))
+}
+
+// ============================================================================
+// LEGACY MERCHANT LOGINS
+// ============================================================================
+
+/**
+ * Give a merchant created before team accounts an owner: a User with the
+ * merchant's email and password. Returns the owner's user ID, or null if
+ * that email already belongs to another user.
+ */
+export async function ensureOwnerUser(
+  merchant: { id: string; email: string; password: string; contactName?: string | null }
+): Promise<string | null> {
+  const owner = await prisma.membership.findFirst({
+    where: { merchantId: merchant.id, role: 'OWNER' },
+    select: { userId: true }
+  })
+
+  if (owner) return owner.userId
+
+  const email = merchant.email.toLowerCase()
+  const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } })
+
+  // Someone else signs in with this email; they can be invited instead
+  if (existing) return null
+
+  try {
+    const user = await prisma.user.create({
+      data: {
+        email,
+        password: merchant.password,
+        name: merchant.contactName,
+        memberships: { create: { merchantId: merchant.id, role: 'OWNER' } }
+      }
+    })
+
+    return user.id
+  } catch (error) {
+    // A concurrent login created it
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return (await prisma.user.findUnique({ where: { email }, select: { id: true } }))?.id ?? null
+    }
+    throw error
+  }
+}
+
+/**
+ * Create owner users for every merchant that has none. Safe to run more
+ * than once.
+ */
+export async function migrateMerchantOwners(): Promise<{ created: number; skipped: string[] }> {
+  const merchants = await prisma.merchant.findMany({
+    where: { memberships: { none: { role: 'OWNER' } } },
+    select: { id: true, email: true, password: true, contactName: true }
+  })
+
+  let created = 0
+  const skipped: string[] = []
+
+  for (const merchant of merchants) {
+    if (await ensureOwnerUser(merchant)) {
+      created++
+    } else {
+      skipped.push(merchant.email)
+    }
+  }
+
+  return { created, skipped }
+}
+
+// ============================================================================
+// SIGN IN
+// ============================================================================
+
+/**
+ * Check an email and password and return the user. A merchant that has not
+ * been migrated yet gets its owner user on first sign in.
+ */
+export async function authenticateUser(email: string, password: string) {
+  const normalizedEmail = email.toLowerCase()
+
+  let user = await prisma.user.findUnique({ where: { email: normalizedEmail } })
+
+  if (!user) {
+    const merchant = await prisma.merchant.findUnique({
+      where: { email: normalizedEmail },
+      select: { id: true, email: true, password: true, contactName: true }
+    })
+
+    if (merchant && await bcrypt.compare(password, merchant.password) && await ensureOwnerUser(merchant)) {
+      user = await prisma.user.findUnique({ where: { email: normalizedEmail } })
+    }
+  }
+
+  if (!user || !await bcrypt.compare(password, user.password)) {
+    throw unauthorized('Invalid email or password')
+  }
+
+  return user
+}
+
+/**
+ * The merchant a user signs in to: the one requested, or their first
+ */
+export async function chooseMembership(userId: string, merchantId?: string) {
+  const memberships = await listMemberships(userId)
+
+  if (memberships.length === 0) {
+    throw forbidden('This login is not a member of any account')
+  }
+
+  const membership = merchantId
+    ? memberships.find(candidate => candidate.merchantId === merchantId)
+    : memberships[0]
+
+  if (!membership) {
+    throw forbidden('You are not a member of that account')
+  }
+
+  return { membership, memberships }
+}
+
+// ============================================================================
+// EMAILED TOKENS
+// ============================================================================
+
+function hashUserToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Issue a one-time token of a type, replacing any unused one. Only its hash
+ * is stored, so the returned value is the one copy.
+ */
+async function issueUserToken(userId: string, type: UserTokenType, ttlMs: number): Promise<string> {
+  const token = crypto.randomBytes(32).toString('hex')
+
+  await prisma.$transaction([
+    prisma.userToken.deleteMany({ where: { userId, type, usedAt: null } }),
+    prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashUserToken(token),
+        expiresAt: new Date(Date.now() + ttlMs)
+      }
+    })
+  ])
+
+  return token
+}
+
+/**
+ * Use up a one-time token and return its user ID. A token works once.
+ */
+async function consumeUserToken(token: unknown, type: UserTokenType, invalidMessage: string): Promise<string> {
+  if (typeof token !== 'string' || !token) {
+    throw badRequest('Token is required')
+  }
+
+  const userToken = await prisma.userToken.findUnique({
+    where: { tokenHash: hashUserToken(token) }
+  })
+
+  if (!userToken || userToken.type !== type || userToken.usedAt || userToken.expiresAt <= new Date()) {
+    throw badRequest(invalidMessage)
+  }
+
+  // Claim it, so two requests with the same token cannot both succeed
+  const claimed = await prisma.userToken.updateMany({
+    where: { id: userToken.id, usedAt: null },
+    data: { usedAt: new Date() }
+  })
+
+  if (claimed.count === 0) {
+    throw badRequest(invalidMessage)
+  }
+
+  return userToken.userId
+}
+
+// ============================================================================
+// EMAIL VERIFICATION
+// ============================================================================
+
+/**
+ * Email a user a link to verify their address. A failed email is logged.
+ */
+export async function sendVerificationEmail(user: { id: string; email: string }): Promise<void> {
+  const token = await issueUserToken(user.id, 'EMAIL_VERIFICATION', EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000)
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email for Rendered Fits',
+    text: 'Confirm this is your email address for your Rendered Fits login:\n' +
+      `${DASHBOARD_URL}/verify-email?token=${token}\n\n` +
+      `The link works for ${EMAIL_VERIFICATION_TTL_HOURS} hours. If you did not sign up, ignore this email.`
+  }).catch(error => console.error(`Verification email to ${user.email} failed:`, error))
+}
+
+/**
+ * Mark a user's email verified from an emailed token
+ */
+export async function verifyEmail(token: unknown): Promise<void> {
+  const userId = await consumeUserToken(token, 'EMAIL_VERIFICATION', 'This verification link is invalid or has expired')
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { emailVerifiedAt: new Date() }
+  })
+}
+
+// ============================================================================
+// PASSWORDS
+// ============================================================================
+
+/**
+ * Store a new password and sign every session out, except
+ * `keepSessionId` if given
+ */
+async function setPassword(userId: string, password: string, keepSessionId?: string) {
+  validatePassword(password)
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { password: await hashPassword(password), passwordChangedAt: new Date() },
+    select: { id: true, email: true }
+  })
+
+  await revokeAllSessions(userId, keepSessionId)
+
+  return user
+}
+
+/**
+ * Email a password reset link, if the email has a login. Says nothing
+ * either way, so the response cannot reveal who has an account.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const normalizedEmail = email.toLowerCase()
+
+  let user = await prisma.user.findUnique({ where: { email: normalizedEmail }, select: { id: true } })
+
+  if (!user) {
+    // A merchant from before team accounts gets its owner user first
+    const merchant = await prisma.merchant.findUnique({
+      where: { email: normalizedEmail },
+      select: { id: true, email: true, password: true, contactName: true }
+    })
+    const userId = merchant ? await ensureOwnerUser(merchant) : null
+    user = userId ? { id: userId } : null
+  }
+
+  if (!user) return
+
+  const token = await issueUserToken(user.id, 'PASSWORD_RESET', PASSWORD_RESET_TTL_MINUTES * 60 * 1000)
+
+  await sendMail({
+    to: normalizedEmail,
+    subject: 'Reset your Rendered Fits password',
+    text: 'Someone asked to reset the password for your Rendered Fits login. Choose a new one here:\n' +
+      `${DASHBOARD_URL}/reset-password?token=${token}\n\n` +
+      `The link works for ${PASSWORD_RESET_TTL_MINUTES} minutes. If it was not you, ignore this email; ` +
+      'your password has not changed.'
+  }).catch(error => console.error(`Password reset email to ${normalizedEmail} failed:`, error))
+}
+
+/**
+ * Set a new password from an emailed reset token. Every session is signed
+ * out. The link also proves the email, so it counts as verified. Returns
+ * the user whose password changed.
+ */
+export async function resetPassword(token: unknown, password: unknown): Promise<{ id: string; email: string }> {
+  if (typeof password !== 'string' || !password) {
+    throw badRequest('Password is required')
+  }
+  validatePassword(password)
+
+  const userId = await consumeUserToken(token, 'PASSWORD_RESET', 'This reset link is invalid or has expired - request a new one')
+
+  const user = await setPassword(userId, password)
+
+  await prisma.user.updateMany({
+    where: { id: userId, emailVerifiedAt: null },
+    data: { emailVerifiedAt: new Date() }
+  })
+
+  return user
+}
+
+/**
+ * Change a signed-in user's password. Every other session is signed out.
+ */
+export async function changePassword(
+  userId: string,
+  currentPassword: unknown,
+  newPassword: unknown,
+  currentSessionId?: string
+): Promise<void> {
+  if (typeof currentPassword !== 'string' || typeof newPassword !== 'string' || !currentPassword || !newPassword) {
+    throw badRequest('Current and new password are required')
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { password: true } })
+
+  if (!user || !await bcrypt.compare(currentPassword, user.password)) {
+    throw badRequest('Current password is incorrect')
+  }
+
+  await setPassword(userId, newPassword, currentSessionId)
+}
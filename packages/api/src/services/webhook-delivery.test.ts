@@ -0,0 +1,194 @@
+import { fakePrisma } from '../test/prisma.js'
+import { describe, it, before, after, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'node:crypto'
+import { AddressInfo } from 'node:net'
+import http from 'node:http'
+import { Webhook } from '@prisma/client'
+import {
+  SIGNATURE_HEADER,
+  assertPublicWebhookUrl,
+  deliverWebhook,
+  isPrivateAddress,
+  pollWebhooks,
+  signWebhookPayload
+} from './webhook-delivery.js'
+
+let webhookUrl: string | null = null
+let updates: { where: { id: string }; data: Partial<Webhook> }[] = []
+
+fakePrisma.merchant = {
+  findUnique: async () => ({ webhookUrl, webhookSecret: 'whsec_test' })
+}
+fakePrisma.webhook = {
+  update: async (args: { where: { id: string }; data: Partial<Webhook> }) => {
+    updates.push(args)
+    return args.data
+  }
+}
+
+function webhook(attempts = 0): Webhook {
+  return {
+    id: 'wh_1',
+    merchantId: 'merchant_1',
+    eventType: 'tryon.completed',
+    payload: { id: 'evt_1', type: 'tryon.completed', data: { tryOnId: 'tryon_1' } },
+    attempts,
+    delivered: false,
+    nextAttemptAt: null
+  } as unknown as Webhook
+}
+
+describe('signWebhookPayload', () => {
+  it('signs as documented for merchants to verify', () => {
+    const header = signWebhookPayload('whsec_test', '{"a":1}', 1700000000)
+    const [t, v1] = header.split(',').map(part => part.split('=')[1])
+    const expected = crypto.createHmac('sha256', 'whsec_test').update(`${t}.{"a":1}`).digest('hex')
+
+    assert.equal(t, '1700000000')
+    assert.equal(v1, expected)
+  })
+})
+
+describe('webhook addresses', () => {
+  it('treats loopback, private, link-local and mapped addresses as private', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254',
+      '100.64.0.1', '0.0.0.0', '::1', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1']) {
+      assert.equal(isPrivateAddress(address), true, address)
+    }
+  })
+
+  it('treats public addresses as public', () => {
+    for (const address of ['8.8.8.8', '93.184.216.34', '2606:4700::1111']) {
+      assert.equal(isPrivateAddress(address), false, address)
+    }
+  })
+
+  it('rejects URLs at private addresses, including names resolving to them', async () => {
+    for (const url of ['http://169.254.169.254/latest/meta-data', 'https://[::1]/hook', 'https://localhost/hook']) {
+      await assert.rejects(assertPublicWebhookUrl(url), /public address/, url)
+    }
+  })
+
+  it('rejects URLs that are not http(s)', async () => {
+    await assert.rejects(assertPublicWebhookUrl('not a url'), /valid webhook URL/)
+    await assert.rejects(assertPublicWebhookUrl('ftp://8.8.8.8/hook'), /HTTPS/)
+  })
+
+  it('accepts public addresses', async () => {
+    await assertPublicWebhookUrl('https://8.8.8.8/hook')
+  })
+})
+
+describe('deliverWebhook', () => {
+  beforeEach(() => {
+    updates = []
+  })
+
+  it('does not send to a private address, and retries later', async () => {
+    webhookUrl = 'http://127.0.0.1:9/hook'
+    const before = Date.now()
+
+    await deliverWebhook(webhook())
+
+    const { data } = updates[0]
+    assert.equal(data.delivered, false)
+    assert.equal(data.attempts, 1)
+    assert.match(String(data.errorMessage), /public address/)
+    assert.ok(data.nextAttemptAt && data.nextAttemptAt.getTime() >= before + 30000)
+  })
+
+  it('backs off exponentially and gives up after 8 attempts', async () => {
+    webhookUrl = 'http://127.0.0.1:9/hook'
+    const before = Date.now()
+
+    await deliverWebhook(webhook(3))
+    await deliverWebhook(webhook(7))
+
+    assert.ok(updates[0].data.nextAttemptAt!.getTime() >= before + 4 * 30000)
+    assert.equal(updates[1].data.attempts, 8)
+    assert.equal(updates[1].data.nextAttemptAt, null)
+  })
+
+  describe('to a reachable endpoint', () => {
+    let server: http.Server
+    let received: { headers: http.IncomingHttpHeaders; body: string }[] = []
+
+    before(async () => {
+      process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true'
+      server = http.createServer((req, res) => {
+        let body = ''
+        req.on('data', chunk => { body += chunk })
+        req.on('end', () => {
+          received.push({ headers: req.headers, body })
+          res.statusCode = req.url === '/redirect' ? 302 : 200
+          res.setHeader('Location', 'http://169.254.169.254/')
+          res.end()
+        })
+      })
+      server.listen(0)
+      await new Promise(resolve => server.once('listening', resolve))
+    })
+
+    after(() => {
+      delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS
+      server.close()
+    })
+
+    beforeEach(() => {
+      received = []
+    })
+
+    it('sends the payload with a verifiable signature', async () => {
+      webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`
+
+      await deliverWebhook(webhook())
+
+      const [{ headers, body }] = received
+      const timestamp = Number(String(headers[SIGNATURE_HEADER.toLowerCase()]).split(',')[0].split('=')[1])
+
+      assert.equal(headers[SIGNATURE_HEADER.toLowerCase()], signWebhookPayload('whsec_test', body, timestamp))
+      assert.deepEqual(JSON.parse(body), webhook().payload)
+      assert.equal(updates[0].data.delivered, true)
+      assert.equal(updates[0].data.nextAttemptAt, null)
+    })
+
+    it('does not follow redirects', async () => {
+      webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/redirect`
+
+      await deliverWebhook(webhook())
+
+      assert.equal(received.length, 1)
+      assert.equal(updates[0].data.delivered, false)
+      assert.equal(updates[0].data.responseCode, 302)
+    })
+  })
+})
+
+describe('pollWebhooks', () => {
+  it('reschedules a delivery that crashes after it was claimed', async () => {
+    updates = []
+    const merchant = fakePrisma.merchant
+    fakePrisma.merchant = {
+      findUnique: async () => {
+        throw new Error('database went away')
+      }
+    }
+    fakePrisma.webhook = {
+      ...(fakePrisma.webhook as object),
+      findMany: async () => [{ ...webhook(2), nextAttemptAt: new Date() }],
+      updateMany: async () => ({ count: 1 })
+    }
+
+    try {
+      await pollWebhooks()
+    } finally {
+      fakePrisma.merchant = merchant
+    }
+
+    const { data } = updates[0]
+    assert.equal(data.attempts, 3)
+    assert.equal(data.errorMessage, 'database went away')
+    assert.ok(data.nextAttemptAt instanceof Date)
+  })
+})
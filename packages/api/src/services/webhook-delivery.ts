@@ -0,0 +1,343 @@
+import crypto from 'crypto'
+import dns from 'dns/promises'
+import net from 'net'
+import fetch from 'node-fetch'
+import { Prisma, Webhook } from '@prisma/client'
+import { prisma } from '../utils/prisma.js'
+import { badRequest } from '../middleware/errorHandler.js'
+import { getEffectivePlan } from './plans.js'
+
+const POLL_INTERVAL_MS = parseInt(process.env.WEBHOOK_WORKER_POLL_MS || '5000', 10)
+const DELIVERY_TIMEOUT_MS = 10000
+const MAX_ATTEMPTS = 8
+const BASE_RETRY_DELAY_MS = 30000 // 30s, 1m, 2m, 4m ... capped below
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000 // 6 hours
+
+// Loopback, private, link-local (cloud metadata), shared, reserved and
+// multicast ranges; IPv4-mapped IPv6 addresses are checked as IPv4
+const PRIVATE_NETWORKS = new net.BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6')
+}
+
+export const WEBHOOK_EVENTS = [
+  'tryon.completed',
+  'tryon.failed',
+  'conversion.recorded',
+  'usage.threshold_reached'
+] as const
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number]
+
+export const SIGNATURE_HEADER = 'X-RenderedFits-Signature'
+
+/**
+ * Generate a signing secret for a merchant's webhook endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`
+}
+
+/**
+ * Signature header value: "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>"
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')
+
+  return `t=${timestamp},v1=${signature}`
+}
+
+/**
+ * Whether an IP address is in a range webhooks may not be sent to
+ */
+export function isPrivateAddress(address: string): boolean {
+  return PRIVATE_NETWORKS.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Reject webhook URLs that are not http(s), or whose host resolves to a
+ * private address, so endpoints cannot reach our own network. Checked when
+ * the URL is saved and again before each delivery, as DNS can change.
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw badRequest('A valid webhook URL is required')
+  }
+
+  if (parsed.protocol !== 'https:' && (parsed.protocol !== 'http:' || process.env.NODE_ENV === 'production')) {
+    throw badRequest('Webhook URL must use HTTPS')
+  }
+
+  // Local receivers in development
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true') return
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  let addresses: string[]
+  try {
+    addresses = net.isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(({ address }) => address)
+  } catch {
+    throw badRequest(`Webhook URL host ${host} could not be resolved`)
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw badRequest('Webhook URL must point to a public address')
+  }
+}
+
+/**
+ * Delay before the next attempt, doubling after each failure
+ */
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Queue an event for delivery to the merchant's webhook endpoint.
+ * Returns null when the merchant has no endpoint configured, or their
+ * plan no longer includes webhooks.
+ */
+export async function enqueueWebhook(
+  merchantId: string,
+  eventType: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<Webhook | null> {
+  const merchant = await prisma.merchant.findUnique({
+    where: { id: merchantId },
+    select: { webhookUrl: true }
+  })
+
+  if (!merchant?.webhookUrl) {
+    return null
+  }
+
+  if (!(await getEffectivePlan(merchantId)).features.webhooks) {
+    return null
+  }
+
+  const id = `evt_${crypto.randomBytes(12).toString('hex')}`
+
+  return prisma.webhook.create({
+    data: {
+      merchantId,
+      eventType,
+      payload: {
+        id,
+        type: eventType,
+        createdAt: new Date().toISOString(),
+        data
+      } as Prisma.InputJsonObject,
+      nextAttemptAt: new Date()
+    }
+  })
+}
+
+/**
+ * Queue a webhook without blocking the caller; failures are only logged
+ */
+export function emitWebhook(
+  merchantId: string,
+  eventType: WebhookEventType,
+  data: Record<string, unknown>
+): void {
+  enqueueWebhook(merchantId, eventType, data).catch(error =>
+    console.error(`Failed to queue ${eventType} webhook:`, error)
+  )
+}
+
+/**
+ * POST a webhook to the merchant and record the attempt
+ */
+export async function deliverWebhook(webhook: Webhook): Promise<Webhook> {
+  const merchant = await prisma.merchant.findUnique({
+    where: { id: webhook.merchantId },
+    select: { webhookUrl: true, webhookSecret: true }
+  })
+
+  const attempts = webhook.attempts + 1
+  let responseCode: number | null = null
+  let errorMessage: string | null = null
+
+  if (!merchant?.webhookUrl) {
+    errorMessage = 'No webhook URL configured'
+  } else {
+    const body = JSON.stringify(webhook.payload)
+    const timestamp = Math.floor(Date.now() / 1000)
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS)
+
+    try {
+      await assertPublicWebhookUrl(merchant.webhookUrl)
+
+      // Redirects are not followed, as they could lead to a private address
+      const response = await fetch(merchant.webhookUrl, {
+        method: 'POST',
+        body,
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'RenderedFits-Webhooks/1.0',
+          'X-RenderedFits-Event': webhook.eventType,
+          'X-RenderedFits-Delivery': webhook.id,
+          ...(merchant.webhookSecret && {
+            [SIGNATURE_HEADER]: signWebhookPayload(merchant.webhookSecret, body, timestamp)
+          })
+        }
+      })
+
+      responseCode = response.status
+      if (!response.ok) {
+        errorMessage = `HTTP ${response.status} ${response.statusText}`
+      }
+    } catch (error) {
+      errorMessage = controller.signal.aborted
+        ? `Timed out after ${DELIVERY_TIMEOUT_MS}ms`
+        : (error as Error).message
+    } finally {
+      clearTimeout(timeout)
+    }
+  }
+
+  const delivered = errorMessage === null
+  const giveUp = !delivered && attempts >= MAX_ATTEMPTS
+
+  if (!delivered) {
+    console.warn(`⚠ Webhook ${webhook.id} (${webhook.eventType}) attempt ${attempts} failed: ${errorMessage}`)
+  }
+
+  return prisma.webhook.update({
+    where: { id: webhook.id },
+    data: {
+      attempts,
+      lastAttemptAt: new Date(),
+      responseCode,
+      errorMessage,
+      delivered,
+      deliveredAt: delivered ? new Date() : null,
+      nextAttemptAt: delivered || giveUp ? null : new Date(Date.now() + retryDelay(attempts))
+    }
+  })
+}
+
+/**
+ * Send a webhook again now, whatever its current state
+ */
+export async function redeliverWebhook(webhookId: string, merchantId: string): Promise<Webhook | null> {
+  const webhook = await prisma.webhook.findFirst({
+    where: {
+      id: webhookId,
+      merchantId
+    }
+  })
+
+  if (!webhook) {
+    return null
+  }
+
+  return deliverWebhook(webhook)
+}
+
+// ============================================================================
+// WORKER LOOP
+// ============================================================================
+
+let pollTimer: NodeJS.Timeout | null = null
+let polling = false
+
+/**
+ * Count a crashed delivery as a failed attempt and queue the retry. The
+ * claim cleared nextAttemptAt, so without this the row is never sent.
+ */
+async function rescheduleWebhook(webhook: Webhook, error: unknown): Promise<void> {
+  console.error(`Webhook ${webhook.id} delivery crashed:`, error)
+
+  const attempts = webhook.attempts + 1
+
+  await prisma.webhook.update({
+    where: { id: webhook.id },
+    data: {
+      attempts,
+      lastAttemptAt: new Date(),
+      errorMessage: error instanceof Error ? error.message : String(error),
+      nextAttemptAt: attempts >= MAX_ATTEMPTS ? null : new Date(Date.now() + retryDelay(attempts))
+    }
+  }).catch(updateError =>
+    console.error(`Webhook ${webhook.id} could not be rescheduled:`, updateError)
+  )
+}
+
+/**
+ * Deliver webhooks whose next attempt is due
+ */
+export async function pollWebhooks(): Promise<void> {
+  if (polling) return
+  polling = true
+
+  try {
+    const due = await prisma.webhook.findMany({
+      where: {
+        delivered: false,
+        nextAttemptAt: { lte: new Date() }
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: 10
+    })
+
+    for (const webhook of due) {
+      // Claim by clearing nextAttemptAt, so another instance skips it
+      const claimed = await prisma.webhook.updateMany({
+        where: {
+          id: webhook.id,
+          nextAttemptAt: webhook.nextAttemptAt
+        },
+        data: { nextAttemptAt: null }
+      })
+
+      if (claimed.count !== 1) continue
+
+      await deliverWebhook(webhook).catch(error => rescheduleWebhook(webhook, error))
+    }
+  } catch (error) {
+    console.error('Webhook worker poll failed:', error)
+  } finally {
+    polling = false
+  }
+}
+
+/**
+ * Start the background worker that delivers queued webhooks
+ */
+export function startWebhookWorker(): void {
+  if (pollTimer) return
+
+  pollTimer = setInterval(() => {
+    pollWebhooks()
+  }, POLL_INTERVAL_MS)
+
+  console.log('📬 Webhook delivery worker started')
+}
+
+/**
+ * Stop delivering webhooks. Due deliveries are picked up on the next start.
+ */
+export function stopWebhookWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer)
+    pollTimer = null
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * In-memory stand-in for the Prisma client, so unit tests run without a
+ * database or the Prisma engine. utils/prisma.ts reuses a client already on
+ * globalThis, so import this before the modules under test; each test file
+ * gives it the models and methods its code calls.
+ */
+export const fakePrisma: Record<string, unknown> = {}
+
+;(globalThis as { prisma?: unknown }).prisma = fakePrisma
@@ -38,7 +38,8 @@ export interface RevenueStats {
   total: number
   average: number
   highest: number
-  currency: string
+  currency: string // Merchant's reporting currency
+  missingRates: string[] // Order currencies left out of the totals for lack of an exchange rate
 }
 
 export interface ProductPerformance {
@@ -67,6 +68,7 @@ export interface ConversionRecord {
   tryonId: string
   orderId: string
   orderValue: number
+  currency: string
   convertedAt: string
   productId: string
   customerId: string
@@ -0,0 +1,19 @@
+/**
+ * Express "trust proxy" setting from TRUST_PROXY: true, false, a number of
+ * proxy hops, or addresses/subnets ("loopback, 10.0.0.0/8"). Unset, one hop
+ * is trusted in production (the hosting load balancer) and none otherwise.
+ * Without it req.ip is the proxy's address, shared by every client.
+ */
+export function trustProxySetting(
+  value: string | undefined = process.env.TRUST_PROXY,
+  production = process.env.NODE_ENV === 'production'
+): boolean | number | string {
+  const setting = value?.trim()
+
+  if (!setting) return production ? 1 : false
+  if (setting === 'true') return true
+  if (setting === 'false') return false
+  if (/^\d+$/.test(setting)) return parseInt(setting, 10)
+
+  return setting
+}
@@ -1,14 +1,33 @@
-import { Routes, Route, Navigate } from 'react-router-dom'
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom'
 import { Layout } from './components/Layout'
-import { Login } from './pages/Login'
+import { Login, ResetPassword, VerifyEmail } from './pages/Login'
+import { AcceptInvitation } from './pages/AcceptInvitation'
 import { Overview } from './pages/Overview'
 import { Products } from './pages/Products'
 import { Settings } from './pages/Settings'
 import { Billing } from './pages/Billing'
+import { ApiKeys } from './pages/ApiKeys'
+import { Team } from './pages/Team'
+import { Account } from './pages/Account'
+import { AuditLog } from './pages/AuditLog'
 import { useAuth } from './hooks/useAuth'
 
 export default function App() {
   const { isAuthenticated } = useAuth()
+  const location = useLocation()
+
+  // Emailed links work whether or not someone is signed in
+  if (location.pathname === '/accept-invitation') {
+    return <AcceptInvitation />
+  }
+
+  if (location.pathname === '/reset-password') {
+    return <ResetPassword />
+  }
+
+  if (location.pathname === '/verify-email') {
+    return <VerifyEmail />
+  }
 
   if (!isAuthenticated) {
     return <Login />
@@ -22,6 +41,10 @@ export default function App() {
         <Route path="/products" element={<Products />} />
         <Route path="/settings" element={<Settings />} />
         <Route path="/billing" element={<Billing />} />
+        <Route path="/api-keys" element={<ApiKeys />} />
+        <Route path="/team" element={<Team />} />
+        <Route path="/account" element={<Account />} />
+        <Route path="/audit" element={<AuditLog />} />
       </Routes>
     </Layout>
   )
@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Bell } from 'lucide-react'
+import { api } from '../lib/api'
+
+interface Notification {
+  id: string
+  type: 'USAGE_ALERT' | 'TRIAL_REMINDER' | 'TRIAL_ENDED' | 'SECURITY_ALERT'
+  title: string
+  body: string
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+/**
+ * Bell in the top bar with the merchant's usage and trial notifications
+ */
+export function NotificationsMenu() {
+  const queryClient = useQueryClient()
+  const [open, setOpen] = useState(false)
+
+  const { data } = useQuery<{ notifications: Notification[]; unread: number }>({
+    queryKey: ['notifications'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/notifications')
+      return data
+    },
+    refetchInterval: 60 * 1000,
+  })
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      await api.post('/api/notifications/read', { ids })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] })
+    },
+  })
+
+  const notifications = data?.notifications || []
+  const unread = data?.unread || 0
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-muted-foreground hover:text-foreground transition-colors"
+        aria-label="Notifications"
+      >
+        <Bell className="w-4 h-4" />
+        {unread > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4 text-center">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-muted border border-border rounded-lg shadow-lg z-10">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <span className="text-sm font-semibold">Notifications</span>
+            {unread > 0 && (
+              <button
+                onClick={() => markReadMutation.mutate(undefined)}
+                className="text-xs text-primary font-medium hover:underline"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto divide-y divide-border">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-muted-foreground text-center">No notifications yet</p>
+            ) : (
+              notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`px-4 py-3 text-sm ${notification.readAt ? 'text-muted-foreground' : ''}`}
+                >
+                  <div className="font-medium">{notification.title}</div>
+                  <p className="text-muted-foreground mt-1">{notification.body}</p>
+                  <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
+                    <span>{new Date(notification.createdAt).toLocaleString()}</span>
+                    {notification.link && (
+                      <Link
+                        to={notification.link}
+                        onClick={() => {
+                          setOpen(false)
+                          if (!notification.readAt) markReadMutation.mutate([notification.id])
+                        }}
+                        className="text-primary font-medium hover:underline"
+                      >
+                        View
+                      </Link>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
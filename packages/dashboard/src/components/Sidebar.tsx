@@ -1,15 +1,21 @@
 import { Link, useLocation } from 'react-router-dom'
-import { LayoutDashboard, Package, Settings, CreditCard, Sparkles } from 'lucide-react'
+import { LayoutDashboard, Package, Settings, CreditCard, KeyRound, Users, ScrollText, Sparkles } from 'lucide-react'
+import { useAuth, Permission } from '../hooks/useAuth'
 
-const navigation = [
-  { name: 'Overview', href: '/overview', icon: LayoutDashboard },
-  { name: 'Products', href: '/products', icon: Package },
-  { name: 'Settings', href: '/settings', icon: Settings },
-  { name: 'Billing', href: '/billing', icon: CreditCard },
+// Pages are hidden from roles that cannot use them
+const navigation: { name: string; href: string; icon: typeof LayoutDashboard; permission: Permission }[] = [
+  { name: 'Overview', href: '/overview', icon: LayoutDashboard, permission: 'analytics' },
+  { name: 'Products', href: '/products', icon: Package, permission: 'catalog' },
+  { name: 'Settings', href: '/settings', icon: Settings, permission: 'settings' },
+  { name: 'Billing', href: '/billing', icon: CreditCard, permission: 'billing' },
+  { name: 'API Keys', href: '/api-keys', icon: KeyRound, permission: 'apiKeys' },
+  { name: 'Team', href: '/team', icon: Users, permission: 'team' },
+  { name: 'Audit Log', href: '/audit', icon: ScrollText, permission: 'audit' },
 ]
 
 export function Sidebar() {
   const location = useLocation()
+  const { can } = useAuth()
 
   return (
     <div className="w-64 bg-muted border-r border-border flex flex-col">
@@ -19,7 +25,7 @@ export function Sidebar() {
       </div>
 
       <nav className="flex-1 px-3 py-4 space-y-1">
-        {navigation.map((item) => {
+        {navigation.filter((item) => can(item.permission)).map((item) => {
           const isActive = location.pathname === item.href
           return (
             <Link
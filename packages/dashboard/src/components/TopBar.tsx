@@ -1,19 +1,63 @@
-import { LogOut, User } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { useQueryClient } from '@tanstack/react-query'
+import { isAxiosError } from 'axios'
+import { LogOut, User, UserCog } from 'lucide-react'
 import { useAuth } from '../hooks/useAuth'
+import { NotificationsMenu } from './NotificationsMenu'
 
 export function TopBar() {
-  const { merchant, logout } = useAuth()
+  const { merchant, switchMerchant, logout } = useAuth()
+  const queryClient = useQueryClient()
+  const memberships = merchant?.memberships || []
+
+  const handleSwitch = async (merchantId: string) => {
+    try {
+      await switchMerchant(merchantId)
+      // Everything cached belongs to the previous merchant
+      queryClient.clear()
+    } catch (err) {
+      // e.g. the team requires two-factor and this login has none
+      alert((isAxiosError(err) && err.response?.data?.error) || 'Could not switch account')
+    }
+  }
 
   return (
     <header className="h-16 border-b border-border px-6 flex items-center justify-between bg-muted">
       <div className="flex-1" />
 
       <div className="flex items-center gap-4">
+        {/* Notifications are for signed-in members; API key sessions have none */}
+        {merchant?.token && <NotificationsMenu />}
+
         <div className="flex items-center gap-2 text-sm">
           <User className="w-4 h-4 text-muted-foreground" />
-          <span className="text-foreground font-medium">{merchant?.businessName || 'Merchant'}</span>
+          {memberships.length > 1 ? (
+            <select
+              value={merchant?.id}
+              onChange={(e) => handleSwitch(e.target.value)}
+              className="bg-transparent text-foreground font-medium focus:outline-none"
+            >
+              {memberships.map((membership) => (
+                <option key={membership.merchantId} value={membership.merchantId}>
+                  {membership.businessName}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span className="text-foreground font-medium">{merchant?.businessName || 'Merchant'}</span>
+          )}
         </div>
 
+        {merchant?.token && (
+          <Link
+            to="/account"
+            className="flex items-center gap-2 px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <UserCog className="w-4 h-4" />
+            Account
+          </Link>
+        )}
+
         <button
           onClick={logout}
           className="flex items-center gap-2 px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
@@ -0,0 +1,55 @@
+import { Link } from 'react-router-dom'
+import { AlertCircle, Clock } from 'lucide-react'
+import { useSubscription } from '../hooks/usePlans'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Trial countdown across the top of every page, with a link to choose a plan
+ */
+export function TrialBanner() {
+  const { data: subscription } = useSubscription()
+
+  if (subscription?.status === 'TRIAL_EXPIRED') {
+    return (
+      <div className="flex items-center justify-between gap-4 px-6 py-2 bg-red-500/10 border-b border-red-500/20 text-sm text-red-500">
+        <span className="flex items-center gap-2">
+          <AlertCircle className="w-4 h-4" />
+          Your free trial has ended and try-ons are paused on your store.
+        </span>
+        <Link
+          to="/billing"
+          className="px-3 py-1 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors"
+        >
+          Choose a plan
+        </Link>
+      </div>
+    )
+  }
+
+  if (subscription?.status !== 'TRIAL' || !subscription.trialEndsAt) {
+    return null
+  }
+
+  const daysLeft = Math.max(0, Math.ceil((new Date(subscription.trialEndsAt).getTime() - Date.now()) / DAY_MS))
+
+  return (
+    <div className="flex items-center justify-between gap-4 px-6 py-2 bg-primary/10 border-b border-primary/20 text-sm">
+      <span className="flex items-center gap-2">
+        <Clock className="w-4 h-4 text-primary" />
+        {daysLeft === 0
+          ? 'Your free trial ends today.'
+          : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left in your free trial.`}
+        <span className="text-muted-foreground">
+          Trials include {subscription.trialTryonQuota.toLocaleString()} try-ons a month.
+        </span>
+      </span>
+      <Link
+        to="/billing"
+        className="px-3 py-1 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors"
+      >
+        Choose a plan
+      </Link>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react'
+import { QRCodeSVG } from 'qrcode.react'
+import { Copy, Check } from 'lucide-react'
+
+/**
+ * QR code and secret for adding the login to an authenticator app
+ */
+export function AuthenticatorSetup({ secret, otpauthUrl }: { secret: string; otpauthUrl: string }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Scan this code with an authenticator app such as Google Authenticator, 1Password or Authy.
+      </p>
+      <div className="flex justify-center">
+        <div className="p-3 bg-white rounded-lg">
+          <QRCodeSVG value={otpauthUrl} size={168} />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        Cannot scan it? Enter this key instead:
+        <span className="block mt-1 font-mono text-sm text-foreground break-all">
+          {secret.match(/.{1,4}/g)?.join(' ')}
+        </span>
+      </p>
+    </div>
+  )
+}
+
+/**
+ * Recovery codes, shown once after they are created
+ */
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  const [copied, setCopied] = useState(false)
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator. They
+        will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 p-4 bg-background border border-border rounded-lg font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={copy}
+        className="flex items-center gap-2 text-sm text-primary hover:underline"
+      >
+        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        {copied ? 'Copied' : 'Copy codes'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { Link } from 'react-router-dom'
+import { Lock } from 'lucide-react'
+import { Feature, useFeature } from '../hooks/usePlans'
+
+/**
+ * Shown in place of, or next to, a feature the merchant's plan does not include
+ */
+export function UpgradeHint({ feature }: { feature: Feature }) {
+  const { allowed, label, requiredPlan, contract } = useFeature(feature)
+
+  if (allowed) return null
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <Lock className="w-4 h-4" />
+      {contract ? (
+        <span>{label} is not included in your contract. Contact your account manager to add it.</span>
+      ) : (
+        <span>
+          {label} is available on {requiredPlan ? `the ${requiredPlan.name} plan` : 'higher plans'}.{' '}
+          <Link to="/billing" className="font-medium text-primary hover:underline">
+            Upgrade
+          </Link>
+        </span>
+      )}
+    </div>
+  )
+}
@@ -1,18 +1,63 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react'
 import { api } from '../lib/api'
 
+export type MemberRole = 'OWNER' | 'ADMIN' | 'ANALYST' | 'DEVELOPER' | 'BILLING'
+
+export type Permission = 'analytics' | 'catalog' | 'settings' | 'apiKeys' | 'webhooks' | 'billing' | 'team' | 'audit'
+
+// Mirrors the API's role permissions, to hide what a role cannot open
+const ROLE_PERMISSIONS: Record<MemberRole, Permission[]> = {
+  OWNER: ['analytics', 'catalog', 'settings', 'apiKeys', 'webhooks', 'billing', 'team', 'audit'],
+  ADMIN: ['analytics', 'catalog', 'settings', 'apiKeys', 'webhooks', 'team', 'audit'],
+  ANALYST: ['analytics'],
+  DEVELOPER: ['analytics', 'catalog', 'settings', 'apiKeys', 'webhooks'],
+  BILLING: ['analytics', 'billing'],
+}
+
+// Pages whose routes take a signed-in team member, never an API key
+const SIGNED_IN_ONLY: Permission[] = ['apiKeys', 'team', 'audit']
+
+interface Membership {
+  merchantId: string
+  businessName: string
+  role: MemberRole
+}
+
 interface Merchant {
   id: string
   businessName: string
   email: string
-  apiKey: string
+  apiKey?: string // API key sessions
+  token?: string // Password sessions
+  user?: { id: string; email: string; name?: string; emailVerifiedAt?: string | null; totpEnabledAt?: string | null }
+  role?: MemberRole
+  memberships?: Membership[]
   plan: string
 }
 
+// A correct password when the login also needs a two-factor code
+export interface TwoFactorChallenge {
+  challengeToken: string
+  setupRequired: boolean // The team requires two-factor and the login has none yet
+}
+
+export interface Session {
+  token: string
+  merchant: Omit<Merchant, 'token' | 'user' | 'role' | 'memberships'>
+  user: Merchant['user']
+  role: MemberRole
+  memberships: Membership[]
+}
+
 interface AuthContextType {
   merchant: Merchant | null
   isAuthenticated: boolean
   login: (apiKey: string) => Promise<void>
+  signIn: (email: string, password: string) => Promise<TwoFactorChallenge | null>
+  startSession: (session: Session) => void
+  switchMerchant: (merchantId: string) => Promise<void>
+  refresh: () => Promise<void>
+  can: (permission: Permission) => boolean
   logout: () => void
 }
 
@@ -28,22 +73,63 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, [])
 
+  const store = (merchantData: Merchant) => {
+    setMerchant(merchantData)
+    localStorage.setItem('rf_merchant', JSON.stringify(merchantData))
+  }
+
   const login = async (apiKey: string) => {
     const response = await api.get('/api/auth/me', {
       headers: { 'X-API-Key': apiKey }
     })
-    const merchantData = { ...response.data.merchant, apiKey }
-    setMerchant(merchantData)
-    localStorage.setItem('rf_merchant', JSON.stringify(merchantData))
+    store({ ...response.data.merchant, apiKey })
+  }
+
+  const startSession = ({ token, merchant, user, role, memberships }: Session) => {
+    store({ ...merchant, token, user, role, memberships })
+  }
+
+  // Resolves with a challenge when a two-factor code is needed to finish
+  const signIn = async (email: string, password: string) => {
+    const response = await api.post('/api/auth/login', { email, password })
+    if (response.data.twoFactorRequired) {
+      return response.data as TwoFactorChallenge
+    }
+    startSession(response.data)
+    return null
+  }
+
+  const switchMerchant = async (merchantId: string) => {
+    const response = await api.post('/api/auth/switch-merchant', { merchantId })
+    startSession(response.data)
   }
 
+  // Reload the signed-in user, e.g. after verifying their email
+  const refresh = async () => {
+    if (!merchant?.token) return
+    const response = await api.get('/api/auth/me')
+    store({ ...merchant, user: response.data.user, memberships: response.data.memberships })
+  }
+
+  // API key sessions are limited by the key's scopes, not a role
+  const can = (permission: Permission) =>
+    merchant?.role ? ROLE_PERMISSIONS[merchant.role].includes(permission) : !SIGNED_IN_ONLY.includes(permission)
+
   const logout = () => {
+    // Sign the session out on the server too; the local sign out does not wait for it
+    if (merchant?.token) {
+      api.post('/api/auth/logout', null, {
+        headers: { Authorization: `Bearer ${merchant.token}` }
+      }).catch(() => undefined)
+    }
     setMerchant(null)
     localStorage.removeItem('rf_merchant')
   }
 
   return (
-    <AuthContext.Provider value={{ merchant, isAuthenticated: !!merchant, login, logout }}>
+    <AuthContext.Provider
+      value={{ merchant, isAuthenticated: !!merchant, login, signIn, startSession, switchMerchant, refresh, can, logout }}
+    >
       {children}
     </AuthContext.Provider>
   )
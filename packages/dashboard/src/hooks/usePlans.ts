@@ -0,0 +1,134 @@
+import { useQuery } from '@tanstack/react-query'
+import { api } from '../lib/api'
+import { useAuth } from './useAuth'
+
+export type PlanId = 'ATELIER' | 'MAISON' | 'COUTURE'
+
+export interface PlanFeatures {
+  advancedAnalytics: boolean
+  webhooks: boolean
+  whiteLabel: boolean
+  hdQuality: boolean
+  batchGeneration: boolean
+  apiAccess: boolean
+}
+
+export type Feature = keyof PlanFeatures
+
+export interface Capability {
+  feature: Feature
+  label: string
+  minimumPlan: PlanId | null // Cheapest plan that includes the feature
+  plans: Record<PlanId, boolean>
+}
+
+export interface Plan {
+  id: PlanId
+  name: string
+  description: string
+  monthlyPrice: number
+  includedTryons: number // -1 = unlimited
+  overageRate: number
+  features: PlanFeatures
+  highlights: string[]
+}
+
+export interface CurrentPlan extends Plan {
+  contract: { id: string; name: string; startsAt: string; endsAt: string | null } | null
+}
+
+export interface Subscription {
+  plan: PlanId
+  status: 'ACTIVE' | 'TRIAL' | 'TRIAL_EXPIRED' | 'PAST_DUE' | 'CANCELED' | 'SUSPENDED'
+  trialEndsAt: string | null
+  currentPeriodEndsAt: string | null
+  billingEnabled: boolean
+  trialTryonQuota: number
+}
+
+export const UNLIMITED = -1
+
+/**
+ * "2,000" or "Unlimited"
+ */
+export function formatTryonLimit(limit: number) {
+  return limit === UNLIMITED ? 'Unlimited' : limit.toLocaleString()
+}
+
+/**
+ * The plan catalog from GET /api/plans
+ */
+export function usePlans() {
+  return useQuery<Plan[]>({
+    queryKey: ['plans'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/plans')
+      return data.plans
+    },
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+/**
+ * The merchant's plan, with any enterprise contract applied
+ */
+export function useCurrentPlan() {
+  return useQuery<CurrentPlan>({
+    queryKey: ['current-plan'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/plans/current')
+      return data.plan
+    },
+  })
+}
+
+/**
+ * The merchant's subscription status, trial and renewal dates. Not loaded
+ * for roles without billing access.
+ */
+export function useSubscription() {
+  const { can } = useAuth()
+
+  return useQuery<Subscription>({
+    queryKey: ['billing-subscription'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/billing/subscription')
+      return data.subscription
+    },
+    enabled: can('billing'),
+  })
+}
+
+/**
+ * Which plans include each gated feature, from GET /api/plans/capabilities
+ */
+export function useCapabilities() {
+  return useQuery<Capability[]>({
+    queryKey: ['plan-capabilities'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/plans/capabilities')
+      return data.capabilities
+    },
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+/**
+ * Whether the merchant's plan includes a feature, and the plan that unlocks it.
+ * Treated as allowed until the plan has loaded so nothing flickers locked.
+ */
+export function useFeature(feature: Feature) {
+  const { data: currentPlan } = useCurrentPlan()
+  const { data: capabilities = [] } = useCapabilities()
+  const { data: plans = [] } = usePlans()
+
+  const capability = capabilities.find((c) => c.feature === feature)
+  const requiredPlan = plans.find((p) => p.id === capability?.minimumPlan) || null
+
+  return {
+    allowed: currentPlan ? currentPlan.features[feature] : true,
+    label: capability?.label || feature,
+    requiredPlan,
+    contract: Boolean(currentPlan?.contract),
+  }
+}
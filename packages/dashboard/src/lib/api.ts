@@ -10,8 +10,23 @@ export const api = axios.create({
 api.interceptors.request.use((config) => {
   const merchant = localStorage.getItem('rf_merchant')
   if (merchant) {
-    const { apiKey } = JSON.parse(merchant)
-    config.headers['X-API-Key'] = apiKey
+    // Team members sign in with a password and get a JWT; the API key login still works
+    const { apiKey, token } = JSON.parse(merchant)
+    if (token) {
+      config.headers['Authorization'] = `Bearer ${token}`
+    } else {
+      config.headers['X-API-Key'] = apiKey
+    }
   }
   return config
 })
+
+// A signed-out or expired session (revoked elsewhere, or after a password change) goes back to sign in
+api.interceptors.response.use(undefined, (error) => {
+  const merchant = localStorage.getItem('rf_merchant')
+  if (error.response?.status === 401 && merchant && JSON.parse(merchant).token) {
+    localStorage.removeItem('rf_merchant')
+    window.location.assign('/')
+  }
+  return Promise.reject(error)
+})
@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { isAxiosError } from 'axios'
+import { Sparkles, User, Lock, AlertCircle } from 'lucide-react'
+import { api } from '../lib/api'
+import { useAuth, TwoFactorChallenge } from '../hooks/useAuth'
+import { TwoFactorStep } from './Login'
+
+interface InvitationPreview {
+  email: string
+  role: string
+  businessName: string
+  expiresAt: string
+  existingUser: boolean
+}
+
+const inputClass =
+  'w-full pl-10 pr-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary'
+
+export function AcceptInvitation() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null)
+  const { startSession } = useAuth()
+  const navigate = useNavigate()
+
+  const { data: invitation, isLoading, error: loadError } = useQuery<InvitationPreview>({
+    queryKey: ['invitation', token],
+    queryFn: async () => {
+      const { data } = await api.get(`/api/team/invitations/${encodeURIComponent(token)}`)
+      return data.invitation
+    },
+    enabled: Boolean(token),
+    retry: false,
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      const { data } = await api.post('/api/team/invitations/accept', { token, name, password })
+      // Joined; the session waits on a two-factor code
+      if (data.twoFactorRequired) {
+        setChallenge(data)
+        return
+      }
+      startSession(data)
+      navigate('/overview', { replace: true })
+    } catch (err) {
+      setError((isAxiosError(err) && err.response?.data?.error) || 'Could not accept the invitation')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const unavailable = !token || loadError
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 mb-4">
+            <Sparkles className="w-8 h-8 text-primary" />
+            <h1 className="text-2xl font-bold">Rendered Fits</h1>
+          </div>
+          {invitation && (
+            <p className="text-muted-foreground">
+              Join <span className="font-medium text-foreground">{invitation.businessName}</span> as{' '}
+              {invitation.role.toLowerCase()}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-muted border border-border rounded-lg p-6">
+          {challenge ? (
+            <TwoFactorStep
+              challenge={challenge}
+              onSignedIn={() => navigate('/overview', { replace: true })}
+              onCancel={() => navigate('/', { replace: true })}
+            />
+          ) : isLoading ? (
+            <p className="text-center text-muted-foreground">Loading invitation...</p>
+          ) : unavailable ? (
+            <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 text-sm">
+              <AlertCircle className="w-4 h-4" />
+              This invitation is invalid or has expired. Ask for a new one.
+            </div>
+          ) : invitation && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {invitation.existingUser
+                  ? `Enter the password for ${invitation.email} to join.`
+                  : `Set up your login for ${invitation.email}.`}
+              </p>
+
+              {!invitation.existingUser && (
+                <div>
+                  <label htmlFor="name" className="block text-sm font-medium mb-2">
+                    Name
+                  </label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <input
+                      id="name"
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium mb-2">
+                  {invitation.existingUser ? 'Password' : 'Choose a password'}
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    minLength={invitation.existingUser ? undefined : 8}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 text-sm">
+                  <AlertCircle className="w-4 h-4" />
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full py-2 px-4 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {loading ? 'Joining...' : 'Accept Invitation'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
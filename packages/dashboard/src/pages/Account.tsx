@@ -0,0 +1,443 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { isAxiosError } from 'axios'
+import { Monitor, LogOut, Save, MailCheck, ShieldCheck } from 'lucide-react'
+import { api } from '../lib/api'
+import { useAuth } from '../hooks/useAuth'
+import { AuthenticatorSetup, RecoveryCodes } from '../components/TwoFactor'
+
+interface Session {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: string
+  current: boolean
+  merchant: { id: string; businessName: string }
+}
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+  required: boolean // A team the user belongs to requires it
+}
+
+const fieldClass =
+  'w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary'
+
+function errorMessage(err: Error, fallback: string) {
+  return (isAxiosError(err) && err.response?.data?.error) || fallback
+}
+
+/**
+ * Turn two-factor on with an authenticator app, replace recovery codes, or
+ * turn it off
+ */
+function TwoFactorSection() {
+  const queryClient = useQueryClient()
+  const { refresh } = useAuth()
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [error, setError] = useState('')
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ['two-factor'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/auth/two-factor')
+      return data.twoFactor
+    },
+  })
+
+  const onError = (err: Error) => setError(errorMessage(err, 'Something went wrong. Please try again.'))
+  const onSuccess = () => {
+    setError('')
+    setCode('')
+    setPassword('')
+    queryClient.invalidateQueries({ queryKey: ['two-factor'] })
+    refresh().catch(() => undefined)
+  }
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const { data } = await api.post('/api/auth/two-factor/setup')
+      return data
+    },
+    onSuccess: (data) => {
+      setError('')
+      setRecoveryCodes(null)
+      setSetup({ secret: data.secret, otpauthUrl: data.otpauthUrl })
+    },
+    onError,
+  })
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const { data } = await api.post('/api/auth/two-factor/enable', { code })
+      return data.recoveryCodes as string[]
+    },
+    onSuccess: (codes) => {
+      setSetup(null)
+      setRecoveryCodes(codes)
+      onSuccess()
+    },
+    onError,
+  })
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const { data } = await api.post('/api/auth/two-factor/recovery-codes', { password })
+      return data.recoveryCodes as string[]
+    },
+    onSuccess: (codes) => {
+      setRecoveryCodes(codes)
+      onSuccess()
+    },
+    onError,
+  })
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await api.post('/api/auth/two-factor/disable', { password })
+    },
+    onSuccess: () => {
+      setRecoveryCodes(null)
+      onSuccess()
+    },
+    onError,
+  })
+
+  if (!status) return null
+
+  return (
+    <div className="bg-muted border border-border rounded-lg p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Two-Factor Authentication</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Ask for a code from an authenticator app after your password when you sign in
+        </p>
+      </div>
+
+      {status.enabled ? (
+        <p className="flex items-center gap-2 text-sm text-green-500">
+          <ShieldCheck className="w-4 h-4" />
+          On since {status.enabledAt && new Date(status.enabledAt).toLocaleDateString()} ·{' '}
+          {status.recoveryCodesRemaining} recovery codes left
+        </p>
+      ) : (
+        <p className="text-sm text-yellow-500">Off</p>
+      )}
+
+      {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+
+      {!status.enabled && !setup && (
+        <button
+          onClick={() => setupMutation.mutate()}
+          disabled={setupMutation.isPending}
+          className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          <ShieldCheck className="w-4 h-4" />
+          Set Up Two-Factor
+        </button>
+      )}
+
+      {!status.enabled && setup && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            enableMutation.mutate()
+          }}
+          className="space-y-4"
+        >
+          <AuthenticatorSetup secret={setup.secret} otpauthUrl={setup.otpauthUrl} />
+          <div>
+            <label className="block text-sm font-medium mb-2">Code from the app</label>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              className={fieldClass}
+              required
+            />
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={enableMutation.isPending}
+              className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              {enableMutation.isPending ? 'Verifying...' : 'Turn On'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setSetup(null)
+                setCode('')
+                setError('')
+              }}
+              className="px-4 py-2 bg-background border border-border font-medium rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status.enabled && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium mb-2">Confirm your password to make changes</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={fieldClass}
+            />
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={() => regenerateMutation.mutate()}
+              disabled={!password || regenerateMutation.isPending}
+              className="px-4 py-2 bg-background border border-border font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              New Recovery Codes
+            </button>
+            {!status.required && (
+              <button
+                onClick={() => disableMutation.mutate()}
+                disabled={!password || disableMutation.isPending}
+                className="px-4 py-2 text-red-500 hover:text-red-400 font-medium disabled:opacity-50"
+              >
+                Turn Off
+              </button>
+            )}
+          </div>
+          {status.required && (
+            <p className="text-sm text-muted-foreground">A team you belong to requires two-factor, so it stays on.</p>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
+
+/**
+ * Short device description from a user agent, e.g. "Chrome on macOS"
+ */
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return 'Unknown device'
+
+  const browser = ['Edg', 'Firefox', 'Chrome', 'Safari'].find((name) => userAgent.includes(name))
+  const os = [
+    ['Windows', 'Windows'],
+    ['Mac OS', 'macOS'],
+    ['iPhone', 'iOS'],
+    ['Android', 'Android'],
+    ['Linux', 'Linux'],
+  ].find(([match]) => userAgent.includes(match))?.[1]
+
+  return [browser === 'Edg' ? 'Edge' : browser, os].filter(Boolean).join(' on ') || 'Unknown device'
+}
+
+export function Account() {
+  const queryClient = useQueryClient()
+  const { merchant } = useAuth()
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [passwordMessage, setPasswordMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const user = merchant?.user
+
+  const { data: sessions = [], isLoading } = useQuery<Session[]>({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/auth/sessions')
+      return data.sessions
+    },
+    enabled: Boolean(merchant?.token),
+  })
+
+  const passwordMutation = useMutation({
+    mutationFn: async () => {
+      await api.put('/api/auth/password', { currentPassword, newPassword })
+    },
+    onSuccess: () => {
+      setCurrentPassword('')
+      setNewPassword('')
+      setPasswordMessage({ type: 'success', text: 'Password changed. Your other devices have been signed out.' })
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
+    },
+    onError: (err: Error) => {
+      setPasswordMessage({ type: 'error', text: errorMessage(err, 'Could not change your password') })
+    },
+  })
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await api.post('/api/auth/resend-verification')
+    },
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id?: string) => {
+      await api.delete(id ? `/api/auth/sessions/${id}` : '/api/auth/sessions')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
+    },
+  })
+
+  if (!merchant?.token) {
+    return (
+      <div className="space-y-6 max-w-3xl">
+        <h1 className="text-3xl font-bold">Account</h1>
+        <p className="text-muted-foreground">
+          You are signed in with an API key. Sign in with your email and password to manage your login.
+        </p>
+      </div>
+    )
+  }
+
+  const otherSessions = sessions.filter((session) => !session.current).length
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h1 className="text-3xl font-bold">Account</h1>
+        <p className="text-muted-foreground mt-1">Your login, password, two-factor and signed-in devices</p>
+      </div>
+
+      <div className="bg-muted border border-border rounded-lg p-6 space-y-2">
+        <h2 className="text-lg font-semibold">Email</h2>
+        <p className="text-sm">{user?.email}</p>
+        {user?.emailVerifiedAt ? (
+          <p className="flex items-center gap-2 text-sm text-green-500">
+            <MailCheck className="w-4 h-4" />
+            Verified
+          </p>
+        ) : (
+          <div className="flex items-center gap-3 text-sm">
+            <span className="text-yellow-500">Not verified yet. Check your inbox for the verification link.</span>
+            <button
+              onClick={() => resendMutation.mutate()}
+              disabled={resendMutation.isPending || resendMutation.isSuccess}
+              className="text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              {resendMutation.isSuccess ? 'Link sent' : 'Resend link'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-muted border border-border rounded-lg p-6">
+        <h2 className="text-lg font-semibold mb-4">Change Password</h2>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            setPasswordMessage(null)
+            passwordMutation.mutate()
+          }}
+          className="space-y-4"
+        >
+          <div>
+            <label className="block text-sm font-medium mb-2">Current password</label>
+            <input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">New password</label>
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              minLength={8}
+              className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              required
+            />
+          </div>
+
+          {passwordMessage && (
+            <p className={`text-sm ${passwordMessage.type === 'success' ? 'text-green-500' : 'text-red-500'}`}>
+              {passwordMessage.text}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={passwordMutation.isPending}
+            className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            {passwordMutation.isPending ? 'Saving...' : 'Change Password'}
+          </button>
+        </form>
+      </div>
+
+      <TwoFactorSection />
+
+      <div className="bg-muted border border-border rounded-lg overflow-hidden">
+        <div className="flex items-center justify-between px-6 pt-5 pb-2">
+          <h2 className="text-lg font-semibold">Active Sessions</h2>
+          {otherSessions > 0 && (
+            <button
+              onClick={() => revokeMutation.mutate(undefined)}
+              disabled={revokeMutation.isPending}
+              className="text-sm text-red-500 hover:text-red-400 disabled:opacity-50"
+            >
+              Sign out all other sessions
+            </button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="p-10 text-center text-muted-foreground">Loading...</div>
+        ) : (
+          <ul>
+            {sessions.map((session) => (
+              <li
+                key={session.id}
+                className="flex items-center justify-between gap-4 px-6 py-4 border-t border-border text-sm"
+              >
+                <div className="flex items-center gap-3">
+                  <Monitor className="w-5 h-5 text-muted-foreground" />
+                  <div>
+                    <div className="font-medium">
+                      {describeDevice(session.userAgent)}
+                      {session.current && <span className="ml-2 text-xs text-primary">This device</span>}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {[session.ipAddress, session.merchant.businessName].filter(Boolean).join(' · ')} · Last active{' '}
+                      {new Date(session.lastSeenAt).toLocaleString()}
+                    </div>
+                  </div>
+                </div>
+                {!session.current && (
+                  <button
+                    onClick={() => revokeMutation.mutate(session.id)}
+                    disabled={revokeMutation.isPending}
+                    className="flex items-center gap-1 text-red-500 hover:text-red-400 disabled:opacity-50"
+                  >
+                    <LogOut className="w-4 h-4" />
+                    Sign out
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
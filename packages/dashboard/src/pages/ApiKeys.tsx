@@ -1,128 +1,300 @@
 import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Copy, Check, Plus, Trash2 } from 'lucide-react'
+import { api } from '../lib/api'
+import { useFeature } from '../hooks/usePlans'
+import { UpgradeHint } from '../components/UpgradeHint'
+
+type ApiKeyScope = 'WIDGET' | 'CATALOG_WRITE' | 'ANALYTICS_READ'
+type ApiKeyType = 'PUBLISHABLE' | 'SECRET'
 
 interface ApiKey {
   id: string
   key: string
+  keyPreview: string
   name: string
+  type: ApiKeyType
+  scopes: ApiKeyScope[]
+  lastUsedAt: string | null
+  expiresAt: string | null
+  revokedAt: string | null
   createdAt: string
 }
 
-function ApiKeys() {
-  const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+const SCOPES: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: 'WIDGET', label: 'Widget', description: 'Create try-ons from your storefront' },
+  { value: 'CATALOG_WRITE', label: 'Catalog write', description: 'Manage products and imports' },
+  { value: 'ANALYTICS_READ', label: 'Analytics read', description: 'Read analytics and usage' },
+]
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString() : '—'
+}
+
+export function ApiKeys() {
+  const queryClient = useQueryClient()
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [newKeyName, setNewKeyName] = useState('')
+  const [newKeyType, setNewKeyType] = useState<ApiKeyType>('SECRET')
+  const [newKeyScopes, setNewKeyScopes] = useState<ApiKeyScope[]>(['WIDGET'])
+  const [newKeyExpiry, setNewKeyExpiry] = useState('')
+  const [createdKey, setCreatedKey] = useState<ApiKey | null>(null)
+  const [copied, setCopied] = useState(false)
+  const apiAccess = useFeature('apiAccess')
+  // Plans without API access can only create publishable keys
+  const keyType: ApiKeyType = apiAccess.allowed ? newKeyType : 'PUBLISHABLE'
+
+  const { data: apiKeys = [], isLoading } = useQuery<ApiKey[]>({
+    queryKey: ['api-keys'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/api-keys')
+      return data.apiKeys
+    },
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const { data } = await api.post('/api/api-keys', {
+        name: newKeyName,
+        type: keyType,
+        scopes: keyType === 'SECRET' ? newKeyScopes : undefined,
+        expiresAt: newKeyExpiry ? new Date(newKeyExpiry).toISOString() : undefined,
+      })
+      return data.apiKey as ApiKey
+    },
+    onSuccess: (apiKey) => {
+      setCreatedKey(apiKey)
+      setNewKeyName('')
+      setNewKeyType('SECRET')
+      setNewKeyScopes(['WIDGET'])
+      setNewKeyExpiry('')
+      setShowCreateForm(false)
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] })
+    },
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/api-keys/${id}`)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] })
+    },
+  })
 
-  const handleCreateKey = async () => {
-    // TODO: Implement actual API call
-    const newKey: ApiKey = {
-      id: Date.now().toString(),
-      key: `rfts_${Math.random().toString(36).substring(2, 15)}`,
-      name: newKeyName,
-      createdAt: new Date().toISOString()
+  const toggleScope = (scope: ApiKeyScope) => {
+    setNewKeyScopes((scopes) =>
+      scopes.includes(scope) ? scopes.filter((s) => s !== scope) : [...scopes, scope]
+    )
+  }
+
+  const handleRevoke = (apiKey: ApiKey) => {
+    if (confirm(`Revoke "${apiKey.name}"? Anything using this key will stop working immediately.`)) {
+      revokeMutation.mutate(apiKey.id)
     }
-    setApiKeys([...apiKeys, newKey])
-    setNewKeyName('')
-    setShowCreateForm(false)
+  }
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
   }
 
   return (
-    <div>
-      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '30px' }}>
-        <h1>API Keys</h1>
+    <div className="space-y-6 max-w-7xl">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">API Keys</h1>
+          <p className="text-muted-foreground mt-1">
+            Give each storefront or integration its own key so you can rotate them independently
+          </p>
+        </div>
         <button
           onClick={() => setShowCreateForm(true)}
-          style={{
-            padding: '10px 20px',
-            backgroundColor: '#007bff',
-            color: 'white',
-            border: 'none',
-            borderRadius: '6px',
-            cursor: 'pointer',
-            fontWeight: '600'
-          }}
+          className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors"
         >
+          <Plus className="w-4 h-4" />
           Create New Key
         </button>
       </div>
 
-      {showCreateForm && (
-        <div style={{
-          background: 'white',
-          padding: '20px',
-          borderRadius: '8px',
-          marginBottom: '20px',
-          boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
-        }}>
-          <h3>Create New API Key</h3>
-          <input
-            type="text"
-            placeholder="Key name (e.g., Production Store)"
-            value={newKeyName}
-            onChange={(e) => setNewKeyName(e.target.value)}
-            style={{
-              width: '100%',
-              padding: '10px',
-              marginBottom: '10px',
-              border: '1px solid #ddd',
-              borderRadius: '4px'
-            }}
-          />
-          <div style={{ display: 'flex', gap: '10px' }}>
+      {createdKey && (
+        <div className="bg-primary/10 border border-primary/20 rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-2">{createdKey.name} created</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Copy this key now. It will not be shown again.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={createdKey.key}
+              readOnly
+              className="flex-1 px-4 py-2 bg-background border border-border rounded-lg font-mono text-sm"
+            />
             <button
-              onClick={handleCreateKey}
-              disabled={!newKeyName}
-              style={{
-                padding: '8px 16px',
-                backgroundColor: '#007bff',
-                color: 'white',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: newKeyName ? 'pointer' : 'not-allowed',
-                opacity: newKeyName ? 1 : 0.5
-              }}
+              onClick={() => copyToClipboard(createdKey.key)}
+              className="px-4 py-2 bg-background border border-border rounded-lg hover:bg-primary hover:text-primary-foreground transition-colors"
             >
-              Create
-            </button>
-            <button
-              onClick={() => {
-                setShowCreateForm(false)
-                setNewKeyName('')
-              }}
-              style={{
-                padding: '8px 16px',
-                backgroundColor: '#6c757d',
-                color: 'white',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: 'pointer'
-              }}
-            >
-              Cancel
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
             </button>
           </div>
+          <button
+            onClick={() => setCreatedKey(null)}
+            className="mt-4 text-sm text-muted-foreground hover:text-foreground"
+          >
+            Done
+          </button>
         </div>
       )}
 
-      <div style={{ background: 'white', borderRadius: '8px', boxShadow: '0 2px 4px rgba(0,0,0,0.1)' }}>
-        {apiKeys.length === 0 ? (
-          <div style={{ padding: '40px', textAlign: 'center', color: '#666' }}>
+      {showCreateForm && (
+        <div className="bg-muted border border-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-4">Create New API Key</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Name</label>
+              <input
+                type="text"
+                placeholder="e.g. Production Store"
+                value={newKeyName}
+                onChange={(e) => setNewKeyName(e.target.value)}
+                className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Type</label>
+              <select
+                value={keyType}
+                onChange={(e) => setNewKeyType(e.target.value as ApiKeyType)}
+                className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="SECRET" disabled={!apiAccess.allowed}>
+                  Secret - server-side catalog, conversion and analytics calls
+                </option>
+                <option value="PUBLISHABLE">Publishable - storefront widget on your allowed domains</option>
+              </select>
+              <div className="mt-2">
+                <UpgradeHint feature="apiAccess" />
+              </div>
+            </div>
+
+            {keyType === 'SECRET' && (
+              <div>
+                <label className="block text-sm font-medium mb-2">Scopes</label>
+                <div className="space-y-2">
+                  {SCOPES.map((scope) => (
+                    <label key={scope.value} className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={newKeyScopes.includes(scope.value)}
+                        onChange={() => toggleScope(scope.value)}
+                        className="w-4 h-4 rounded"
+                      />
+                      <span className="text-sm font-medium">{scope.label}</span>
+                      <span className="text-sm text-muted-foreground">{scope.description}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Expires (optional)</label>
+              <input
+                type="date"
+                value={newKeyExpiry}
+                onChange={(e) => setNewKeyExpiry(e.target.value)}
+                className="px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+
+            {createMutation.isError && (
+              <p className="text-sm text-red-500">Failed to create API key. Please try again.</p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => createMutation.mutate()}
+                disabled={
+                  !newKeyName ||
+                  (keyType === 'SECRET' && newKeyScopes.length === 0) ||
+                  createMutation.isPending
+                }
+                className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {createMutation.isPending ? 'Creating...' : 'Create'}
+              </button>
+              <button
+                onClick={() => {
+                  setShowCreateForm(false)
+                  setNewKeyName('')
+                }}
+                className="px-4 py-2 bg-background border border-border font-medium rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-muted border border-border rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="p-10 text-center text-muted-foreground">Loading...</div>
+        ) : apiKeys.length === 0 ? (
+          <div className="p-10 text-center text-muted-foreground">
             No API keys yet. Create one to get started.
           </div>
         ) : (
-          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <table className="w-full">
             <thead>
-              <tr style={{ borderBottom: '2px solid #eee' }}>
-                <th style={{ padding: '15px', textAlign: 'left', fontWeight: '600' }}>Name</th>
-                <th style={{ padding: '15px', textAlign: 'left', fontWeight: '600' }}>Key</th>
-                <th style={{ padding: '15px', textAlign: 'left', fontWeight: '600' }}>Created</th>
+              <tr className="border-b border-border text-left text-sm">
+                <th className="px-6 py-3 font-semibold">Name</th>
+                <th className="px-6 py-3 font-semibold">Type</th>
+                <th className="px-6 py-3 font-semibold">Key</th>
+                <th className="px-6 py-3 font-semibold">Scopes</th>
+                <th className="px-6 py-3 font-semibold">Last used</th>
+                <th className="px-6 py-3 font-semibold">Expires</th>
+                <th className="px-6 py-3 font-semibold">Created</th>
+                <th className="px-6 py-3" />
               </tr>
             </thead>
             <tbody>
-              {apiKeys.map((key) => (
-                <tr key={key.id} style={{ borderBottom: '1px solid #eee' }}>
-                  <td style={{ padding: '15px' }}>{key.name}</td>
-                  <td style={{ padding: '15px', fontFamily: 'monospace', fontSize: '14px' }}>{key.key}</td>
-                  <td style={{ padding: '15px' }}>{new Date(key.createdAt).toLocaleDateString()}</td>
+              {apiKeys.map((apiKey) => (
+                <tr
+                  key={apiKey.id}
+                  className={`border-b border-border last:border-0 text-sm ${apiKey.revokedAt ? 'opacity-50' : ''}`}
+                >
+                  <td className="px-6 py-4 font-medium">{apiKey.name}</td>
+                  <td className="px-6 py-4">{apiKey.type === 'PUBLISHABLE' ? 'Publishable' : 'Secret'}</td>
+                  <td className="px-6 py-4 font-mono">{apiKey.keyPreview}</td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-wrap gap-1">
+                      {apiKey.scopes.map((scope) => (
+                        <span key={scope} className="px-2 py-0.5 bg-background border border-border rounded text-xs">
+                          {SCOPES.find((s) => s.value === scope)?.label || scope}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">{formatDate(apiKey.lastUsedAt)}</td>
+                  <td className="px-6 py-4">{formatDate(apiKey.expiresAt)}</td>
+                  <td className="px-6 py-4">{formatDate(apiKey.createdAt)}</td>
+                  <td className="px-6 py-4 text-right">
+                    {apiKey.revokedAt ? (
+                      <span className="text-muted-foreground">Revoked {formatDate(apiKey.revokedAt)}</span>
+                    ) : (
+                      <button
+                        onClick={() => handleRevoke(apiKey)}
+                        disabled={revokeMutation.isPending}
+                        className="flex items-center gap-1 ml-auto text-red-500 hover:text-red-400 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Revoke
+                      </button>
+                    )}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -132,5 +304,3 @@ function ApiKeys() {
     </div>
   )
 }
-
-export default ApiKeys
@@ -0,0 +1,295 @@
+import { Fragment, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { isAxiosError } from 'axios'
+import { Download, ChevronLeft, ChevronRight } from 'lucide-react'
+import { api } from '../lib/api'
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue }
+
+interface AuditEvent {
+  id: string
+  action: string
+  actorType: 'user' | 'api_key' | 'system'
+  userId: string | null
+  apiKeyId: string | null
+  actorLabel: string | null
+  targetType: string | null
+  targetId: string | null
+  changes: Record<string, { from: JsonValue; to: JsonValue }> | null
+  metadata: Record<string, JsonValue> | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
+}
+
+interface AuditFilterOptions {
+  actions: string[]
+  actors: { id: string | null; type: string; label: string | null }[]
+}
+
+interface Filters {
+  action: string
+  actorId: string
+  from: string
+  to: string
+}
+
+const PAGE_SIZE = 50
+
+// Filter values as query parameters; dates cover whole days
+function filterParams(filters: Filters) {
+  return {
+    ...(filters.action && { action: filters.action }),
+    ...(filters.actorId && { actorId: filters.actorId }),
+    ...(filters.from && { from: new Date(`${filters.from}T00:00:00`).toISOString() }),
+    ...(filters.to && { to: new Date(`${filters.to}T23:59:59.999`).toISOString() }),
+  }
+}
+
+function formatValue(value: JsonValue) {
+  if (value === null) return '—'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function actorName(event: AuditEvent) {
+  if (event.actorType === 'system') return event.actorLabel || 'System'
+  if (event.actorType === 'api_key') return `API key ${event.actorLabel || event.apiKeyId}`
+  return event.actorLabel || event.userId
+}
+
+/**
+ * Download matching events through the API client, which adds the auth header
+ */
+async function downloadExport(format: 'csv' | 'json', filters: Filters) {
+  const { data } = await api.get<Blob>('/api/audit/export', {
+    params: { format, ...filterParams(filters) },
+    responseType: 'blob',
+  })
+  const url = URL.createObjectURL(data)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000)
+}
+
+export function AuditLog() {
+  const [filters, setFilters] = useState<Filters>({ action: '', actorId: '', from: '', to: '' })
+  const [page, setPage] = useState(1)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const { data: options } = useQuery<AuditFilterOptions>({
+    queryKey: ['audit-filters'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/audit/filters')
+      return data
+    },
+  })
+
+  const { data, isLoading } = useQuery<{ events: AuditEvent[]; pagination: { page: number; pages: number; total: number } }>({
+    queryKey: ['audit', filters, page],
+    queryFn: async () => {
+      const { data } = await api.get('/api/audit', { params: { ...filterParams(filters), page, limit: PAGE_SIZE } })
+      return data
+    },
+  })
+
+  const updateFilter = (name: keyof Filters, value: string) => {
+    setFilters((current) => ({ ...current, [name]: value }))
+    setPage(1)
+  }
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      setError('')
+      await downloadExport(format, filters)
+    } catch (err) {
+      setError((isAxiosError(err) && err.response?.data?.error) || 'The export failed. Please try again.')
+    }
+  }
+
+  // Action prefixes ("product.") filter a whole area
+  const areas = [...new Set((options?.actions || []).map((action) => `${action.split('.')[0]}.`))]
+  const events = data?.events || []
+  const pagination = data?.pagination
+
+  return (
+    <div className="space-y-6 max-w-7xl">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground mt-1">
+            Who changed settings, keys, products, billing and sign in security, and from where
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(['csv', 'json'] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="flex items-center gap-2 px-4 py-2 bg-background border border-border font-medium rounded-lg transition-colors hover:bg-muted"
+            >
+              <Download className="w-4 h-4" />
+              Export {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 text-sm">{error}</div>
+      )}
+
+      <div className="bg-muted border border-border rounded-lg p-4 grid grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-2">Action</label>
+          <select
+            value={filters.action}
+            onChange={(e) => updateFilter('action', e.target.value)}
+            className="w-full px-3 py-2 bg-background border border-border rounded-lg"
+          >
+            <option value="">All actions</option>
+            {areas.map((area) => (
+              <option key={area} value={area}>
+                {area}*
+              </option>
+            ))}
+            {options?.actions.map((action) => (
+              <option key={action} value={action}>
+                {action}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Actor</label>
+          <select
+            value={filters.actorId}
+            onChange={(e) => updateFilter('actorId', e.target.value)}
+            className="w-full px-3 py-2 bg-background border border-border rounded-lg"
+          >
+            <option value="">Everyone</option>
+            {options?.actors.filter((actor) => actor.id).map((actor) => (
+              <option key={actor.id} value={actor.id!}>
+                {actor.type === 'api_key' ? `API key ${actor.label}` : actor.label || actor.id}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">From</label>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className="w-full px-3 py-2 bg-background border border-border rounded-lg"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">To</label>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className="w-full px-3 py-2 bg-background border border-border rounded-lg"
+          />
+        </div>
+      </div>
+
+      <div className="bg-muted border border-border rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="p-10 text-center text-muted-foreground">Loading...</div>
+        ) : events.length === 0 ? (
+          <div className="p-10 text-center text-muted-foreground">No events match these filters</div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border text-left text-sm">
+                <th className="px-6 py-3 font-semibold">When</th>
+                <th className="px-6 py-3 font-semibold">Action</th>
+                <th className="px-6 py-3 font-semibold">Actor</th>
+                <th className="px-6 py-3 font-semibold">Target</th>
+                <th className="px-6 py-3 font-semibold">IP address</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <Fragment key={event.id}>
+                  <tr
+                    onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                    className="border-b border-border last:border-0 text-sm cursor-pointer hover:bg-background/50"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</td>
+                    <td className="px-6 py-4 font-mono">{event.action}</td>
+                    <td className="px-6 py-4">{actorName(event)}</td>
+                    <td className="px-6 py-4 text-muted-foreground">
+                      {event.targetType ? `${event.targetType}${event.targetId ? ` ${event.targetId}` : ''}` : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-muted-foreground">{event.ipAddress || '—'}</td>
+                  </tr>
+                  {expanded === event.id && (
+                    <tr className="border-b border-border text-sm bg-background/50">
+                      <td colSpan={5} className="px-6 py-4 space-y-3">
+                        {event.changes && (
+                          <table className="text-sm">
+                            <thead>
+                              <tr className="text-left text-muted-foreground">
+                                <th className="pr-6 font-medium">Field</th>
+                                <th className="pr-6 font-medium">Before</th>
+                                <th className="font-medium">After</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {Object.entries(event.changes).map(([field, change]) => (
+                                <tr key={field}>
+                                  <td className="pr-6 font-mono">{field}</td>
+                                  <td className="pr-6 text-red-500 break-all">{formatValue(change.from)}</td>
+                                  <td className="text-green-500 break-all">{formatValue(change.to)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                        {event.metadata && (
+                          <pre className="text-xs text-muted-foreground whitespace-pre-wrap">
+                            {JSON.stringify(event.metadata, null, 2)}
+                          </pre>
+                        )}
+                        <div className="text-xs text-muted-foreground">{event.userAgent || 'Unknown device'}</div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {pagination && pagination.pages > 1 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {pagination.total} events, page {pagination.page} of {pagination.pages}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="p-2 bg-background border border-border rounded-lg disabled:opacity-50"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.pages}
+              className="p-2 bg-background border border-border rounded-lg disabled:opacity-50"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,14 +1,44 @@
-import { useQuery } from '@tanstack/react-query'
-import { CreditCard, TrendingUp, AlertCircle } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { CreditCard, TrendingUp, AlertCircle, CheckCircle, Lock, Check, Minus, FileText } from 'lucide-react'
 import { api } from '../lib/api'
+import { PlanId, formatTryonLimit, useCapabilities, useCurrentPlan, usePlans, useSubscription } from '../hooks/usePlans'
 
-const PLANS = {
-  ATELIER: { name: 'Atelier', price: 99, limit: 500 },
-  MAISON: { name: 'Maison', price: 299, limit: 2000 },
-  COUTURE: { name: 'Couture', price: 999, limit: 5000 },
+type OveragePolicyId = 'HARD_CAP' | 'OVERAGE' | 'AUTO_UPGRADE'
+
+interface OveragePolicy {
+  policy: OveragePolicyId
+  effectivePolicy: OveragePolicyId
+  spendCap: number | null
+  limit: number
+  upgradeTo: PlanId | null
+}
+
+interface Invoice {
+  id: string
+  number: string
+  month: string
+  total: number
+  currency: string
+  issuedAt: string
+  htmlUrl: string
+}
+
+/**
+ * Open a printable invoice in a new tab. Fetched through the API client
+ * because the request needs the merchant's API key header.
+ */
+async function openInvoice(invoice: Invoice) {
+  const { data } = await api.get<string>(invoice.htmlUrl, { responseType: 'text' })
+  const url = URL.createObjectURL(new Blob([data], { type: 'text/html' }))
+  window.open(url, '_blank', 'noopener')
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000)
 }
 
 export function Billing() {
+  const queryClient = useQueryClient()
+  const checkoutResult = new URLSearchParams(window.location.search).get('checkout')
+
   const { data: analytics } = useQuery({
     queryKey: ['analytics-overview'],
     queryFn: async () => {
@@ -17,8 +47,104 @@ export function Billing() {
     },
   })
 
+  const { data: plans = [] } = usePlans()
+  const { data: currentPlan } = useCurrentPlan()
+  const { data: capabilities = [] } = useCapabilities()
+
+  const { data: invoices = [] } = useQuery<Invoice[]>({
+    queryKey: ['billing-invoices'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/billing/invoices')
+      return data.invoices
+    },
+  })
+
+  const { data: subscription } = useSubscription()
+
+  const { data: overage } = useQuery<{ overagePolicy: OveragePolicy; options: { policy: OveragePolicyId; label: string }[] }>({
+    queryKey: ['billing-overage-policy'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/billing/overage-policy')
+      return data
+    },
+  })
+
+  const [overagePolicy, setOveragePolicy] = useState<OveragePolicyId>('HARD_CAP')
+  const [spendCap, setSpendCap] = useState('')
+
+  useEffect(() => {
+    if (overage) {
+      setOveragePolicy(overage.overagePolicy.policy)
+      setSpendCap(overage.overagePolicy.spendCap?.toString() || '')
+    }
+  }, [overage])
+
+  const { data: alertThresholds } = useQuery<number[]>({
+    queryKey: ['billing-usage-alerts'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/billing/usage-alerts')
+      return data.thresholds
+    },
+  })
+
+  const [thresholdsInput, setThresholdsInput] = useState('')
+
+  useEffect(() => {
+    if (alertThresholds) {
+      setThresholdsInput(alertThresholds.join(', '))
+    }
+  }, [alertThresholds])
+
+  const alertsMutation = useMutation({
+    mutationFn: async () => {
+      const thresholds = thresholdsInput
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean)
+        .map(Number)
+      const { data } = await api.put('/api/billing/usage-alerts', { thresholds })
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['billing-usage-alerts'] })
+    },
+  })
+
+  const overageMutation = useMutation({
+    mutationFn: async () => {
+      const { data } = await api.put('/api/billing/overage-policy', {
+        policy: overagePolicy,
+        spendCap: overagePolicy === 'OVERAGE' ? Number(spendCap) : undefined,
+      })
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['billing-overage-policy'] })
+      queryClient.invalidateQueries({ queryKey: ['analytics-overview'] })
+    },
+  })
+
+  const changePlanMutation = useMutation({
+    mutationFn: async (plan: PlanId) => {
+      const { data } = await api.post('/api/billing/checkout', { plan })
+      return data
+    },
+    onSuccess: (data) => {
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl
+        return
+      }
+      queryClient.invalidateQueries({ queryKey: ['billing-subscription'] })
+      queryClient.invalidateQueries({ queryKey: ['current-plan'] })
+      queryClient.invalidateQueries({ queryKey: ['analytics-overview'] })
+    },
+  })
+
   const usage = analytics?.usageThisMonth || { used: 0, limit: 0, remaining: 0, percentage: 0 }
-  const plan = PLANS[analytics?.plan as keyof typeof PLANS] || PLANS.ATELIER
+  const planId: PlanId = currentPlan?.id || subscription?.plan || 'ATELIER'
+  const contract = currentPlan?.contract || null
+  const nextPlan = plans[plans.findIndex((p) => p.id === planId) + 1]
+  const canChangePlan = subscription?.billingEnabled && !contract && !changePlanMutation.isPending
 
   return (
     <div className="space-y-6 max-w-4xl">
@@ -27,15 +153,50 @@ export function Billing() {
         <p className="text-muted-foreground mt-1">Manage your subscription and monitor usage</p>
       </div>
 
+      {checkoutResult === 'success' && (
+        <div className="flex items-center gap-2 p-3 bg-green-500/10 border border-green-500/20 rounded-lg text-green-500 text-sm">
+          <CheckCircle className="w-4 h-4" />
+          Payment details saved. Your plan will update as soon as Stripe confirms the subscription.
+        </div>
+      )}
+
+      {subscription?.status === 'PAST_DUE' && (
+        <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          Your last payment failed. Update your payment method to keep your plan active.
+        </div>
+      )}
+
+      {changePlanMutation.isError && (
+        <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          Could not change your plan. Please try again.
+        </div>
+      )}
+
       <div className="bg-muted border border-border rounded-lg p-6">
         <div className="flex items-center justify-between mb-6">
           <div>
             <h2 className="text-lg font-semibold">Current Plan</h2>
-            <p className="text-muted-foreground text-sm mt-1">{plan.name} - ${plan.price}/month</p>
+            <p className="text-muted-foreground text-sm mt-1">
+              {currentPlan ? `${currentPlan.name} - $${currentPlan.monthlyPrice.toLocaleString()}/month` : 'Loading...'}
+              {subscription?.status === 'TRIAL' && subscription.trialEndsAt &&
+                ` (trial ends ${new Date(subscription.trialEndsAt).toLocaleDateString()})`}
+              {subscription?.status === 'ACTIVE' && subscription.currentPeriodEndsAt &&
+                ` (renews ${new Date(subscription.currentPeriodEndsAt).toLocaleDateString()})`}
+              {subscription?.status === 'TRIAL_EXPIRED' && ' (trial ended)'}
+              {subscription?.status === 'CANCELED' && ' (canceled)'}
+            </p>
           </div>
-          <button className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors">
-            Upgrade Plan
-          </button>
+          {nextPlan && !contract && (
+            <button
+              onClick={() => changePlanMutation.mutate(nextPlan.id)}
+              disabled={!canChangePlan}
+              className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              {changePlanMutation.isPending ? 'Redirecting...' : 'Upgrade Plan'}
+            </button>
+          )}
         </div>
 
         <div className="space-y-4">
@@ -43,7 +204,7 @@ export function Billing() {
             <div className="flex items-center justify-between mb-2">
               <span className="text-sm font-medium">Monthly Usage</span>
               <span className="text-sm text-muted-foreground">
-                {usage.used.toLocaleString()} / {usage.limit.toLocaleString()} try-ons
+                {usage.used.toLocaleString()} / {formatTryonLimit(usage.limit)} try-ons
               </span>
             </div>
             <div className="w-full bg-background rounded-full h-2 overflow-hidden">
@@ -53,7 +214,12 @@ export function Billing() {
               />
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              {usage.remaining.toLocaleString()} try-ons remaining this month
+              {formatTryonLimit(usage.remaining)} try-ons remaining this month
+              {currentPlan && overage?.overagePolicy.effectivePolicy === 'OVERAGE' &&
+                ` - then $${currentPlan.overageRate.toFixed(2)} per try-on, up to $${overage.overagePolicy.spendCap?.toFixed(2)}`}
+              {overage?.overagePolicy.effectivePolicy === 'AUTO_UPGRADE' && overage.overagePolicy.upgradeTo &&
+                ` - then your plan upgrades to ${plans.find((p) => p.id === overage.overagePolicy.upgradeTo)?.name}`}
+              {overage?.overagePolicy.effectivePolicy === 'HARD_CAP' && ' - then try-ons pause until next month'}
             </p>
           </div>
 
@@ -66,41 +232,233 @@ export function Billing() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        {Object.entries(PLANS).map(([key, p]) => (
-          <div
-            key={key}
-            className={`bg-muted border rounded-lg p-6 ${
-              p.name === plan.name ? 'border-primary' : 'border-border'
-            }`}
-          >
-            <h3 className="text-lg font-semibold mb-2">{p.name}</h3>
-            <div className="mb-4">
-              <span className="text-3xl font-bold">${p.price}</span>
-              <span className="text-muted-foreground">/month</span>
+      {overage && (
+        <div className="bg-muted border border-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-1">When you reach your quota</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Choose whether try-ons stop, continue as paid overage, or move you to the next plan.
+          </p>
+          <div className="space-y-3">
+            {overage.options.map((option) => (
+              <label key={option.policy} className="flex items-center gap-3 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name="overagePolicy"
+                  value={option.policy}
+                  checked={overagePolicy === option.policy}
+                  onChange={() => setOveragePolicy(option.policy)}
+                  className="w-4 h-4"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          {overagePolicy === 'OVERAGE' && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium mb-2">Monthly overage spend cap (USD)</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={spendCap}
+                onChange={(e) => setSpendCap(e.target.value)}
+                className="w-40 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+              {currentPlan && Number(spendCap) > 0 && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Up to {Math.floor(Number(spendCap) / currentPlan.overageRate).toLocaleString()} extra try-ons
+                  at ${currentPlan.overageRate.toFixed(2)} each
+                </p>
+              )}
             </div>
-            <div className="space-y-2 text-sm mb-4">
-              <div className="flex items-center gap-2">
-                <TrendingUp className="w-4 h-4 text-primary" />
-                <span>{p.limit.toLocaleString()} try-ons/month</span>
+          )}
+          {overage.overagePolicy.policy === 'AUTO_UPGRADE' && overage.overagePolicy.effectivePolicy === 'HARD_CAP' && (
+            <p className="text-xs text-yellow-500 mt-3">
+              Auto-upgrade needs an active subscription and a bigger plan to move to; until then try-ons stop at your quota.
+            </p>
+          )}
+          {overageMutation.isError && (
+            <p className="text-xs text-red-500 mt-3">Could not save your overage setting. Please try again.</p>
+          )}
+          <button
+            onClick={() => overageMutation.mutate()}
+            disabled={overageMutation.isPending || (overagePolicy === 'OVERAGE' && !(Number(spendCap) > 0))}
+            className="mt-4 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {overageMutation.isPending ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      )}
+
+      {alertThresholds && (
+        <div className="bg-muted border border-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-1">Usage alerts</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Get an email and a dashboard notification when usage this month reaches these percentages of the
+            try-ons in your plan. Each alert is sent once per month; leave empty to turn alerts off.
+          </p>
+          <div className="flex items-center gap-3">
+            <input
+              type="text"
+              value={thresholdsInput}
+              onChange={(e) => setThresholdsInput(e.target.value)}
+              placeholder="50, 80, 100"
+              className="w-48 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <span className="text-sm text-muted-foreground">%</span>
+            <button
+              onClick={() => alertsMutation.mutate()}
+              disabled={alertsMutation.isPending}
+              className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              {alertsMutation.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+          {alertsMutation.isError && (
+            <p className="text-xs text-red-500 mt-3">
+              Enter up to 5 whole percentages from 1 to 100, separated by commas.
+            </p>
+          )}
+        </div>
+      )}
+
+      {contract ? (
+        <div className="bg-muted border border-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-2">Enterprise contract</h2>
+          <p className="text-sm text-muted-foreground">
+            Your plan is set by {contract.name}
+            {contract.endsAt && `, running until ${new Date(contract.endsAt).toLocaleDateString()}`}.
+            Contact your account manager to change it.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {plans.map((p) => (
+            <div
+              key={p.id}
+              className={`bg-muted border rounded-lg p-6 ${
+                p.id === planId ? 'border-primary' : 'border-border'
+              }`}
+            >
+              <h3 className="text-lg font-semibold mb-2">{p.name}</h3>
+              <div className="mb-4">
+                <span className="text-3xl font-bold">${p.monthlyPrice.toLocaleString()}</span>
+                <span className="text-muted-foreground">/month</span>
               </div>
-              <div className="flex items-center gap-2">
-                <CreditCard className="w-4 h-4 text-primary" />
-                <span>Analytics dashboard</span>
+              <div className="space-y-2 text-sm mb-4">
+                <div className="flex items-center gap-2">
+                  <TrendingUp className="w-4 h-4 text-primary" />
+                  <span>{formatTryonLimit(p.includedTryons)} try-ons/month</span>
+                </div>
+                {p.highlights.map((highlight) => (
+                  <div key={highlight} className="flex items-center gap-2">
+                    <CreditCard className="w-4 h-4 text-primary" />
+                    <span>{highlight}</span>
+                  </div>
+                ))}
               </div>
+              {p.id === planId && subscription?.status !== 'CANCELED' ? (
+                <div className="w-full py-2 px-4 bg-primary/20 text-primary text-center font-medium rounded-lg">
+                  Current Plan
+                </div>
+              ) : (
+                <button
+                  onClick={() => changePlanMutation.mutate(p.id)}
+                  disabled={!canChangePlan}
+                  className="w-full py-2 px-4 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {p.id === planId
+                    ? 'Resubscribe'
+                    : p.monthlyPrice > (currentPlan?.monthlyPrice || 0) ? 'Upgrade' : 'Downgrade'}
+                </button>
+              )}
             </div>
-            {p.name === plan.name ? (
-              <div className="w-full py-2 px-4 bg-primary/20 text-primary text-center font-medium rounded-lg">
-                Current Plan
+          ))}
+        </div>
+      )}
+
+      {capabilities.length > 0 && (
+        <div className="bg-muted border border-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-4">Features</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-2 font-medium">Feature</th>
+                {plans.map((p) => (
+                  <th
+                    key={p.id}
+                    className={`py-2 font-medium text-center ${p.id === planId ? 'text-primary' : ''}`}
+                  >
+                    {p.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {capabilities.map((capability) => {
+                const included = currentPlan?.features[capability.feature] ?? true
+                return (
+                  <tr
+                    key={capability.feature}
+                    className={`border-t border-border ${included ? '' : 'text-muted-foreground'}`}
+                  >
+                    <td className="py-2">
+                      <span className="flex items-center gap-2">
+                        {!included && <Lock className="w-4 h-4" />}
+                        {capability.label}
+                      </span>
+                    </td>
+                    {plans.map((p) => (
+                      <td key={p.id} className="py-2">
+                        {capability.plans[p.id]
+                          ? <Check className="w-4 h-4 mx-auto text-primary" />
+                          : <Minus className="w-4 h-4 mx-auto text-muted-foreground" />}
+                      </td>
+                    ))}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          {contract && (
+            <p className="text-xs text-muted-foreground mt-3">
+              Your contract sets which features you have; locked rows reflect its terms.
+            </p>
+          )}
+        </div>
+      )}
+
+      {invoices.length > 0 && (
+        <div className="bg-muted border border-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-4">Invoices</h2>
+          <div className="divide-y divide-border">
+            {invoices.map((invoice) => (
+              <div key={invoice.id} className="flex items-center justify-between py-3 text-sm">
+                <div className="flex items-center gap-3">
+                  <FileText className="w-4 h-4 text-muted-foreground" />
+                  <div>
+                    <div className="font-medium">
+                      {new Date(`${invoice.month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+                    </div>
+                    <div className="text-muted-foreground">{invoice.number}</div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="font-medium">
+                    {invoice.total.toLocaleString(undefined, { style: 'currency', currency: invoice.currency })}
+                  </span>
+                  <button
+                    onClick={() => openInvoice(invoice)}
+                    className="text-primary font-medium hover:underline"
+                  >
+                    View
+                  </button>
+                </div>
               </div>
-            ) : (
-              <button className="w-full py-2 px-4 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors">
-                {p.price > plan.price ? 'Upgrade' : 'Downgrade'}
-              </button>
-            )}
+            ))}
           </div>
-        ))}
-      </div>
+        </div>
+      )}
     </div>
   )
 }
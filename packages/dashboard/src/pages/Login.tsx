@@ -1,75 +1,509 @@
-import { useState } from 'react'
-import { Sparkles, Key, AlertCircle } from 'lucide-react'
-import { useAuth } from '../hooks/useAuth'
+import { ReactNode, useEffect, useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { isAxiosError } from 'axios'
+import { Sparkles, Key, Mail, Lock, AlertCircle, CheckCircle, ShieldCheck } from 'lucide-react'
+import { api } from '../lib/api'
+import { useAuth, Session, TwoFactorChallenge } from '../hooks/useAuth'
+import { AuthenticatorSetup, RecoveryCodes } from '../components/TwoFactor'
+
+const inputClass =
+  'w-full pl-10 pr-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary'
+
+const buttonClass =
+  'w-full py-2 px-4 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50'
+
+function errorMessage(err: unknown, fallback: string) {
+  return (isAxiosError(err) && err.response?.data?.error) || fallback
+}
+
+/**
+ * Logo, subtitle and card shared by the sign-in screens
+ */
+function AuthShell({ subtitle, children }: { subtitle: string; children: ReactNode }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 mb-4">
+            <Sparkles className="w-8 h-8 text-primary" />
+            <h1 className="text-2xl font-bold">Rendered Fits</h1>
+          </div>
+          <p className="text-muted-foreground">{subtitle}</p>
+        </div>
+
+        <div className="bg-muted border border-border rounded-lg p-6">{children}</div>
+      </div>
+    </div>
+  )
+}
+
+function ErrorNotice({ message }: { message: string }) {
+  return (
+    <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 text-sm">
+      <AlertCircle className="w-4 h-4" />
+      {message}
+    </div>
+  )
+}
+
+function SuccessNotice({ message }: { message: string }) {
+  return (
+    <div className="flex items-center gap-2 p-3 bg-green-500/10 border border-green-500/20 rounded-lg text-green-500 text-sm">
+      <CheckCircle className="w-4 h-4" />
+      {message}
+    </div>
+  )
+}
+
+/**
+ * Second sign in step: a code from the authenticator app or a recovery code.
+ * When the team requires two-factor and the login has none, sets it up first.
+ */
+export function TwoFactorStep({
+  challenge,
+  onSignedIn,
+  onCancel,
+}: {
+  challenge: TwoFactorChallenge
+  onSignedIn?: () => void
+  onCancel: () => void
+}) {
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null)
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [session, setSession] = useState<Session | null>(null)
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+  const { startSession } = useAuth()
+  const requested = useRef(false)
+
+  const finish = (data: Session) => {
+    startSession(data)
+    onSignedIn?.()
+  }
+
+  useEffect(() => {
+    // Each request makes a new secret, so only ask once
+    if (!challenge.setupRequired || requested.current) return
+    requested.current = true
+
+    api.post('/api/auth/login/two-factor/setup', { challengeToken: challenge.challengeToken })
+      .then(({ data }) => setSetup({ secret: data.secret, otpauthUrl: data.otpauthUrl }))
+      .catch((err) => setError(errorMessage(err, 'Could not start two-factor setup')))
+  }, [challenge])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      const { data } = await api.post('/api/auth/login/two-factor', {
+        challengeToken: challenge.challengeToken,
+        ...(useRecoveryCode ? { recoveryCode: code } : { code }),
+      })
+
+      // Newly set up: show the recovery codes before opening the dashboard
+      if (data.recoveryCodes) {
+        setRecoveryCodes(data.recoveryCodes)
+        setSession(data)
+      } else {
+        finish(data)
+      }
+    } catch (err) {
+      setError(errorMessage(err, 'Invalid code'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (recoveryCodes && session) {
+    return (
+      <div className="space-y-4">
+        <SuccessNotice message="Two-factor authentication is on." />
+        <RecoveryCodes codes={recoveryCodes} />
+        <button onClick={() => finish(session)} className={buttonClass}>
+          Continue
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {challenge.setupRequired ? (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Your team requires two-factor authentication. Set it up to continue.
+          </p>
+          {setup && <AuthenticatorSetup secret={setup.secret} otpauthUrl={setup.otpauthUrl} />}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      )}
+
+      <div>
+        <label htmlFor="code" className="block text-sm font-medium mb-2">
+          {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+        </label>
+        <div className="relative">
+          <ShieldCheck className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            id="code"
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            autoFocus
+            className={inputClass}
+            required
+          />
+        </div>
+      </div>
+
+      {error && <ErrorNotice message={error} />}
+
+      <button type="submit" disabled={loading || (challenge.setupRequired && !setup)} className={buttonClass}>
+        {loading ? 'Verifying...' : 'Verify'}
+      </button>
+
+      <div className="space-y-2 text-center">
+        {!challenge.setupRequired && (
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode)
+              setCode('')
+              setError('')
+            }}
+            className="w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          className="w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  )
+}
 
 export function Login() {
+  const [mode, setMode] = useState<'password' | 'apiKey' | 'forgot'>('password')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
   const [apiKey, setApiKey] = useState('')
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
   const [loading, setLoading] = useState(false)
-  const { login } = useAuth()
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null)
+  const { login, signIn } = useAuth()
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
+    setNotice('')
     setLoading(true)
 
     try {
-      await login(apiKey)
-    } catch (err: any) {
-      setError(err.response?.data?.error || 'Invalid API key')
+      if (mode === 'password') {
+        setChallenge(await signIn(email, password))
+      } else if (mode === 'apiKey') {
+        await login(apiKey)
+      } else {
+        const { data } = await api.post('/api/auth/forgot-password', { email })
+        setNotice(data.message)
+      }
+    } catch (err) {
+      setError(errorMessage(err, mode === 'apiKey' ? 'Invalid API key' : 'Invalid email or password'))
     } finally {
       setLoading(false)
     }
   }
 
+  const switchMode = (next: typeof mode) => {
+    setMode(next)
+    setError('')
+    setNotice('')
+  }
+
+  if (challenge) {
+    return (
+      <AuthShell subtitle="Two-factor authentication">
+        <TwoFactorStep
+          challenge={challenge}
+          onCancel={() => {
+            setChallenge(null)
+            setPassword('')
+          }}
+        />
+      </AuthShell>
+    )
+  }
+
   return (
-    <div className="min-h-screen flex items-center justify-center bg-background p-4">
-      <div className="w-full max-w-md">
-        <div className="text-center mb-8">
-          <div className="inline-flex items-center gap-2 mb-4">
-            <Sparkles className="w-8 h-8 text-primary" />
-            <h1 className="text-2xl font-bold">Rendered Fits</h1>
+    <AuthShell subtitle={mode === 'forgot' ? 'Reset your password' : 'Sign in to your merchant dashboard'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {mode === 'apiKey' ? (
+          <div>
+            <label htmlFor="apiKey" className="block text-sm font-medium mb-2">
+              API Key
+            </label>
+            <div className="relative">
+              <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <input
+                id="apiKey"
+                type="text"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="rfts_xxxxxxxxxxxxxxxxxxxxx"
+                className={inputClass}
+                required
+              />
+            </div>
           </div>
-          <p className="text-muted-foreground">Sign in to your merchant dashboard</p>
-        </div>
+        ) : (
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium mb-2">
+              Email
+            </label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@yourstore.com"
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+        )}
 
-        <div className="bg-muted border border-border rounded-lg p-6">
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label htmlFor="apiKey" className="block text-sm font-medium mb-2">
-                API Key
+        {mode === 'password' && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="password" className="block text-sm font-medium">
+                Password
               </label>
-              <div className="relative">
-                <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <input
-                  id="apiKey"
-                  type="text"
-                  value={apiKey}
-                  onChange={(e) => setApiKey(e.target.value)}
-                  placeholder="rfts_xxxxxxxxxxxxxxxxxxxxx"
-                  className="w-full pl-10 pr-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-                  required
-                />
-              </div>
+              <button
+                type="button"
+                onClick={() => switchMode('forgot')}
+                className="text-sm text-primary hover:underline"
+              >
+                Forgot password?
+              </button>
+            </div>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+                required
+              />
             </div>
+          </div>
+        )}
+
+        {mode === 'forgot' && (
+          <p className="text-sm text-muted-foreground">
+            Enter the email you sign in with and we will send you a link to choose a new password.
+          </p>
+        )}
+
+        {error && <ErrorNotice message={error} />}
+        {notice && <SuccessNotice message={notice} />}
+
+        <button type="submit" disabled={loading} className={buttonClass}>
+          {mode === 'forgot'
+            ? loading ? 'Sending...' : 'Send Reset Link'
+            : loading ? 'Signing in...' : 'Sign In'}
+        </button>
+      </form>
+
+      <div className="mt-4 space-y-2 text-center">
+        {mode !== 'password' && (
+          <button
+            onClick={() => switchMode('password')}
+            className="w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {mode === 'forgot' ? 'Back to sign in' : 'Sign in with email and password'}
+          </button>
+        )}
+        {mode === 'password' && (
+          <button
+            onClick={() => switchMode('apiKey')}
+            className="w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Sign in with an API key instead
+          </button>
+        )}
+      </div>
+    </AuthShell>
+  )
+}
+
+/**
+ * Choose a new password from an emailed reset link (/reset-password?token=)
+ */
+export function ResetPassword() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState('')
+  const [done, setDone] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
 
-            {error && (
-              <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 text-sm">
-                <AlertCircle className="w-4 h-4" />
-                {error}
-              </div>
-            )}
-
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full py-2 px-4 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
-            >
-              {loading ? 'Signing in...' : 'Sign In'}
-            </button>
-          </form>
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setLoading(true)
+    try {
+      await api.post('/api/auth/reset-password', { token, password })
+      setDone(true)
+    } catch (err) {
+      setError(errorMessage(err, 'Could not reset your password'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (done) {
+    return (
+      <AuthShell subtitle="Reset your password">
+        <div className="space-y-4">
+          <SuccessNotice message="Your password has been changed. All devices have been signed out." />
+          <Link to="/" className={`block text-center ${buttonClass}`}>
+            Sign In
+          </Link>
         </div>
+      </AuthShell>
+    )
+  }
+
+  return (
+    <AuthShell subtitle="Choose a new password">
+      {!token ? (
+        <ErrorNotice message="This reset link is incomplete. Request a new one from the sign in page." />
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium mb-2">
+              New password
+            </label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={8}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium mb-2">
+              Confirm new password
+            </label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <input
+                id="confirmPassword"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                minLength={8}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+
+          {error && <ErrorNotice message={error} />}
+
+          <button type="submit" disabled={loading} className={buttonClass}>
+            {loading ? 'Saving...' : 'Set New Password'}
+          </button>
+        </form>
+      )}
+    </AuthShell>
+  )
+}
+
+/**
+ * Confirm an email address from an emailed link (/verify-email?token=)
+ */
+export function VerifyEmail() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying')
+  const [error, setError] = useState('')
+  const { isAuthenticated, refresh } = useAuth()
+  const sent = useRef(false)
+
+  useEffect(() => {
+    // Tokens work once, so only send it once
+    if (sent.current) return
+    sent.current = true
+
+    if (!token) {
+      setError('This verification link is incomplete')
+      setStatus('failed')
+      return
+    }
+
+    api.post('/api/auth/verify-email', { token })
+      .then(() => {
+        setStatus('verified')
+        refresh().catch(() => undefined)
+      })
+      .catch((err) => {
+        setError(errorMessage(err, 'This verification link is invalid or has expired'))
+        setStatus('failed')
+      })
+  }, [token, refresh])
+
+  return (
+    <AuthShell subtitle="Verify your email">
+      <div className="space-y-4">
+        {status === 'verifying' && <p className="text-center text-muted-foreground">Verifying...</p>}
+        {status === 'verified' && <SuccessNotice message="Your email is verified." />}
+        {status === 'failed' && <ErrorNotice message={error} />}
+
+        {status !== 'verifying' && (
+          <Link to={isAuthenticated ? '/account' : '/'} className={`block text-center ${buttonClass}`}>
+            {isAuthenticated ? 'Back to your account' : 'Sign In'}
+          </Link>
+        )}
       </div>
-    </div>
+    </AuthShell>
   )
 }
@@ -3,6 +3,7 @@ import { useQuery } from '@tanstack/react-query'
 import { TrendingUp, Users, Package, DollarSign, ArrowUpDown, Clock } from 'lucide-react'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 import { api } from '../lib/api'
+import { formatTryonLimit } from '../hooks/usePlans'
 
 type SortField = 'name' | 'tryonCount' | 'conversionRate'
 type SortDirection = 'asc' | 'desc'
@@ -73,14 +74,17 @@ export function Overview() {
     },
     {
       name: 'Revenue Attributed',
-      value: `$${analytics?.revenue?.total?.toLocaleString() || 0}`,
+      value: (analytics?.revenue?.total || 0).toLocaleString(undefined, {
+        style: 'currency',
+        currency: analytics?.revenue?.currency || 'USD',
+      }),
       icon: DollarSign,
       change: analytics?.changes?.revenue,
     },
     {
       name: 'Usage This Month',
       value: `${usage.used.toLocaleString()}`,
-      subtitle: `of ${usage.limit.toLocaleString()}`,
+      subtitle: `of ${formatTryonLimit(usage.limit)}`,
       icon: Package,
       progress: usage.percentage,
     },
@@ -3,6 +3,8 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { Copy, Check, Code, RefreshCw, Save, Eye } from 'lucide-react'
 import { useAuth } from '../hooks/useAuth'
 import { api } from '../lib/api'
+import { useFeature } from '../hooks/usePlans'
+import { UpgradeHint } from '../components/UpgradeHint'
 
 type WidgetSettings = {
   buttonText: string
@@ -12,13 +14,20 @@ type WidgetSettings = {
   requireEmail: boolean
   showCompleteLook: boolean
   enableSizeRecommendations: boolean
+  hideBranding: boolean
+  customLogoUrl: string
 }
 
+// Offered as reporting currencies; any ISO 4217 code works through the API
+const REPORTING_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'JPY', 'CHF', 'SEK', 'DKK', 'NOK']
+
 export function Settings() {
   const { merchant } = useAuth()
   const queryClient = useQueryClient()
   const [copied, setCopied] = useState<'api' | 'code' | null>(null)
   const [showPreview, setShowPreview] = useState(true)
+  // Set only right after regenerating; the full key is never shown again
+  const [newApiKey, setNewApiKey] = useState<string | null>(null)
 
   const [settings, setSettings] = useState<WidgetSettings>({
     buttonText: '👗 Try On Me',
@@ -28,15 +37,24 @@ export function Settings() {
     requireEmail: false,
     showCompleteLook: true,
     enableSizeRecommendations: true,
+    hideBranding: false,
+    customLogoUrl: '',
   })
+  const [reportingCurrency, setReportingCurrency] = useState('USD')
+  const [allowedDomains, setAllowedDomains] = useState('')
+  const whiteLabel = useFeature('whiteLabel')
 
-  const { data: fetchedSettings } = useQuery({
+  const { data: settingsResponse } = useQuery({
     queryKey: ['widget-settings'],
     queryFn: async () => {
       const { data } = await api.get('/api/settings')
-      return data.settings
+      return data
     },
   })
+  const fetchedSettings = settingsResponse?.settings
+  const fetchedCurrency: string | undefined = settingsResponse?.reportingCurrency
+  const fetchedDomains: string[] | undefined = settingsResponse?.allowedDomains
+  const publishableKey: string = settingsResponse?.publishableKey || ''
 
   useEffect(() => {
     if (fetchedSettings) {
@@ -48,17 +66,42 @@ export function Settings() {
         requireEmail: fetchedSettings.requireEmail,
         showCompleteLook: fetchedSettings.showCompleteLook,
         enableSizeRecommendations: fetchedSettings.enableSizeRecommendations,
+        hideBranding: fetchedSettings.hideBranding,
+        customLogoUrl: fetchedSettings.customLogoUrl || '',
       })
     }
   }, [fetchedSettings])
 
+  useEffect(() => {
+    if (fetchedCurrency) {
+      setReportingCurrency(fetchedCurrency)
+    }
+  }, [fetchedCurrency])
+
+  useEffect(() => {
+    if (fetchedDomains) {
+      setAllowedDomains(fetchedDomains.join('\n'))
+    }
+  }, [fetchedDomains])
+
   const saveMutation = useMutation({
     mutationFn: async (newSettings: WidgetSettings) => {
-      const { data } = await api.put('/api/settings', newSettings)
+      // White-label fields are left as they are unless the plan includes them
+      const { data } = await api.put('/api/settings', {
+        ...newSettings,
+        reportingCurrency,
+        allowedDomains: allowedDomains.split(/[\s,]+/).filter(Boolean),
+        ...(whiteLabel.allowed
+          ? { customLogoUrl: newSettings.customLogoUrl || null }
+          : { hideBranding: undefined, customLogoUrl: undefined }),
+      })
       return data.settings
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['widget-settings'] })
+      queryClient.invalidateQueries({ queryKey: ['analytics-overview'] })
+      queryClient.invalidateQueries({ queryKey: ['analytics-products'] })
+      queryClient.invalidateQueries({ queryKey: ['analytics-timeline'] })
     },
   })
 
@@ -68,9 +111,7 @@ export function Settings() {
       return data.merchant
     },
     onSuccess: (newMerchant) => {
-      // Update merchant in localStorage
-      localStorage.setItem('rf_merchant', JSON.stringify(newMerchant))
-      window.location.reload()
+      setNewApiKey(newMerchant.apiKey)
     },
   })
 
@@ -84,6 +125,9 @@ export function Settings() {
     saveMutation.mutate(settings)
   }
 
+  const maskKey = (key: string) =>
+    key ? `${key.substring(0, key.indexOf('_') + 5)}${'•'.repeat(16)}${key.substring(key.length - 4)}` : ''
+
   const handleRegenerateKey = () => {
     if (confirm('Are you sure? Your current API key will stop working immediately.')) {
       regenerateKeyMutation.mutate()
@@ -93,7 +137,7 @@ export function Settings() {
   const widgetCode = `<script src="https://cdn.renderedfits.com/widget.min.js"></script>
 <script>
   RenderedFits.init({
-    apiKey: '${merchant?.apiKey}',
+    apiKey: '${publishableKey}',
     buttonText: '${settings.buttonText}',
     buttonColor: '${settings.buttonColor}',
     position: '${settings.buttonPosition}'${settings.buttonPosition === 'custom' ? `,\n    customSelector: '${settings.customCssSelector}'` : ''}
@@ -218,6 +262,85 @@ export function Settings() {
             </div>
           </div>
 
+          {/* White-label */}
+          <div className="bg-muted border border-border rounded-lg p-6">
+            <h2 className="text-lg font-semibold mb-4">White-label</h2>
+            <div className={`space-y-4 ${whiteLabel.allowed ? '' : 'opacity-50 pointer-events-none'}`}>
+              <label className="flex items-center justify-between p-4 bg-background rounded-lg cursor-pointer hover:bg-background/80 transition-colors">
+                <div>
+                  <div className="font-medium">Hide Rendered Fits branding</div>
+                  <div className="text-sm text-muted-foreground">Remove the Powered by line from the try-on window</div>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={settings.hideBranding}
+                  disabled={!whiteLabel.allowed}
+                  onChange={(e) => setSettings({ ...settings, hideBranding: e.target.checked })}
+                  className="w-5 h-5 rounded border-border text-primary focus:ring-primary"
+                />
+              </label>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Logo URL</label>
+                <input
+                  type="url"
+                  value={settings.customLogoUrl}
+                  disabled={!whiteLabel.allowed}
+                  onChange={(e) => setSettings({ ...settings, customLogoUrl: e.target.value })}
+                  className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  placeholder="https://yourstore.com/logo.png"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Shown in the try-on window header. Must be an https URL.
+                </p>
+              </div>
+            </div>
+            <div className="mt-4">
+              <UpgradeHint feature="whiteLabel" />
+            </div>
+          </div>
+
+          {/* Reporting */}
+          <div className="bg-muted border border-border rounded-lg p-6">
+            <h2 className="text-lg font-semibold mb-4">Reporting</h2>
+            <div>
+              <label className="block text-sm font-medium mb-2">Reporting Currency</label>
+              <select
+                value={reportingCurrency}
+                onChange={(e) => setReportingCurrency(e.target.value)}
+                className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {(REPORTING_CURRENCIES.includes(reportingCurrency)
+                  ? REPORTING_CURRENCIES
+                  : [reportingCurrency, ...REPORTING_CURRENCIES]
+                ).map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Revenue from orders in other currencies is converted at the latest daily exchange rate.
+              </p>
+            </div>
+          </div>
+
+          {/* Allowed Domains */}
+          <div className="bg-muted border border-border rounded-lg p-6">
+            <h2 className="text-lg font-semibold mb-4">Allowed Domains</h2>
+            <div>
+              <label className="block text-sm font-medium mb-2">Storefront Domains</label>
+              <textarea
+                value={allowedDomains}
+                onChange={(e) => setAllowedDomains(e.target.value)}
+                rows={3}
+                className="w-full px-4 py-2 bg-background border border-border rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="https://yourstore.com"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                One per line. The widget key only works on these sites, and not at all until you add one.
+              </p>
+            </div>
+          </div>
+
           {/* Integration Code */}
           <div className="bg-muted border border-border rounded-lg p-6">
             <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -239,7 +362,8 @@ export function Settings() {
                   </button>
                 </div>
                 <p className="text-sm text-muted-foreground mt-2">
-                  Add this code to your product pages to enable virtual try-on.
+                  Add this code to your product pages to enable virtual try-on. It uses your
+                  publishable key, which only works on your allowed domains.
                 </p>
               </div>
             </div>
@@ -249,47 +373,75 @@ export function Settings() {
           <div className="bg-muted border border-border rounded-lg p-6">
             <h2 className="text-lg font-semibold mb-4">API Key</h2>
             <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium mb-2">Your API Key</label>
-                <div className="flex gap-2">
+              {newApiKey ? (
+                <div className="p-4 bg-primary/10 border border-primary/20 rounded-lg">
+                  <label className="block text-sm font-medium mb-2">Your New Secret API Key</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={newApiKey}
+                      readOnly
+                      className="flex-1 px-4 py-2 bg-background border border-border rounded-lg font-mono text-sm"
+                    />
+                    <button
+                      onClick={() => copyToClipboard(newApiKey, 'api')}
+                      className="px-4 py-2 bg-background border border-border rounded-lg hover:bg-primary hover:text-primary-foreground transition-colors"
+                    >
+                      {copied === 'api' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    Copy this key now and update your server integrations. It will not be shown again.
+                  </p>
+                  <button
+                    onClick={() => window.location.reload()}
+                    className="mt-3 text-sm font-medium text-primary hover:underline"
+                  >
+                    I have copied it
+                  </button>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Your Secret API Key</label>
                   <input
                     type="text"
-                    value={merchant?.apiKey || ''}
+                    value={merchant?.apiKey ? maskKey(merchant.apiKey) : 'rfts_••••••••'}
                     readOnly
-                    className="flex-1 px-4 py-2 bg-background border border-border rounded-lg font-mono text-sm"
+                    className="w-full px-4 py-2 bg-background border border-border rounded-lg font-mono text-sm"
                   />
-                  <button
-                    onClick={() => copyToClipboard(merchant?.apiKey || '', 'api')}
-                    className="px-4 py-2 bg-background border border-border rounded-lg hover:bg-primary hover:text-primary-foreground transition-colors"
-                  >
-                    {copied === 'api' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                  </button>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    Keep this key secret and use it only from your server. Never put it in storefront pages.
+                    Regenerate it if you have lost it.
+                  </p>
                 </div>
-                <p className="text-sm text-muted-foreground mt-2">
-                  Keep this key secret. Never share it publicly.
-                </p>
-              </div>
+              )}
 
-              <button
-                onClick={handleRegenerateKey}
-                disabled={regenerateKeyMutation.isPending}
-                className="flex items-center gap-2 px-4 py-2 bg-red-500/10 border border-red-500/20 text-red-500 rounded-lg hover:bg-red-500/20 transition-colors disabled:opacity-50"
-              >
-                <RefreshCw className="w-4 h-4" />
-                Regenerate API Key
-              </button>
+              {/* Only a signed-in member can regenerate; an API key session cannot */}
+              {merchant?.token && (
+                <button
+                  onClick={handleRegenerateKey}
+                  disabled={regenerateKeyMutation.isPending}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-500/10 border border-red-500/20 text-red-500 rounded-lg hover:bg-red-500/20 transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  Regenerate API Key
+                </button>
+              )}
             </div>
           </div>
 
           <div className="flex gap-3">
-            <button
-              onClick={handleSave}
-              disabled={saveMutation.isPending}
-              className="flex items-center gap-2 px-6 py-3 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
-            >
-              <Save className="w-4 h-4" />
-              {saveMutation.isPending ? 'Saving...' : 'Save Settings'}
-            </button>
+            {/* Only a signed-in member can save; an API key session cannot */}
+            {merchant?.token && (
+              <button
+                onClick={handleSave}
+                disabled={saveMutation.isPending}
+                className="flex items-center gap-2 px-6 py-3 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                {saveMutation.isPending ? 'Saving...' : 'Save Settings'}
+              </button>
+            )}
 
             <button
               onClick={() => setShowPreview(!showPreview)}
@@ -0,0 +1,340 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { isAxiosError } from 'axios'
+import { UserPlus, Trash2, X, ShieldCheck } from 'lucide-react'
+import { api } from '../lib/api'
+import { useAuth, MemberRole } from '../hooks/useAuth'
+
+interface Member {
+  id: string
+  userId: string
+  email: string
+  name: string | null
+  role: MemberRole
+  lastLoginAt: string | null
+  twoFactorEnabled: boolean
+  createdAt: string
+}
+
+interface Invitation {
+  id: string
+  email: string
+  role: MemberRole
+  expiresAt: string
+  createdAt: string
+  invitedBy: { email: string; name: string | null } | null
+}
+
+const ROLES: { value: MemberRole; label: string; description: string }[] = [
+  { value: 'OWNER', label: 'Owner', description: 'Everything, including billing and the team' },
+  { value: 'ADMIN', label: 'Admin', description: 'Everything except billing' },
+  { value: 'DEVELOPER', label: 'Developer', description: 'API keys, webhooks, settings and products' },
+  { value: 'BILLING', label: 'Billing', description: 'Plans, invoices and payment' },
+  { value: 'ANALYST', label: 'Analyst', description: 'Analytics only' },
+]
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString() : '—'
+}
+
+export function Team() {
+  const queryClient = useQueryClient()
+  const { merchant } = useAuth()
+  const [showInviteForm, setShowInviteForm] = useState(false)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<MemberRole>('ANALYST')
+  const [error, setError] = useState('')
+  // Only owners can manage owners
+  const canManageOwners = merchant?.role === 'OWNER'
+
+  const { data, isLoading } = useQuery<{ members: Member[]; invitations: Invitation[]; requireTwoFactor: boolean }>({
+    queryKey: ['team'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/team')
+      return data
+    },
+  })
+
+  const onError = (err: Error) =>
+    setError((isAxiosError(err) && err.response?.data?.error) || 'Something went wrong. Please try again.')
+  const onSuccess = () => {
+    setError('')
+    queryClient.invalidateQueries({ queryKey: ['team'] })
+  }
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      await api.post('/api/team/invitations', { email: inviteEmail, role: inviteRole })
+    },
+    onSuccess: () => {
+      setInviteEmail('')
+      setInviteRole('ANALYST')
+      setShowInviteForm(false)
+      onSuccess()
+    },
+    onError,
+  })
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: MemberRole }) => {
+      await api.put(`/api/team/members/${id}`, { role })
+    },
+    onSuccess,
+    onError,
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/team/members/${id}`)
+    },
+    onSuccess,
+    onError,
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/team/invitations/${id}`)
+    },
+    onSuccess,
+    onError,
+  })
+
+  const securityMutation = useMutation({
+    mutationFn: async (requireTwoFactor: boolean) => {
+      await api.put('/api/team/security', { requireTwoFactor })
+    },
+    onSuccess,
+    onError,
+  })
+
+  const handleRemove = (member: Member) => {
+    if (confirm(`Remove ${member.email} from the team? They will lose access immediately.`)) {
+      removeMutation.mutate(member.id)
+    }
+  }
+
+  const members = data?.members || []
+  const invitations = data?.invitations || []
+  const assignableRoles = ROLES.filter((role) => canManageOwners || role.value !== 'OWNER')
+  const withoutTwoFactor = members.filter((member) => !member.twoFactorEnabled).length
+
+  return (
+    <div className="space-y-6 max-w-7xl">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Team</h1>
+          <p className="text-muted-foreground mt-1">
+            Give everyone their own login, with a role that decides what they can open
+          </p>
+        </div>
+        <button
+          onClick={() => setShowInviteForm(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors"
+        >
+          <UserPlus className="w-4 h-4" />
+          Invite Member
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 text-sm">{error}</div>
+      )}
+
+      {showInviteForm && (
+        <div className="bg-muted border border-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-4">Invite a Team Member</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Email</label>
+              <input
+                type="email"
+                placeholder="colleague@yourstore.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Role</label>
+              <div className="space-y-2">
+                {assignableRoles.map((role) => (
+                  <label key={role.value} className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="role"
+                      checked={inviteRole === role.value}
+                      onChange={() => setInviteRole(role.value)}
+                      className="w-4 h-4"
+                    />
+                    <span className="text-sm font-medium">{role.label}</span>
+                    <span className="text-sm text-muted-foreground">{role.description}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              They will get an email with a link to join. The link works for 7 days.
+            </p>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => inviteMutation.mutate()}
+                disabled={!inviteEmail || inviteMutation.isPending}
+                className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {inviteMutation.isPending ? 'Sending...' : 'Send Invitation'}
+              </button>
+              <button
+                onClick={() => {
+                  setShowInviteForm(false)
+                  setInviteEmail('')
+                }}
+                className="px-4 py-2 bg-background border border-border font-medium rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-muted border border-border rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="p-10 text-center text-muted-foreground">Loading...</div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border text-left text-sm">
+                <th className="px-6 py-3 font-semibold">Member</th>
+                <th className="px-6 py-3 font-semibold">Role</th>
+                <th className="px-6 py-3 font-semibold">Two-factor</th>
+                <th className="px-6 py-3 font-semibold">Last sign in</th>
+                <th className="px-6 py-3 font-semibold">Joined</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {members.map((member) => {
+                const isSelf = member.userId === merchant?.user?.id
+                const locked = isSelf || (member.role === 'OWNER' && !canManageOwners)
+
+                return (
+                  <tr key={member.id} className="border-b border-border last:border-0 text-sm">
+                    <td className="px-6 py-4">
+                      <div className="font-medium">{member.name || member.email}</div>
+                      {member.name && <div className="text-muted-foreground">{member.email}</div>}
+                    </td>
+                    <td className="px-6 py-4">
+                      <select
+                        value={member.role}
+                        disabled={locked || changeRoleMutation.isPending}
+                        onChange={(e) => changeRoleMutation.mutate({ id: member.id, role: e.target.value as MemberRole })}
+                        className="px-3 py-1.5 bg-background border border-border rounded-lg disabled:opacity-60"
+                      >
+                        {ROLES.filter((role) => canManageOwners || role.value !== 'OWNER' || member.role === 'OWNER').map(
+                          (role) => (
+                            <option key={role.value} value={role.value}>
+                              {role.label}
+                            </option>
+                          )
+                        )}
+                      </select>
+                    </td>
+                    <td className="px-6 py-4">
+                      {member.twoFactorEnabled ? (
+                        <span className="flex items-center gap-1 text-green-500">
+                          <ShieldCheck className="w-4 h-4" />
+                          On
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">Off</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">{formatDate(member.lastLoginAt)}</td>
+                    <td className="px-6 py-4">{formatDate(member.createdAt)}</td>
+                    <td className="px-6 py-4 text-right">
+                      {isSelf ? (
+                        <span className="text-muted-foreground">You</span>
+                      ) : !locked && (
+                        <button
+                          onClick={() => handleRemove(member)}
+                          disabled={removeMutation.isPending}
+                          className="flex items-center gap-1 ml-auto text-red-500 hover:text-red-400 disabled:opacity-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          Remove
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {data && (
+        <div className="bg-muted border border-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-2">Security</h2>
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={data.requireTwoFactor}
+              disabled={!canManageOwners || securityMutation.isPending}
+              onChange={(e) => securityMutation.mutate(e.target.checked)}
+              className="w-4 h-4 mt-0.5"
+            />
+            <span className="text-sm">
+              <span className="font-medium">Require two-factor authentication</span>
+              <span className="block text-muted-foreground">
+                Every member signs in with a code from an authenticator app. Members without one set it up at their
+                next sign in{withoutTwoFactor > 0 && ` (${withoutTwoFactor} without it now)`}.
+                {!canManageOwners && ' Only owners can change this.'}
+              </span>
+            </span>
+          </label>
+        </div>
+      )}
+
+      {invitations.length > 0 && (
+        <div className="bg-muted border border-border rounded-lg overflow-hidden">
+          <h2 className="px-6 pt-5 pb-2 text-lg font-semibold">Pending Invitations</h2>
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border text-left text-sm">
+                <th className="px-6 py-3 font-semibold">Email</th>
+                <th className="px-6 py-3 font-semibold">Role</th>
+                <th className="px-6 py-3 font-semibold">Invited by</th>
+                <th className="px-6 py-3 font-semibold">Expires</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {invitations.map((invitation) => (
+                <tr key={invitation.id} className="border-b border-border last:border-0 text-sm">
+                  <td className="px-6 py-4 font-medium">{invitation.email}</td>
+                  <td className="px-6 py-4">{ROLES.find((role) => role.value === invitation.role)?.label}</td>
+                  <td className="px-6 py-4">{invitation.invitedBy?.name || invitation.invitedBy?.email || '—'}</td>
+                  <td className="px-6 py-4">{formatDate(invitation.expiresAt)}</td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => revokeMutation.mutate(invitation.id)}
+                      disabled={revokeMutation.isPending}
+                      className="flex items-center gap-1 ml-auto text-red-500 hover:text-red-400 disabled:opacity-50"
+                    >
+                      <X className="w-4 h-4" />
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,14 @@
 // Enums matching Prisma schema
 export enum SubscriptionPlan {
-  ATELIER = 'ATELIER',  // Starter: $99/mo, 500 try-ons
-  MAISON = 'MAISON',    // Professional: $299/mo, 2000 try-ons
-  COUTURE = 'COUTURE'   // Enterprise: $999/mo, unlimited
+  ATELIER = 'ATELIER',  // Starter
+  MAISON = 'MAISON',    // Professional
+  COUTURE = 'COUTURE'   // Enterprise
 }
 
 export enum SubscriptionStatus {
   ACTIVE = 'ACTIVE',
   TRIAL = 'TRIAL',
+  TRIAL_EXPIRED = 'TRIAL_EXPIRED',
   PAST_DUE = 'PAST_DUE',
   CANCELED = 'CANCELED',
   SUSPENDED = 'SUSPENDED'
@@ -37,7 +38,16 @@ export enum AnalyticsEventType {
   REFUND = 'REFUND',
   WIDGET_LOADED = 'WIDGET_LOADED',
   API_KEY_CREATED = 'API_KEY_CREATED',
-  API_KEY_REVOKED = 'API_KEY_REVOKED'
+  API_KEY_REVOKED = 'API_KEY_REVOKED',
+  USAGE_ALERT = 'USAGE_ALERT'
+}
+
+export enum MemberRole {
+  OWNER = 'OWNER',
+  ADMIN = 'ADMIN',
+  ANALYST = 'ANALYST',
+  DEVELOPER = 'DEVELOPER',
+  BILLING = 'BILLING'
 }
 
 // Core Entity Types
@@ -59,11 +69,30 @@ export interface Merchant {
   webhookUrl?: string
   webhookSecret?: string
   allowedDomains: string[]
+  reportingCurrency: string
+  requireTwoFactor: boolean
   createdAt: string
   updatedAt: string
   lastLoginAt?: string
 }
 
+// A dashboard login; one user can belong to several merchants' teams
+export interface User {
+  id: string
+  email: string
+  name?: string
+  emailVerifiedAt?: string
+  totpEnabledAt?: string
+  createdAt: string
+  lastLoginAt?: string
+}
+
+export interface Membership {
+  merchantId: string
+  businessName: string
+  role: MemberRole
+}
+
 export interface Product {
   id: string
   merchantId: string
@@ -116,6 +145,7 @@ export interface TryOn {
   converted: boolean
   returnedFlag: boolean
   purchaseAmount?: number
+  purchaseCurrency?: string
   userRating?: number
   userFeedback?: string
   generatedAt: string
@@ -149,10 +179,30 @@ export interface AnalyticsEvent {
   timestamp: string
 }
 
+export type AuditActorType = 'user' | 'api_key' | 'system'
+
+export interface AuditEvent {
+  id: string
+  merchantId?: string
+  action: string
+  actorType: AuditActorType
+  userId?: string
+  apiKeyId?: string
+  actorLabel?: string
+  targetType?: string
+  targetId?: string
+  changes?: Record<string, { from: unknown; to: unknown }>
+  metadata?: Record<string, unknown>
+  ipAddress?: string
+  userAgent?: string
+  createdAt: string
+}
+
 // API Request/Response Types
 export interface LoginRequest {
   email: string
   password: string
+  merchantId?: string // Which team to sign in to; defaults to the first
 }
 
 export interface RegisterRequest {
@@ -167,6 +217,13 @@ export interface AuthResponse {
   success: boolean
   token?: string
   merchant?: Omit<Merchant, 'password'>
+  user?: User
+  role?: MemberRole
+  memberships?: Membership[]
+  twoFactorRequired?: boolean // Set instead of a token: finish with POST /api/auth/login/two-factor
+  setupRequired?: boolean
+  challengeToken?: string
+  recoveryCodes?: string[] // After setting two-factor up during sign in
   error?: string
 }
 
@@ -213,49 +270,24 @@ export interface DashboardStats {
   }
 }
 
-// Plan Configuration
-export interface PlanConfig {
-  name: string
-  price: number
-  includedTryons: number
-  features: string[]
+// Plan catalog, as served by GET /api/plans. Defined in the API's
+// services/plans.ts; do not hard-code limits or prices elsewhere.
+export interface PlanFeatures {
+  advancedAnalytics: boolean
+  webhooks: boolean
+  whiteLabel: boolean
+  hdQuality: boolean
+  batchGeneration: boolean
+  apiAccess: boolean
 }
 
-export const PLAN_CONFIGS: Record<SubscriptionPlan, PlanConfig> = {
-  [SubscriptionPlan.ATELIER]: {
-    name: 'Atelier',
-    price: 99,
-    includedTryons: 500,
-    features: [
-      '500 try-ons per month',
-      'Basic analytics',
-      'Email support',
-      'Widget customization'
-    ]
-  },
-  [SubscriptionPlan.MAISON]: {
-    name: 'Maison',
-    price: 299,
-    includedTryons: 2000,
-    features: [
-      '2,000 try-ons per month',
-      'Advanced analytics',
-      'Priority support',
-      'Custom branding',
-      'Webhook integration'
-    ]
-  },
-  [SubscriptionPlan.COUTURE]: {
-    name: 'Couture',
-    price: 999,
-    includedTryons: -1, // unlimited
-    features: [
-      'Unlimited try-ons',
-      'Premium analytics',
-      'Dedicated support',
-      'White-label solution',
-      'API access',
-      'Custom integrations'
-    ]
-  }
+export interface PlanConfig {
+  id: SubscriptionPlan
+  name: string
+  description: string
+  monthlyPrice: number
+  includedTryons: number // -1 = unlimited
+  overageRate: number
+  features: PlanFeatures
+  highlights: string[]
 }
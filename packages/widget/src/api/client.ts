@@ -9,7 +9,6 @@
 // ============================================================================
 
 export interface TryOnRequest {
-  apiKey: string
   customerId?: string
   customerPhoto: string // base64 or URL
   productId: string
@@ -19,8 +18,56 @@ export interface TryOnRequest {
   }
 }
 
-export interface TryOnResponse {
+export type TryOnJobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED'
+
+export type TryOnStage =
+  | 'queued'
+  | 'downloading_images'
+  | 'validating'
+  | 'calling_model'
+  | 'parsing_analysis'
+  | 'uploading'
+  | 'completed'
+  | 'failed'
+
+export interface TryOnJobResponse {
   success: boolean
+  jobId: string
+  status: TryOnJobStatus
+  statusUrl: string
+  eventsUrl: string
+}
+
+export interface TryOnJob {
+  id: string
+  status: TryOnJobStatus
+  stage: TryOnStage | null
+  attempts: number
+  error: string | null
+  result: TryOnJobResult | null
+  createdAt: string
+  startedAt: string | null
+  finishedAt: string | null
+}
+
+export interface TryOnProgressEvent {
+  jobId: string
+  stage: TryOnStage
+  progress: number // 0-1
+  etaMs: number | null // null when the server estimate is unavailable
+  timestamp: string
+  error?: string
+  result?: TryOnJobResult
+}
+
+export type TryOnProgressCallback = (event: TryOnProgressEvent) => void
+
+export interface TryOnJobStatusResponse {
+  success: boolean
+  job: TryOnJob
+}
+
+export interface TryOnJobResult {
   tryonId: string
   imageUrl: string
   recommendedSize?: string
@@ -54,6 +101,11 @@ export interface ErrorResponse {
   code?: string
 }
 
+export interface WidgetBranding {
+  showPoweredBy: boolean
+  logoUrl: string | null // Merchant logo on white-label plans
+}
+
 export interface AnalyticsEvent {
   eventType: 'button_clicked' | 'upload_started' | 'tryon_generated' | 'add_to_cart_clicked' | 'error_occurred'
   productId?: string
@@ -68,6 +120,22 @@ interface RetryConfig {
   maxDelay: number
 }
 
+interface PollConfig {
+  interval: number
+  timeout: number
+}
+
+/**
+ * Unique key for an Idempotency-Key header. crypto.randomUUID needs a secure
+ * context, so fall back to random digits on plain-HTTP storefronts.
+ */
+function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`
+}
+
 // ============================================================================
 // API CLIENT CLASS
 // ============================================================================
@@ -80,6 +148,10 @@ export class ApiClient {
     baseDelay: 1000,
     maxDelay: 10000
   }
+  private pollConfig: PollConfig = {
+    interval: 1500,
+    timeout: 180000 // 3 minutes
+  }
 
   constructor(apiKey: string, baseUrl: string = 'http://localhost:3001') {
     this.apiKey = apiKey
@@ -111,20 +183,22 @@ export class ApiClient {
 
   /**
    * Generate virtual try-on
+   * Queues a generation job and follows its progress until it finishes
    * @param photoUrl - Customer photo URL or base64
    * @param productId - Product ID to try on
    * @param apiKey - Optional API key override
+   * @param onProgress - Called as the job moves through generation stages
    * @returns Try-on result with image URL and recommendations
    */
   async generateTryon(
     photoUrl: string,
     productId: string,
-    apiKey?: string
+    apiKey?: string,
+    onProgress?: TryOnProgressCallback
   ): Promise<TryonResult> {
     const key = apiKey || this.apiKey
 
     const request: TryOnRequest = {
-      apiKey: key,
       customerPhoto: photoUrl,
       productId,
       options: {
@@ -135,14 +209,22 @@ export class ApiClient {
 
     console.log('[ApiClient] Generating try-on for product:', productId)
 
-    const response = await this.fetchWithRetry<TryOnResponse>(
+    // Same key on every retry, so a retried request is only metered once
+    const idempotencyKey = createIdempotencyKey()
+
+    const { jobId } = await this.fetchWithRetry<TryOnJobResponse>(
       '/api/v1/tryons/generate',
       {
         method: 'POST',
+        headers: { 'X-API-Key': key, 'Idempotency-Key': idempotencyKey },
         body: JSON.stringify(request)
       }
     )
 
+    console.log('[ApiClient] Try-on job queued:', jobId)
+
+    const response = await this.followTryOnJob(jobId, key, onProgress)
+
     console.log('[ApiClient] Try-on generated successfully:', response.tryonId)
 
     // Track success event
@@ -165,6 +247,128 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Get the current state of a try-on generation job
+   */
+  async getTryOnJob(jobId: string, apiKey?: string): Promise<TryOnJob> {
+    const key = apiKey || this.apiKey
+    const response = await this.fetchWithRetry<TryOnJobStatusResponse>(
+      `/api/v1/tryons/jobs/${jobId}`,
+      { method: 'GET', headers: { 'X-API-Key': key } }
+    )
+    return response.job
+  }
+
+  /**
+   * Follow a try-on job to completion, streaming progress over
+   * Server-Sent Events and falling back to polling when unavailable.
+   * The stream URL carries the key, so only publishable keys stream.
+   */
+  async followTryOnJob(
+    jobId: string,
+    apiKey?: string,
+    onProgress?: TryOnProgressCallback
+  ): Promise<TryOnJobResult> {
+    if (typeof EventSource === 'undefined' || !(apiKey || this.apiKey).startsWith('rfpk_')) {
+      return this.waitForTryOnJob(jobId, apiKey, onProgress)
+    }
+
+    try {
+      return await this.streamTryOnJob(jobId, apiKey, onProgress)
+    } catch (error) {
+      if (error instanceof ApiError) throw error
+
+      console.warn('[ApiClient] Progress stream unavailable, polling instead:', error)
+      return this.waitForTryOnJob(jobId, apiKey, onProgress)
+    }
+  }
+
+  /**
+   * Stream progress events for a try-on job until it succeeds or fails.
+   * Rejects with a plain Error if the stream drops, so the caller can fall back.
+   */
+  streamTryOnJob(
+    jobId: string,
+    apiKey?: string,
+    onProgress?: TryOnProgressCallback
+  ): Promise<TryOnJobResult> {
+    const key = apiKey || this.apiKey
+    const url = `${this.baseUrl}/api/v1/tryons/jobs/${jobId}/events?apiKey=${encodeURIComponent(key)}`
+
+    return new Promise((resolve, reject) => {
+      const source = new EventSource(url)
+      const timeout = setTimeout(() => {
+        source.close()
+        reject(new ApiError('Try-on generation timed out. Please try again.', 0, null))
+      }, this.pollConfig.timeout)
+
+      const finish = () => {
+        clearTimeout(timeout)
+        source.close()
+      }
+
+      source.addEventListener('progress', (message: MessageEvent) => {
+        const event: TryOnProgressEvent = JSON.parse(message.data)
+        onProgress?.(event)
+
+        if (event.stage === 'completed' && event.result) {
+          finish()
+          resolve(event.result)
+        } else if (event.stage === 'failed') {
+          finish()
+          reject(new ApiError(event.error || 'Try-on generation failed', 500, event))
+        }
+      })
+
+      source.onerror = () => {
+        finish()
+        reject(new Error('Progress stream disconnected'))
+      }
+    })
+  }
+
+  /**
+   * Poll a try-on job until it succeeds or fails
+   * @param onProgress - Called whenever the job reaches a new stage
+   */
+  async waitForTryOnJob(
+    jobId: string,
+    apiKey?: string,
+    onProgress?: TryOnProgressCallback
+  ): Promise<TryOnJobResult> {
+    const deadline = Date.now() + this.pollConfig.timeout
+    let lastStage: TryOnStage | null = null
+
+    while (Date.now() < deadline) {
+      const job = await this.getTryOnJob(jobId, apiKey)
+      const stage = ApiClient.jobStage(job)
+
+      if (stage !== lastStage) {
+        lastStage = stage
+        onProgress?.({
+          jobId,
+          stage,
+          progress: stage === 'completed' || stage === 'failed' ? 1 : 0,
+          etaMs: null,
+          timestamp: new Date().toISOString(),
+          ...(job.error && { error: job.error })
+        })
+      }
+
+      if (job.status === 'SUCCEEDED' && job.result) {
+        return job.result
+      }
+
+      if (job.status === 'FAILED') {
+        throw new ApiError(job.error || 'Try-on generation failed', 500, job)
+      }
+
+      await this.sleep(this.pollConfig.interval)
+    }
+
+    throw new ApiError('Try-on generation timed out. Please try again.', 0, null)
+  }
+
   /**
    * Track analytics event (fire-and-forget)
    * @param event - Analytics event to track
@@ -200,12 +404,30 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Get the merchant's widget branding
+   * Falls back to the default Rendered Fits branding if settings can't be loaded
+   */
+  async getBranding(): Promise<WidgetBranding> {
+    try {
+      const { branding } = await this.fetch<{ branding: WidgetBranding }>('/api/settings', {
+        method: 'GET',
+        headers: { 'X-API-Key': this.apiKey }
+      })
+      return branding
+    } catch (error) {
+      console.warn('[ApiClient] Could not load widget settings:', error)
+      return { showPoweredBy: true, logoUrl: null }
+    }
+  }
+
   /**
    * Get try-on details by ID
    */
   async getTryOn(tryonId: string): Promise<any> {
-    return this.fetchWithRetry(`/api/v1/tryons/${tryonId}?apiKey=${this.apiKey}`, {
-      method: 'GET'
+    return this.fetchWithRetry(`/api/v1/tryons/${tryonId}`, {
+      method: 'GET',
+      headers: { 'X-API-Key': this.apiKey }
     })
   }
 
@@ -379,6 +601,15 @@ export class ApiClient {
     })
   }
 
+  /**
+   * Map a polled job to its progress stage
+   */
+  static jobStage(job: TryOnJob): TryOnStage {
+    if (job.status === 'SUCCEEDED') return 'completed'
+    if (job.status === 'FAILED') return 'failed'
+    return job.stage || 'queued'
+  }
+
   /**
    * Validate image file
    */
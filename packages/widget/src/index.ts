@@ -6,7 +6,7 @@
  * <script src="widget.min.js"></script>
  * <script>
  *   RenderedFits.init({
- *     apiKey: 'rfts_xxxxx',
+ *     apiKey: 'rfpk_xxxxx', // publishable key from the dashboard
  *     productId: 'product_123',
  *     baseUrl: 'https://api.renderedfits.com' // optional
  *   })
@@ -18,7 +18,7 @@ import { TryOnModal } from './ui/modal'
 import { UploadComponent } from './ui/upload'
 import { LoadingComponent } from './ui/loading'
 import { ResultComponent } from './ui/result'
-import { ApiClient, ApiError } from './api/client'
+import { ApiClient, ApiError, WidgetBranding } from './api/client'
 import { Storage } from './utils/storage'
 import { Validator } from './utils/validation'
 
@@ -45,6 +45,7 @@ class RenderedFitsWidget {
   private resultComponent: ResultComponent | null = null
   private currentPhotoFile: File | null = null
   private currentPhotoDataUrl: string | null = null
+  private branding: WidgetBranding = { showPoweredBy: true, logoUrl: null }
 
   /**
    * Initialize the widget
@@ -67,6 +68,11 @@ class RenderedFitsWidget {
       config.baseUrl || 'http://localhost:3001'
     )
 
+    // Load white-label branding in the background; defaults apply until it arrives
+    this.apiClient.getBranding().then(branding => {
+      this.branding = branding
+    })
+
     // Check localStorage availability
     if (!Storage.isAvailable()) {
       console.warn('[RenderedFits] localStorage is not available. Photo saving disabled.')
@@ -102,7 +108,9 @@ class RenderedFitsWidget {
     }).catch(() => {})
 
     this.modal = new TryOnModal(() => this.closeModal(), {
-      productName: this.config.productId
+      productName: this.config.productId,
+      showPoweredBy: this.branding.showPoweredBy,
+      logoUrl: this.branding.logoUrl
     })
 
     this.modal.open()
@@ -306,7 +314,9 @@ class RenderedFitsWidget {
       // Call the new generateTryon method (with correct signature)
       const result = await this.apiClient.generateTryon(
         this.currentPhotoDataUrl,
-        this.config.productId
+        this.config.productId,
+        undefined,
+        event => this.loadingComponent?.updateProgress(event)
       )
 
       console.log('[RenderedFits] Try-on generated successfully:', result)
@@ -3,13 +3,25 @@
  * Beautiful animated loading indicator while AI generates the try-on
  */
 
+import { TryOnProgressEvent, TryOnStage } from '../api/client'
+
 export interface LoadingOptions {
   message?: string
 }
 
+// Steps shown to the shopper and the generation stages each one covers
+const PROGRESS_STEPS: { label: string; stages: TryOnStage[] }[] = [
+  { label: 'Preparing your photo', stages: ['downloading_images', 'validating'] },
+  { label: 'Fitting the garment', stages: ['calling_model'] },
+  { label: 'Analyzing fit and size', stages: ['parsing_analysis'] },
+  { label: 'Finalizing details', stages: ['uploading'] }
+]
+
 export class LoadingComponent {
   private container: HTMLDivElement | null = null
   private options: LoadingOptions
+  private steps: HTMLElement[] = []
+  private etaEl: HTMLElement | null = null
 
   constructor(options: LoadingOptions = {}) {
     this.options = options
@@ -126,17 +138,21 @@ export class LoadingComponent {
       marginTop: '16px'
     })
 
-    const steps = [
-      { label: 'Analyzing your photo', delay: 0 },
-      { label: 'Fitting the garment', delay: 800 },
-      { label: 'Applying realistic shadows', delay: 1600 },
-      { label: 'Finalizing details', delay: 2400 }
-    ]
-
-    steps.forEach((step, index) => {
-      const stepEl = this.createProgressStep(step.label, index, step.delay)
+    this.steps = PROGRESS_STEPS.map(step => {
+      const stepEl = this.createProgressStep(step.label)
       progress.appendChild(stepEl)
+      return stepEl
+    })
+
+    this.etaEl = document.createElement('p')
+    this.etaEl.className = 'rf-loading-eta'
+    Object.assign(this.etaEl.style, {
+      margin: '4px 0 0 0',
+      fontSize: '13px',
+      color: '#6b7280',
+      textAlign: 'center'
     })
+    progress.appendChild(this.etaEl)
 
     return progress
   }
@@ -144,7 +160,7 @@ export class LoadingComponent {
   /**
    * Create individual progress step
    */
-  private createProgressStep(label: string, index: number, delay: number): HTMLElement {
+  private createProgressStep(label: string): HTMLElement {
     const step = document.createElement('div')
     step.className = 'rf-progress-step'
 
@@ -160,8 +176,9 @@ export class LoadingComponent {
       transition: 'all 0.4s ease'
     })
 
-    // Animated icon
+    // Status icon
     const icon = document.createElement('div')
+    icon.className = 'rf-progress-step-icon'
     Object.assign(icon.style, {
       width: '20px',
       height: '20px',
@@ -179,6 +196,7 @@ export class LoadingComponent {
 
     // Label
     const labelEl = document.createElement('span')
+    labelEl.className = 'rf-progress-step-label'
     labelEl.textContent = label
     Object.assign(labelEl.style, {
       fontSize: '14px',
@@ -190,33 +208,79 @@ export class LoadingComponent {
     step.appendChild(icon)
     step.appendChild(labelEl)
 
-    // Animate step activation
-    setTimeout(() => {
-      step.style.opacity = '1'
-      step.style.transform = 'translateX(0)'
-
-      setTimeout(() => {
-        icon.style.borderColor = '#7c3aed'
-        icon.querySelector('div')!.style.background = '#7c3aed'
-        labelEl.style.color = '#111827'
-
-        // Check mark after completion
-        setTimeout(() => {
-          icon.innerHTML = `
-            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="#ffffff" stroke-width="3" stroke-linecap="round" stroke-linejoin="round">
-              <polyline points="20 6 9 17 4 12"></polyline>
-            </svg>
-          `
-          icon.style.backgroundColor = '#10b981'
-          icon.style.borderColor = '#10b981'
-          labelEl.style.color = '#6b7280'
-        }, 600)
-      }, 200)
-    }, delay)
-
     return step
   }
 
+  /**
+   * Mark a step as in progress
+   */
+  private activateStep(step: HTMLElement): void {
+    const icon = step.querySelector('.rf-progress-step-icon') as HTMLElement
+    const labelEl = step.querySelector('.rf-progress-step-label') as HTMLElement
+    const dot = icon.querySelector('div')
+
+    step.style.opacity = '1'
+    step.style.transform = 'translateX(0)'
+    icon.style.borderColor = '#7c3aed'
+    if (dot) dot.style.background = '#7c3aed'
+    labelEl.style.color = '#111827'
+  }
+
+  /**
+   * Mark a step as done
+   */
+  private completeStep(step: HTMLElement): void {
+    const icon = step.querySelector('.rf-progress-step-icon') as HTMLElement
+    const labelEl = step.querySelector('.rf-progress-step-label') as HTMLElement
+
+    step.style.opacity = '1'
+    step.style.transform = 'translateX(0)'
+    icon.innerHTML = `
+      <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="#ffffff" stroke-width="3" stroke-linecap="round" stroke-linejoin="round">
+        <polyline points="20 6 9 17 4 12"></polyline>
+      </svg>
+    `
+    icon.style.backgroundColor = '#10b981'
+    icon.style.borderColor = '#10b981'
+    labelEl.style.color = '#6b7280'
+  }
+
+  /**
+   * Reflect a generation progress event from the server
+   */
+  updateProgress(event: TryOnProgressEvent): void {
+    if (!this.container || event.stage === 'failed') return
+
+    const activeIndex = event.stage === 'completed'
+      ? PROGRESS_STEPS.length
+      : PROGRESS_STEPS.findIndex(step => step.stages.includes(event.stage))
+
+    this.steps.forEach((step, index) => {
+      if (index < activeIndex) {
+        this.completeStep(step)
+      } else if (index === activeIndex) {
+        this.activateStep(step)
+      }
+    })
+
+    if (this.etaEl) {
+      this.etaEl.textContent = LoadingComponent.formatEta(event)
+    }
+  }
+
+  /**
+   * Human readable time remaining
+   */
+  private static formatEta(event: TryOnProgressEvent): string {
+    if (event.stage === 'completed') return ''
+    if (event.stage === 'queued') return 'Waiting for an available slot...'
+    if (event.etaMs === null) return ''
+
+    const seconds = Math.ceil(event.etaMs / 1000)
+    if (seconds <= 1) return 'Almost done...'
+    return `About ${seconds} seconds remaining`
+  }
+
   /**
    * Inject spinner animation
    */
@@ -250,5 +314,7 @@ export class LoadingComponent {
    */
   destroy(): void {
     this.container = null
+    this.steps = []
+    this.etaEl = null
   }
 }
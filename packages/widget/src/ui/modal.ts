@@ -8,6 +8,8 @@ export type ModalView = 'upload' | 'loading' | 'result' | 'error'
 export interface ModalOptions {
   productName?: string
   productImage?: string
+  showPoweredBy?: boolean // false on white-label plans
+  logoUrl?: string | null // Merchant logo shown in the header
 }
 
 export class TryOnModal {
@@ -16,9 +18,11 @@ export class TryOnModal {
   private contentContainer: HTMLDivElement | null = null
   private currentView: ModalView = 'upload'
   private onClose: () => void
+  private options: ModalOptions
 
   constructor(onClose: () => void, options: ModalOptions = {}) {
     this.onClose = onClose
+    this.options = options
   }
 
   /**
@@ -52,6 +56,10 @@ export class TryOnModal {
     this.modal.appendChild(this.createHeader())
     this.modal.appendChild(this.contentContainer)
 
+    if (this.options.showPoweredBy !== false) {
+      this.modal.appendChild(this.createFooter())
+    }
+
     this.overlay.appendChild(this.modal)
     document.body.appendChild(this.overlay)
 
@@ -207,12 +215,59 @@ export class TryOnModal {
 
     closeButton.addEventListener('click', () => this.close())
 
-    header.appendChild(title)
+    if (this.options.logoUrl) {
+      const logo = document.createElement('img')
+      logo.src = this.options.logoUrl
+      logo.alt = ''
+      Object.assign(logo.style, {
+        height: '32px',
+        maxWidth: '120px',
+        objectFit: 'contain',
+        marginRight: '12px'
+      })
+
+      const brand = document.createElement('div')
+      Object.assign(brand.style, { display: 'flex', alignItems: 'center' })
+      brand.appendChild(logo)
+      brand.appendChild(title)
+      header.appendChild(brand)
+    } else {
+      header.appendChild(title)
+    }
     header.appendChild(closeButton)
 
     return header
   }
 
+  /**
+   * Create "Powered by" footer (hidden on white-label plans)
+   */
+  private createFooter(): HTMLDivElement {
+    const footer = document.createElement('div')
+    footer.className = 'rf-modal-footer'
+
+    Object.assign(footer.style, {
+      padding: '12px 24px',
+      borderTop: '1px solid #e5e7eb',
+      textAlign: 'center',
+      fontSize: '12px',
+      color: '#9ca3af'
+    })
+
+    const link = document.createElement('a')
+    link.href = 'https://renderedfits.com'
+    link.target = '_blank'
+    link.rel = 'noopener noreferrer'
+    link.textContent = 'Powered by Rendered Fits'
+    Object.assign(link.style, {
+      color: 'inherit',
+      textDecoration: 'none'
+    })
+
+    footer.appendChild(link)
+    return footer
+  }
+
   /**
    * Create content container
    */
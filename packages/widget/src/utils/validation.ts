@@ -24,8 +24,11 @@ export class Validator {
       return { valid: false, error: 'API key must be a string' }
     }
 
-    if (!apiKey.startsWith('rfts_')) {
-      return { valid: false, error: 'Invalid API key format. Must start with "rfts_"' }
+    if (apiKey.startsWith('rfts_')) {
+      // Secret keys still work here, but must not be exposed in storefront pages
+      console.warn('[RenderedFits] A secret API key (rfts_) is embedded in this page. Use your publishable key (rfpk_) instead.')
+    } else if (!apiKey.startsWith('rfpk_')) {
+      return { valid: false, error: 'Invalid API key format. Must start with "rfpk_"' }
     }
 
     if (apiKey.length < 20) {